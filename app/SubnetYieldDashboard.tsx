@@ -271,7 +271,10 @@ import PortfolioOverview from './components/PortfolioOverview';
 import PortfolioPositions from './components/PortfolioPositions';
 import CrossChainYieldComparison from './components/CrossChainYieldComparison';
 import WAVAXDepositCard from './components/WAVAXDepositCard';
+import SwapZapCard from './components/SwapZapCard';
 import { useWeb3 } from './lib/Web3Context';
+import { getTokenInfo } from './lib/token-registry';
+import { formatBps, formatUSD, toUSD } from './lib/units';
 
 interface MetricCardProps {
   title: string;
@@ -336,8 +339,8 @@ const SubnetYieldDashboard: React.FC = () => {
     let total = BigInt(0);
     supportedTokens.forEach(token => {
       const data = tokenYieldData[token];
-      if (data && !data.error) {
-        total += data.rawTVL;
+      if (data && !data.error && data.priceUSD > 0) {
+        total += toUSD(data.rawTVL, getTokenInfo(token)?.decimals ?? 18, data.priceUSD);
       }
     });
     return total;
@@ -356,17 +359,9 @@ const SubnetYieldDashboard: React.FC = () => {
     return count > 0 ? totalAPY / BigInt(count) : BigInt(0);
   };
 
-  const formatTVLFromBigInt = (tvl: bigint) => {
-    const tvlNum = Number(tvl) / 1e18;
-    if (tvlNum >= 1e9) return `$${(tvlNum / 1e9).toFixed(2)}B`;
-    if (tvlNum >= 1e6) return `$${(tvlNum / 1e6).toFixed(2)}M`;
-    if (tvlNum >= 1e3) return `$${(tvlNum / 1e3).toFixed(2)}K`;
-    return `$${tvlNum.toFixed(2)}`;
-  };
+  const formatTVLFromBigInt = (tvlUSD: bigint) => formatUSD(tvlUSD);
 
-  const formatAPYFromBps = (bps: bigint) => {
-    return `${(Number(bps) / 100).toFixed(2)}%`;
-  };
+  const formatAPYFromBps = (bps: bigint) => formatBps(bps);
 
   const totalTVL = calculateTotalTVL();
   const averageAPY = calculateAverageAPY();
@@ -495,6 +490,7 @@ const SubnetYieldDashboard: React.FC = () => {
                 </div>
               </div>
               <WAVAXDepositCard />
+              <SwapZapCard />
             </div>
 
             {/* Cross-Chain Yield Comparison */}
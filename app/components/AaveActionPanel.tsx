@@ -0,0 +1,436 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ArrowDownToLine, ArrowUpFromLine, AlertTriangle, HandCoins, Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useWeb3 } from '../lib/Web3Context';
+import { getTokenInfo } from '../lib/token-registry';
+import { CONTRACT_CONFIG } from '../lib/web3-config';
+import { bpsToPercent, fixedToNumber, formatBps, formatTokenAmount, numberToFixed, parseAmount, toDecimalString } from '../lib/units';
+import AaveService, {
+  AAVE_RISK_CONFIG,
+  AaveAction,
+  AaveActionPreview,
+  AaveRateMode,
+  AaveTxStep,
+} from '../lib/aave-service';
+import PortfolioService from '../lib/portfolio-service';
+import { YIELD_MATH_CONFIG, compoundInterest, projectYield } from '../lib/yield-math';
+import ProjectionChart from './ProjectionChart';
+
+interface AaveActionPanelProps {
+  tokenAddress: string;
+  aaveService: AaveService;
+  onComplete?: () => void;
+}
+
+// Wait this long after the last keystroke before re-reading the preview
+const PREVIEW_DEBOUNCE_MS = 400;
+// AVAX left in the wallet for gas when supplying the native max
+const NATIVE_GAS_RESERVE = parseAmount('0.05');
+
+// Health factor floors offered in the simulator (the first is the service default)
+const HEALTH_FACTOR_FLOORS = [AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR, parseAmount('1.25'), parseAmount('1.5'), parseAmount('2')];
+
+const ACTIONS: Array<{ action: AaveAction; label: string; icon: React.ElementType }> = [
+  { action: 'supply', label: 'Supply', icon: ArrowDownToLine },
+  { action: 'withdraw', label: 'Withdraw', icon: ArrowUpFromLine },
+  { action: 'borrow', label: 'Borrow', icon: HandCoins },
+  { action: 'repay', label: 'Repay', icon: Undo2 },
+];
+
+const STEP_LABELS: Record<AaveTxStep, string> = {
+  approving: 'Approving...',
+  submitting: 'Confirm in wallet...',
+  confirming: 'Waiting for confirmation...',
+};
+
+// Interest a supplied balance earns over a year at a rate in bps, as YieldMath projects it
+const yearlyEarnings = (supplied: bigint, aprBps: bigint): bigint =>
+  compoundInterest(supplied, aprBps, YIELD_MATH_CONFIG.SECONDS_PER_YEAR) - supplied;
+
+const AaveActionPanel: React.FC<AaveActionPanelProps> = ({ tokenAddress, aaveService, onComplete }) => {
+  const { account, isConnected, chainId } = useWeb3();
+  const [action, setAction] = useState<AaveAction>('supply');
+  const [useNative, setUseNative] = useState(false);
+  const [rateMode, setRateMode] = useState<AaveRateMode>('variable');
+  const [useATokens, setUseATokens] = useState(false);
+  const [minHealthFactor, setMinHealthFactor] = useState<bigint>(AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR);
+  const [amountInput, setAmountInput] = useState('');
+  const [isMax, setIsMax] = useState(false);
+  const [preview, setPreview] = useState<AaveActionPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [txStep, setTxStep] = useState<AaveTxStep | null>(null);
+
+  const tokenInfo = getTokenInfo(tokenAddress);
+  const decimals = tokenInfo?.decimals ?? 18;
+  const isWAVAX = tokenAddress.toLowerCase() === CONTRACT_CONFIG.TOKENS.WAVAX.toLowerCase();
+  const isDebtAction = action === 'borrow' || action === 'repay';
+  const native = useNative && !isDebtAction;
+  const symbol = native ? 'AVAX' : tokenInfo?.symbol || 'tokens';
+  const canTransact = isConnected && chainId === 43113 && !!account;
+
+  // Amount typed into the input, or null while it does not parse
+  const parseInput = (): bigint | null => {
+    try {
+      return parseAmount(amountInput || '0', decimals);
+    } catch {
+      return null;
+    }
+  };
+
+  // Re-read the preview whenever the inputs settle; until then the old one cannot be submitted
+  useEffect(() => {
+    if (!account) {
+      setPreview(null);
+      setIsPreviewing(false);
+      return;
+    }
+
+    const parsed = parseInput();
+    if (!isMax && parsed === null) {
+      setPreview(null);
+      setIsPreviewing(false);
+      return;
+    }
+    const amount: bigint | 'max' = isMax ? 'max' : parsed!;
+
+    let cancelled = false;
+    setIsPreviewing(true);
+    const timer = setTimeout(async () => {
+      try {
+        let result: AaveActionPreview;
+        if (action === 'supply') {
+          result = await aaveService.previewSupply(account, tokenAddress, amount as bigint, native);
+        } else if (action === 'withdraw') {
+          result = await aaveService.previewWithdraw(account, tokenAddress, amount, native, minHealthFactor);
+        } else if (action === 'borrow') {
+          result = await aaveService.previewBorrow(account, tokenAddress, amount as bigint, rateMode, minHealthFactor);
+        } else {
+          result = await aaveService.previewRepay(account, tokenAddress, amount, rateMode, useATokens, minHealthFactor);
+        }
+        if (!cancelled) setPreview(result);
+      } catch (err) {
+        console.error('Error previewing Aave action:', err);
+        if (!cancelled) setPreview(null);
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [aaveService, account, tokenAddress, action, native, rateMode, useATokens, minHealthFactor, amountInput, isMax, decimals]);
+
+  const switchAction = (next: AaveAction) => {
+    setPreview(null);
+    setAction(next);
+    setAmountInput('');
+    setIsMax(false);
+  };
+
+  // Withdraw and repay use the protocol's max so interest accrued before execution is included
+  const handleMax = () => {
+    if (!preview) return;
+    if (action === 'withdraw' || action === 'repay') {
+      setIsMax(true);
+      setAmountInput(toDecimalString(preview.maxAmount, decimals));
+      return;
+    }
+    const max = native ? preview.maxAmount - NATIVE_GAS_RESERVE : preview.maxAmount;
+    setAmountInput(toDecimalString(max > BigInt(0) ? max : BigInt(0), decimals));
+  };
+
+  // Only sign what the preview on screen was computed for
+  const previewMatchesInput = (current: AaveActionPreview): boolean =>
+    current.action === action &&
+    current.native === native &&
+    current.rateMode === (isDebtAction ? rateMode : null) &&
+    current.useATokens === (action === 'repay' && useATokens) &&
+    current.isMax === isMax &&
+    (isMax || current.amount === parseInput());
+
+  const handleSubmit = async () => {
+    if (!preview || preview.error || isPreviewing || !previewMatchesInput(preview)) return;
+
+    try {
+      if (action === 'supply') {
+        if (native) {
+          await aaveService.supplyNative(preview.amount, setTxStep);
+        } else {
+          await aaveService.supply(tokenAddress, preview.amount, setTxStep);
+        }
+      } else if (action === 'withdraw') {
+        if (native) {
+          await aaveService.withdrawNative(isMax ? 'max' : preview.amount, setTxStep);
+        } else if (isMax) {
+          await aaveService.withdrawMax(tokenAddress, setTxStep);
+        } else {
+          await aaveService.withdraw(tokenAddress, preview.amount, setTxStep);
+        }
+      } else if (action === 'borrow') {
+        await aaveService.borrow(tokenAddress, preview.amount, rateMode, setTxStep);
+      } else if (useATokens) {
+        await aaveService.repayWithATokens(tokenAddress, isMax ? 'max' : preview.amount, rateMode, setTxStep);
+      } else if (isMax) {
+        await aaveService.repayMax(tokenAddress, rateMode, setTxStep);
+      } else {
+        await aaveService.repay(tokenAddress, preview.amount, rateMode, setTxStep);
+      }
+
+      const verb = { supply: 'Supplied', withdraw: 'Withdrew', borrow: 'Borrowed', repay: 'Repaid' }[action];
+      toast.success(`${verb} ${formatTokenAmount(preview.amount, decimals)} ${symbol}`);
+      setAmountInput('');
+      setIsMax(false);
+      onComplete?.();
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setTxStep(null);
+    }
+  };
+
+  const hasAmount = !!preview && preview.amount > BigInt(0);
+  const healthFactorDrops = !!preview && preview.newHealthFactor < preview.currentHealthFactor;
+  const minHealthFactorNumber = AaveService.healthFactorToNumber(minHealthFactor);
+  const formatLiquidationPrice = (price: bigint | null) => (price === null ? '—' : AaveService.formatBaseCurrency(price));
+
+  let balanceLabel = 'Wallet';
+  let balance = preview?.walletBalance;
+  if (action === 'withdraw' || (action === 'repay' && useATokens)) {
+    balanceLabel = 'Supplied';
+    balance = preview?.currentSupplied;
+  } else if (action === 'borrow') {
+    balanceLabel = 'Available';
+    balance = preview?.maxAmount;
+  }
+
+  let submitLabel = ACTIONS.find(option => option.action === action)!.label;
+  if (isMax && action === 'withdraw') submitLabel = 'Withdraw All';
+  if (isMax && action === 'repay') submitLabel = 'Repay All';
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-[#3b4754]">
+      {/* Action Tabs */}
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap gap-2">
+          {ACTIONS.map(({ action: option, label, icon: Icon }) => (
+            <button
+              key={option}
+              onClick={() => switchAction(option)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                action === option ? 'bg-[#00ffaa] text-black' : 'bg-[#283039] text-white hover:bg-[#374151]'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {isWAVAX && !isDebtAction && (
+          <label className="flex items-center gap-2 text-[#9cabba] text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useNative}
+              onChange={(e) => setUseNative(e.target.checked)}
+              className="accent-[#00ffaa]"
+            />
+            Use native AVAX
+          </label>
+        )}
+      </div>
+
+      {/* Borrow and Repay Options */}
+      {isDebtAction && (
+        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+          <div className="flex gap-2">
+            {(['variable', 'stable'] as AaveRateMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setRateMode(mode)}
+                className={`px-3 py-1 rounded-lg capitalize transition-colors ${
+                  rateMode === mode ? 'bg-[#00ffaa]/20 text-[#00ffaa] border border-[#00ffaa]/30' : 'bg-[#283039] text-[#9cabba] border border-[#3b4754]'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          {action === 'repay' && (
+            <label className="flex items-center gap-2 text-[#9cabba] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useATokens}
+                onChange={(e) => setUseATokens(e.target.checked)}
+                className="accent-[#00ffaa]"
+              />
+              Repay with aTokens
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Amount Input */}
+      <div>
+        <div className="flex items-center justify-between mb-2 text-sm">
+          <span className="text-[#9cabba]">
+            {balanceLabel}: {balance !== undefined ? `${formatTokenAmount(balance, decimals)} ${symbol}` : '—'}
+          </span>
+          <button
+            onClick={handleMax}
+            disabled={!preview}
+            className="text-[#00ffaa] text-xs hover:text-[#00ffaa]/80 disabled:opacity-50 transition-colors"
+          >
+            MAX
+          </button>
+        </div>
+        <input
+          type="number"
+          value={amountInput}
+          onChange={(e) => {
+            setAmountInput(e.target.value);
+            setIsMax(false);
+          }}
+          placeholder="0.0"
+          className="w-full p-3 bg-[#283039] border border-[#3b4754] rounded-lg text-white font-medium placeholder-[#9cabba] focus:border-[#00ffaa]/50 focus:outline-none transition-colors"
+        />
+      </div>
+
+      {/* Preview */}
+      {preview && hasAmount && (
+        <div className="space-y-2 p-3 bg-[#283039] rounded-lg text-sm">
+          {(!isDebtAction || preview.useATokens) && (
+            <div className="flex justify-between">
+              <span className="text-[#9cabba]">Supplied Balance:</span>
+              <span className="text-white">
+                {formatTokenAmount(preview.currentSupplied, decimals)} → {formatTokenAmount(preview.newSupplied, decimals)}
+              </span>
+            </div>
+          )}
+          {isDebtAction ? (
+            <>
+              <div className="flex justify-between">
+                <span className="text-[#9cabba] capitalize">{rateMode} Debt:</span>
+                <span className="text-white">
+                  {formatTokenAmount(preview.currentDebt, decimals)} → {formatTokenAmount(preview.newDebt, decimals)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[#9cabba]">Borrow APR:</span>
+                <span className="text-white">
+                  {AaveService.formatAPY(preview.currentBorrowAPR)} → {AaveService.formatAPY(preview.newBorrowAPR)}
+                </span>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex justify-between">
+                <span className="text-[#9cabba]">Supply APR:</span>
+                <span className="text-white">
+                  {AaveService.formatAPY(preview.currentSupplyAPR)} → {AaveService.formatAPY(preview.newSupplyAPR)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-[#9cabba]">Earnings in 1 year:</span>
+                <span className="text-white">
+                  {formatTokenAmount(yearlyEarnings(preview.newSupplied, preview.newSupplyAPR), decimals)} {tokenInfo?.symbol}
+                </span>
+              </div>
+              {preview.newSupplied > BigInt(0) && (
+                <ProjectionChart
+                  projection={projectYield(
+                    fixedToNumber(preview.newSupplied, decimals),
+                    { kind: 'APR', percent: bpsToPercent(preview.newSupplyAPR) },
+                    YIELD_MATH_CONFIG.DAYS_PER_YEAR
+                  )}
+                  formatValue={value => `${formatTokenAmount(numberToFixed(value, decimals), decimals)} ${tokenInfo?.symbol ?? ''}`}
+                  label="Supplied balance over a year"
+                />
+              )}
+            </>
+          )}
+          <div className="flex justify-between">
+            <span className="text-[#9cabba]">Health Factor:</span>
+            <span className={healthFactorDrops && preview.newHealthFactor < minHealthFactorNumber ? 'text-red-400' : 'text-white'}>
+              {PortfolioService.formatHealthFactor(preview.currentHealthFactor)} → {PortfolioService.formatHealthFactor(preview.newHealthFactor)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-[#9cabba]">LTV (max {formatBps(preview.projected.maxLoanToValue)}):</span>
+            <span className="text-white">
+              {formatBps(preview.current.loanToValue)} → {formatBps(preview.projected.loanToValue)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-[#9cabba]">{tokenInfo?.symbol || 'Token'} Liquidation Price:</span>
+            <span className="text-white">
+              {formatLiquidationPrice(preview.current.liquidationPrice)} → {formatLiquidationPrice(preview.projected.liquidationPrice)}
+            </span>
+          </div>
+          {preview.needsApproval && !preview.error && (
+            <p className="text-[#9cabba] text-xs">
+              An approval transaction will be sent first.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Health Factor Floor */}
+      {action !== 'supply' && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-[#9cabba]">Minimum health factor:</span>
+          <select
+            value={minHealthFactor.toString()}
+            onChange={(e) => setMinHealthFactor(BigInt(e.target.value))}
+            className="px-2 py-1 bg-[#283039] border border-[#3b4754] rounded-lg text-white focus:border-[#00ffaa]/50 focus:outline-none"
+          >
+            {HEALTH_FACTOR_FLOORS.map(floor => (
+              <option key={floor.toString()} value={floor.toString()}>
+                {AaveService.formatHealthFactor(floor)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Validation and Connection Notices */}
+      {!canTransact ? (
+        <div className="flex items-center gap-2 p-3 bg-orange-900/20 border border-orange-600 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-orange-400" />
+          <span className="text-orange-400 text-sm">
+            {!isConnected ? 'Connect wallet to use Aave' : 'Switch to Fuji testnet to use Aave'}
+          </span>
+        </div>
+      ) : preview?.error && (hasAmount || isMax || amountInput !== '') && (
+        <div className="flex items-center gap-2 p-3 bg-red-900/20 border border-red-600 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400" />
+          <span className="text-red-400 text-sm">{preview.error}</span>
+        </div>
+      )}
+
+      {/* Submit */}
+      <button
+        onClick={handleSubmit}
+        disabled={!canTransact || !preview || !!preview.error || isPreviewing || !previewMatchesInput(preview) || txStep !== null}
+        className="w-full flex items-center justify-center gap-2 p-3 bg-[#00ffaa]/20 hover:bg-[#00ffaa]/30 disabled:opacity-50 disabled:cursor-not-allowed text-[#00ffaa] font-medium rounded-lg border border-[#00ffaa]/30 transition-all duration-200"
+      >
+        {txStep ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {STEP_LABELS[txStep]}
+          </>
+        ) : (
+          <>
+            {preview?.needsApproval ? 'Approve & ' : ''}
+            {submitLabel} {symbol}
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default AaveActionPanel;
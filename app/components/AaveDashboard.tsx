@@ -14,13 +14,15 @@ import {
   ExternalLink
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import { TOKEN_INFO, CONTRACT_CONFIG } from '../lib/web3-config';
+import { CONTRACT_CONFIG } from '../lib/web3-config';
+import { getTokenInfo } from '../lib/token-registry';
+import { formatBps, formatUSD, toUSD } from '../lib/units';
 import AaveService, { UserAccountData } from '../lib/aave-service';
 import EnhancedAaveCard from './EnhancedAaveCard';
 
 const AaveDashboard: React.FC = () => {
   const { 
-    provider, 
+    readProvider, 
     account, 
     isConnected, 
     chainId, 
@@ -36,13 +38,9 @@ const AaveDashboard: React.FC = () => {
 
   // Initialize Aave service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new AaveService(provider);
-      setAaveService(service);
-    } else {
-      setAaveService(null);
-    }
-  }, [provider, chainId]);
+    const service = new AaveService(readProvider);
+    setAaveService(service);
+  }, [readProvider]);
 
   // Load user account data
   const loadUserData = async () => {
@@ -79,12 +77,14 @@ const AaveDashboard: React.FC = () => {
     let totalWeight = BigInt(0);
     let activeTokens = 0;
 
+    // TVL is summed in USD; tokens without a price cannot be added to other tokens
     supportedTokens.forEach(tokenAddress => {
       const data = tokenYieldData[tokenAddress];
-      if (data && !data.error && data.rawTVL > 0) {
-        totalTVL += data.rawTVL;
-        weightedAPY += data.rawAPY * data.rawTVL;
-        totalWeight += data.rawTVL;
+      if (data && !data.error && data.rawTVL > 0 && data.priceUSD > 0) {
+        const tvlUSD = toUSD(data.rawTVL, getTokenInfo(tokenAddress)?.decimals ?? 18, data.priceUSD);
+        totalTVL += tvlUSD;
+        weightedAPY += data.rawAPY * tvlUSD;
+        totalWeight += tvlUSD;
         activeTokens++;
       }
     });
@@ -100,12 +100,14 @@ const AaveDashboard: React.FC = () => {
   };
 
   const metrics = calculateAggregatedMetrics();
-  const formatTVL = (tvl: bigint) => AaveService.formatTVL(tvl);
+  const formatTVL = (tvlUSD: bigint) => formatUSD(tvlUSD);
   const formatAPY = (apy: bigint) => AaveService.formatAPY(apy);
   const formatHealthFactor = (hf: bigint) => AaveService.formatHealthFactor(hf);
 
+  const formatBaseCurrency = (value: bigint) => AaveService.formatBaseCurrency(value);
+
   const getHealthFactorColor = (healthFactor: bigint) => {
-    const hf = Number(healthFactor) / 1e18;
+    const hf = AaveService.healthFactorToNumber(healthFactor);
     if (hf >= 2) return 'text-green-400';
     if (hf >= 1.5) return 'text-yellow-400';
     if (hf >= 1.1) return 'text-orange-400';
@@ -113,7 +115,7 @@ const AaveDashboard: React.FC = () => {
   };
 
   const getHealthFactorStatus = (healthFactor: bigint) => {
-    const hf = Number(healthFactor) / 1e18;
+    const hf = AaveService.healthFactorToNumber(healthFactor);
     if (hf >= 2) return { text: 'Healthy', icon: CheckCircle };
     if (hf >= 1.5) return { text: 'Good', icon: CheckCircle };
     if (hf >= 1.1) return { text: 'Caution', icon: AlertTriangle };
@@ -165,11 +167,11 @@ const AaveDashboard: React.FC = () => {
           <div>
             <p className="text-orange-400 font-medium">
               {!isConnected 
-                ? 'Connect your wallet to view Aave data and user positions' 
-                : 'Switch to Avalanche Fuji testnet to access Aave V3 data'}
+                ? 'Connect your wallet to view your Aave positions' 
+                : 'Switch to Avalanche Fuji testnet to view your Aave positions'}
             </p>
             <p className="text-orange-300 text-sm mt-1">
-              Live data requires connection to Fuji testnet (Chain ID: 43113)
+              Market data is read from the public Fuji RPC (Chain ID: 43113)
             </p>
           </div>
         </div>
@@ -253,16 +255,13 @@ const AaveDashboard: React.FC = () => {
             <div>
               <p className="text-[#9cabba] text-sm">Total Collateral</p>
               <p className="text-white text-xl font-bold">
-                {userAccountData ? 
-                  `$${(Number(userAccountData.totalCollateralETH) / 1e18).toFixed(2)}` : 
-                  '$0.00'
-                }
+                {userAccountData ? formatBaseCurrency(userAccountData.totalCollateralBase) : '$0.00'}
               </p>
             </div>
           </div>
           <p className="text-[#9cabba] text-xs">
-            {userAccountData && userAccountData.totalDebtETH > 0 ? 
-              `Debt: $${(Number(userAccountData.totalDebtETH) / 1e18).toFixed(2)}` :
+            {userAccountData && userAccountData.totalDebtBase > 0 ? 
+              `Debt: ${formatBaseCurrency(userAccountData.totalDebtBase)}` :
               'No active positions'
             }
           </p>
@@ -270,7 +269,7 @@ const AaveDashboard: React.FC = () => {
       </div>
 
       {/* User Position Details */}
-      {userAccountData && (userAccountData.totalCollateralETH > 0 || userAccountData.totalDebtETH > 0) && (
+      {userAccountData && (userAccountData.totalCollateralBase > 0 || userAccountData.totalDebtBase > 0) && (
         <div className="bg-[#1b2127] border border-[#3b4754] rounded-lg p-6">
           <h3 className="text-white text-lg font-bold mb-4 flex items-center gap-2">
             <Users className="w-5 h-5" />
@@ -285,13 +284,13 @@ const AaveDashboard: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-white text-sm">Total Value:</span>
                   <span className="text-green-400 font-medium">
-                    ${(Number(userAccountData.totalCollateralETH) / 1e18).toFixed(2)}
+                    {formatBaseCurrency(userAccountData.totalCollateralBase)}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-white text-sm">LTV:</span>
                   <span className="text-white">
-                    {(Number(userAccountData.ltv) / 100).toFixed(1)}%
+                    {formatBps(userAccountData.ltv, 1)}
                   </span>
                 </div>
               </div>
@@ -304,13 +303,13 @@ const AaveDashboard: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-white text-sm">Total Debt:</span>
                   <span className="text-red-400 font-medium">
-                    ${(Number(userAccountData.totalDebtETH) / 1e18).toFixed(2)}
+                    {formatBaseCurrency(userAccountData.totalDebtBase)}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-white text-sm">Available to Borrow:</span>
                   <span className="text-white">
-                    ${(Number(userAccountData.availableBorrowsETH) / 1e18).toFixed(2)}
+                    {formatBaseCurrency(userAccountData.availableBorrowsBase)}
                   </span>
                 </div>
               </div>
@@ -329,7 +328,7 @@ const AaveDashboard: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-white text-sm">Liquidation Threshold:</span>
                   <span className="text-white">
-                    {(Number(userAccountData.currentLiquidationThreshold) / 100).toFixed(1)}%
+                    {formatBps(userAccountData.currentLiquidationThreshold, 1)}
                   </span>
                 </div>
               </div>
@@ -15,13 +15,14 @@ import {
   Clock
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
+import { EVENT_CONFIG, isRefreshBlock } from '../lib/yieldhub-events';
 import SubnetService, { 
   SubnetYieldData, 
   type CrossChainYieldComparison 
 } from '../lib/subnet-service';
 
 const CrossChainYieldComparison: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, yieldHubEvents, account, isConnected, chainId, supportedTokens } = useWeb3();
   const [subnetService, setSubnetService] = useState<SubnetService | null>(null);
   const [yieldData, setYieldData] = useState<SubnetYieldData[]>([]);
   const [comparisons, setComparisons] = useState<CrossChainYieldComparison[]>([]);
@@ -35,13 +36,10 @@ const CrossChainYieldComparison: React.FC = () => {
 
   // Initialize subnet service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new SubnetService(provider);
-      setSubnetService(service);
-    } else {
-      setSubnetService(null);
-    }
-  }, [provider, chainId]);
+    const service = new SubnetService(readProvider);
+    setSubnetService(service);
+    return () => service.stopTracking();
+  }, [readProvider]);
 
   // Check subnet availability
   const checkSubnetAvailability = async () => {
@@ -69,12 +67,6 @@ const CrossChainYieldComparison: React.FC = () => {
       if (useSimulated || !subnetAvailability.isAvailable) {
         // Use simulated data for demo
         console.log('Using simulated subnet data for demo');
-        const supportedTokens = [
-          '0xd00ae08403B9bbb9124bB305C09058E32C39A48c', // WAVAX
-          '0x28A8E6e41F84e62284970E4bc0867cEe2AAd0DA4', // WETH
-          '0x407287b03D1167593AF113d32093942be13A535f'  // USDT
-        ];
-
         for (const tokenAddress of supportedTokens) {
           const simulatedData = await subnetService.getSimulatedSubnetData(tokenAddress);
           allYieldData.push(simulatedData);
@@ -84,6 +76,7 @@ const CrossChainYieldComparison: React.FC = () => {
             tokenAddress,
             tokenSymbol: simulatedData.tokenSymbol,
             cChainAPY: Number(simulatedData.aaveAPY) / 100,
+            cChainProtocol: 'Aave V3',
             subnetAPY: Number(simulatedData.subnetAPY) / 100,
             optimizedAPY: Number(simulatedData.optimizedAPY) / 100,
             yieldDifference: (Number(simulatedData.subnetAPY) - Number(simulatedData.aaveAPY)) / 100,
@@ -124,11 +117,15 @@ const CrossChainYieldComparison: React.FC = () => {
     if (!subnetService || !account) return;
 
     try {
-      const requestId = await subnetService.requestSubnetYield(tokenAddress);
+      const requestId = await subnetService.requestSubnetYield(tokenAddress, (request) => {
+        if (request.status === 'completed') {
+          loadYieldData();
+        } else {
+          setError(`Subnet request for ${request.tokenAddress} ${request.status === 'timeout' ? 'timed out' : request.status}`);
+        }
+      });
       if (requestId) {
         console.log(`AWM request sent for ${tokenAddress}: ${requestId}`);
-        // Refresh data after a delay to allow for AWM processing
-        setTimeout(() => loadYieldData(), 10000); // 10 seconds
       }
     } catch (error: any) {
       console.error('Error requesting subnet data:', error);
@@ -147,18 +144,18 @@ const CrossChainYieldComparison: React.FC = () => {
     if (subnetService && subnetAvailability) {
       loadYieldData();
     }
-  }, [subnetService, subnetAvailability]);
+  }, [subnetService, subnetAvailability, supportedTokens]);
 
-  // Auto-refresh every 2 minutes
+  // Reload when a subnet response lands, plus a slow block-based refresh
   useEffect(() => {
     if (!subnetService) return;
 
-    const interval = setInterval(() => {
-      loadYieldData();
-    }, 120000);
-
-    return () => clearInterval(interval);
-  }, [subnetService]);
+    return yieldHubEvents.subscribe(event => {
+      if (event.type === 'SubnetResponse' || isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.SUBNET)) {
+        loadYieldData();
+      }
+    });
+  }, [subnetService, yieldHubEvents]);
 
   const getTrendIcon = (difference: number) => {
     if (difference > 0) return <TrendingUp className="w-4 h-4 text-green-400" />;
@@ -225,8 +222,8 @@ const CrossChainYieldComparison: React.FC = () => {
           <AlertTriangle className="w-4 h-4 text-orange-400" />
           <span className="text-orange-400 text-sm font-medium">
             {!isConnected 
-              ? 'Connect your wallet to access cross-chain yield data' 
-              : 'Switch to Fuji testnet for live cross-chain comparison'}
+              ? 'Read-only mode: connect your wallet to request cross-chain yield data' 
+              : 'Switch to Fuji testnet to request cross-chain yield data'}
           </span>
         </div>
       )}
@@ -285,13 +282,13 @@ const CrossChainYieldComparison: React.FC = () => {
 
               {/* Yield Comparison - Cleaner Layout */}
               <div className="space-y-4 mb-6">
-                {/* C-Chain (Aave) */}
+                {/* C-Chain (best registered source) */}
                 <div className="flex items-center justify-between p-4 bg-white/5 rounded-lg border border-white/10">
                   <div className="flex items-center gap-3">
                     <div className="w-3 h-3 bg-green-400 rounded-full"></div>
                     <div>
                       <span className="text-white text-sm font-semibold">C-Chain</span>
-                      <p className="text-white/60 text-xs">Aave V3</p>
+                      <p className="text-white/60 text-xs">{comparison.cChainProtocol}</p>
                     </div>
                   </div>
                   <span className="text-green-400 text-lg font-bold">{comparison.cChainAPY.toFixed(2)}%</span>
@@ -386,9 +383,7 @@ const CrossChainYieldComparison: React.FC = () => {
           <Network className="w-12 h-12 text-[#777] mx-auto mb-4" />
           <h3 className="text-white text-lg font-medium mb-2">No Cross-Chain Data Available</h3>
           <p className="text-[#9cabba] text-sm mb-4">
-            {!isConnected || chainId !== 43113 
-              ? 'Connect to Fuji testnet to view cross-chain yield comparisons'
-              : 'Unable to load cross-chain yield data at this time'}
+            Unable to load cross-chain yield data at this time
           </p>
           <button
             onClick={() => loadYieldData(true)}
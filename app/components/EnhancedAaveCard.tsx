@@ -14,38 +14,45 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import { TOKEN_INFO } from '../lib/web3-config';
+import { EVENT_CONFIG, isRefreshBlock } from '../lib/yieldhub-events';
+import { getTokenInfo } from '../lib/token-registry';
 import AaveService, { 
   AaveReserveData, 
   EnhancedAPYData, 
+  ProjectedEarnings,
   RiskMetrics 
 } from '../lib/aave-service';
+import { rayRateToApyBps } from '../lib/yield-math';
+import { formatTokenAmount, numberToFixed, parseAmount } from '../lib/units';
+import AaveActionPanel from './AaveActionPanel';
+import ProjectionChart from './ProjectionChart';
 
 interface EnhancedAaveCardProps {
   tokenAddress: string;
 }
 
+// Example deposit the card projects at the current supply rate
+const PROJECTION_DEPOSIT = '1000';
+const PROJECTION_DAYS = 365;
+
 const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, yieldHubEvents, account, isConnected, chainId, tokenYieldData } = useWeb3();
   const [aaveService, setAaveService] = useState<AaveService | null>(null);
   const [reserveData, setReserveData] = useState<AaveReserveData | null>(null);
   const [apyData, setApyData] = useState<EnhancedAPYData | null>(null);
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
+  const [projected, setProjected] = useState<ProjectedEarnings | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
-  const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
+  const tokenInfo = getTokenInfo(tokenAddress);
 
   // Initialize Aave service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new AaveService(provider);
-      setAaveService(service);
-    } else {
-      setAaveService(null);
-    }
-  }, [provider, chainId]);
+    const service = new AaveService(readProvider);
+    setAaveService(service);
+  }, [readProvider]);
 
   // Load Aave data
   const loadAaveData = async () => {
@@ -55,15 +62,21 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
     setError(null);
 
     try {
-      const [reserve, apy, risk] = await Promise.all([
+      const [reserve, apy, risk, projection] = await Promise.all([
         aaveService.getTokenReserveData(tokenAddress),
         aaveService.getEnhancedAPYData(tokenAddress),
-        aaveService.getRiskMetrics(tokenAddress)
+        aaveService.getRiskMetrics(tokenAddress),
+        aaveService.calculateProjectedEarnings(
+          tokenAddress,
+          parseAmount(PROJECTION_DEPOSIT, tokenInfo.decimals),
+          PROJECTION_DAYS
+        ),
       ]);
 
       setReserveData(reserve);
       setApyData(apy);
       setRiskMetrics(risk);
+      setProjected(projection);
       setLastUpdate(new Date());
     } catch (err: any) {
       console.error('Error loading Aave data:', err);
@@ -80,20 +93,25 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
     }
   }, [aaveService]);
 
-  // Auto-refresh every 30 seconds
+  // Reload when YieldHub records new Aave data for this token, plus a block-based refresh
   useEffect(() => {
     if (!aaveService) return;
 
-    const interval = setInterval(loadAaveData, 30000);
-    return () => clearInterval(interval);
-  }, [aaveService]);
+    return yieldHubEvents.subscribe(event => {
+      const isOwnUpdate = event.type === 'AaveUpdated' && event.token.toLowerCase() === tokenAddress.toLowerCase();
+      if (isOwnUpdate || isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.MARKET)) {
+        loadAaveData();
+      }
+    });
+  }, [aaveService, yieldHubEvents, tokenAddress]);
 
   if (!tokenInfo) {
     return null;
   }
 
   const formatAPY = (rate: bigint) => AaveService.formatAPY(rate);
-  const formatTVL = (tvl: bigint) => AaveService.formatTVL(tvl);
+  const priceUSD = tokenYieldData[tokenAddress]?.priceUSD || undefined;
+  const formatTVL = (tvl: bigint) => AaveService.formatTVL(tvl, tokenInfo.decimals, priceUSD);
   const formatUtilization = (rate: bigint) => AaveService.formatUtilization(rate);
   const getRiskLevel = (score: bigint) => AaveService.getRiskLevel(score);
 
@@ -142,7 +160,7 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
         <div className="flex items-center gap-2 p-3 bg-orange-900/20 border border-orange-600 rounded-lg">
           <AlertTriangle className="w-4 h-4 text-orange-400" />
           <span className="text-orange-400 text-sm font-medium">
-            {!isConnected ? 'Connect wallet for live Aave data' : 'Switch to Fuji testnet'}
+            {!isConnected ? 'Read-only mode: connect wallet to update Aave data' : 'Switch to Fuji testnet to update Aave data'}
           </span>
         </div>
       )}
@@ -175,8 +193,9 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
                 <span className="text-[#9cabba] text-sm">Supply APY</span>
               </div>
               <p className="text-white text-xl font-bold">
-                {formatAPY(apyData.currentAPY)}
+                {formatAPY(rayRateToApyBps(reserveData.liquidityRate))}
               </p>
+              <p className="text-[#9cabba] text-xs">{formatAPY(apyData.currentAPY)} APR, compounded per second</p>
             </div>
 
             {/* Borrow APY */}
@@ -186,8 +205,9 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
                 <span className="text-[#9cabba] text-sm">Borrow APY</span>
               </div>
               <p className="text-white text-xl font-bold">
-                {formatAPY(apyData.borrowAPY)}
+                {formatAPY(rayRateToApyBps(reserveData.variableBorrowRate))}
               </p>
+              <p className="text-[#9cabba] text-xs">{formatAPY(apyData.borrowAPY)} APR, compounded per second</p>
             </div>
 
             {/* Total Supply */}
@@ -345,6 +365,22 @@ const EnhancedAaveCard: React.FC<EnhancedAaveCardProps> = ({ tokenAddress }) =>
         </>
       )}
 
+      {/* Projection, from the Pool's supply rate */}
+      {!isLoading && projected && (
+        <div className="pt-4 border-t border-[#3b4754]">
+          <ProjectionChart
+            projection={projected.projection}
+            formatValue={value => `${formatTokenAmount(numberToFixed(value, tokenInfo.decimals), tokenInfo.decimals)} ${tokenInfo.symbol}`}
+            label={`${PROJECTION_DEPOSIT} ${tokenInfo.symbol} supplied for ${PROJECTION_DAYS} days`}
+          />
+        </div>
+      )}
+
+      {/* Supply / Withdraw */}
+      {aaveService && (
+        <AaveActionPanel tokenAddress={tokenAddress} aaveService={aaveService} onComplete={loadAaveData} />
+      )}
+
       {/* Footer */}
       <div className="flex items-center justify-between pt-4 border-t border-[#3b4754] text-xs text-[#9cabba]">
         <div className="flex items-center gap-2">
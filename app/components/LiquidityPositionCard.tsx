@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { Droplets, ExternalLink, Loader2, LogOut } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useWeb3 } from '../lib/Web3Context';
+import { getExplorerAddressUrl } from '../lib/web3-config';
+import UniswapDepositService, { UNISWAP_V2_CONFIG } from '../lib/uniswap-service';
+import PortfolioService, { PortfolioLiquidityPosition } from '../lib/portfolio-service';
+import { formatBps, formatTokenAmount } from '../lib/units';
+
+interface LiquidityPositionCardProps {
+  position: PortfolioLiquidityPosition;
+  onRemoved?: () => void;
+}
+
+const REMOVE_PERCENTAGES = [25, 50, 75, 100];
+const SLIPPAGE_OPTIONS = [0.5, 1, 2];
+
+const LiquidityPositionCard: React.FC<LiquidityPositionCardProps> = ({ position, onRemoved }) => {
+  const { readProvider } = useWeb3();
+  const liquidityService = useMemo(() => new UniswapDepositService(readProvider), [readProvider]);
+  const [removePercent, setRemovePercent] = useState(100);
+  const [slippageTolerance, setSlippageTolerance] = useState(1);
+  const [receiveNative, setReceiveNative] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const wavax = UNISWAP_V2_CONFIG.WAVAX_ADDRESS.toLowerCase();
+  const hasWAVAX = position.token0.toLowerCase() === wavax || position.token1.toLowerCase() === wavax;
+  const symbolFor = (token: string, symbol: string) =>
+    receiveNative && token.toLowerCase() === wavax ? 'AVAX' : symbol;
+
+  const liquidity = removePercent === 100
+    ? position.lpBalance
+    : (position.lpBalance * BigInt(removePercent)) / BigInt(100);
+  const preview = UniswapDepositService.previewRemoveLiquidity(
+    position,
+    liquidity,
+    BigInt(Math.round(slippageTolerance * 100))
+  );
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const result = await liquidityService.removeLiquidity(
+        position.pairAddress,
+        liquidity,
+        slippageTolerance,
+        receiveNative
+      );
+
+      if (result.success) {
+        const amount0 = result.amount0 ?? preview.amount0;
+        const amount1 = result.amount1 ?? preview.amount1;
+        toast.success(
+          `Withdrew ${formatTokenAmount(amount0, position.decimals0)} ${symbolFor(position.token0, position.symbol0)} and ` +
+          `${formatTokenAmount(amount1, position.decimals1)} ${symbolFor(position.token1, position.symbol1)}`
+        );
+        onRemoved?.();
+      } else {
+        toast.error(`Withdrawal failed: ${result.error}`);
+      }
+    } catch (error: any) {
+      toast.error(`Withdrawal failed: ${error.message}`);
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#1b2127] border border-[#3b4754] rounded-lg p-4 hover:border-[#00ffaa] transition-all duration-300">
+      {/* Pair Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-3">
+          <Droplets className="w-5 h-5 text-[#00ffaa]" />
+          <div>
+            <h4 className="text-white font-medium">{position.symbol0}/{position.symbol1}</h4>
+            <p className="text-[#9cabba] text-xs">Trader Joe LP</p>
+          </div>
+        </div>
+        <span className="text-[#9cabba] text-xs font-medium">
+          {formatBps(position.poolShareBps)} of pool
+        </span>
+      </div>
+
+      {/* Position Values */}
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between items-center">
+          <span className="text-[#9cabba]">Total Value:</span>
+          <span className="text-white font-medium">{PortfolioService.formatCurrency(position.valueUSD)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-[#9cabba]">Pooled {position.symbol0}:</span>
+          <span className="text-white">{formatTokenAmount(position.amount0, position.decimals0)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-[#9cabba]">Pooled {position.symbol1}:</span>
+          <span className="text-white">{formatTokenAmount(position.amount1, position.decimals1)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-[#9cabba]">LP Tokens:</span>
+          <span className="text-white">{formatTokenAmount(position.lpBalance, 18, 6)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-[#9cabba]">Fees Earned:</span>
+          {position.fees0 !== null && position.fees1 !== null ? (
+            <span
+              className="text-[#00ffaa] font-medium"
+              title={`${formatTokenAmount(position.fees0, position.decimals0)} ${position.symbol0} + ${formatTokenAmount(position.fees1, position.decimals1)} ${position.symbol1}`}
+            >
+              {PortfolioService.formatCurrency(position.feesUSD ?? 0)}
+            </span>
+          ) : (
+            <span className="text-[#777]" title="No deposit found in the recent block range">—</span>
+          )}
+        </div>
+      </div>
+
+      {/* Remove Liquidity */}
+      <div className="mt-4 pt-3 border-t border-[#3b4754] space-y-3">
+        <div className="flex gap-2">
+          {REMOVE_PERCENTAGES.map(percent => (
+            <button
+              key={percent}
+              onClick={() => setRemovePercent(percent)}
+              className={`flex-1 px-2 py-1 text-xs rounded-lg transition-colors ${
+                removePercent === percent ? 'bg-[#00ffaa] text-black' : 'bg-[#283039] text-white hover:bg-[#374151]'
+              }`}
+            >
+              {percent === 100 ? 'Max' : `${percent}%`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-[#9cabba]">
+          <div className="flex items-center gap-1">
+            Slippage:
+            {SLIPPAGE_OPTIONS.map(value => (
+              <button
+                key={value}
+                onClick={() => setSlippageTolerance(value)}
+                className={`px-2 py-0.5 rounded transition-colors ${
+                  slippageTolerance === value ? 'bg-[#00ffaa]/20 text-[#00ffaa]' : 'hover:text-white'
+                }`}
+              >
+                {value}%
+              </button>
+            ))}
+          </div>
+          {hasWAVAX && (
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={receiveNative}
+                onChange={(e) => setReceiveNative(e.target.checked)}
+                className="accent-[#00ffaa]"
+              />
+              Receive AVAX
+            </label>
+          )}
+        </div>
+
+        <div className="text-xs text-[#9cabba] flex justify-between">
+          <span>You receive at least:</span>
+          <span className="text-white">
+            {formatTokenAmount(preview.amount0Min, position.decimals0)} {symbolFor(position.token0, position.symbol0)} +{' '}
+            {formatTokenAmount(preview.amount1Min, position.decimals1)} {symbolFor(position.token1, position.symbol1)}
+          </span>
+        </div>
+
+        <div className="flex gap-2">
+          <a
+            href={getExplorerAddressUrl(position.pairAddress)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center justify-center gap-1 px-3 py-1 bg-[#283039] hover:bg-[#374151] text-white text-xs font-medium rounded-lg transition-colors flex-1"
+          >
+            <ExternalLink className="w-3 h-3" />
+            View Pair
+          </a>
+          <button
+            onClick={handleRemove}
+            disabled={isRemoving || liquidity === BigInt(0) || position.totalSupply === BigInt(0)}
+            className="flex items-center justify-center gap-1 px-3 py-1 bg-[#00ffaa]/20 hover:bg-[#00ffaa]/30 disabled:opacity-50 disabled:cursor-not-allowed text-[#00ffaa] text-xs font-medium rounded-lg border border-[#00ffaa]/30 transition-colors flex-1"
+          >
+            {isRemoving ? <Loader2 className="w-3 h-3 animate-spin" /> : <LogOut className="w-3 h-3" />}
+            {isRemoving ? 'Removing...' : `Remove ${removePercent}%`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiquidityPositionCard;
@@ -13,6 +13,7 @@ import {
   Activity
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
+import { EVENT_CONFIG, isRefreshBlock } from '../lib/yieldhub-events';
 import PortfolioService, { 
   PortfolioSummary, 
   PortfolioMetrics, 
@@ -20,7 +21,7 @@ import PortfolioService, {
 } from '../lib/portfolio-service';
 
 const PortfolioOverview: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, yieldHubEvents, account, isConnected, chainId } = useWeb3();
   const [portfolioService, setPortfolioService] = useState<PortfolioService | null>(null);
   const [portfolioSummary, setPortfolioSummary] = useState<PortfolioSummary | null>(null);
   const [portfolioMetrics, setPortfolioMetrics] = useState<PortfolioMetrics | null>(null);
@@ -30,13 +31,9 @@ const PortfolioOverview: React.FC = () => {
 
   // Initialize portfolio service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new PortfolioService(provider);
-      setPortfolioService(service);
-    } else {
-      setPortfolioService(null);
-    }
-  }, [provider, chainId]);
+    const service = new PortfolioService(readProvider);
+    setPortfolioService(service);
+  }, [readProvider]);
 
   // Load portfolio data
   const loadPortfolioData = async () => {
@@ -69,13 +66,16 @@ const PortfolioOverview: React.FC = () => {
     }
   }, [portfolioService, account]);
 
-  // Auto-refresh every 60 seconds
+  // Block-based refresh
   useEffect(() => {
     if (!portfolioService || !account) return;
 
-    const interval = setInterval(loadPortfolioData, 60000);
-    return () => clearInterval(interval);
-  }, [portfolioService, account]);
+    return yieldHubEvents.subscribe(event => {
+      if (isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.PORTFOLIO)) {
+        loadPortfolioData();
+      }
+    });
+  }, [portfolioService, account, yieldHubEvents]);
 
   // Generate chart data
   const getChartData = () => {
@@ -361,6 +361,26 @@ const PortfolioOverview: React.FC = () => {
                     {formatCurrency(portfolioSummary.totalEarnedYield)}
                   </span>
                 </div>
+
+                {portfolioSummary.yieldAccount && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-[#777] text-sm">Earned (7d / 30d):</span>
+                      <span className="text-[#00ffaa] font-medium">
+                        {formatCurrency(portfolioSummary.yieldAccount.earnedUSD.last7d)} / {formatCurrency(portfolioSummary.yieldAccount.earnedUSD.last30d)}
+                      </span>
+                    </div>
+
+                    {portfolioSummary.yieldAccount.paidUSD.lifetime > 0 && (
+                      <div className="flex justify-between items-center">
+                        <span className="text-[#777] text-sm">Interest Paid:</span>
+                        <span className="text-red-400 font-medium">
+                          {formatCurrency(portfolioSummary.yieldAccount.paidUSD.lifetime)}
+                        </span>
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
             </div>
 
@@ -382,7 +402,7 @@ const PortfolioOverview: React.FC = () => {
                         <>
                           <Icon className="w-3 h-3 text-[#777]" />
                           <span className={`font-medium ${getHealthFactorColor(portfolioSummary.healthFactor)}`}>
-                            {portfolioSummary.healthFactor.toFixed(2)}
+                            {PortfolioService.formatHealthFactor(portfolioSummary.healthFactor)}
                           </span>
                         </>
                       );
@@ -390,6 +410,33 @@ const PortfolioOverview: React.FC = () => {
                   </div>
                 </div>
                 
+                {portfolioSummary.account && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-[#777] text-sm">Collateral / Debt:</span>
+                      <span className="text-white text-sm font-medium">
+                        {formatCurrency(portfolioSummary.account.totalCollateralUSD)}
+                        {' / '}
+                        <span className="text-red-400">{formatCurrency(portfolioSummary.account.totalDebtUSD)}</span>
+                      </span>
+                    </div>
+
+                    <div className="flex justify-between items-center">
+                      <span className="text-[#777] text-sm">Available to Borrow:</span>
+                      <span className="text-white text-sm font-medium">
+                        {formatCurrency(portfolioSummary.account.availableBorrowsUSD)}
+                      </span>
+                    </div>
+
+                    <div className="flex justify-between items-center">
+                      <span className="text-[#777] text-sm">LTV / Liq. Threshold:</span>
+                      <span className="text-white text-sm font-medium">
+                        {portfolioSummary.account.ltv.toFixed(1)}% / {portfolioSummary.account.liquidationThreshold.toFixed(1)}%
+                      </span>
+                    </div>
+                  </>
+                )}
+                
                 <div className="flex justify-between items-center">
                   <span className="text-[#777] text-sm">Risk Score:</span>
                   <div className="flex items-center gap-2">
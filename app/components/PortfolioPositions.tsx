@@ -12,29 +12,30 @@ import {
   ExternalLink,
   AlertTriangle,
   Eye,
-  EyeOff
+  EyeOff,
+  Shield
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import { TOKEN_INFO } from '../lib/web3-config';
-import PortfolioService, { PortfolioPosition } from '../lib/portfolio-service';
+import { getTokenInfo } from '../lib/token-registry';
+import PortfolioService, { PortfolioLiquidityPosition, PortfolioPosition, PortfolioSourcePosition } from '../lib/portfolio-service';
+import { formatPercent, formatTokenAmount } from '../lib/units';
+import LiquidityPositionCard from './LiquidityPositionCard';
 
 const PortfolioPositions: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, account, isConnected, chainId } = useWeb3();
   const [portfolioService, setPortfolioService] = useState<PortfolioService | null>(null);
   const [positions, setPositions] = useState<PortfolioPosition[]>([]);
+  const [liquidityPositions, setLiquidityPositions] = useState<PortfolioLiquidityPosition[]>([]);
+  const [otherPositions, setOtherPositions] = useState<PortfolioSourcePosition[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSmallBalances, setShowSmallBalances] = useState(false);
 
   // Initialize portfolio service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new PortfolioService(provider);
-      setPortfolioService(service);
-    } else {
-      setPortfolioService(null);
-    }
-  }, [provider, chainId]);
+    const service = new PortfolioService(readProvider);
+    setPortfolioService(service);
+  }, [readProvider]);
 
   // Load positions
   const loadPositions = async () => {
@@ -47,6 +48,8 @@ const PortfolioPositions: React.FC = () => {
       const summary = await portfolioService.getPortfolioSummary(account);
       if (summary) {
         setPositions(summary.positions);
+        setLiquidityPositions(summary.liquidityPositions);
+        setOtherPositions(summary.sourcePositions.filter(position => !position.itemized));
       }
     } catch (err: any) {
       console.error('Error loading positions:', err);
@@ -110,7 +113,7 @@ const PortfolioPositions: React.FC = () => {
         <div>
           <h3 className="text-white text-lg font-bold">Portfolio Positions</h3>
           <p className="text-[#9cabba] text-sm">
-            Your token balances and Aave positions
+            Your token balances, Aave and liquidity positions
           </p>
         </div>
         
@@ -156,7 +159,7 @@ const PortfolioPositions: React.FC = () => {
       {!isLoading && filteredPositions.length > 0 && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
           {filteredPositions.map((position) => {
-            const tokenInfo = TOKEN_INFO[position.tokenAddress as keyof typeof TOKEN_INFO];
+            const tokenInfo = getTokenInfo(position.tokenAddress);
             const totalValue = position.balanceUSD + position.aaveSuppliedUSD;
             const netPosition = position.aaveSuppliedUSD - position.aaveBorrowedUSD;
             
@@ -188,7 +191,10 @@ const PortfolioPositions: React.FC = () => {
                   {/* Total Value */}
                   <div className="flex justify-between items-center">
                     <span className="text-[#9cabba] text-sm">Total Value:</span>
-                    <span className="text-white font-medium">
+                    <span
+                      className="text-white font-medium"
+                      title={position.priceSource ? `Priced by ${position.priceSource}` : 'No USD price available'}
+                    >
                       {formatCurrency(totalValue)}
                     </span>
                   </div>
@@ -212,6 +218,15 @@ const PortfolioPositions: React.FC = () => {
                       <span className="text-[#9cabba] text-sm flex items-center gap-1">
                         <PiggyBank className="w-3 h-3" />
                         Supplied:
+                        {position.usageAsCollateralEnabled && (
+                          <span
+                            className="flex items-center gap-0.5 px-1.5 py-0.5 bg-purple-900/30 text-purple-300 text-[10px] rounded"
+                            title="Used as collateral"
+                          >
+                            <Shield className="w-2.5 h-2.5" />
+                            Collateral
+                          </span>
+                        )}
                       </span>
                       <span className="text-green-400 font-medium">
                         {formatCurrency(position.aaveSuppliedUSD)}
@@ -232,6 +247,18 @@ const PortfolioPositions: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Debt split by rate mode */}
+                  {position.aaveBorrowed > 0 && (
+                    <div className="flex justify-between items-center text-xs text-[#9cabba] pl-4">
+                      <span>
+                        Variable: {formatTokenAmount(position.aaveVariableDebt, tokenInfo?.decimals)}
+                      </span>
+                      <span>
+                        Stable: {formatTokenAmount(position.aaveStableDebt, tokenInfo?.decimals)}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Net Position (if leveraged) */}
                   {position.aaveSuppliedUSD > 0 && position.aaveBorrowedUSD > 0 && (
                     <div className="flex justify-between items-center pt-2 border-t border-[#3b4754]">
@@ -260,9 +287,19 @@ const PortfolioPositions: React.FC = () => {
                   {/* Earned Yield */}
                   {position.earnedYield > 0.01 && (
                     <div className="flex justify-between items-center">
-                      <span className="text-[#9cabba] text-sm">30d Yield:</span>
+                      <span className="text-[#9cabba] text-sm">Yield (30d / Lifetime):</span>
                       <span className="text-[#00ffaa] font-medium">
-                        {formatCurrency(position.earnedYield)}
+                        {formatCurrency(position.yieldAccount?.earnedUSD.last30d ?? 0)} / {formatCurrency(position.earnedYield)}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Interest Paid */}
+                  {position.yieldAccount && position.yieldAccount.paidUSD.lifetime > 0.01 && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-[#9cabba] text-sm">Interest Paid (30d / Lifetime):</span>
+                      <span className="text-red-400 font-medium">
+                        {formatCurrency(position.yieldAccount.paidUSD.last30d)} / {formatCurrency(position.yieldAccount.paidUSD.lifetime)}
                       </span>
                     </div>
                   )}
@@ -305,8 +342,48 @@ const PortfolioPositions: React.FC = () => {
         </div>
       )}
 
+      {/* Liquidity Positions */}
+      {!isLoading && liquidityPositions.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-white font-medium">Liquidity Positions</h4>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {liquidityPositions.map(position => (
+              <LiquidityPositionCard
+                key={position.pairAddress}
+                position={position}
+                onRemoved={loadPositions}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Positions in other registered sources (Benqi) */}
+      {!isLoading && otherPositions.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-white font-medium">Other Protocols</h4>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {otherPositions.map(position => (
+              <div key={position.marketId} className="bg-[#1b2127] border border-[#3b4754] rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-white font-medium">{position.symbol}</span>
+                  <span className="text-[#9cabba] text-xs">{position.protocol}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white">
+                    {formatTokenAmount(position.amount, getTokenInfo(position.tokenAddress)?.decimals ?? 18)} {position.symbol}
+                  </span>
+                  <span className="text-green-400">{formatPercent(position.aprPercent)} APR</span>
+                </div>
+                <div className="text-[#9cabba] text-xs mt-1">{formatCurrency(position.valueUSD)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Empty State */}
-      {!isLoading && filteredPositions.length === 0 && (
+      {!isLoading && filteredPositions.length === 0 && liquidityPositions.length === 0 && otherPositions.length === 0 && (
         <div className="text-center py-8">
           <Wallet className="w-12 h-12 text-[#777] mx-auto mb-3" />
           <h3 className="text-white text-lg font-medium mb-2">No Positions Found</h3>
@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { YieldProjection } from '../lib/yield-math';
+
+interface ProjectionChartProps {
+  projection: YieldProjection;
+  formatValue: (value: number) => string;
+  label?: string;
+}
+
+const WIDTH = 472;
+const HEIGHT = 96;
+const PADDING = 6;
+
+// Line through the day-by-day values, scaled to fill the chart between the first and last value
+const projectionPath = (projection: YieldProjection): string => {
+  const { points, days } = projection;
+  if (points.length < 2 || days <= 0) return '';
+
+  const minValue = points[0].value;
+  const valueRange = points[points.length - 1].value - minValue || 1;
+  return points.map((point, index) => {
+    const x = (point.day / days) * (WIDTH - 2 * PADDING) + PADDING;
+    const y = HEIGHT - PADDING - ((point.value - minValue) / valueRange) * (HEIGHT - 2 * PADDING);
+    return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`;
+  }).join('');
+};
+
+// Value of a deposit over a projection's horizon, compounded as projectYield computed it
+const ProjectionChart: React.FC<ProjectionChartProps> = ({ projection, formatValue, label }) => {
+  const path = projectionPath(projection);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between gap-4 text-sm">
+        <span className="text-[#9cabba]">{label ?? `Projected value over ${projection.days} days`}</span>
+        <span className="text-white">
+          {formatValue(projection.finalValue)}{' '}
+          <span className="text-[#00ffaa]">(+{formatValue(projection.earnings)})</span>
+        </span>
+      </div>
+      {path && (
+        <svg
+          width="100%"
+          height={HEIGHT}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          fill="none"
+          xmlns="http://www.w3.org/2000/svg"
+          preserveAspectRatio="none"
+        >
+          <path d={`${path}V${HEIGHT}H${PADDING}Z`} fill="#00ffaa" fillOpacity="0.08" />
+          <path d={path} stroke="#00ffaa" strokeWidth="2" strokeLinecap="round" fill="none" />
+        </svg>
+      )}
+      <div className="flex justify-between text-[#9cabba] text-xs">
+        <span>Today · {formatValue(projection.principal)}</span>
+        <span>{projection.aprPercent.toFixed(2)}% APR → {projection.apyPercent.toFixed(2)}% APY</span>
+        <span>Day {projection.days}</span>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectionChart;
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { ListChecks, Loader2, Check, MinusCircle } from 'lucide-react';
+import { useWeb3 } from '../lib/Web3Context';
+import { Allocation } from '../lib/allocation-engine';
+import { YieldOpportunity } from '../lib/yield-optimizer-service';
+import RebalancePlannerService, { RebalancePlan } from '../lib/rebalance-planner';
+import PortfolioService from '../lib/portfolio-service';
+
+interface RebalancePlanCardProps {
+  allocations: Allocation<YieldOpportunity>[];
+  timeHorizon: number; // days
+}
+
+const formatCurrency = (amount: number) => PortfolioService.formatCurrency(amount);
+
+const RebalancePlanCard: React.FC<RebalancePlanCardProps> = ({ allocations, timeHorizon }) => {
+  const { readProvider, account, isConnected } = useWeb3();
+  const plannerService = useMemo(() => new RebalancePlannerService(readProvider), [readProvider]);
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [completed, setCompleted] = useState<Set<string>>(new Set());
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new allocation or account invalidates the plan
+  useEffect(() => {
+    setPlan(null);
+    setCompleted(new Set());
+  }, [allocations, timeHorizon, account]);
+
+  const handlePlan = async () => {
+    if (!account) return;
+    setIsPlanning(true);
+    setError(null);
+    try {
+      const result = await plannerService.planRebalance(account, allocations, timeHorizon);
+      if (!result) {
+        setError('Could not read your portfolio');
+      }
+      setPlan(result);
+      setCompleted(new Set());
+    } catch (err: any) {
+      console.error('Error planning rebalance:', err);
+      setError(err.message || 'Failed to plan rebalance');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setCompleted(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mx-4 my-3 bg-[#1b2127] border border-[#3b4754] rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-[#00ffaa]" />
+          <h3 className="text-white text-base font-bold">Rebalance Plan</h3>
+        </div>
+        <button
+          onClick={handlePlan}
+          disabled={!isConnected || !account || isPlanning || allocations.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 bg-[#00ffaa]/20 hover:bg-[#00ffaa]/30 disabled:opacity-50 disabled:cursor-not-allowed text-[#00ffaa] text-sm font-medium rounded-lg border border-[#00ffaa]/30 transition-colors"
+        >
+          {isPlanning && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isPlanning ? 'Planning...' : plan ? 'Re-plan' : 'Plan from my portfolio'}
+        </button>
+      </div>
+
+      {!isConnected && (
+        <p className="text-[#9cabba] text-sm">Connect a wallet to plan moves from your current positions.</p>
+      )}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {plan && (
+        <>
+          <p className="text-[#9cabba] text-xs">
+            Targets apply the recommended shares to the {formatCurrency(plan.portfolioValueUSD)} you hold in Aave and
+            idle tokens. Moves that don't earn back their gas, swap and message costs within {plan.horizonDays} days are skipped.
+          </p>
+
+          {plan.actions.length === 0 ? (
+            <p className="text-white text-sm">Your positions are already close enough to the recommendation.</p>
+          ) : (
+            <ol className="space-y-2">
+              {plan.actions.map((action, index) => {
+                const done = completed.has(action.id);
+                return (
+                  <li key={action.id}>
+                    <label className="flex items-center gap-3 p-2 rounded-lg bg-[#283039] cursor-pointer hover:bg-[#374151] transition-colors">
+                      <input
+                        type="checkbox"
+                        checked={done}
+                        onChange={() => toggle(action.id)}
+                        className="accent-[#00ffaa]"
+                      />
+                      <span className="text-[#9cabba] text-xs w-5">{index + 1}.</span>
+                      <span className={`flex-1 text-sm ${done ? 'text-[#777] line-through' : 'text-white'}`}>
+                        {action.description}
+                      </span>
+                      <span className="text-[#9cabba] text-xs">~{formatCurrency(action.costUSD)}</span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {plan.actions.length > 0 && (
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <p className="text-[#9cabba] text-xs">Extra yield ({plan.horizonDays}d)</p>
+                <p className="text-white font-medium">{formatCurrency(plan.totalGainUSD)}</p>
+              </div>
+              <div>
+                <p className="text-[#9cabba] text-xs">Estimated costs</p>
+                <p className="text-white font-medium">{formatCurrency(plan.totalCostUSD)}</p>
+              </div>
+              <div>
+                <p className="text-[#9cabba] text-xs">Net gain</p>
+                <p className="text-[#00ffaa] font-medium">{formatCurrency(plan.netGainUSD)}</p>
+              </div>
+            </div>
+          )}
+
+          {completed.size > 0 && completed.size === plan.actions.length && (
+            <p className="flex items-center gap-2 text-[#00ffaa] text-sm">
+              <Check className="w-4 h-4" />
+              All steps done. Re-plan to confirm your positions match.
+            </p>
+          )}
+
+          {(plan.skipped.length > 0 || plan.kept.length > 0 || plan.unplanned.length > 0) && (
+            <div className="space-y-1 pt-3 border-t border-[#3b4754]">
+              {plan.skipped.map(move => (
+                <p key={`${move.from.key}-${move.to.key}`} className="flex items-center gap-2 text-[#9cabba] text-xs">
+                  <MinusCircle className="w-3 h-3" />
+                  Skipped {formatCurrency(move.amountUSD)} from {move.from.symbol} to {move.to.symbol}:
+                  gains {formatCurrency(move.gainUSD)}, costs {formatCurrency(move.costUSD)}
+                </p>
+              ))}
+              {plan.kept.map(holding => (
+                <p key={holding.key} className="flex items-center gap-2 text-[#9cabba] text-xs">
+                  <MinusCircle className="w-3 h-3" />
+                  Left {holding.symbol} ({formatCurrency(holding.valueUSD)}) in place: {holding.keepReason}
+                </p>
+              ))}
+              {plan.unplanned.map(target => (
+                <p key={target.key} className="flex items-center gap-2 text-[#9cabba] text-xs">
+                  <MinusCircle className="w-3 h-3" />
+                  Not planned: {formatCurrency(target.valueUSD)} to {target.protocol} {target.symbol}: {target.keepReason}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePlanCard;
@@ -0,0 +1,400 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ArrowDownUp,
+  AlertTriangle,
+  CheckCircle,
+  Circle,
+  Loader2,
+  Repeat,
+  Zap
+} from 'lucide-react';
+import { toast } from 'react-toastify';
+import { useWeb3 } from '../lib/Web3Context';
+import SwapService, { SwapToken, SwapQuote, ZapQuote, ZapStep } from '../lib/swap-service';
+import UniswapDepositService, { UNISWAP_V2_CONFIG } from '../lib/uniswap-service';
+import { formatTokenAmount, parseAmount, toDecimalString } from '../lib/units';
+
+type Mode = 'swap' | 'zap';
+
+const ZAP_STEPS: ZapStep[] = ['approve-swap', 'swap', 'approve-deposit', 'deposit'];
+const SLIPPAGE_OPTIONS = [0.5, 1, 2];
+
+const tokenKey = (token: SwapToken) => `${token.address.toLowerCase()}:${token.native ? 'native' : 'erc20'}`;
+
+// Parsed input amount, or null while the input is empty or malformed
+const parseInput = (value: string, decimals: number): bigint | null => {
+  try {
+    return value ? parseAmount(value, decimals) : null;
+  } catch {
+    return null;
+  }
+};
+
+const SwapZapCard: React.FC = () => {
+  const { readProvider, account, isConnected, chainId } = useWeb3();
+  const swapService = useMemo(() => new SwapService(readProvider), [readProvider]);
+  const [mode, setMode] = useState<Mode>('swap');
+  const [tokens, setTokens] = useState<SwapToken[]>([]);
+  const [tokenInKey, setTokenInKey] = useState('');
+  const [tokenOutKey, setTokenOutKey] = useState('');
+  const [amount, setAmount] = useState('');
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [slippageTolerance, setSlippageTolerance] = useState(1);
+  const [swapQuote, setSwapQuote] = useState<SwapQuote | null>(null);
+  const [zapQuote, setZapQuote] = useState<ZapQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [zapStep, setZapStep] = useState<ZapStep | 'done' | null>(null);
+
+  // Load the swappable tokens
+  useEffect(() => {
+    swapService.getSwapTokens()
+      .then(list => {
+        setTokens(list);
+        const usdc = list.find(token => token.address.toLowerCase() === UNISWAP_V2_CONFIG.USDC_ADDRESS.toLowerCase());
+        setTokenInKey(current => current || tokenKey(list[0]));
+        setTokenOutKey(current => current || (usdc ? tokenKey(usdc) : ''));
+      })
+      .catch(error => console.error('Error loading swap tokens:', error));
+  }, [swapService]);
+
+  // Zaps start from an ERC20; AVAX would need wrapping first
+  const inputTokens = mode === 'zap' ? tokens.filter(token => !token.native) : tokens;
+  const tokenIn = inputTokens.find(token => tokenKey(token) === tokenInKey) ?? inputTokens[0];
+  const tokenOut = tokens.find(token => tokenKey(token) === tokenOutKey && !token.native);
+  const amountIn = tokenIn ? parseInput(amount, tokenIn.decimals) : null;
+  const symbolOf = (address: string) =>
+    tokens.find(token => !token.native && token.address.toLowerCase() === address.toLowerCase())?.symbol ?? 'tokens';
+  const decimalsOf = (address: string) =>
+    tokens.find(token => !token.native && token.address.toLowerCase() === address.toLowerCase())?.decimals ?? 18;
+
+  // Balance of the input token
+  useEffect(() => {
+    if (!account || !tokenIn) {
+      setBalance(null);
+      return;
+    }
+    swapService.getBalance(account, tokenIn)
+      .then(setBalance)
+      .catch(error => console.error('Error loading balance:', error));
+  }, [swapService, account, tokenIn?.address, tokenIn?.native, isExecuting]);
+
+  // Re-quote whenever the inputs change
+  useEffect(() => {
+    setSwapQuote(null);
+    setZapQuote(null);
+    setQuoteError(null);
+    setZapStep(null);
+    if (!tokenIn || amountIn === null || amountIn === BigInt(0)) return;
+    if (mode === 'swap' && !tokenOut) return;
+
+    let cancelled = false;
+    setIsQuoting(true);
+    const request = mode === 'swap'
+      ? swapService.getSwapQuote(tokenIn.address, tokenOut!.address, amountIn, tokenIn.native).then(quote => {
+          if (!cancelled) setSwapQuote(quote);
+        })
+      : swapService.getZapQuote(tokenIn.address, amountIn).then(quote => {
+          if (!cancelled) setZapQuote(quote);
+        });
+    request
+      .catch(error => {
+        if (!cancelled) setQuoteError(error.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [swapService, mode, tokenIn?.address, tokenIn?.native, tokenOut?.address, amount]);
+
+  const handleSwap = async () => {
+    if (!swapQuote || !tokenOut) return;
+
+    setIsExecuting(true);
+    try {
+      const result = await swapService.swap(swapQuote, slippageTolerance);
+      if (result.success) {
+        toast.success(`Swapped for ${formatTokenAmount(result.amountOut ?? swapQuote.amountOut, tokenOut.decimals)} ${tokenOut.symbol}`);
+        setAmount('');
+      } else {
+        toast.error(`Swap failed: ${result.error}`);
+      }
+    } catch (error: any) {
+      toast.error(`Swap failed: ${error.message}`);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleZap = async () => {
+    if (!zapQuote) return;
+
+    setIsExecuting(true);
+    setZapStep('approve-swap');
+    try {
+      const result = await swapService.zap(zapQuote, slippageTolerance, setZapStep);
+      if (result.success) {
+        setZapStep('done');
+        toast.success(
+          result.liquidityTokens !== undefined
+            ? `Zapped! Received ${formatTokenAmount(result.liquidityTokens, 18, 6)} LP tokens`
+            : 'Liquidity added successfully!'
+        );
+        setAmount('');
+      } else {
+        setZapStep(null);
+        toast.error(`Zap failed: ${result.error}`);
+      }
+    } catch (error: any) {
+      setZapStep(null);
+      toast.error(`Zap failed: ${error.message}`);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleMaxClick = () => {
+    if (balance !== null && tokenIn) {
+      // Leave a little AVAX for gas
+      const gasReserve = tokenIn.native ? parseAmount('0.01', 18) : BigInt(0);
+      const max = balance > gasReserve ? balance - gasReserve : BigInt(0);
+      setAmount(toDecimalString(max, tokenIn.decimals));
+    }
+  };
+
+  const exceedsBalance = amountIn !== null && balance !== null && amountIn > balance;
+  const canExecute = isConnected && chainId === 43113 && !isExecuting && !isQuoting && !exceedsBalance &&
+    (mode === 'swap' ? !!swapQuote : !!zapQuote);
+  const slippageBps = BigInt(Math.round(slippageTolerance * 100));
+  const routeLabel = (quote: SwapQuote) => quote.path
+    .map((address, i) => i === 0 && quote.nativeIn ? 'AVAX' : symbolOf(address))
+    .join(' → ');
+
+  const stepLabel = (step: ZapStep): string => {
+    const pairedSymbol = zapQuote ? symbolOf(zapQuote.pairedToken) : 'USDC';
+    switch (step) {
+      case 'approve-swap':
+        return `Approve ${tokenIn?.symbol ?? 'token'} for swapping`;
+      case 'swap':
+        return zapQuote && zapQuote.swaps.length > 1
+          ? `Swap into WAVAX and ${pairedSymbol}`
+          : `Swap half into ${zapQuote ? symbolOf(zapQuote.swaps[0].tokenOut) : 'the pair token'}`;
+      case 'approve-deposit':
+        return `Approve WAVAX & ${pairedSymbol} for the deposit`;
+      case 'deposit':
+        return `Add WAVAX/${pairedSymbol} liquidity`;
+    }
+  };
+
+  const stepIcon = (step: ZapStep) => {
+    const current = zapStep === 'done' ? ZAP_STEPS.length : zapStep ? ZAP_STEPS.indexOf(zapStep) : -1;
+    const index = ZAP_STEPS.indexOf(step);
+    if (index < current) return <CheckCircle className="w-4 h-4 text-[#00ffaa]" />;
+    if (index === current && isExecuting) return <Loader2 className="w-4 h-4 text-[#00ffaa] animate-spin" />;
+    return <Circle className="w-4 h-4 text-[#9cabba]" />;
+  };
+
+  if (!isConnected || chainId !== 43113) {
+    return (
+      <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Repeat className="w-5 h-5 text-[#00ffaa]" />
+          <h3 className="text-white text-lg font-bold">Swap & Zap</h3>
+        </div>
+        <div className="flex items-center gap-2 p-4 bg-orange-900/20 border border-orange-600 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-orange-400" />
+          <span className="text-orange-400 text-sm">
+            {!isConnected ? 'Connect wallet to swap tokens' : 'Switch to Fuji testnet'}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-xl p-6 hover:border-[#00ffaa]/50 hover:bg-white/10 transition-all duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Repeat className="w-5 h-5 text-[#00ffaa]" />
+          <h3 className="text-white text-lg font-bold">Swap & Zap</h3>
+        </div>
+        <div className="flex bg-[#283039] rounded-lg p-1">
+          {(['swap', 'zap'] as Mode[]).map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setMode(value);
+                setZapStep(null);
+              }}
+              disabled={isExecuting}
+              className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                mode === value ? 'bg-[#00ffaa] text-black' : 'text-white hover:bg-[#374151]'
+              }`}
+            >
+              {value === 'swap' ? 'Swap' : 'Zap into LP'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Input */}
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-white text-sm font-medium">{mode === 'swap' ? 'You pay' : 'Deposit'}</label>
+          <button
+            onClick={handleMaxClick}
+            className="text-[#00ffaa] text-xs hover:text-[#00ffaa]/80 transition-colors"
+          >
+            Balance: {balance !== null && tokenIn ? formatTokenAmount(balance, tokenIn.decimals) : '—'}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.0"
+            className="flex-1 min-w-0 p-3 bg-white/5 border border-white/10 rounded-lg text-white font-medium placeholder-white/40 focus:border-[#00ffaa]/50 focus:outline-none transition-colors"
+          />
+          <select
+            value={tokenIn ? tokenKey(tokenIn) : ''}
+            onChange={(e) => setTokenInKey(e.target.value)}
+            className="bg-[#283039] border border-[#3b4754] rounded-lg text-white text-sm px-2"
+          >
+            {inputTokens.map(token => (
+              <option key={tokenKey(token)} value={tokenKey(token)}>{token.symbol}</option>
+            ))}
+          </select>
+        </div>
+        {exceedsBalance && <p className="text-red-400 text-xs mt-1">Amount exceeds your balance</p>}
+      </div>
+
+      {mode === 'swap' ? (
+        <>
+          <div className="flex justify-center -my-1 mb-3">
+            <ArrowDownUp className="w-4 h-4 text-[#9cabba]" />
+          </div>
+          <div className="mb-4 flex gap-2">
+            <div className="flex-1 p-3 bg-white/5 border border-white/10 rounded-lg text-white font-medium">
+              {swapQuote && tokenOut ? formatTokenAmount(swapQuote.amountOut, tokenOut.decimals, 6) : '0.0'}
+            </div>
+            <select
+              value={tokenOutKey}
+              onChange={(e) => setTokenOutKey(e.target.value)}
+              className="bg-[#283039] border border-[#3b4754] rounded-lg text-white text-sm px-2"
+            >
+              {tokens.filter(token => !token.native).map(token => (
+                <option key={tokenKey(token)} value={tokenKey(token)}>{token.symbol}</option>
+              ))}
+            </select>
+          </div>
+
+          {swapQuote && tokenOut && (
+            <div className="mb-4 p-3 bg-white/5 rounded-lg border border-white/10 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-white/60">Route</span>
+                <span className="text-white">{routeLabel(swapQuote)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-white/60">Minimum received</span>
+                <span className="text-white">
+                  {formatTokenAmount(UniswapDepositService.applySlippage(swapQuote.amountOut, slippageBps), tokenOut.decimals, 6)} {tokenOut.symbol}
+                </span>
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        zapQuote && (
+          <div className="mb-4 p-3 bg-white/5 rounded-lg border border-white/10 space-y-2 text-sm">
+            {zapQuote.swaps.map(swap => (
+              <div key={swap.tokenOut} className="flex justify-between">
+                <span className="text-white/60">{routeLabel(swap)}</span>
+                <span className="text-white">
+                  {formatTokenAmount(swap.amountOut, decimalsOf(swap.tokenOut))} {symbolOf(swap.tokenOut)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-white/60">Deposit</span>
+              <span className="text-white">
+                {formatTokenAmount(zapQuote.depositWAVAX, 18)} WAVAX + {formatTokenAmount(zapQuote.depositPaired, decimalsOf(zapQuote.pairedToken))} {symbolOf(zapQuote.pairedToken)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-white/60">LP Tokens (estimated)</span>
+              <span className="text-white">{formatTokenAmount(zapQuote.expectedLPTokens, 18, 6)}</span>
+            </div>
+            {(zapQuote.amountWAVAX > zapQuote.depositWAVAX || zapQuote.amountPaired > zapQuote.depositPaired) && (
+              <div className="flex justify-between">
+                <span className="text-white/60">Left in wallet</span>
+                <span className="text-white">
+                  {zapQuote.amountWAVAX > zapQuote.depositWAVAX
+                    ? `${formatTokenAmount(zapQuote.amountWAVAX - zapQuote.depositWAVAX, 18)} WAVAX`
+                    : `${formatTokenAmount(zapQuote.amountPaired - zapQuote.depositPaired, decimalsOf(zapQuote.pairedToken))} ${symbolOf(zapQuote.pairedToken)}`}
+                </span>
+              </div>
+            )}
+
+            {/* Guided steps */}
+            <div className="pt-2 border-t border-white/10 space-y-2">
+              {ZAP_STEPS.map((step, i) => (
+                <div key={step} className="flex items-center gap-2 text-xs">
+                  {stepIcon(step)}
+                  <span className="text-white">{i + 1}. {stepLabel(step)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {quoteError && (
+        <div className="mb-4 flex items-center gap-2 p-3 bg-red-900/20 border border-red-600 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400" />
+          <span className="text-red-400 text-sm">{quoteError}</span>
+        </div>
+      )}
+
+      {/* Slippage */}
+      <div className="mb-4 flex items-center gap-1 text-xs text-[#9cabba]">
+        Slippage:
+        {SLIPPAGE_OPTIONS.map(value => (
+          <button
+            key={value}
+            onClick={() => setSlippageTolerance(value)}
+            className={`px-2 py-0.5 rounded transition-colors ${
+              slippageTolerance === value ? 'bg-[#00ffaa]/20 text-[#00ffaa]' : 'hover:text-white'
+            }`}
+          >
+            {value}%
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={mode === 'swap' ? handleSwap : handleZap}
+        disabled={!canExecute}
+        className="w-full flex items-center justify-center gap-2 p-4 bg-[#00ffaa]/20 hover:bg-[#00ffaa]/30 disabled:opacity-50 disabled:cursor-not-allowed text-[#00ffaa] font-medium rounded-lg border border-[#00ffaa]/30 transition-all duration-200"
+      >
+        {isExecuting || isQuoting ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : mode === 'swap' ? (
+          <Repeat className="w-4 h-4" />
+        ) : (
+          <Zap className="w-4 h-4" />
+        )}
+        {isQuoting ? 'Fetching quote...' : isExecuting ? (mode === 'swap' ? 'Swapping...' : 'Zapping...') : mode === 'swap' ? 'Swap' : 'Zap'}
+      </button>
+    </div>
+  );
+};
+
+export default SwapZapCard;
@@ -11,69 +11,86 @@ import {
   Loader2
 } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import UniswapDepositService, { TokenBalance, DepositResult } from '../lib/uniswap-service';
+import UniswapDepositService, { TokenBalance, DepositResult, DepositEstimate } from '../lib/uniswap-service';
+import { formatBps, formatTokenAmount, parseAmount } from '../lib/units';
 import { toast } from 'react-toastify';
 
+// Parsed deposit amount, or null while the input is empty or malformed
+const parseDepositAmount = (value: string): bigint | null => {
+  try {
+    return value ? parseAmount(value, 18) : null;
+  } catch {
+    return null;
+  }
+};
+
 const WAVAXDepositCard: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, account, isConnected, chainId } = useWeb3();
   const [depositService, setDepositService] = useState<UniswapDepositService | null>(null);
   const [wavaxBalance, setWavaxBalance] = useState<TokenBalance | null>(null);
+  const [pairedBalance, setPairedBalance] = useState<TokenBalance | null>(null);
   const [depositAmount, setDepositAmount] = useState<string>('');
   const [slippageTolerance, setSlippageTolerance] = useState<number>(2);
   const [isApproving, setIsApproving] = useState(false);
   const [isDepositing, setIsDepositing] = useState(false);
-  const [isApproved, setIsApproved] = useState(false);
-  const [depositEstimate, setDepositEstimate] = useState<{
-    estimatedLPTokens: string;
-    priceImpact: string;
-  } | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<string[] | null>(null);
+  const [depositEstimate, setDepositEstimate] = useState<DepositEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
 
   // Initialize service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new UniswapDepositService(provider);
-      setDepositService(service);
-    } else {
-      setDepositService(null);
-    }
-  }, [provider, chainId]);
+    const service = new UniswapDepositService(readProvider);
+    setDepositService(service);
+  }, [readProvider]);
 
-  // Load user balance
+  // Load user balances
   useEffect(() => {
     if (depositService && account) {
-      loadWAVAXBalance();
-      checkApprovalStatus();
+      loadBalances();
     }
   }, [depositService, account]);
 
   // Update estimate when amount changes
   useEffect(() => {
-    if (depositService && depositAmount && parseFloat(depositAmount) > 0) {
+    const amount = parseDepositAmount(depositAmount);
+    if (depositService && amount !== null && amount > BigInt(0)) {
       updateDepositEstimate();
     } else {
       setDepositEstimate(null);
+      setEstimateError(null);
     }
   }, [depositAmount, depositService]);
 
-  const loadWAVAXBalance = async () => {
+  // Re-check allowances whenever the required amounts change
+  useEffect(() => {
+    if (depositEstimate) {
+      checkApprovalStatus(depositEstimate);
+    } else {
+      setPendingApprovals(null);
+    }
+  }, [depositEstimate, account]);
+
+  const loadBalances = async () => {
     if (!depositService || !account) return;
 
     try {
-      const balance = await depositService.getWAVAXBalance(account);
+      const [balance, paired] = await Promise.all([
+        depositService.getWAVAXBalance(account),
+        depositService.getPairedBalance(account),
+      ]);
       setWavaxBalance(balance);
+      setPairedBalance(paired);
     } catch (error) {
-      console.error('Error loading WAVAX balance:', error);
+      console.error('Error loading balances:', error);
     }
   };
 
-  const checkApprovalStatus = async () => {
-    if (!depositService || !account || !depositAmount) return;
+  const checkApprovalStatus = async (estimate: DepositEstimate) => {
+    if (!depositService || !account) return;
 
     try {
-      const allowance = await depositService.checkWAVAXAllowance(account);
-      const amountWei = BigInt(parseFloat(depositAmount) * 1e18);
-      setIsApproved(allowance >= amountWei);
+      setPendingApprovals(await depositService.getPendingApprovals(account, estimate));
     } catch (error) {
       console.error('Error checking approval:', error);
     }
@@ -85,20 +102,25 @@ const WAVAXDepositCard: React.FC = () => {
     try {
       const estimate = await depositService.getDepositEstimate(depositAmount);
       setDepositEstimate(estimate);
-    } catch (error) {
+      setEstimateError(null);
+    } catch (error: any) {
       console.error('Error getting deposit estimate:', error);
+      setDepositEstimate(null);
+      setEstimateError(error.message);
     }
   };
 
   const handleApprove = async () => {
-    if (!depositService || !depositAmount) return;
+    if (!depositService || !depositEstimate || !pendingApprovals) return;
 
     setIsApproving(true);
     try {
-      const txHash = await depositService.approveWAVAX(depositAmount);
-      toast.success('WAVAX approved successfully!');
-      setIsApproved(true);
-      await checkApprovalStatus();
+      for (const token of pendingApprovals) {
+        const amount = token === depositEstimate.pairedToken ? depositEstimate.amountPaired : depositEstimate.amountWAVAX;
+        await depositService.approveToken(token, amount);
+      }
+      toast.success('Tokens approved successfully!');
+      await checkApprovalStatus(depositEstimate);
     } catch (error: any) {
       toast.error(`Approval failed: ${error.message}`);
     } finally {
@@ -117,10 +139,13 @@ const WAVAXDepositCard: React.FC = () => {
       );
 
       if (result.success) {
-        toast.success('WAVAX deposited successfully!');
+        toast.success(
+          result.liquidityTokens !== undefined
+            ? `Deposited! Received ${formatTokenAmount(result.liquidityTokens, 18, 6)} LP tokens`
+            : 'WAVAX deposited successfully!'
+        );
         setDepositAmount('');
-        setIsApproved(false);
-        await loadWAVAXBalance();
+        await loadBalances();
       } else {
         toast.error(`Deposit failed: ${result.error}`);
       }
@@ -139,12 +164,17 @@ const WAVAXDepositCard: React.FC = () => {
     }
   };
 
+  const amountWei = parseDepositAmount(depositAmount);
+  const hasPairedBalance = !!depositEstimate && !!pairedBalance && BigInt(pairedBalance.balance) >= depositEstimate.amountPaired;
   const canDeposit = isConnected && 
                    chainId === 43113 && 
-                   depositAmount && 
-                   parseFloat(depositAmount) > 0 && 
+                   amountWei !== null && 
+                   amountWei > BigInt(0) && 
                    wavaxBalance && 
-                   parseFloat(depositAmount) <= parseFloat(wavaxBalance.formattedBalance);
+                   amountWei <= BigInt(wavaxBalance.balance) &&
+                   hasPairedBalance;
+  const isApproved = pendingApprovals !== null && pendingApprovals.length === 0;
+  const pairedSymbol = depositEstimate?.pairedSymbol ?? 'USDC';
 
   if (!isConnected || chainId !== 43113) {
     return (
@@ -210,6 +240,12 @@ const WAVAXDepositCard: React.FC = () => {
             <span className="text-white/60 text-sm">WAVAX Balance</span>
             <span className="text-white font-medium">{wavaxBalance.formattedBalance} WAVAX</span>
           </div>
+          {pairedBalance && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-white/60 text-sm">{pairedSymbol} Balance</span>
+              <span className="text-white font-medium">{pairedBalance.formattedBalance} {pairedSymbol}</span>
+            </div>
+          )}
         </div>
       )}
 
@@ -247,10 +283,20 @@ const WAVAXDepositCard: React.FC = () => {
             <span className="text-white text-sm font-medium">Deposit Estimate</span>
           </div>
           <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-white/60">{pairedSymbol} Required</span>
+              <span className={hasPairedBalance ? 'text-white' : 'text-red-400'}>
+                {formatTokenAmount(depositEstimate.amountPaired, depositEstimate.pairedDecimals)} {pairedSymbol}
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-white/60">LP Tokens (estimated)</span>
               <span className="text-white">{depositEstimate.estimatedLPTokens}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-white/60">Pool Share</span>
+              <span className="text-white">{formatBps(depositEstimate.poolShareBps)}</span>
+            </div>
             <div className="flex justify-between">
               <span className="text-white/60">Price Impact</span>
               <span className="text-green-400">{depositEstimate.priceImpact}%</span>
@@ -263,9 +309,16 @@ const WAVAXDepositCard: React.FC = () => {
         </div>
       )}
 
+      {estimateError && (
+        <div className="mb-4 flex items-center gap-2 p-3 bg-red-900/20 border border-red-600 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-400" />
+          <span className="text-red-400 text-sm">{estimateError}</span>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="space-y-3">
-        {!isApproved && canDeposit && (
+        {pendingApprovals && pendingApprovals.length > 0 && canDeposit && (
           <button
             onClick={handleApprove}
             disabled={isApproving}
@@ -279,7 +332,7 @@ const WAVAXDepositCard: React.FC = () => {
             ) : (
               <>
                 <CheckCircle className="w-4 h-4" />
-                Approve WAVAX
+                Approve {pendingApprovals.length > 1 ? `WAVAX & ${pairedSymbol}` : pendingApprovals[0] === depositEstimate?.pairedToken ? pairedSymbol : 'WAVAX'}
               </>
             )}
           </button>
@@ -310,7 +363,7 @@ const WAVAXDepositCard: React.FC = () => {
           <Info className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
           <div className="text-blue-300 text-xs">
             <p className="font-medium mb-1">Uniswap V2 Liquidity Deposit</p>
-            <p>You'll receive LP tokens representing your share of the WAVAX/AVAX pool. These tokens can be used to earn trading fees and can be withdrawn at any time.</p>
+            <p>You'll deposit WAVAX with a matching amount of {pairedSymbol} and receive LP tokens representing your share of the WAVAX/{pairedSymbol} pool. These tokens can be used to earn trading fees and can be withdrawn at any time.</p>
           </div>
         </div>
       </div>
@@ -300,7 +300,7 @@
 import React, { useState, useEffect } from 'react';
 import { RefreshCw, TrendingUp, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import { TOKEN_INFO } from '../lib/web3-config';
+import { getTokenInfo } from '../lib/token-registry';
 import SubnetService, { SubnetYieldData } from '../lib/subnet-service';
 
 interface YieldDataCardProps {
@@ -308,7 +308,7 @@ interface YieldDataCardProps {
 }
 
 const YieldDataCard: React.FC<YieldDataCardProps> = ({ tokenAddress }) => {
-  const { tokenYieldData, updateAaveData, isConnected, chainId, refreshTokenData, provider } = useWeb3();
+  const { tokenYieldData, updateAaveData, isConnected, chainId, refreshTokenData, readProvider } = useWeb3();
   const [isUpdating, setIsUpdating] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [subnetData, setSubnetData] = useState<SubnetYieldData | null>(null);
@@ -316,22 +316,21 @@ const YieldDataCard: React.FC<YieldDataCardProps> = ({ tokenAddress }) => {
   const [isLoadingSubnet, setIsLoadingSubnet] = useState(false);
 
   const tokenData = tokenYieldData[tokenAddress];
-  const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
+  const tokenInfo = getTokenInfo(tokenAddress);
 
-  // Initialize subnet service when provider is available
+  // Initialize subnet service from the wallet or the read-only provider
   useEffect(() => {
-    if (provider) {
-      const service = new SubnetService(provider);
-      setSubnetService(service);
-    }
-  }, [provider]);
+    const service = new SubnetService(readProvider);
+    setSubnetService(service);
+    return () => service.stopTracking();
+  }, [readProvider]);
 
-  // Load subnet data on component mount and when connected
+  // Load subnet data on component mount and whenever the service changes
   useEffect(() => {
-    if (subnetService && isConnected && chainId === 43113) {
+    if (subnetService) {
       loadSubnetData();
     }
-  }, [subnetService, isConnected, chainId, tokenAddress]);
+  }, [subnetService, tokenAddress]);
 
   const loadSubnetData = async () => {
     if (!subnetService) return;
@@ -456,6 +455,9 @@ const YieldDataCard: React.FC<YieldDataCardProps> = ({ tokenAddress }) => {
               tokenData.tvl
             )}
           </div>
+          {tokenData.priceSource && (
+            <div className="text-gray-500 text-xs mt-0.5">via {tokenData.priceSource}</div>
+          )}
         </div>
 
         {/* APY */}
@@ -517,17 +519,12 @@ const YieldDataCard: React.FC<YieldDataCardProps> = ({ tokenAddress }) => {
               if (!subnetService) return;
               setIsLoadingSubnet(true);
               try {
-                const requestId = await subnetService.requestSubnetYield(tokenAddress);
-                if (requestId) {
-                  const pollInterval = setInterval(async () => {
-                    const status = subnetService.getRequestStatus(requestId);
-                    if (status?.status === 'completed') {
-                      clearInterval(pollInterval);
-                      await loadSubnetData();
-                    }
-                  }, 5000);
-                  setTimeout(() => clearInterval(pollInterval), 120000);
-                }
+                // Reload once the SubnetResponse lands on-chain
+                await subnetService.requestSubnetYield(tokenAddress, (request) => {
+                  if (request.status === 'completed') {
+                    loadSubnetData();
+                  }
+                });
               } catch (error) {
                 console.error('Error requesting subnet data:', error);
               } finally {
@@ -547,7 +544,7 @@ const YieldDataCard: React.FC<YieldDataCardProps> = ({ tokenAddress }) => {
       {(!isConnected || chainId !== 43113) && (
         <div className="flex items-center gap-2 p-2 bg-orange-900/20 border border-orange-500/50 rounded-md text-orange-400 text-xs">
           <XCircle className="w-3 h-3" />
-          <span>{!isConnected ? 'Connect wallet' : 'Switch to Fuji'}</span>
+          <span>{!isConnected ? 'Read-only · connect wallet to update' : 'Switch to Fuji to update'}</span>
         </div>
       )}
 
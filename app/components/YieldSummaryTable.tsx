@@ -3,7 +3,8 @@
 import React, { useState } from 'react';
 import { RefreshCw, ExternalLink, TrendingUp, AlertCircle, CheckCircle } from 'lucide-react';
 import { useWeb3 } from '../lib/Web3Context';
-import { TOKEN_INFO, CONTRACT_CONFIG } from '../lib/web3-config';
+import { CONTRACT_CONFIG } from '../lib/web3-config';
+import { getTokenInfo } from '../lib/token-registry';
 
 const YieldSummaryTable: React.FC = () => {
   const { 
@@ -84,8 +85,8 @@ const YieldSummaryTable: React.FC = () => {
             <AlertCircle className="w-5 h-5 text-orange-400" />
             <span className="text-orange-400 font-medium">
               {!isConnected 
-                ? 'Connect your wallet to view real-time data from Fuji testnet' 
-                : 'Switch to Fuji testnet to access live yield data'}
+                ? 'Read-only mode: showing live data from Fuji testnet. Connect your wallet to transact' 
+                : 'Read-only mode: switch to Fuji testnet to transact'}
             </span>
           </div>
         </div>
@@ -118,7 +119,7 @@ const YieldSummaryTable: React.FC = () => {
           <tbody>
             {supportedTokens.map((tokenAddress) => {
               const tokenData = tokenYieldData[tokenAddress];
-              const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
+              const tokenInfo = getTokenInfo(tokenAddress);
               
               if (!tokenData || !tokenInfo) return null;
 
@@ -135,16 +136,29 @@ const YieldSummaryTable: React.FC = () => {
                     </div>
                   </td>
 
-                  {/* Aave APY */}
+                  {/* Aave APY, with the other registered markets for the token below it */}
                   <td className="h-[72px] px-4 py-2 text-white text-sm font-normal leading-normal">
                     {tokenData.isLoading ? (
                       <div className="animate-pulse bg-[#283039] rounded h-4 w-16"></div>
                     ) : tokenData.error ? (
                       <span className="text-red-400">Error</span>
                     ) : (
-                      <div className="flex items-center gap-1">
-                        <TrendingUp className="w-3 h-3 text-green-400" />
-                        <span className="font-medium">{tokenData.apy}</span>
+                      <div>
+                        <div className="flex items-center gap-1">
+                          <TrendingUp className="w-3 h-3 text-green-400" />
+                          <span className="font-medium">{tokenData.apy}</span>
+                          {tokenData.otherMarkets.length > 0 && (
+                            <span className="text-[#9cabba] text-xs">Aave V3</span>
+                          )}
+                        </div>
+                        {tokenData.otherMarkets.map(market => (
+                          <div
+                            key={market.protocol}
+                            className={`text-xs ${market.rawAPY > tokenData.rawAPY ? 'text-green-400' : 'text-[#9cabba]'}`}
+                          >
+                            {market.apy} {market.protocol}
+                          </div>
+                        ))}
                       </div>
                     )}
                   </td>
@@ -156,7 +170,9 @@ const YieldSummaryTable: React.FC = () => {
                     ) : tokenData.error ? (
                       <span className="text-red-400">Error</span>
                     ) : (
-                      tokenData.tvl
+                      <span title={tokenData.priceSource ? `Priced by ${tokenData.priceSource}` : 'No USD price available'}>
+                        {tokenData.tvl}
+                      </span>
                     )}
                   </td>
 
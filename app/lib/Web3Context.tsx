@@ -1,18 +1,31 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
 import { ethers, BrowserProvider, Contract } from 'ethers';
 import { toast } from 'react-toastify';
 import { 
   FUJI_TESTNET_CONFIG, 
   CONTRACT_CONFIG, 
   YIELDHUB_ABI, 
-  TOKEN_INFO,
   formatAPY,
   formatTVL 
 } from './web3-config';
+import { ReadProvider, getReadOnlyProvider } from './providers';
+import { fetchYieldHubData, isYieldHubSnapshot } from './multicall';
+import { loadTokenRegistry, getTokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import { YieldHubEventService, EVENT_CONFIG, getYieldHubEvents, isRefreshBlock } from './yieldhub-events';
+import { getYieldHistory } from './yield-history';
+import { getYieldSources, MarketQuote } from './yield-source';
+import { AaveYieldSource } from './aave-yield-source';
 
 // Types
+interface MarketRate {
+  protocol: string;
+  apy: string;
+  rawAPY: bigint;
+}
+
 interface TokenYieldData {
   address: string;
   symbol: string;
@@ -23,6 +36,9 @@ interface TokenYieldData {
   rawTVL: bigint;
   optimizedAPY: string;
   rawOptimizedAPY: bigint;
+  otherMarkets: MarketRate[]; // Same-token rates from the other registered sources, best first
+  priceUSD: number;
+  priceSource?: string; // Which oracle source priced the TVL
   isDataFresh: boolean;
   lastUpdate: number;
   isLoading: boolean;
@@ -43,7 +59,11 @@ interface Web3ContextType {
   isConnecting: boolean;
   chainId: number | null;
   provider: BrowserProvider | null;
+  readProvider: ReadProvider;
+  isReadOnly: boolean;
   yieldHubContract: Contract | null;
+  yieldHubEvents: YieldHubEventService;
+  emergencyMode: boolean;
   
   // Token data
   supportedTokens: string[];
@@ -91,33 +111,51 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
   const [tokenYieldData, setTokenYieldData] = useState<Record<string, TokenYieldData>>({});
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const [emergencyMode, setEmergencyMode] = useState(false);
 
-  // Initialize supported tokens
-  useEffect(() => {
-    const tokens = Object.values(CONTRACT_CONFIG.TOKENS);
-    setSupportedTokens(tokens);
-    
-    // Initialize token data structure
-    const initialTokenData: Record<string, TokenYieldData> = {};
-    tokens.forEach(tokenAddress => {
-      const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
-      initialTokenData[tokenAddress] = {
-        address: tokenAddress,
-        symbol: tokenInfo?.symbol || 'UNKNOWN',
-        name: tokenInfo?.name || 'Unknown Token',
-        apy: '0.00%',
-        rawAPY: BigInt(0),
-        tvl: '$0',
-        rawTVL: BigInt(0),
-        optimizedAPY: '0.00%',
-        rawOptimizedAPY: BigInt(0),
-        isDataFresh: false,
-        lastUpdate: 0,
-        isLoading: false,
-      };
+  // Reads go through the wallet when it is on Fuji, otherwise through the public RPC
+  const readProvider = useMemo<ReadProvider>(
+    () => (provider && chainId === 43113 ? provider : getReadOnlyProvider()),
+    [provider, chainId]
+  );
+  const isReadOnly = readProvider !== provider;
+  const priceOracle = useMemo(() => new PriceOracleService(readProvider), [readProvider]);
+  const yieldHubEvents = useMemo(() => getYieldHubEvents(readProvider), [readProvider]);
+
+  // Load supported tokens from the on-chain registry
+  const loadTokens = (forceRefresh: boolean = false) => {
+    return loadTokenRegistry(readProvider, forceRefresh).then(tokens => {
+      setSupportedTokens(tokens.map(token => token.address));
+
+      // Keep existing entries and add any newly supported token
+      setTokenYieldData(prev => {
+        const tokenData: Record<string, TokenYieldData> = {};
+        tokens.forEach(token => {
+          tokenData[token.address] = prev[token.address] || {
+            address: token.address,
+            symbol: token.symbol,
+            name: token.name,
+            apy: '0.00%',
+            rawAPY: BigInt(0),
+            tvl: '$0',
+            rawTVL: BigInt(0),
+            optimizedAPY: '0.00%',
+            rawOptimizedAPY: BigInt(0),
+            otherMarkets: [],
+            priceUSD: 0,
+            isDataFresh: false,
+            lastUpdate: 0,
+            isLoading: false,
+          };
+        });
+        return tokenData;
+      });
     });
-    setTokenYieldData(initialTokenData);
-  }, []);
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, [readProvider]);
 
   // Check for existing connection on load
   useEffect(() => {
@@ -137,16 +175,65 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     };
   }, []);
 
-  // Auto-refresh effect
+  // Rebuild the contract whenever the read provider changes
   useEffect(() => {
-    if (!autoRefresh || !yieldHubContract) return;
+    setupContract(readProvider);
+  }, [readProvider]);
 
-    const interval = setInterval(async () => {
-      await refreshTokenData();
-    }, 30000); // Refresh every 30 seconds
+  // Initial data load once the contract and token list are ready
+  useEffect(() => {
+    if (yieldHubContract && supportedTokens.length > 0) {
+      refreshTokenData();
+    }
+  }, [yieldHubContract, supportedTokens]);
 
-    return () => clearInterval(interval);
-  }, [autoRefresh, yieldHubContract]);
+  // Read the emergency flag once; later changes arrive as events
+  useEffect(() => {
+    if (!yieldHubContract) return;
+    yieldHubContract.emergencyMode()
+      .then((enabled: boolean) => setEmergencyMode(enabled))
+      .catch((error: unknown) => console.error('Error reading emergency mode:', error));
+  }, [yieldHubContract]);
+
+  // Backfill the local APY/TVL history, then keep it current from events
+  useEffect(() => {
+    const history = getYieldHistory(readProvider);
+    history.sync().catch(error => console.warn('Yield history backfill failed:', error));
+    return history.startLiveSync(yieldHubEvents);
+  }, [readProvider, yieldHubEvents]);
+
+  // Live updates: refresh only the token an event touched, and everything on block boundaries
+  useEffect(() => {
+    if (!yieldHubContract) return;
+
+    return yieldHubEvents.subscribe(event => {
+      switch (event.type) {
+        case 'AaveUpdated':
+        case 'SubnetResponse':
+          if (supportedTokens.includes(event.token)) {
+            refreshTokenData(event.token);
+          }
+          break;
+        case 'TokenAdded':
+        case 'TokenRemoved':
+          loadTokens(true);
+          break;
+        case 'EmergencyModeToggled':
+          setEmergencyMode(event.enabled);
+          if (event.enabled) {
+            toast.warn('YieldHub entered emergency mode');
+          } else {
+            toast.info('YieldHub emergency mode lifted');
+          }
+          break;
+        case 'block':
+          if (autoRefresh && isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.MARKET)) {
+            refreshTokenData();
+          }
+          break;
+      }
+    });
+  }, [yieldHubEvents, yieldHubContract, supportedTokens, autoRefresh]);
 
   // Check existing connection
   const checkConnection = async () => {
@@ -161,10 +248,6 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
           setIsConnected(true);
           setChainId(Number(network.chainId));
           setProvider(browserProvider);
-          
-          if (Number(network.chainId) === 43113) {
-            setupContract(browserProvider);
-          }
         }
       } catch (error) {
         console.error('Error checking connection:', error);
@@ -173,17 +256,14 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
   };
 
   // Setup contract instance
-  const setupContract = (browserProvider: BrowserProvider) => {
+  const setupContract = (contractProvider: ReadProvider) => {
     try {
       const contract = new Contract(
         CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
         YIELDHUB_ABI,
-        browserProvider
+        contractProvider
       );
       setYieldHubContract(contract);
-      
-      // Initial data load
-      setTimeout(() => refreshTokenData(), 1000);
     } catch (error) {
       console.error('Error setting up contract:', error);
       toast.error('Failed to connect to YieldHub contract');
@@ -212,12 +292,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
 
       // Check if on Fuji testnet
       if (Number(network.chainId) !== 43113) {
-        const switched = await switchToFuji();
-        if (switched) {
-          setupContract(browserProvider);
-        }
-      } else {
-        setupContract(browserProvider);
+        await switchToFuji();
       }
 
       toast.success('Wallet connected successfully!');
@@ -239,7 +314,6 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     setIsConnected(false);
     setChainId(null);
     setProvider(null);
-    setYieldHubContract(null);
     toast.success('Wallet disconnected');
   };
 
@@ -274,7 +348,33 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     }
   };
 
-  // Refresh token data
+  // Merge updates into the latest state so overlapping refreshes don't overwrite each other
+  const patchTokenData = (updates: Record<string, Partial<TokenYieldData>>) => {
+    setTokenYieldData(prev => {
+      const next = { ...prev };
+      Object.entries(updates).forEach(([token, update]) => {
+        if (next[token]) next[token] = { ...next[token], ...update };
+      });
+      return next;
+    });
+  };
+
+  // Single-chain quotes from every registered source except Aave, which YieldHub already covers
+  const loadOtherMarketQuotes = async (): Promise<MarketQuote[]> => {
+    const sources = getYieldSources(readProvider).filter(source => source.id !== AaveYieldSource.ID);
+    const quotes = await Promise.all(sources.map(source =>
+      source.getQuotes().catch(error => {
+        console.warn(`Could not load ${source.id} markets:`, error);
+        return [] as MarketQuote[];
+      })
+    ));
+    return quotes.flat()
+      .filter(quote => !quote.risk.crossChain)
+      .sort((a, b) => (b.aprBps > a.aprBps ? 1 : b.aprBps < a.aprBps ? -1 : 0));
+  };
+
+  // Refresh token data. A single-token refresh (after an event) re-reads only YieldHub and the price;
+  // the other sources' markets are reloaded with the periodic full refresh
   const refreshTokenData = async (tokenAddress?: string) => {
     if (!yieldHubContract) return;
 
@@ -282,67 +382,60 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     const tokensToRefresh = tokenAddress ? [tokenAddress] : supportedTokens;
 
     try {
-      const updatedData = { ...tokenYieldData };
+      const updatedData: Record<string, Partial<TokenYieldData>> = {};
 
       for (const token of tokensToRefresh) {
-        updatedData[token] = { ...updatedData[token], isLoading: true, error: undefined };
+        updatedData[token] = { isLoading: true, error: undefined };
       }
-      setTokenYieldData(updatedData);
+      patchTokenData(updatedData);
 
-      for (const token of tokensToRefresh) {
-        try {
-          // Use the same approach as the working yield optimizer service
-          const [apyBps, tvl, liquidityIndex, lastUpdate] = await yieldHubContract.getAaveDetails(token);
-          const optimizedAPY = await yieldHubContract.calculateOptimizedAPY(token);
-          
-          // Check data freshness
-          const isDataFresh = await yieldHubContract.isDataFresh(lastUpdate);
+      // One batched read covers every token; a failing token does not affect the others
+      const [batch, quotes, marketQuotes] = await Promise.all([
+        fetchYieldHubData(readProvider, tokensToRefresh),
+        priceOracle.getQuotes(tokensToRefresh),
+        tokenAddress ? Promise.resolve(null) : loadOtherMarketQuotes(),
+      ]);
 
+      for (const token of tokensToRefresh) {
+        const snapshot = batch[token];
+        if (!isYieldHubSnapshot(snapshot)) {
+          console.error(`Error fetching data for token ${token}:`, snapshot?.error);
           updatedData[token] = {
-            ...updatedData[token],
-            rawAPY: apyBps,
-            apy: formatAPY(apyBps),
-            rawTVL: tvl,
-            tvl: formatTVL(tvl),
-            rawOptimizedAPY: optimizedAPY,
-            optimizedAPY: formatAPY(optimizedAPY),
-            isDataFresh,
-            lastUpdate: Number(lastUpdate),
             isLoading: false,
+            error: 'Failed to fetch data',
           };
-        } catch (error) {
-          console.error(`Error fetching data for token ${token}:`, error);
-          
-          // Fallback to individual methods only if getAaveDetails fails
-          try {
-            console.log(`Trying individual methods for ${token}...`);
-            const apyBps = await yieldHubContract.getAaveAPY(token);
-            const tvl = await yieldHubContract.getAaveTVL(token);
-            
-            updatedData[token] = {
-              ...updatedData[token],
-              rawAPY: apyBps,
-              apy: formatAPY(apyBps),
-              rawTVL: tvl,
-              tvl: formatTVL(tvl),
-              rawOptimizedAPY: apyBps, // Use APY as optimized fallback
-              optimizedAPY: formatAPY(apyBps),
-              isDataFresh: true, // Assume fresh for individual methods
-              lastUpdate: Math.floor(Date.now() / 1000),
-              isLoading: false,
-            };
-          } catch (fallbackError) {
-            console.error(`Fallback also failed for ${token}:`, fallbackError);
-            updatedData[token] = {
-              ...updatedData[token],
-              isLoading: false,
-              error: 'Failed to fetch data',
-            };
-          }
+          continue;
         }
+
+        // Without a price the TVL is shown in token units
+        const quote = quotes[token];
+        const decimals = getTokenInfo(token)?.decimals ?? 18;
+
+        updatedData[token] = {
+          rawAPY: snapshot.apyBps,
+          apy: formatAPY(snapshot.apyBps),
+          rawTVL: snapshot.tvl,
+          tvl: formatTVL(snapshot.tvl, quote?.priceUSD, decimals),
+          priceUSD: quote?.priceUSD ?? 0,
+          priceSource: quote?.source,
+          rawOptimizedAPY: snapshot.optimizedAPY,
+          optimizedAPY: formatAPY(snapshot.optimizedAPY),
+          ...(marketQuotes && {
+            otherMarkets: marketQuotes
+              .filter(marketQuote => marketQuote.market.tokenAddress.toLowerCase() === token.toLowerCase())
+              .map(marketQuote => ({
+                protocol: marketQuote.market.protocol,
+                apy: formatAPY(marketQuote.aprBps),
+                rawAPY: marketQuote.aprBps,
+              })),
+          }),
+          isDataFresh: snapshot.isDataFresh,
+          lastUpdate: Number(snapshot.lastUpdate),
+          isLoading: false,
+        };
       }
 
-      setTokenYieldData(updatedData);
+      patchTokenData(updatedData);
     } catch (error) {
       console.error('Error refreshing token data:', error);
       toast.error('Failed to refresh yield data');
@@ -353,7 +446,11 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
 
   // Update Aave data on-chain
   const updateAaveData = async (tokenAddress: string) => {
-    if (!yieldHubContract || !provider) return;
+    if (!yieldHubContract) return;
+    if (!provider || isReadOnly) {
+      toast.warn('Connect your wallet on Fuji to update data on-chain');
+      return;
+    }
 
     try {
       const signer = await provider.getSigner();
@@ -366,9 +463,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
       await tx.wait();
       
       toast.success('Aave data updated successfully!');
-      
-      // Refresh data after update
-      setTimeout(() => refreshTokenData(tokenAddress), 2000);
+      // The AaveUpdated event refreshes this token
     } catch (error: any) {
       console.error('Error updating Aave data:', error);
       toast.error(`Failed to update Aave data: ${error.message}`);
@@ -410,10 +505,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     const newChainId = parseInt(chainId, 16);
     setChainId(newChainId);
     
-    if (newChainId === 43113 && provider) {
-      setupContract(provider);
-    } else {
-      setYieldHubContract(null);
+    if (newChainId !== 43113) {
       toast.warn('Please switch to Fuji testnet for full functionality');
     }
   };
@@ -425,7 +517,11 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     isConnecting,
     chainId,
     provider,
+    readProvider,
+    isReadOnly,
     yieldHubContract,
+    yieldHubEvents,
+    emergencyMode,
     
     // Token data
     supportedTokens,
@@ -1,5 +1,23 @@
-import { ethers, Contract, BrowserProvider } from 'ethers';
+import { ethers, Contract, Interface } from 'ethers';
 import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider, getSigner } from './providers';
+import { multicall, MulticallRequest } from './multicall';
+import {
+  BPS,
+  RAY,
+  WAD,
+  fixedToNumber,
+  formatBps,
+  formatFixed,
+  formatTokenValue,
+  formatUSD,
+  rayDiv,
+  rayMul,
+  rayToBps,
+  scaleDecimals,
+  USD_DECIMALS,
+} from './units';
+import { YieldProjection, compoundInterestRay, projectYield, rayRateToApyBps } from './yield-math';
 
 // Enhanced Aave data types
 export interface AaveReserveData {
@@ -30,13 +48,24 @@ export interface EnhancedAPYData {
   totalBorrow: bigint;
 }
 
+// Aave V3 reports account values in its base currency (USD, 8 decimals)
 export interface UserAccountData {
-  totalCollateralETH: bigint;
-  totalDebtETH: bigint;
-  availableBorrowsETH: bigint;
-  currentLiquidationThreshold: bigint;
-  ltv: bigint;
-  healthFactor: bigint;
+  totalCollateralBase: bigint;
+  totalDebtBase: bigint;
+  availableBorrowsBase: bigint;
+  currentLiquidationThreshold: bigint; // Basis points
+  ltv: bigint; // Basis points
+  healthFactor: bigint; // 18 decimals
+}
+
+// Account data as plain numbers for summaries and risk scoring
+export interface AaveAccountSummary {
+  totalCollateralUSD: number;
+  totalDebtUSD: number;
+  availableBorrowsUSD: number;
+  ltv: number; // Percent
+  liquidationThreshold: number; // Percent
+  healthFactor: number; // Infinity when there is no debt
 }
 
 export interface RiskMetrics {
@@ -46,9 +75,137 @@ export interface RiskMetrics {
   utilizationRisk: bigint;
 }
 
+// A user's supply and debt in one Aave reserve
+export interface UserReservePosition {
+  token: string;
+  aTokenBalance: bigint;
+  stableDebt: bigint;
+  variableDebt: bigint;
+  totalDebt: bigint;
+  stableBorrowRate: bigint; // Ray, the user's locked stable rate
+  liquidityRate: bigint; // Ray
+  usageAsCollateralEnabled: boolean;
+  aTokenAddress: string;
+  stableDebtTokenAddress: string;
+  variableDebtTokenAddress: string;
+}
+
+// Reserve indexes as of the latest block
+export interface ReserveIndexes {
+  liquidityIndex: bigint; // Ray
+  variableBorrowIndex: bigint; // Ray
+}
+
+// Reserve state used to preview actions before signing
+export interface ReserveMarketData {
+  token: string;
+  decimals: number;
+  priceBase: bigint; // AaveOracle price in the base currency (8 decimals)
+  totalSupply: bigint; // aToken supply
+  totalStableDebt: bigint;
+  totalVariableDebt: bigint;
+  liquidityRate: bigint; // Ray
+  variableBorrowRate: bigint; // Ray
+  stableBorrowRate: bigint; // Ray
+  averageStableBorrowRate: bigint; // Ray
+  ltv: bigint; // Bps
+  liquidationThreshold: bigint; // Bps
+  reserveFactor: bigint; // Bps
+  usageAsCollateralEnabled: boolean;
+  borrowingEnabled: boolean;
+  stableBorrowRateEnabled: boolean;
+  isActive: boolean;
+  isFrozen: boolean;
+  aTokenAddress: string;
+  stableDebtTokenAddress: string;
+  variableDebtTokenAddress: string;
+  rateStrategy: InterestRateStrategy | null; // Null when the strategy lacks the default getters
+}
+
+// Variable rate curve of Aave's default interest rate strategy (ray)
+export interface InterestRateStrategy {
+  optimalUsageRatio: bigint;
+  baseVariableBorrowRate: bigint;
+  variableRateSlope1: bigint;
+  variableRateSlope2: bigint;
+}
+
+export type AaveAction = 'supply' | 'withdraw' | 'borrow' | 'repay';
+export type AaveRateMode = 'variable' | 'stable';
+
+// How an action is carried out; each option only applies to some actions
+export interface AaveActionOptions {
+  native?: boolean; // Supply and withdraw: AVAX through the WETH gateway instead of WAVAX
+  rateMode?: AaveRateMode; // Borrow and repay
+  useATokens?: boolean; // Repay: burn supplied aTokens instead of paying from the wallet
+  minHealthFactor?: bigint; // 18 decimals; actions that would end below it are blocked
+}
+
+// Account risk before or after an action, all in the base currency
+export interface PositionSimulation {
+  collateralBase: bigint;
+  debtBase: bigint;
+  healthFactor: bigint; // 18 decimals, max uint256 without debt
+  loanToValue: bigint; // Bps, debt over collateral
+  maxLoanToValue: bigint; // Bps, collateral-weighted LTV limit
+  availableBorrowsBase: bigint;
+  liquidationPrice: bigint | null; // Price of the action's asset at which the health factor reaches 1
+}
+
+// A user's holding of one asset, to solve for its liquidation price
+export interface AssetExposure {
+  collateral: bigint; // Token units counted as collateral
+  debt: bigint; // Token units
+  decimals: number;
+  priceBase: bigint;
+  liquidationThreshold: bigint; // Bps
+}
+
+// What an action would do to the user's position, computed before signing
+export interface AaveActionPreview {
+  action: AaveAction;
+  token: string;
+  native: boolean; // AVAX through the WETH gateway instead of WAVAX
+  rateMode: AaveRateMode | null; // Set for borrow and repay
+  useATokens: boolean;
+  amount: bigint; // Max withdrawals and repays resolve to the current balance or debt
+  isMax: boolean;
+  maxAmount: bigint; // Largest amount the action allows, borrows capped at the health factor floor
+  walletBalance: bigint;
+  currentSupplied: bigint;
+  newSupplied: bigint;
+  currentDebt: bigint; // In the preview's rate mode, or all debt for supply and withdraw
+  newDebt: bigint;
+  currentSupplyAPR: bigint; // Bps
+  newSupplyAPR: bigint; // Bps, after the change in utilization
+  currentBorrowAPR: bigint; // Bps, in the preview's rate mode (variable by default)
+  newBorrowAPR: bigint;
+  currentHealthFactor: number; // Infinity without debt
+  newHealthFactor: number;
+  current: PositionSimulation;
+  projected: PositionSimulation;
+  minHealthFactor: bigint;
+  spender: string | null; // Contract that needs an allowance, if any
+  allowance: bigint;
+  needsApproval: boolean;
+  error: string | null; // Why the action would fail
+}
+
+// Collateral and debt changes (base currency, signed) to project a health factor for
+export interface PositionChange {
+  collateralBase?: bigint;
+  liquidationThreshold?: bigint; // Bps of the asset whose collateral changes
+  ltv?: bigint; // Bps of the asset whose collateral changes
+  debtBase?: bigint;
+}
+
+export type AaveTxStep = 'approving' | 'submitting' | 'confirming';
+export type AaveTxStepCallback = (step: AaveTxStep) => void;
+
 export interface ProjectedEarnings {
   projectedEarnings: bigint;
-  effectiveAPY: bigint;
+  effectiveAPY: bigint; // Bps, the supply APR compounded per second over a year
+  projection: YieldProjection; // Day by day, in token units
 }
 
 // Aave V3 Adapter ABI (essential functions)
@@ -161,21 +318,358 @@ const AAVE_ADAPTER_ABI = [
   }
 ] as const;
 
+// Aave V3 ProtocolDataProvider ABI (per-user reserve data and reserve token addresses)
+const AAVE_DATA_PROVIDER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "address", "name": "user", "type": "address"}
+    ],
+    "name": "getUserReserveData",
+    "outputs": [
+      {"internalType": "uint256", "name": "currentATokenBalance", "type": "uint256"},
+      {"internalType": "uint256", "name": "currentStableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "currentVariableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "principalStableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "scaledVariableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "stableBorrowRate", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidityRate", "type": "uint256"},
+      {"internalType": "uint40", "name": "stableRateLastUpdated", "type": "uint40"},
+      {"internalType": "bool", "name": "usageAsCollateralEnabled", "type": "bool"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveTokensAddresses",
+    "outputs": [
+      {"internalType": "address", "name": "aTokenAddress", "type": "address"},
+      {"internalType": "address", "name": "stableDebtTokenAddress", "type": "address"},
+      {"internalType": "address", "name": "variableDebtTokenAddress", "type": "address"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveData",
+    "outputs": [
+      {"internalType": "uint256", "name": "unbacked", "type": "uint256"},
+      {"internalType": "uint256", "name": "accruedToTreasuryScaled", "type": "uint256"},
+      {"internalType": "uint256", "name": "totalAToken", "type": "uint256"},
+      {"internalType": "uint256", "name": "totalStableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "totalVariableDebt", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidityRate", "type": "uint256"},
+      {"internalType": "uint256", "name": "variableBorrowRate", "type": "uint256"},
+      {"internalType": "uint256", "name": "stableBorrowRate", "type": "uint256"},
+      {"internalType": "uint256", "name": "averageStableBorrowRate", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidityIndex", "type": "uint256"},
+      {"internalType": "uint256", "name": "variableBorrowIndex", "type": "uint256"},
+      {"internalType": "uint40", "name": "lastUpdateTimestamp", "type": "uint40"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveConfigurationData",
+    "outputs": [
+      {"internalType": "uint256", "name": "decimals", "type": "uint256"},
+      {"internalType": "uint256", "name": "ltv", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidationThreshold", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidationBonus", "type": "uint256"},
+      {"internalType": "uint256", "name": "reserveFactor", "type": "uint256"},
+      {"internalType": "bool", "name": "usageAsCollateralEnabled", "type": "bool"},
+      {"internalType": "bool", "name": "borrowingEnabled", "type": "bool"},
+      {"internalType": "bool", "name": "stableBorrowRateEnabled", "type": "bool"},
+      {"internalType": "bool", "name": "isActive", "type": "bool"},
+      {"internalType": "bool", "name": "isFrozen", "type": "bool"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Aave V3 Pool and PoolAddressesProvider ABIs (account data without the adapter)
+const AAVE_POOL_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "user", "type": "address"}],
+    "name": "getUserAccountData",
+    "outputs": [
+      {"internalType": "uint256", "name": "totalCollateralBase", "type": "uint256"},
+      {"internalType": "uint256", "name": "totalDebtBase", "type": "uint256"},
+      {"internalType": "uint256", "name": "availableBorrowsBase", "type": "uint256"},
+      {"internalType": "uint256", "name": "currentLiquidationThreshold", "type": "uint256"},
+      {"internalType": "uint256", "name": "ltv", "type": "uint256"},
+      {"internalType": "uint256", "name": "healthFactor", "type": "uint256"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveNormalizedIncome",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveNormalizedVariableDebt",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getReserveData",
+    "outputs": [{
+      "components": [
+        {"components": [{"internalType": "uint256", "name": "data", "type": "uint256"}], "internalType": "struct DataTypes.ReserveConfigurationMap", "name": "configuration", "type": "tuple"},
+        {"internalType": "uint128", "name": "liquidityIndex", "type": "uint128"},
+        {"internalType": "uint128", "name": "currentLiquidityRate", "type": "uint128"},
+        {"internalType": "uint128", "name": "variableBorrowIndex", "type": "uint128"},
+        {"internalType": "uint128", "name": "currentVariableBorrowRate", "type": "uint128"},
+        {"internalType": "uint128", "name": "currentStableBorrowRate", "type": "uint128"},
+        {"internalType": "uint40", "name": "lastUpdateTimestamp", "type": "uint40"},
+        {"internalType": "uint16", "name": "id", "type": "uint16"},
+        {"internalType": "address", "name": "aTokenAddress", "type": "address"},
+        {"internalType": "address", "name": "stableDebtTokenAddress", "type": "address"},
+        {"internalType": "address", "name": "variableDebtTokenAddress", "type": "address"},
+        {"internalType": "address", "name": "interestRateStrategyAddress", "type": "address"},
+        {"internalType": "uint128", "name": "accruedToTreasury", "type": "uint128"},
+        {"internalType": "uint128", "name": "unbacked", "type": "uint128"},
+        {"internalType": "uint128", "name": "isolationModeTotalDebt", "type": "uint128"}
+      ],
+      "internalType": "struct DataTypes.ReserveData",
+      "name": "",
+      "type": "tuple"
+    }],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "supply",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "withdraw",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "uint256", "name": "interestRateMode", "type": "uint256"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"}
+    ],
+    "name": "borrow",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "uint256", "name": "interestRateMode", "type": "uint256"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"}
+    ],
+    "name": "repay",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "uint256", "name": "interestRateMode", "type": "uint256"}
+    ],
+    "name": "repayWithATokens",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const ADDRESSES_PROVIDER_ABI = [
+  {
+    "inputs": [],
+    "name": "getPool",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getPriceOracle",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Aave V3 oracle (prices in the base currency) and default interest rate strategy getters
+const AAVE_ORACLE_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getAssetPrice",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+const RATE_STRATEGY_ABI = [
+  {
+    "inputs": [],
+    "name": "OPTIMAL_USAGE_RATIO",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getBaseVariableBorrowRate",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getVariableRateSlope1",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getVariableRateSlope2",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Aave WrappedTokenGatewayV3 (native AVAX in and out of the WAVAX reserve)
+const WETH_GATEWAY_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "pool", "type": "address"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "depositETH",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "pool", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "withdrawETH",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+// ERC20 ABI for balances and approvals of underlying tokens and aTokens
+const ERC20_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "account", "type": "address"}],
+    "name": "balanceOf",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "owner", "type": "address"},
+      {"internalType": "address", "name": "spender", "type": "address"}
+    ],
+    "name": "allowance",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "spender", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"}
+    ],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const dataProviderInterface = new Interface(AAVE_DATA_PROVIDER_ABI);
+const poolInterface = new Interface(AAVE_POOL_ABI);
+const oracleInterface = new Interface(AAVE_ORACLE_ABI);
+const rateStrategyInterface = new Interface(RATE_STRATEGY_ABI);
+
+// Aave V3 base currency decimals (USD)
+export const AAVE_BASE_CURRENCY_DECIMALS = 8;
+
+export const AAVE_RISK_CONFIG = {
+  // Default health factor floor (18 decimals) below which previews block withdrawals and borrows
+  MIN_HEALTH_FACTOR: (WAD * BigInt(110)) / BigInt(100),
+} as const;
+
+// Extra allowance granted for max withdrawals and repays, covering interest accrued before execution
+const MAX_ALLOWANCE_BUFFER_BPS = BigInt(10);
+const ZERO = BigInt(0);
+
+// Pool interestRateMode values
+const INTEREST_RATE_MODES: Record<AaveRateMode, number> = {
+  stable: 1,
+  variable: 2,
+};
+
+const withAllowanceBuffer = (amount: bigint): bigint => (amount * (BPS + MAX_ALLOWANCE_BUFFER_BPS)) / BPS;
+
 // Aave V3 Adapter contract address (you'll need to deploy this)
 const AAVE_ADAPTER_ADDRESS = '0x0000000000000000000000000000000000000000'; // TODO: Deploy and update
 
 export class AaveService {
-  private provider: BrowserProvider | null = null;
+  private provider: ReadProvider | null = null;
   private adapterContract: Contract | null = null;
+  private poolContract: Promise<Contract> | null = null;
+  private oracleAddress: Promise<string> | null = null;
 
-  constructor(provider?: BrowserProvider) {
+  constructor(provider?: ReadProvider) {
     if (provider) {
       this.setProvider(provider);
     }
   }
 
-  setProvider(provider: BrowserProvider) {
+  setProvider(provider: ReadProvider) {
     this.provider = provider;
+    this.poolContract = null;
+    this.oracleAddress = null;
     if (AAVE_ADAPTER_ADDRESS !== '0x0000000000000000000000000000000000000000') {
       this.adapterContract = new Contract(AAVE_ADAPTER_ADDRESS, AAVE_ADAPTER_ABI, provider);
     }
@@ -234,17 +728,330 @@ export class AaveService {
     }
   }
 
-  // Get user account data for risk assessment
+  // Aave Pool resolved through the addresses provider, looked up once per provider
+  private getPool(): Promise<Contract> {
+    if (!this.provider) {
+      return Promise.reject(new Error('Provider not initialized'));
+    }
+    if (!this.poolContract) {
+      const provider = this.provider;
+      const addressesProvider = new Contract(CONTRACT_CONFIG.AAVE_ADDRESSES_PROVIDER, ADDRESSES_PROVIDER_ABI, provider);
+      this.poolContract = addressesProvider.getPool()
+        .then((poolAddress: string) => new Contract(poolAddress, AAVE_POOL_ABI, provider));
+      // Allow a retry if the lookup failed
+      this.poolContract!.catch(() => {
+        this.poolContract = null;
+      });
+    }
+    return this.poolContract!;
+  }
+
+  // Aave oracle address, looked up once per provider
+  private getOracleAddress(): Promise<string> {
+    if (!this.provider) {
+      return Promise.reject(new Error('Provider not initialized'));
+    }
+    if (!this.oracleAddress) {
+      const addressesProvider = new Contract(CONTRACT_CONFIG.AAVE_ADDRESSES_PROVIDER, ADDRESSES_PROVIDER_ABI, this.provider);
+      this.oracleAddress = addressesProvider.getPriceOracle() as Promise<string>;
+      this.oracleAddress.catch(() => {
+        this.oracleAddress = null;
+      });
+    }
+    return this.oracleAddress;
+  }
+
+  // Rate curve from the default strategy getters; custom strategies fall back to null
+  private async getRateStrategy(strategyAddress: string): Promise<InterestRateStrategy | null> {
+    if (!this.provider) return null;
+
+    const call = (method: string): MulticallRequest => ({ target: strategyAddress, iface: rateStrategyInterface, method, args: [] });
+    const results = await multicall(this.provider, [
+      call('OPTIMAL_USAGE_RATIO'),
+      call('getBaseVariableBorrowRate'),
+      call('getVariableRateSlope1'),
+      call('getVariableRateSlope2'),
+    ]);
+    if (results.some(result => !result.success)) return null;
+
+    const [optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2] =
+      results.map(result => result.result as bigint);
+    return { optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2 };
+  }
+
+  private async previewAction(
+    action: AaveAction,
+    userAddress: string,
+    tokenAddress: string,
+    requested: bigint | 'max',
+    options: AaveActionOptions
+  ): Promise<AaveActionPreview> {
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+    const provider = this.provider;
+    const native = options.native ?? false;
+    const rateMode = action === 'borrow' || action === 'repay' ? options.rateMode ?? 'variable' : null;
+    const useATokens = action === 'repay' && !!options.useATokens;
+    const minHealthFactor = options.minHealthFactor ?? AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR;
+
+    const [market, reserves, account, poolAddress] = await Promise.all([
+      this.getReserveMarket(tokenAddress),
+      this.getUserReserves(userAddress, [tokenAddress]),
+      this.getUserAccountData(userAddress),
+      this.getPoolAddress(),
+    ]);
+    if (!market) {
+      throw new Error('Token is not an Aave reserve');
+    }
+
+    const reserve = reserves[tokenAddress];
+    const currentSupplied = reserve?.aTokenBalance ?? ZERO;
+    const reserveDebt = reserve?.totalDebt ?? ZERO;
+    const currentDebt = rateMode === null
+      ? reserveDebt
+      : (rateMode === 'stable' ? reserve?.stableDebt : reserve?.variableDebt) ?? ZERO;
+
+    let amount: bigint;
+    if (requested !== 'max') {
+      amount = requested;
+    } else if (action === 'withdraw') {
+      amount = currentSupplied;
+    } else if (action === 'repay') {
+      amount = useATokens && currentSupplied < currentDebt ? currentSupplied : currentDebt;
+    } else {
+      amount = ZERO;
+    }
+
+    // Plain supplies and wallet repays are pulled by the Pool; native withdrawals need the gateway to pull aWAVAX
+    const gatewayAddress = CONTRACT_CONFIG.AAVE_WETH_GATEWAY;
+    let allowanceCheck: { token: string; spender: string } | null = null;
+    if (action === 'supply' && !native) {
+      allowanceCheck = { token: tokenAddress, spender: poolAddress };
+    } else if (action === 'withdraw' && native) {
+      allowanceCheck = { token: market.aTokenAddress, spender: gatewayAddress };
+    } else if (action === 'repay' && !useATokens) {
+      allowanceCheck = { token: tokenAddress, spender: poolAddress };
+    }
+    const allowanceNeeded = requested === 'max' ? withAllowanceBuffer(amount) : amount;
+
+    const [walletBalance, allowance] = await Promise.all([
+      native ? provider.getBalance(userAddress) : new Contract(tokenAddress, ERC20_ABI, provider).balanceOf(userAddress) as Promise<bigint>,
+      allowanceCheck
+        ? new Contract(allowanceCheck.token, ERC20_ABI, provider).allowance(userAddress, allowanceCheck.spender) as Promise<bigint>
+        : Promise.resolve(ethers.MaxUint256),
+    ]);
+
+    let supplyDelta = ZERO;
+    if (action === 'supply') {
+      supplyDelta = amount;
+    } else if (action === 'withdraw' || useATokens) {
+      supplyDelta = ZERO - amount;
+    }
+    let debtDelta = ZERO;
+    if (action === 'borrow') {
+      debtDelta = amount;
+    } else if (action === 'repay') {
+      debtDelta = ZERO - amount;
+    }
+
+    const newSupplied = currentSupplied + supplyDelta > ZERO ? currentSupplied + supplyDelta : ZERO;
+    const newDebt = currentDebt + debtDelta > ZERO ? currentDebt + debtDelta : ZERO;
+    const rates = AaveService.projectRates(market, supplyDelta, debtDelta, rateMode ?? 'variable');
+
+    // The Pool enables a first supply as collateral; otherwise the user's flag decides
+    const isCollateral = reserve?.usageAsCollateralEnabled ?? false;
+    const countsAsCollateral = isCollateral || (action === 'supply' && currentSupplied === ZERO);
+    const accountData: UserAccountData = account ?? {
+      totalCollateralBase: ZERO,
+      totalDebtBase: ZERO,
+      availableBorrowsBase: ZERO,
+      currentLiquidationThreshold: ZERO,
+      ltv: ZERO,
+      healthFactor: ethers.MaxUint256,
+    };
+    const change: PositionChange = {
+      collateralBase: countsAsCollateral ? AaveService.toBaseCurrency(supplyDelta, market.decimals, market.priceBase) : ZERO,
+      liquidationThreshold: market.liquidationThreshold,
+      ltv: market.ltv,
+      debtBase: AaveService.toBaseCurrency(debtDelta, market.decimals, market.priceBase),
+    };
+    const exposure: AssetExposure = {
+      collateral: isCollateral ? currentSupplied : ZERO,
+      debt: reserveDebt,
+      decimals: market.decimals,
+      priceBase: market.priceBase,
+      liquidationThreshold: market.liquidationThreshold,
+    };
+    const current = AaveService.simulatePosition(accountData, {}, exposure);
+    const projected = AaveService.simulatePosition(accountData, change, {
+      ...exposure,
+      collateral: countsAsCollateral ? newSupplied : ZERO,
+      debt: reserveDebt + debtDelta > ZERO ? reserveDebt + debtDelta : ZERO,
+    });
+
+    const totalReserveDebt = market.totalStableDebt + market.totalVariableDebt;
+    const availableLiquidity = market.totalSupply > totalReserveDebt ? market.totalSupply - totalReserveDebt : ZERO;
+
+    let maxAmount: bigint;
+    if (action === 'supply') {
+      maxAmount = walletBalance;
+    } else if (action === 'withdraw') {
+      maxAmount = currentSupplied;
+    } else if (action === 'borrow') {
+      const borrowableBase = AaveService.maxBorrowBase(accountData, minHealthFactor);
+      const borrowable = market.priceBase > ZERO
+        ? (borrowableBase * BigInt(10) ** BigInt(market.decimals)) / market.priceBase
+        : ZERO;
+      maxAmount = borrowable < availableLiquidity ? borrowable : availableLiquidity;
+    } else {
+      const source = useATokens ? currentSupplied : walletBalance;
+      maxAmount = source < currentDebt ? source : currentDebt;
+    }
+
+    // Stable rates are set per loan, so only the variable rate is projected along the curve
+    const borrowRate = rateMode === 'stable' ? market.stableBorrowRate : null;
+    const isWAVAX = tokenAddress.toLowerCase() === CONTRACT_CONFIG.TOKENS.WAVAX.toLowerCase();
+
+    let error: string | null = null;
+    if (native && !isWAVAX) {
+      error = 'Native AVAX can only be used with the WAVAX reserve';
+    } else if (native && (action === 'borrow' || action === 'repay')) {
+      error = 'Native AVAX is only supported for supply and withdraw';
+    } else if (!market.isActive) {
+      error = 'Reserve is not active';
+    } else if ((action === 'supply' || action === 'borrow') && market.isFrozen) {
+      error = 'Reserve is frozen';
+    } else if (action === 'borrow' && !market.borrowingEnabled) {
+      error = 'Borrowing is disabled for this reserve';
+    } else if (action === 'borrow' && rateMode === 'stable' && !market.stableBorrowRateEnabled) {
+      error = 'Stable rate borrowing is disabled for this reserve';
+    } else if (amount <= ZERO) {
+      if (requested !== 'max') {
+        error = 'Enter an amount';
+      } else {
+        error = action === 'repay' ? 'No debt to repay' : 'Nothing to withdraw';
+      }
+    } else if (action === 'supply' && amount > walletBalance) {
+      error = 'Amount exceeds wallet balance';
+    } else if (action === 'withdraw' && amount > currentSupplied) {
+      error = 'Amount exceeds supplied balance';
+    } else if (action === 'borrow' && amount > availableLiquidity) {
+      error = 'Not enough liquidity in the reserve';
+    } else if (action === 'borrow' && (change.debtBase ?? ZERO) > accountData.availableBorrowsBase) {
+      error = 'Amount exceeds your borrowing power';
+    } else if (action === 'repay' && amount > currentDebt) {
+      error = 'Amount exceeds debt';
+    } else if (action === 'repay' && useATokens && amount > currentSupplied) {
+      error = 'Amount exceeds supplied balance';
+    } else if (action === 'repay' && !useATokens && amount > walletBalance) {
+      error = 'Amount exceeds wallet balance';
+    } else if (
+      projected.debtBase > ZERO &&
+      projected.healthFactor < current.healthFactor &&
+      projected.healthFactor < minHealthFactor
+    ) {
+      // Actions that improve an already risky position stay allowed
+      error = `Health factor would fall below ${formatFixed(minHealthFactor, 18, 2)}`;
+    }
+
+    return {
+      action,
+      token: tokenAddress,
+      native,
+      rateMode,
+      useATokens,
+      amount,
+      isMax: requested === 'max',
+      maxAmount,
+      walletBalance,
+      currentSupplied,
+      newSupplied,
+      currentDebt,
+      newDebt,
+      currentSupplyAPR: rayToBps(market.liquidityRate),
+      newSupplyAPR: rayToBps(rates.liquidityRate),
+      currentBorrowAPR: rayToBps(borrowRate ?? market.variableBorrowRate),
+      newBorrowAPR: rayToBps(borrowRate ?? rates.variableBorrowRate),
+      currentHealthFactor: AaveService.healthFactorToNumber(current.healthFactor),
+      newHealthFactor: AaveService.healthFactorToNumber(projected.healthFactor),
+      current,
+      projected,
+      minHealthFactor,
+      spender: allowanceCheck?.spender ?? null,
+      allowance,
+      needsApproval: !!allowanceCheck && allowance < allowanceNeeded,
+      error,
+    };
+  }
+
+  // Approve `spender` for `amount` unless the current allowance already covers it
+  private async ensureAllowance(
+    signer: ethers.Signer,
+    tokenAddress: string,
+    spender: string,
+    amount: bigint,
+    onStep?: AaveTxStepCallback
+  ) {
+    const token = new Contract(tokenAddress, ERC20_ABI, signer);
+    const allowance: bigint = await token.allowance(await signer.getAddress(), spender);
+    if (allowance >= amount) return;
+
+    onStep?.('approving');
+    const tx = await token.approve(spender, amount);
+    console.log('Aave approval transaction sent:', tx.hash);
+    await tx.wait();
+  }
+
+  // Run a write through the connected wallet and wait for it to be mined
+  private async sendTransaction(
+    label: string,
+    onStep: AaveTxStepCallback | undefined,
+    submit: (signer: ethers.Signer, user: string) => Promise<ethers.ContractTransactionResponse>
+  ): Promise<string> {
+    try {
+      const signer = await getSigner(this.provider);
+      const tx = await submit(signer, await signer.getAddress());
+      console.log(`Aave ${label} transaction sent:`, tx.hash);
+      onStep?.('confirming');
+      await tx.wait();
+      return tx.hash;
+    } catch (error: any) {
+      console.error(`Error during Aave ${label}:`, error);
+      throw new Error(`Failed to ${label}: ${error.shortMessage || error.message}`);
+    }
+  }
+
+  // Aave Pool address, for event queries and transactions
+  async getPoolAddress(): Promise<string> {
+    const pool = await this.getPool();
+    return pool.getAddress();
+  }
+
+  // Get user account data for risk assessment, from the adapter or straight from the Aave Pool
   async getUserAccountData(userAddress: string): Promise<UserAccountData | null> {
-    if (!this.adapterContract) return null;
+    if (!this.provider) return null;
 
     try {
-      const accountData = await this.adapterContract.getUserAccountData(userAddress);
-      
+      if (this.adapterContract) {
+        // The adapter emits an event while reading, so it has to be called statically
+        const accountData = await this.adapterContract.getUserAccountData.staticCall(userAddress);
+        return {
+          totalCollateralBase: accountData.totalCollateralETH,
+          totalDebtBase: accountData.totalDebtETH,
+          availableBorrowsBase: accountData.availableBorrowsETH,
+          currentLiquidationThreshold: accountData.currentLiquidationThreshold,
+          ltv: accountData.ltv,
+          healthFactor: accountData.healthFactor,
+        };
+      }
+
+      const pool = await this.getPool();
+      const accountData = await pool.getUserAccountData(userAddress);
       return {
-        totalCollateralETH: accountData.totalCollateralETH,
-        totalDebtETH: accountData.totalDebtETH,
-        availableBorrowsETH: accountData.availableBorrowsETH,
+        totalCollateralBase: accountData.totalCollateralBase,
+        totalDebtBase: accountData.totalDebtBase,
+        availableBorrowsBase: accountData.availableBorrowsBase,
         currentLiquidationThreshold: accountData.currentLiquidationThreshold,
         ltv: accountData.ltv,
         healthFactor: accountData.healthFactor,
@@ -255,6 +1062,290 @@ export class AaveService {
     }
   }
 
+  // Supply, debt and collateral flag for each token, read from Aave's data provider in one multicall
+  async getUserReserves(
+    userAddress: string,
+    tokenAddresses: string[]
+  ): Promise<Record<string, UserReservePosition>> {
+    const positions: Record<string, UserReservePosition> = {};
+    if (!this.provider || tokenAddresses.length === 0) return positions;
+
+    const requests: MulticallRequest[] = tokenAddresses.flatMap(token => [
+      { target: CONTRACT_CONFIG.AAVE_DATA_PROVIDER, iface: dataProviderInterface, method: 'getUserReserveData', args: [token, userAddress] },
+      { target: CONTRACT_CONFIG.AAVE_DATA_PROVIDER, iface: dataProviderInterface, method: 'getReserveTokensAddresses', args: [token] },
+    ]);
+
+    try {
+      const results = await multicall(this.provider, requests);
+
+      tokenAddresses.forEach((token, i) => {
+        const userData = results[i * 2];
+        const tokens = results[i * 2 + 1];
+        // Tokens that are not Aave reserves revert here and are simply left out
+        if (!userData.success || !tokens.success) return;
+
+        const stableDebt: bigint = userData.result.currentStableDebt;
+        const variableDebt: bigint = userData.result.currentVariableDebt;
+
+        positions[token] = {
+          token,
+          aTokenBalance: userData.result.currentATokenBalance,
+          stableDebt,
+          variableDebt,
+          totalDebt: stableDebt + variableDebt,
+          stableBorrowRate: userData.result.stableBorrowRate,
+          liquidityRate: userData.result.liquidityRate,
+          usageAsCollateralEnabled: userData.result.usageAsCollateralEnabled,
+          aTokenAddress: tokens.result.aTokenAddress,
+          stableDebtTokenAddress: tokens.result.stableDebtTokenAddress,
+          variableDebtTokenAddress: tokens.result.variableDebtTokenAddress,
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching user reserve data:', error);
+    }
+
+    return positions;
+  }
+
+  // Current liquidity and variable borrow indexes (ray), accrued up to the latest block
+  async getReserveIndexes(tokenAddresses: string[]): Promise<Record<string, ReserveIndexes>> {
+    const indexes: Record<string, ReserveIndexes> = {};
+    if (!this.provider || tokenAddresses.length === 0) return indexes;
+
+    try {
+      const poolAddress = await this.getPoolAddress();
+      const requests: MulticallRequest[] = tokenAddresses.flatMap(token => [
+        { target: poolAddress, iface: poolInterface, method: 'getReserveNormalizedIncome', args: [token] },
+        { target: poolAddress, iface: poolInterface, method: 'getReserveNormalizedVariableDebt', args: [token] },
+      ]);
+      const results = await multicall(this.provider, requests);
+
+      tokenAddresses.forEach((token, i) => {
+        const income = results[i * 2];
+        const debt = results[i * 2 + 1];
+        if (!income.success || !debt.success) return;
+        indexes[token] = { liquidityIndex: income.result, variableBorrowIndex: debt.result };
+      });
+    } catch (error) {
+      console.error('Error fetching reserve indexes:', error);
+    }
+
+    return indexes;
+  }
+
+  // Rates, totals, configuration, oracle price and rate curve of one reserve
+  async getReserveMarket(tokenAddress: string): Promise<ReserveMarketData | null> {
+    if (!this.provider) return null;
+
+    try {
+      const [poolAddress, oracleAddress] = await Promise.all([this.getPoolAddress(), this.getOracleAddress()]);
+      const [reserve, config, poolReserve, price] = await multicall(this.provider, [
+        { target: CONTRACT_CONFIG.AAVE_DATA_PROVIDER, iface: dataProviderInterface, method: 'getReserveData', args: [tokenAddress] },
+        { target: CONTRACT_CONFIG.AAVE_DATA_PROVIDER, iface: dataProviderInterface, method: 'getReserveConfigurationData', args: [tokenAddress] },
+        { target: poolAddress, iface: poolInterface, method: 'getReserveData', args: [tokenAddress] },
+        { target: oracleAddress, iface: oracleInterface, method: 'getAssetPrice', args: [tokenAddress] },
+      ]);
+      if (!reserve.success || !config.success || !poolReserve.success || !price.success) return null;
+
+      return {
+        token: tokenAddress,
+        decimals: Number(config.result.decimals),
+        priceBase: price.result,
+        totalSupply: reserve.result.totalAToken,
+        totalStableDebt: reserve.result.totalStableDebt,
+        totalVariableDebt: reserve.result.totalVariableDebt,
+        liquidityRate: reserve.result.liquidityRate,
+        variableBorrowRate: reserve.result.variableBorrowRate,
+        stableBorrowRate: reserve.result.stableBorrowRate,
+        averageStableBorrowRate: reserve.result.averageStableBorrowRate,
+        ltv: config.result.ltv,
+        liquidationThreshold: config.result.liquidationThreshold,
+        reserveFactor: config.result.reserveFactor,
+        usageAsCollateralEnabled: config.result.usageAsCollateralEnabled,
+        borrowingEnabled: config.result.borrowingEnabled,
+        stableBorrowRateEnabled: config.result.stableBorrowRateEnabled,
+        isActive: config.result.isActive,
+        isFrozen: config.result.isFrozen,
+        aTokenAddress: poolReserve.result.aTokenAddress,
+        stableDebtTokenAddress: poolReserve.result.stableDebtTokenAddress,
+        variableDebtTokenAddress: poolReserve.result.variableDebtTokenAddress,
+        rateStrategy: await this.getRateStrategy(poolReserve.result.interestRateStrategyAddress),
+      };
+    } catch (error) {
+      console.error('Error fetching reserve market data:', error);
+      return null;
+    }
+  }
+
+  // New balance, supply APY and health factor if `amount` were supplied
+  async previewSupply(
+    userAddress: string,
+    tokenAddress: string,
+    amount: bigint,
+    native: boolean = false
+  ): Promise<AaveActionPreview> {
+    return this.previewAction('supply', userAddress, tokenAddress, amount, { native });
+  }
+
+  // New balance, supply APY and health factor if `amount` (or everything) were withdrawn
+  async previewWithdraw(
+    userAddress: string,
+    tokenAddress: string,
+    amount: bigint | 'max',
+    native: boolean = false,
+    minHealthFactor: bigint = AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR
+  ): Promise<AaveActionPreview> {
+    return this.previewAction('withdraw', userAddress, tokenAddress, amount, { native, minHealthFactor });
+  }
+
+  // New debt, borrow APY, health factor, LTV and liquidation price if `amount` were borrowed
+  async previewBorrow(
+    userAddress: string,
+    tokenAddress: string,
+    amount: bigint,
+    rateMode: AaveRateMode = 'variable',
+    minHealthFactor: bigint = AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR
+  ): Promise<AaveActionPreview> {
+    return this.previewAction('borrow', userAddress, tokenAddress, amount, { rateMode, minHealthFactor });
+  }
+
+  // The same projection for repaying `amount` (or all debt in `rateMode`) from the wallet or with aTokens
+  async previewRepay(
+    userAddress: string,
+    tokenAddress: string,
+    amount: bigint | 'max',
+    rateMode: AaveRateMode = 'variable',
+    useATokens: boolean = false,
+    minHealthFactor: bigint = AAVE_RISK_CONFIG.MIN_HEALTH_FACTOR
+  ): Promise<AaveActionPreview> {
+    return this.previewAction('repay', userAddress, tokenAddress, amount, { rateMode, useATokens, minHealthFactor });
+  }
+
+  // Supply tokens, approving the Pool first when the allowance is short; resolves with the tx hash
+  async supply(tokenAddress: string, amount: bigint, onStep?: AaveTxStepCallback): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('supply', onStep, async (signer, user) => {
+      await this.ensureAllowance(signer, tokenAddress, poolAddress, amount, onStep);
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.supply(tokenAddress, amount, user, 0);
+    });
+  }
+
+  // Supply native AVAX; the gateway wraps it and supplies WAVAX on the user's behalf
+  async supplyNative(amount: bigint, onStep?: AaveTxStepCallback): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('supply AVAX', onStep, async (signer, user) => {
+      onStep?.('submitting');
+      const gateway = new Contract(CONTRACT_CONFIG.AAVE_WETH_GATEWAY, WETH_GATEWAY_ABI, signer);
+      return gateway.depositETH(poolAddress, user, 0, { value: amount });
+    });
+  }
+
+  // Withdraw an exact amount of the underlying token
+  async withdraw(tokenAddress: string, amount: bigint, onStep?: AaveTxStepCallback): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('withdraw', onStep, async (signer, user) => {
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.withdraw(tokenAddress, amount, user);
+    });
+  }
+
+  // Withdraw the whole supplied balance, including interest accrued up to execution
+  async withdrawMax(tokenAddress: string, onStep?: AaveTxStepCallback): Promise<string> {
+    return this.withdraw(tokenAddress, ethers.MaxUint256, onStep);
+  }
+
+  // Withdraw WAVAX as native AVAX; the gateway pulls aWAVAX, so it needs an allowance first
+  async withdrawNative(amount: bigint | 'max', onStep?: AaveTxStepCallback): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('withdraw AVAX', onStep, async (signer, user) => {
+      const gatewayAddress = CONTRACT_CONFIG.AAVE_WETH_GATEWAY;
+      const { aTokenAddress } = await new Contract(CONTRACT_CONFIG.AAVE_DATA_PROVIDER, AAVE_DATA_PROVIDER_ABI, this.provider)
+        .getReserveTokensAddresses(CONTRACT_CONFIG.TOKENS.WAVAX);
+
+      let allowanceNeeded: bigint;
+      if (amount === 'max') {
+        const balance: bigint = await new Contract(aTokenAddress, ERC20_ABI, this.provider).balanceOf(user);
+        allowanceNeeded = withAllowanceBuffer(balance);
+      } else {
+        allowanceNeeded = amount;
+      }
+      await this.ensureAllowance(signer, aTokenAddress, gatewayAddress, allowanceNeeded, onStep);
+
+      onStep?.('submitting');
+      const gateway = new Contract(gatewayAddress, WETH_GATEWAY_ABI, signer);
+      return gateway.withdrawETH(poolAddress, amount === 'max' ? ethers.MaxUint256 : amount, user);
+    });
+  }
+
+  // Borrow against supplied collateral at the variable or stable rate
+  async borrow(
+    tokenAddress: string,
+    amount: bigint,
+    rateMode: AaveRateMode = 'variable',
+    onStep?: AaveTxStepCallback
+  ): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('borrow', onStep, async (signer, user) => {
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.borrow(tokenAddress, amount, INTEREST_RATE_MODES[rateMode], 0, user);
+    });
+  }
+
+  // Repay debt from the wallet, approving the Pool first when the allowance is short
+  async repay(
+    tokenAddress: string,
+    amount: bigint,
+    rateMode: AaveRateMode = 'variable',
+    onStep?: AaveTxStepCallback
+  ): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('repay', onStep, async (signer, user) => {
+      await this.ensureAllowance(signer, tokenAddress, poolAddress, amount, onStep);
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.repay(tokenAddress, amount, INTEREST_RATE_MODES[rateMode], user);
+    });
+  }
+
+  // Repay all debt in `rateMode`, including interest accrued up to execution
+  async repayMax(
+    tokenAddress: string,
+    rateMode: AaveRateMode = 'variable',
+    onStep?: AaveTxStepCallback
+  ): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('repay', onStep, async (signer, user) => {
+      const reserves = await this.getUserReserves(user, [tokenAddress]);
+      const reserve = reserves[tokenAddress];
+      const debt = (rateMode === 'stable' ? reserve?.stableDebt : reserve?.variableDebt) ?? ZERO;
+      await this.ensureAllowance(signer, tokenAddress, poolAddress, withAllowanceBuffer(debt), onStep);
+
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.repay(tokenAddress, ethers.MaxUint256, INTEREST_RATE_MODES[rateMode], user);
+    });
+  }
+
+  // Repay debt by burning aTokens of the same reserve; 'max' repays as much as the supplied balance covers
+  async repayWithATokens(
+    tokenAddress: string,
+    amount: bigint | 'max',
+    rateMode: AaveRateMode = 'variable',
+    onStep?: AaveTxStepCallback
+  ): Promise<string> {
+    const poolAddress = await this.getPoolAddress();
+    return this.sendTransaction('repay with aTokens', onStep, async (signer) => {
+      onStep?.('submitting');
+      const pool = new Contract(poolAddress, AAVE_POOL_ABI, signer);
+      return pool.repayWithATokens(tokenAddress, amount === 'max' ? ethers.MaxUint256 : amount, INTEREST_RATE_MODES[rateMode]);
+    });
+  }
+
   // Get risk metrics for a token
   async getRiskMetrics(tokenAddress: string): Promise<RiskMetrics | null> {
     if (!this.adapterContract) return null;
@@ -275,31 +1366,29 @@ export class AaveService {
     }
   }
 
-  // Calculate projected earnings for a deposit
+  // Projected earnings for a deposit at the reserve's current supply rate, compounded per second
+  // with the same math as the adapter's calculateProjectedEarnings (YieldMath)
   async calculateProjectedEarnings(
     tokenAddress: string, 
     amount: bigint, 
     timeHorizonDays: number
   ): Promise<ProjectedEarnings | null> {
-    if (!this.adapterContract) return null;
+    const market = await this.getReserveMarket(tokenAddress);
+    if (!market) return null;
 
-    try {
-      const timeHorizonSeconds = timeHorizonDays * 24 * 60 * 60;
-      const [projectedEarnings, effectiveAPY] = 
-        await this.adapterContract.calculateProjectedEarnings(
-          tokenAddress, 
-          amount, 
-          timeHorizonSeconds
-        );
-      
-      return {
-        projectedEarnings,
-        effectiveAPY,
-      };
-    } catch (error) {
-      console.error('Error calculating projected earnings:', error);
-      return null;
-    }
+    // Inactive and frozen reserves take no new supply, so a deposit earns nothing
+    const liquidityRate = market.isActive && !market.isFrozen ? market.liquidityRate : BigInt(0);
+    const timeHorizonSeconds = BigInt(Math.round(timeHorizonDays * 24 * 60 * 60));
+    return {
+      projectedEarnings: compoundInterestRay(amount, liquidityRate, timeHorizonSeconds) - amount,
+      effectiveAPY: rayRateToApyBps(liquidityRate),
+      // Ray rates are fractions scaled by 1e27, so 1e25 is one percent
+      projection: projectYield(
+        fixedToNumber(amount, market.decimals),
+        { kind: 'APR', percent: fixedToNumber(liquidityRate, 25) },
+        timeHorizonDays
+      ),
+    };
   }
 
   // Check token status in Aave
@@ -339,28 +1428,161 @@ export class AaveService {
 
   // Utility functions for formatting
   static formatAPY(apyBps: bigint): string {
-    return `${(Number(apyBps) / 100).toFixed(2)}%`;
+    return formatBps(apyBps);
   }
 
-  static formatTVL(tvl: bigint, decimals: number = 18): string {
-    const tvlNum = Number(tvl) / Math.pow(10, decimals);
-    
-    if (tvlNum >= 1e9) {
-      return `$${(tvlNum / 1e9).toFixed(2)}B`;
-    } else if (tvlNum >= 1e6) {
-      return `$${(tvlNum / 1e6).toFixed(2)}M`;
-    } else if (tvlNum >= 1e3) {
-      return `$${(tvlNum / 1e3).toFixed(2)}K`;
+  // Reserve amounts are in token units; pass a price to show them in USD
+  static formatTVL(tvl: bigint, decimals: number = 18, priceUSD?: number): string {
+    return formatTokenValue(tvl, decimals, priceUSD);
+  }
+
+  // Base currency amount (USD, 8 decimals) as a dollar string
+  static formatBaseCurrency(value: bigint): string {
+    return formatUSD(scaleDecimals(value, AAVE_BASE_CURRENCY_DECIMALS, USD_DECIMALS));
+  }
+
+  // Health factor as a number; Aave reports max uint256 when there is no debt
+  static healthFactorToNumber(healthFactor: bigint): number {
+    if (healthFactor === BigInt(2) ** BigInt(256) - BigInt(1)) {
+      return Infinity;
+    }
+    return fixedToNumber(healthFactor, 18);
+  }
+
+  // Token amount in the base currency at an AaveOracle price
+  static toBaseCurrency(amount: bigint, decimals: number, priceBase: bigint): bigint {
+    return (amount * priceBase) / BigInt(10) ** BigInt(decimals);
+  }
+
+  // Health factor (18 decimals) after collateral and debt changes; max uint256 once no debt is left
+  static projectHealthFactor(accountData: UserAccountData, change: PositionChange): bigint {
+    const weightedCollateral = accountData.totalCollateralBase * accountData.currentLiquidationThreshold
+      + (change.collateralBase ?? ZERO) * (change.liquidationThreshold ?? ZERO);
+    const debt = accountData.totalDebtBase + (change.debtBase ?? ZERO);
+
+    if (debt <= ZERO) return ethers.MaxUint256;
+    if (weightedCollateral <= ZERO) return ZERO;
+    return (weightedCollateral * WAD) / (debt * BPS);
+  }
+
+  // Collateral, debt, health factor, LTV and borrowing power after a change, plus the liquidation
+  // price of `exposure`'s asset when one is given
+  static simulatePosition(
+    accountData: UserAccountData,
+    change: PositionChange = {},
+    exposure?: AssetExposure
+  ): PositionSimulation {
+    const collateralDelta = change.collateralBase ?? ZERO;
+    const collateral = accountData.totalCollateralBase + collateralDelta;
+    const debt = accountData.totalDebtBase + (change.debtBase ?? ZERO);
+    const collateralBase = collateral > ZERO ? collateral : ZERO;
+    const debtBase = debt > ZERO ? debt : ZERO;
+
+    const weightedLtv = accountData.totalCollateralBase * accountData.ltv + collateralDelta * (change.ltv ?? ZERO);
+    const borrowCapacity = weightedLtv > ZERO ? weightedLtv / BPS : ZERO;
+
+    return {
+      collateralBase,
+      debtBase,
+      healthFactor: AaveService.projectHealthFactor(accountData, change),
+      loanToValue: collateralBase > ZERO ? (debtBase * BPS) / collateralBase : ZERO,
+      maxLoanToValue: collateralBase > ZERO && weightedLtv > ZERO ? weightedLtv / collateralBase : ZERO,
+      availableBorrowsBase: borrowCapacity > debtBase ? borrowCapacity - debtBase : ZERO,
+      liquidationPrice: exposure ? AaveService.liquidationPrice(accountData, change, exposure) : null,
+    };
+  }
+
+  // Oracle price of one asset at which the health factor would reach 1, everything else unchanged.
+  // Null when there is no debt or the asset's price cannot trigger liquidation.
+  static liquidationPrice(accountData: UserAccountData, change: PositionChange, exposure: AssetExposure): bigint | null {
+    const unit = BigInt(10) ** BigInt(exposure.decimals);
+    const weightedCollateral = accountData.totalCollateralBase * accountData.currentLiquidationThreshold
+      + (change.collateralBase ?? ZERO) * (change.liquidationThreshold ?? ZERO);
+    const debt = accountData.totalDebtBase + (change.debtBase ?? ZERO);
+    if (debt <= ZERO) return null;
+
+    // Health factor margin (base currency x bps) contributed per unit of the asset's price
+    const assetWeight = exposure.collateral * exposure.liquidationThreshold - exposure.debt * BPS;
+    if (assetWeight === ZERO) return null;
+
+    const otherMargin = weightedCollateral - debt * BPS - (assetWeight * exposure.priceBase) / unit;
+    const price = ((ZERO - otherMargin) * unit) / assetWeight;
+    return price > ZERO ? price : null;
+  }
+
+  // Extra debt (base currency) the account can take on without going below the LTV limit or `minHealthFactor`
+  static maxBorrowBase(accountData: UserAccountData, minHealthFactor: bigint): bigint {
+    if (minHealthFactor <= ZERO) return accountData.availableBorrowsBase;
+
+    const weightedCollateral = accountData.totalCollateralBase * accountData.currentLiquidationThreshold;
+    const debtAtFloor = (weightedCollateral * WAD) / (minHealthFactor * BPS);
+    const headroom = debtAtFloor > accountData.totalDebtBase ? debtAtFloor - accountData.totalDebtBase : ZERO;
+    return headroom < accountData.availableBorrowsBase ? headroom : accountData.availableBorrowsBase;
+  }
+
+  // Supply and variable borrow rates after supply and debt change, along the reserve's rate curve.
+  // Without a known curve the borrow rate is held and the supply rate follows utilization.
+  static projectRates(
+    market: ReserveMarketData,
+    supplyDelta: bigint,
+    debtDelta: bigint,
+    rateMode: AaveRateMode = 'variable'
+  ): { liquidityRate: bigint; variableBorrowRate: bigint } {
+    const currentDebt = market.totalStableDebt + market.totalVariableDebt;
+    const debt = currentDebt + debtDelta > ZERO ? currentDebt + debtDelta : ZERO;
+    const supply = market.totalSupply + supplyDelta > ZERO ? market.totalSupply + supplyDelta : ZERO;
+    const usage = supply > ZERO ? rayDiv(debt, supply) : ZERO;
+
+    if (!market.rateStrategy) {
+      const currentUsage = market.totalSupply > ZERO ? rayDiv(currentDebt, market.totalSupply) : ZERO;
+      return {
+        liquidityRate: currentUsage > ZERO ? (market.liquidityRate * usage) / currentUsage : ZERO,
+        variableBorrowRate: market.variableBorrowRate,
+      };
+    }
+
+    const { optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2 } = market.rateStrategy;
+    let variableBorrowRate = baseVariableBorrowRate;
+    if (usage > optimalUsageRatio) {
+      const excessUsage = rayDiv(usage - optimalUsageRatio, RAY - optimalUsageRatio);
+      variableBorrowRate += variableRateSlope1 + rayMul(variableRateSlope2, excessUsage);
     } else {
-      return `$${tvlNum.toFixed(2)}`;
+      variableBorrowRate += rayDiv(rayMul(variableRateSlope1, usage), optimalUsageRatio);
     }
+
+    // The debt change lands in its rate mode. New stable debt joins the average at the current stable
+    // rate; repaid stable debt is taken out at the average, as the repaying loan's own rate is not read.
+    const variableDelta = rateMode === 'variable' ? debtDelta : ZERO;
+    const stableDelta = rateMode === 'stable' ? debtDelta : ZERO;
+    const variableDebt = market.totalVariableDebt + variableDelta > ZERO ? market.totalVariableDebt + variableDelta : ZERO;
+    const stableRate = stableDelta > ZERO ? market.stableBorrowRate : market.averageStableBorrowRate;
+    const stableInterest = market.totalStableDebt * market.averageStableBorrowRate + stableDelta * stableRate;
+    const overallBorrowRate = debt > ZERO
+      ? (variableDebt * variableBorrowRate + (stableInterest > ZERO ? stableInterest : ZERO)) / debt
+      : ZERO;
+    const liquidityRate = (rayMul(overallBorrowRate, usage) * (BPS - market.reserveFactor)) / BPS;
+
+    return { liquidityRate, variableBorrowRate };
+  }
+
+  static toAccountSummary(accountData: UserAccountData): AaveAccountSummary {
+    return {
+      totalCollateralUSD: fixedToNumber(accountData.totalCollateralBase, AAVE_BASE_CURRENCY_DECIMALS),
+      totalDebtUSD: fixedToNumber(accountData.totalDebtBase, AAVE_BASE_CURRENCY_DECIMALS),
+      availableBorrowsUSD: fixedToNumber(accountData.availableBorrowsBase, AAVE_BASE_CURRENCY_DECIMALS),
+      ltv: fixedToNumber(accountData.ltv, 2),
+      liquidationThreshold: fixedToNumber(accountData.currentLiquidationThreshold, 2),
+      healthFactor: accountData.totalDebtBase === BigInt(0)
+        ? Infinity
+        : AaveService.healthFactorToNumber(accountData.healthFactor),
+    };
   }
 
   static formatHealthFactor(healthFactor: bigint): string {
     if (healthFactor === BigInt(2) ** BigInt(256) - BigInt(1)) {
       return '∞';
     }
-    return (Number(healthFactor) / 1e18).toFixed(2);
+    return formatFixed(healthFactor, 18, 2);
   }
 
   static getRiskLevel(riskScore: bigint): {
@@ -381,7 +1603,7 @@ export class AaveService {
   }
 
   static formatUtilization(utilizationRate: bigint): string {
-    return `${(Number(utilizationRate) / 100).toFixed(1)}%`;
+    return formatBps(utilizationRate, 1);
   }
 }
 
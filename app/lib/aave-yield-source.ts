@@ -0,0 +1,190 @@
+import { ethers, Interface } from 'ethers';
+import { CONTRACT_CONFIG, NETWORK_NAME } from './web3-config';
+import { ReadProvider } from './providers';
+import { fetchYieldHubData, isYieldHubSnapshot, YieldHubTokenSnapshot } from './multicall';
+import { loadTokenRegistry, getTokenInfo, TokenInfo } from './token-registry';
+import AaveService from './aave-service';
+import { rayToBps } from './units';
+import { MarketQuote, SourcePosition, SourceTransaction, YieldMarket, YieldSource } from './yield-source';
+
+// Aave Pool and ERC20 ABIs (transaction encoding only)
+const POOL_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "supply",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "withdraw",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const ERC20_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "spender", "type": "address"}, {"internalType": "uint256", "name": "amount", "type": "uint256"}],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const poolInterface = new Interface(POOL_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Aave V3 supply as YieldHub reports it, plus YieldHub's SubnetYield Core rate for the same deposit
+export class AaveYieldSource implements YieldSource {
+  static readonly ID = 'aave-v3';
+  static readonly PROTOCOL = 'Aave V3';
+  // Funds sit in Aave; YieldHub blends in subnet yield reported over Teleporter
+  static readonly OPTIMIZED_PROTOCOL = 'SubnetYield Core';
+
+  readonly id = AaveYieldSource.ID;
+  private provider: ReadProvider;
+  private aaveService: AaveService;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+    this.aaveService = new AaveService(provider);
+  }
+
+  async listMarkets(): Promise<YieldMarket[]> {
+    const tokens = await loadTokenRegistry(this.provider);
+    return tokens.flatMap(token => [
+      AaveYieldSource.market(token.address, token),
+      AaveYieldSource.optimizedMarket(token.address, token),
+    ]);
+  }
+
+  async getQuotes(): Promise<MarketQuote[]> {
+    if (!CONTRACT_CONFIG.YIELD_HUB_ADDRESS) return [];
+
+    const tokens = (await loadTokenRegistry(this.provider)).map(token => token.address);
+    const batch = await fetchYieldHubData(this.provider, tokens);
+
+    return tokens.flatMap(tokenAddress => {
+      const tokenInfo = getTokenInfo(tokenAddress);
+      const snapshot = batch[tokenAddress];
+      if (!tokenInfo) return [];
+      if (!isYieldHubSnapshot(snapshot)) {
+        console.warn(`Failed to fetch data for ${tokenInfo.symbol}:`, snapshot?.error);
+        return [];
+      }
+      return AaveYieldSource.quotesFromSnapshot(tokenAddress, snapshot, tokenInfo);
+    });
+  }
+
+  // Approve the Pool, then supply on the user's behalf; both markets deposit the same way
+  async buildDeposit(market: YieldMarket, amount: bigint, userAddress: string): Promise<SourceTransaction[]> {
+    const poolAddress = await this.aaveService.getPoolAddress();
+    return [
+      {
+        description: `Approve ${market.tokenSymbol} for the Aave Pool`,
+        to: market.tokenAddress,
+        data: erc20Interface.encodeFunctionData('approve', [poolAddress, amount]),
+      },
+      {
+        description: `Supply ${market.tokenSymbol} to Aave`,
+        to: poolAddress,
+        data: poolInterface.encodeFunctionData('supply', [market.tokenAddress, amount, userAddress, 0]),
+      },
+    ];
+  }
+
+  async buildWithdraw(market: YieldMarket, amount: bigint | 'max', userAddress: string): Promise<SourceTransaction[]> {
+    const poolAddress = await this.aaveService.getPoolAddress();
+    return [{
+      description: `Withdraw ${market.tokenSymbol} from Aave`,
+      to: poolAddress,
+      data: poolInterface.encodeFunctionData('withdraw', [
+        market.tokenAddress,
+        amount === 'max' ? ethers.MaxUint256 : amount,
+        userAddress,
+      ]),
+    }];
+  }
+
+  // aToken balances; SubnetYield Core deposits are the same aTokens, so they are reported once under Aave
+  async getPositions(userAddress: string): Promise<SourcePosition[]> {
+    const tokens = await loadTokenRegistry(this.provider);
+    const reserves = await this.aaveService.getUserReserves(userAddress, tokens.map(token => token.address));
+
+    return tokens.flatMap(token => {
+      const reserve = reserves[token.address];
+      if (!reserve || reserve.aTokenBalance === BigInt(0)) return [];
+      return [{
+        market: AaveYieldSource.market(token.address, token),
+        amount: reserve.aTokenBalance,
+        aprBps: rayToBps(reserve.liquidityRate),
+      }];
+    });
+  }
+
+  // The Aave quote for a token, plus the SubnetYield Core one when YieldHub's optimized rate is higher
+  static quotesFromSnapshot(
+    tokenAddress: string,
+    snapshot: Pick<YieldHubTokenSnapshot, 'apyBps' | 'tvl' | 'lastUpdate' | 'optimizedAPY'>,
+    tokenInfo: Pick<TokenInfo, 'symbol' | 'decimals'>
+  ): MarketQuote[] {
+    const quotes: MarketQuote[] = [{
+      market: AaveYieldSource.market(tokenAddress, tokenInfo),
+      aprBps: snapshot.apyBps,
+      tvl: snapshot.tvl,
+      lastUpdate: Number(snapshot.lastUpdate),
+      risk: { protocolAdjustment: -10, crossChain: false, impermanentLoss: false },
+    }];
+
+    if (snapshot.optimizedAPY > snapshot.apyBps) {
+      quotes.push({
+        market: AaveYieldSource.optimizedMarket(tokenAddress, tokenInfo),
+        aprBps: snapshot.optimizedAPY,
+        tvl: snapshot.tvl,
+        lastUpdate: Number(snapshot.lastUpdate),
+        risk: { protocolAdjustment: -10, crossChain: true, impermanentLoss: false },
+      });
+    }
+
+    return quotes;
+  }
+
+  private static market(tokenAddress: string, tokenInfo: Pick<TokenInfo, 'symbol' | 'decimals'>): YieldMarket {
+    return {
+      id: `aave-${tokenAddress}`,
+      sourceId: AaveYieldSource.ID,
+      protocol: AaveYieldSource.PROTOCOL,
+      network: NETWORK_NAME,
+      tokenAddress,
+      tokenSymbol: tokenInfo.symbol,
+      decimals: tokenInfo.decimals,
+    };
+  }
+
+  private static optimizedMarket(tokenAddress: string, tokenInfo: Pick<TokenInfo, 'symbol' | 'decimals'>): YieldMarket {
+    return {
+      id: `optimized-${tokenAddress}`,
+      sourceId: AaveYieldSource.ID,
+      protocol: AaveYieldSource.OPTIMIZED_PROTOCOL,
+      network: 'Cross-Chain',
+      tokenAddress,
+      tokenSymbol: tokenInfo.symbol,
+      decimals: tokenInfo.decimals,
+    };
+  }
+}
+
+export default AaveYieldSource;
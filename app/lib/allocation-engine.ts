@@ -0,0 +1,302 @@
+// Splits an investment across yield opportunities to maximize risk-adjusted return under user
+// constraints. The split is a small linear program: weights w_i >= 0 summing to at most 1, capped
+// per protocol, per token and per opportunity, with a stablecoin floor, maximizing sum(score_i * w_i).
+
+export const ALLOCATION_CONFIG = {
+  // Symbols counted toward the stablecoin share
+  STABLECOIN_SYMBOLS: ['USDC', 'USDC.E', 'USDT', 'USDT.E', 'DAI', 'DAI.E'],
+  // Numerical tolerance for the simplex and for reporting binding constraints
+  EPSILON: 1e-9,
+  MAX_PIVOTS: 500,
+};
+
+// What the engine needs to know about an opportunity (YieldOpportunity satisfies this)
+export interface AllocationCandidate {
+  id: string;
+  protocol: string;
+  tokenSymbol: string;
+  rawAPY: bigint; // Bps
+  riskScore: number; // 0-100
+}
+
+// User limits; omitted limits don't constrain. Shares are percentages of the investment.
+export interface AllocationConstraints {
+  maxProtocolPercent?: number;
+  maxTokenPercent?: number;
+  maxOpportunityPercent?: number;
+  minStablecoinPercent?: number;
+  maxRiskScore?: number; // Opportunities scoring above this are left out
+}
+
+export interface Allocation<T extends AllocationCandidate> {
+  opportunity: T;
+  amount: number;
+  sharePercent: number;
+  apyPercent: number;
+}
+
+export type ConstraintKind = 'protocol' | 'token' | 'opportunity' | 'stablecoin' | 'risk';
+
+// A limit the result runs into; relaxing it would raise the risk-adjusted return
+export interface BindingConstraint {
+  kind: ConstraintKind;
+  key: string; // Protocol, token symbol, opportunity id, or '' for portfolio-wide limits
+  limit: number;
+  // Gain in the portfolio's risk-adjusted score per extra percentage point of room, when meaningful
+  marginalScore: number | null;
+  description: string;
+}
+
+export interface AllocationResult<T extends AllocationCandidate> {
+  allocations: Allocation<T>[]; // Funded opportunities, largest first
+  allocatedAmount: number;
+  unallocatedAmount: number; // Left over when the constraints can't absorb the full amount
+  weightedAPY: number; // Percent, weighted by allocated amount
+  weightedRiskScore: number;
+  stablecoinPercent: number;
+  bindingConstraints: BindingConstraint[];
+}
+
+interface LinearRow {
+  coefficients: number[];
+  sense: '<=' | '>=';
+  rhs: number;
+  label: { kind: ConstraintKind | 'budget'; key: string; limit: number };
+}
+
+interface LinearSolution {
+  values: number[];
+  duals: number[]; // Per row, >= 0 for '<=' rows and <= 0 for '>=' rows
+  feasible: boolean;
+}
+
+export const isStablecoin = (symbol: string): boolean =>
+  ALLOCATION_CONFIG.STABLECOIN_SYMBOLS.includes(symbol.toUpperCase());
+
+const percent = (share: number): number => Math.round(share * 10000) / 100;
+
+// Maximize c·x subject to the rows and x >= 0, with a Big-M tableau simplex and Bland's rule.
+// Infeasible '>=' rows are met as far as possible before the objective is considered.
+const solveLinearProgram = (objective: number[], rows: LinearRow[]): LinearSolution => {
+  const eps = ALLOCATION_CONFIG.EPSILON;
+  const n = objective.length;
+  const m = rows.length;
+  const bigM = 1e4 * (1 + Math.max(0, ...objective.map(Math.abs)));
+
+  // Columns: decision variables, one slack/surplus per row, one artificial per '>=' row
+  const artificialRows = rows.map((row, i) => (row.sense === '>=' ? i : -1)).filter(i => i >= 0);
+  const width = n + m + artificialRows.length;
+  const tableau: number[][] = rows.map((row, i) => {
+    const line = new Array(width + 1).fill(0);
+    row.coefficients.forEach((value, j) => { line[j] = value; });
+    line[n + i] = row.sense === '<=' ? 1 : -1;
+    const artificial = artificialRows.indexOf(i);
+    if (artificial >= 0) line[n + m + artificial] = 1;
+    line[width] = row.rhs;
+    return line;
+  });
+  const basis = rows.map((row, i) =>
+    row.sense === '<=' ? n + i : n + m + artificialRows.indexOf(i)
+  );
+
+  // Objective row in z - c form, with artificial rows priced out
+  const costs = [...objective, ...new Array(m).fill(0), ...artificialRows.map(() => -bigM)];
+  const z = costs.map(cost => -cost).concat(0);
+  artificialRows.forEach(i => {
+    for (let j = 0; j <= width; j++) z[j] -= bigM * tableau[i][j];
+  });
+
+  for (let pivots = 0; pivots < ALLOCATION_CONFIG.MAX_PIVOTS; pivots++) {
+    const entering = z.slice(0, width).findIndex(value => value < -eps);
+    if (entering < 0) break;
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < m; i++) {
+      if (tableau[i][entering] <= eps) continue;
+      const ratio = tableau[i][width] / tableau[i][entering];
+      if (ratio < bestRatio - eps || (Math.abs(ratio - bestRatio) <= eps && basis[i] < basis[leaving])) {
+        bestRatio = ratio;
+        leaving = i;
+      }
+    }
+    if (leaving < 0) break; // Unbounded; can't happen with a budget row
+
+    const pivot = tableau[leaving][entering];
+    for (let j = 0; j <= width; j++) tableau[leaving][j] /= pivot;
+    for (let i = 0; i < m; i++) {
+      if (i === leaving) continue;
+      const factor = tableau[i][entering];
+      if (factor === 0) continue;
+      for (let j = 0; j <= width; j++) tableau[i][j] -= factor * tableau[leaving][j];
+    }
+    const factor = z[entering];
+    for (let j = 0; j <= width; j++) z[j] -= factor * tableau[leaving][j];
+    basis[leaving] = entering;
+  }
+
+  const values = new Array(n).fill(0);
+  let feasible = true;
+  basis.forEach((column, i) => {
+    if (column < n) values[column] = tableau[i][width];
+    if (column >= n + m && tableau[i][width] > eps) feasible = false;
+  });
+  const duals = rows.map((row, i) => (row.sense === '<=' ? z[n + i] : -z[n + i]));
+
+  return { values, duals, feasible };
+};
+
+// Split `investmentAmount` across the candidates, maximizing sum(share * score) within the constraints
+export const allocate = <T extends AllocationCandidate>(
+  candidates: T[],
+  investmentAmount: number,
+  constraints: AllocationConstraints,
+  score: (candidate: T) => number
+): AllocationResult<T> => {
+  const eps = ALLOCATION_CONFIG.EPSILON;
+  const maxRisk = constraints.maxRiskScore ?? 100;
+  const eligible = candidates.filter(candidate => candidate.riskScore <= maxRisk);
+  const excluded = candidates.filter(candidate => candidate.riskScore > maxRisk);
+  const scores = eligible.map(score);
+
+  const rows: LinearRow[] = [];
+  const indicator = (matches: (candidate: T) => boolean) => eligible.map(candidate => (matches(candidate) ? 1 : 0));
+  // Rows a candidate takes part in, so excluded ones can be priced against the same duals
+  const rowsFor = (candidate: T): number[] => rows
+    .map((row, i) => ({ row, i }))
+    .filter(({ row }) =>
+      row.label.kind === 'budget' ||
+      (row.label.kind === 'protocol' && row.label.key === candidate.protocol) ||
+      (row.label.kind === 'token' && row.label.key === candidate.tokenSymbol) ||
+      (row.label.kind === 'opportunity' && row.label.key === candidate.id) ||
+      (row.label.kind === 'stablecoin' && isStablecoin(candidate.tokenSymbol))
+    )
+    .map(({ i }) => i);
+
+  rows.push({ coefficients: eligible.map(() => 1), sense: '<=', rhs: 1, label: { kind: 'budget', key: '', limit: 100 } });
+
+  if (constraints.maxProtocolPercent !== undefined) {
+    const limit = constraints.maxProtocolPercent;
+    for (const protocol of Array.from(new Set(eligible.map(candidate => candidate.protocol)))) {
+      rows.push({
+        coefficients: indicator(candidate => candidate.protocol === protocol),
+        sense: '<=',
+        rhs: limit / 100,
+        label: { kind: 'protocol', key: protocol, limit },
+      });
+    }
+  }
+  if (constraints.maxTokenPercent !== undefined) {
+    const limit = constraints.maxTokenPercent;
+    for (const symbol of Array.from(new Set(eligible.map(candidate => candidate.tokenSymbol)))) {
+      rows.push({
+        coefficients: indicator(candidate => candidate.tokenSymbol === symbol),
+        sense: '<=',
+        rhs: limit / 100,
+        label: { kind: 'token', key: symbol, limit },
+      });
+    }
+  }
+  if (constraints.maxOpportunityPercent !== undefined) {
+    const limit = constraints.maxOpportunityPercent;
+    for (const candidate of eligible) {
+      rows.push({
+        coefficients: indicator(other => other.id === candidate.id),
+        sense: '<=',
+        rhs: limit / 100,
+        label: { kind: 'opportunity', key: candidate.id, limit },
+      });
+    }
+  }
+  if (constraints.minStablecoinPercent) {
+    const limit = constraints.minStablecoinPercent;
+    rows.push({
+      coefficients: indicator(candidate => isStablecoin(candidate.tokenSymbol)),
+      sense: '>=',
+      rhs: limit / 100,
+      label: { kind: 'stablecoin', key: '', limit },
+    });
+  }
+
+  const solution = eligible.length > 0
+    ? solveLinearProgram(scores, rows)
+    : { values: [], duals: rows.map(() => 0), feasible: !constraints.minStablecoinPercent };
+
+  const allocations: Allocation<T>[] = eligible
+    .map((opportunity, i) => ({ opportunity, share: solution.values[i] }))
+    .filter(({ share }) => share > eps)
+    .map(({ opportunity, share }) => ({
+      opportunity,
+      amount: share * investmentAmount,
+      sharePercent: percent(share),
+      apyPercent: Number(opportunity.rawAPY) / 100,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const allocatedAmount = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  const weighted = (value: (allocation: Allocation<T>) => number) => allocatedAmount > 0
+    ? allocations.reduce((sum, allocation) => sum + value(allocation) * allocation.amount, 0) / allocatedAmount
+    : 0;
+  const stableShare = allocations
+    .filter(allocation => isStablecoin(allocation.opportunity.tokenSymbol))
+    .reduce((sum, allocation) => sum + allocation.amount, 0) / (investmentAmount || 1);
+
+  // Limits with a positive shadow price are the ones holding the result back
+  const bindingConstraints: BindingConstraint[] = [];
+  rows.forEach((row, i) => {
+    const { kind, key, limit } = row.label;
+    if (kind === 'budget') return;
+    if (kind === 'stablecoin' && !solution.feasible) {
+      bindingConstraints.push({
+        kind,
+        key,
+        limit,
+        marginalScore: null,
+        description: `Only ${percent(stableShare)}% could go to stablecoins within the other limits (minimum ${limit}%)`,
+      });
+      return;
+    }
+    if (Math.abs(solution.duals[i]) <= eps) return;
+
+    const candidate = eligible.find(other => other.id === key);
+    const description = kind === 'protocol'
+      ? `${key} is capped at ${limit}% per protocol`
+      : kind === 'token'
+        ? `${key} is capped at ${limit}% per token`
+        : kind === 'opportunity'
+          ? `${candidate ? `${candidate.protocol} ${candidate.tokenSymbol}` : key} is capped at ${limit}% per opportunity`
+          : `At least ${limit}% must be in stablecoins`;
+    bindingConstraints.push({
+      kind,
+      key,
+      limit,
+      marginalScore: solution.feasible ? Math.abs(solution.duals[i]) / 100 : null,
+      description,
+    });
+  });
+
+  // The risk cap binds when a left-out opportunity would improve the result at the current shadow prices
+  const blockedByRisk = excluded.filter(candidate => {
+    const reducedCost = score(candidate) - rowsFor(candidate).reduce((sum, i) => sum + solution.duals[i], 0);
+    return reducedCost > eps;
+  });
+  if (blockedByRisk.length > 0) {
+    bindingConstraints.push({
+      kind: 'risk',
+      key: '',
+      limit: maxRisk,
+      marginalScore: null,
+      description: `Max risk score ${maxRisk} leaves out ${blockedByRisk.map(candidate => `${candidate.protocol} ${candidate.tokenSymbol}`).join(', ')}`,
+    });
+  }
+
+  return {
+    allocations,
+    allocatedAmount,
+    unallocatedAmount: Math.max(0, investmentAmount - allocatedAmount),
+    weightedAPY: weighted(allocation => allocation.apyPercent),
+    weightedRiskScore: weighted(allocation => allocation.opportunity.riskScore),
+    stablecoinPercent: percent(stableShare),
+    bindingConstraints,
+  };
+};
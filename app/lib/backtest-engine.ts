@@ -0,0 +1,415 @@
+import { COST_CONFIG, CostModelService, OpportunityCosts, StepCosts } from './cost-model';
+import YieldOptimizerService, { OptimizationParams, YieldOpportunity } from './yield-optimizer-service';
+import { YieldHistoryService } from './yield-history';
+import { getTokenInfo } from './token-registry';
+import { annualizeReturn, growthFactor } from './yield-math';
+import { bpsToPercent } from './units';
+
+// Backtest defaults
+export const BACKTEST_CONFIG = {
+  SECONDS_PER_DAY: 24 * 60 * 60,
+  // Position changes smaller than this share of portfolio value are not traded
+  MIN_TRADE_BPS: 10,
+};
+
+// One token's market on one day of the replay
+export interface BacktestTokenState {
+  token: string;
+  symbol?: string; // With decimals, lets the replay run without the token registry
+  decimals?: number;
+  aaveAPY: bigint; // Bps APR, as YieldHub records it
+  optimizedAPY: bigint; // YieldHub's optimized rate; equal to aaveAPY without fresh subnet data
+  tvl: bigint; // Token units
+  priceUSD: number;
+}
+
+export interface BacktestStep {
+  timestamp: number; // Seconds
+  tokens: BacktestTokenState[];
+}
+
+// Prices per token: a constant, or points carried forward until the next one
+export type PriceSeries = Record<string, number | Array<{ timestamp: number; priceUSD: number }>>;
+
+// Target share of portfolio value per opportunity id; whatever is left stays in cash
+export type TargetWeights = Record<string, number>;
+
+export interface StrategyContext {
+  index: number;
+  timestamp: number;
+  opportunities: YieldOpportunity[];
+  costs: Record<string, OpportunityCosts>;
+  valueUSD: number;
+  weights: TargetWeights; // Current shares
+  lastTrade: number | null; // Timestamp of the last trade, including the first allocation
+}
+
+// Where the portfolio should be now
+export type TargetFunction = (context: StrategyContext) => TargetWeights;
+
+// A strategy returns target weights to trade to, or null to hold
+export type BacktestStrategy = (context: StrategyContext) => TargetWeights | null;
+
+export interface BacktestOptions {
+  initialValueUSD: number;
+  strategy: BacktestStrategy;
+  stepCosts: StepCosts; // USD per transaction, e.g. from CostModelService.getStepCosts
+  fundingToken?: string; // Token the capital starts in; others are swapped into
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  valueUSD: number;
+}
+
+export interface BacktestResult {
+  equity: EquityPoint[];
+  days: number;
+  initialValueUSD: number;
+  finalValueUSD: number;
+  cumulativeReturn: number; // Percent
+  realizedAPY: number; // Percent, compounded annualization of the cumulative return
+  maxDrawdown: number; // Percent, largest fall from a previous peak
+  rebalances: number; // Trades after the first allocation
+  turnover: number; // Value traded in rebalances over the average portfolio value
+  tradedUSD: number; // Per rebalance, the smaller of value bought and value sold, so a switch counts once
+  totalCostUSD: number; // Gas, message fees, swap fees and slippage, including the first allocation
+}
+
+interface Holding {
+  opportunity: YieldOpportunity;
+  units: number; // Token units, so price moves carry through
+}
+
+const DEFAULT_OPTIMIZER = new YieldOptimizerService();
+
+// ---- Strategies ----
+
+// The same weights every time
+export const fixedWeights = (weights: TargetWeights): TargetFunction => () => weights;
+
+// Whatever the optimizer would recommend for the current portfolio value and market
+export const optimizerTargets = (
+  params: Omit<OptimizationParams, 'investmentAmount' | 'userAddress'>,
+  optimizer: YieldOptimizerService = DEFAULT_OPTIMIZER
+): TargetFunction => context => {
+  if (context.valueUSD <= 0) return {};
+  const result = optimizer.allocateOpportunities(
+    context.opportunities,
+    { ...params, investmentAmount: context.valueUSD },
+    context.costs
+  );
+  return Object.fromEntries(
+    result.allocations.map(allocation => [allocation.opportunity.id, allocation.amount / context.valueUSD])
+  );
+};
+
+// Allocate once, then hold
+export const staticAllocation = (target: TargetFunction): BacktestStrategy => context =>
+  context.lastTrade === null ? target(context) : null;
+
+// Trade back to the target every `everyDays`
+export const periodicRebalance = (target: TargetFunction, everyDays: number): BacktestStrategy => context => {
+  const due = context.lastTrade === null ||
+    context.timestamp - context.lastTrade >= everyDays * BACKTEST_CONFIG.SECONDS_PER_DAY;
+  return due ? target(context) : null;
+};
+
+// Trade once the portfolio has drifted more than `driftPercent` of its value from the target
+export const thresholdRebalance = (target: TargetFunction, driftPercent: number): BacktestStrategy => context => {
+  const targetWeights = target(context);
+  if (context.lastTrade === null) return targetWeights;
+  return weightDistance(context.weights, targetWeights) * 100 > driftPercent ? targetWeights : null;
+};
+
+// Share of value that would have to move to get from one set of weights to the other
+export const weightDistance = (a: TargetWeights, b: TargetWeights): number => {
+  const ids = new Set([...Object.keys(a), ...Object.keys(b)]);
+  let total = 0;
+  ids.forEach(id => {
+    total += Math.abs((a[id] ?? 0) - (b[id] ?? 0));
+  });
+  return total / 2;
+};
+
+// ---- Data ----
+
+const priceAt = (series: PriceSeries, token: string, timestamp: number): number | null => {
+  const prices = series[token.toLowerCase()] ?? series[token];
+  if (prices === undefined) return null;
+  if (typeof prices === 'number') return prices;
+  let price: number | null = prices.length > 0 ? prices[0].priceUSD : null;
+  for (const point of prices) {
+    if (point.timestamp > timestamp) break;
+    price = point.priceUSD;
+  }
+  return price;
+};
+
+// Daily steps from the locally recorded YieldHub history; tokens without a price are left out
+export async function loadHistorySteps(
+  history: YieldHistoryService,
+  tokens: string[],
+  days: number,
+  prices: PriceSeries
+): Promise<BacktestStep[]> {
+  const series = await Promise.all(tokens.map(token => history.getDailySeries(token, days)));
+  const steps = new Map<number, BacktestStep>();
+
+  series.forEach((points, i) => {
+    points.forEach(point => {
+      const priceUSD = priceAt(prices, tokens[i], point.timestamp);
+      if (priceUSD === null) return;
+      const step = steps.get(point.timestamp) ?? { timestamp: point.timestamp, tokens: [] };
+      step.tokens.push({
+        token: tokens[i],
+        aaveAPY: point.aaveAPY,
+        optimizedAPY: point.optimizedAPY,
+        tvl: point.totalTVL,
+        priceUSD,
+      });
+      steps.set(point.timestamp, step);
+    });
+  });
+
+  return [...steps.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Steps from CSV with a header row: timestamp,token,aaveAPY[,optimizedAPY][,tvl],priceUSD[,symbol,decimals].
+// Timestamps may be seconds, milliseconds or ISO dates; APYs are in bps.
+export function parseBacktestCsv(csv: string): BacktestStep[] {
+  const [header, ...rows] = csv.trim().split(/\r?\n/).map(line => line.split(',').map(cell => cell.trim()));
+  const column = (name: string) => header.findIndex(cell => cell.toLowerCase() === name.toLowerCase());
+  const columns = {
+    timestamp: column('timestamp'),
+    token: column('token'),
+    aaveAPY: column('aaveAPY'),
+    optimizedAPY: column('optimizedAPY'),
+    tvl: column('tvl'),
+    priceUSD: column('priceUSD'),
+    symbol: column('symbol'),
+    decimals: column('decimals'),
+  };
+  const missing = (['timestamp', 'token', 'aaveAPY', 'priceUSD'] as const).filter(name => columns[name] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Backtest CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  const toSeconds = (value: string): number => {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) throw new Error(`Invalid timestamp in backtest CSV: ${value}`);
+    return Math.floor(parsed / 1000);
+  };
+
+  const steps = new Map<number, BacktestStep>();
+  rows.filter(row => row.some(cell => cell !== '')).forEach(row => {
+    const timestamp = toSeconds(row[columns.timestamp]);
+    const aaveAPY = BigInt(row[columns.aaveAPY]);
+    const step = steps.get(timestamp) ?? { timestamp, tokens: [] };
+    step.tokens.push({
+      token: row[columns.token],
+      aaveAPY,
+      optimizedAPY: columns.optimizedAPY >= 0 && row[columns.optimizedAPY] ? BigInt(row[columns.optimizedAPY]) : aaveAPY,
+      tvl: columns.tvl >= 0 && row[columns.tvl] ? BigInt(row[columns.tvl]) : BigInt(0),
+      priceUSD: Number(row[columns.priceUSD]),
+      symbol: columns.symbol >= 0 && row[columns.symbol] ? row[columns.symbol] : undefined,
+      decimals: columns.decimals >= 0 && row[columns.decimals] ? Number(row[columns.decimals]) : undefined,
+    });
+    steps.set(timestamp, step);
+  });
+
+  return [...steps.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ---- Engine ----
+
+// Replay a strategy over the steps, accruing each holding at the rate that held over the interval
+export function runBacktest(
+  steps: BacktestStep[],
+  options: BacktestOptions,
+  optimizer: YieldOptimizerService = DEFAULT_OPTIMIZER
+): BacktestResult {
+  const holdings = new Map<string, Holding>();
+  const equity: EquityPoint[] = [];
+  let cashUSD = options.initialValueUSD;
+  let lastTrade: number | null = null;
+  let rebalances = 0;
+  let tradedUSD = 0;
+  let totalCostUSD = 0;
+  let previous: { timestamp: number; rates: Map<string, number> } | null = null;
+
+  steps.forEach((step, index) => {
+    const prices = new Map(step.tokens.map(state => [state.token.toLowerCase(), state.priceUSD]));
+    const opportunities = step.tokens.flatMap(state =>
+      optimizer.opportunitiesForToken(state.token, {
+        apyBps: state.aaveAPY,
+        tvl: state.tvl,
+        lastUpdate: BigInt(step.timestamp),
+        optimizedAPY: state.optimizedAPY,
+      }, state.priceUSD, state.symbol && state.decimals !== undefined
+        ? { symbol: state.symbol, decimals: state.decimals }
+        : getTokenInfo(state.token))
+    );
+
+    // Interest since the last step; funds in an opportunity that disappeared still earn the Aave rate
+    if (previous) {
+      const days = (step.timestamp - previous.timestamp) / BACKTEST_CONFIG.SECONDS_PER_DAY;
+      holdings.forEach((holding, id) => {
+        const apr = previous!.rates.get(id) ?? previous!.rates.get(`aave-${holding.opportunity.tokenAddress}`) ?? 0;
+        holding.units *= growthFactor(apr / 100, days);
+      });
+    }
+
+    const priceOf = (holding: Holding) => prices.get(holding.opportunity.tokenAddress.toLowerCase()) ?? 0;
+    const valueOf = (holding: Holding) => holding.units * priceOf(holding);
+    const investedUSD = () => [...holdings.values()].reduce((sum, holding) => sum + valueOf(holding), 0);
+    const valueUSD = cashUSD + investedUSD();
+
+    const costs = Object.fromEntries(opportunities.map(opportunity => [
+      opportunity.id,
+      CostModelService.costsFromSteps(opportunity, options.stepCosts, options.fundingToken),
+    ]));
+    const weights = Object.fromEntries(
+      [...holdings.entries()].map(([id, holding]) => [id, valueUSD > 0 ? valueOf(holding) / valueUSD : 0])
+    );
+
+    const target = options.strategy({
+      index,
+      timestamp: step.timestamp,
+      opportunities,
+      costs,
+      valueUSD,
+      weights,
+      lastTrade,
+    });
+
+    if (target) {
+      const trade = tradeCost(holdings, target, opportunities, valueUSD, options, valueOf);
+      if (trade.boughtUSD > 0 || trade.soldUSD > 0) {
+        // Costs come out of the portfolio before it is split across the targets
+        const afterCosts = valueUSD - trade.costUSD;
+        const byId = new Map(opportunities.map(opportunity => [opportunity.id, opportunity]));
+        const next = new Map<string, Holding>();
+        let allocated = 0;
+
+        Object.entries(target).forEach(([id, weight]) => {
+          const opportunity = byId.get(id) ?? holdings.get(id)?.opportunity;
+          const price = opportunity ? prices.get(opportunity.tokenAddress.toLowerCase()) : undefined;
+          if (!opportunity || !price || weight <= 0) return;
+          const amountUSD = weight * afterCosts;
+          next.set(id, { opportunity, units: amountUSD / price });
+          allocated += amountUSD;
+        });
+
+        holdings.clear();
+        next.forEach((holding, id) => holdings.set(id, holding));
+        cashUSD = afterCosts - allocated;
+        totalCostUSD += trade.costUSD;
+        if (lastTrade !== null) {
+          rebalances++;
+          tradedUSD += Math.min(trade.boughtUSD, trade.soldUSD);
+        }
+        lastTrade = step.timestamp;
+      }
+    }
+
+    equity.push({ timestamp: step.timestamp, valueUSD: cashUSD + investedUSD() });
+    previous = {
+      timestamp: step.timestamp,
+      rates: new Map(opportunities.map(opportunity => [opportunity.id, bpsToPercent(opportunity.rawAPY)])),
+    };
+  });
+
+  const finalValueUSD = equity.length > 0 ? equity[equity.length - 1].valueUSD : options.initialValueUSD;
+  const days = steps.length > 1
+    ? (steps[steps.length - 1].timestamp - steps[0].timestamp) / BACKTEST_CONFIG.SECONDS_PER_DAY
+    : 0;
+  const averageValue = equity.length > 0
+    ? equity.reduce((sum, point) => sum + point.valueUSD, 0) / equity.length
+    : options.initialValueUSD;
+  const returnFraction = options.initialValueUSD > 0 ? finalValueUSD / options.initialValueUSD - 1 : 0;
+
+  return {
+    equity,
+    days,
+    initialValueUSD: options.initialValueUSD,
+    finalValueUSD,
+    cumulativeReturn: returnFraction * 100,
+    realizedAPY: annualizeReturn(returnFraction, days),
+    maxDrawdown: maxDrawdown(equity),
+    rebalances,
+    turnover: averageValue > 0 ? tradedUSD / averageValue : 0,
+    tradedUSD,
+    totalCostUSD,
+  };
+}
+
+// Largest peak-to-trough fall of the equity curve, in percent
+export const maxDrawdown = (equity: EquityPoint[]): number => {
+  let peak = -Infinity;
+  let worst = 0;
+  equity.forEach(point => {
+    peak = Math.max(peak, point.valueUSD);
+    if (peak > 0) {
+      worst = Math.max(worst, (peak - point.valueUSD) / peak);
+    }
+  });
+  return worst * 100;
+};
+
+// Gas for every position left or entered, plus swaps for value that changes token
+function tradeCost(
+  holdings: Map<string, Holding>,
+  target: TargetWeights,
+  opportunities: YieldOpportunity[],
+  valueUSD: number,
+  options: BacktestOptions,
+  valueOf: (holding: Holding) => number
+): { costUSD: number; boughtUSD: number; soldUSD: number } {
+  const { stepCosts } = options;
+  const byId = new Map(opportunities.map(opportunity => [opportunity.id, opportunity]));
+  const ids = new Set([...holdings.keys(), ...Object.keys(target)]);
+  const tokenChange = new Map<string, number>();
+  let gasUSD = 0;
+  let boughtUSD = 0;
+  let soldUSD = 0;
+
+  ids.forEach(id => {
+    const holding = holdings.get(id);
+    const opportunity = byId.get(id) ?? holding?.opportunity;
+    if (!opportunity) return;
+
+    const change = (target[id] ?? 0) * valueUSD - (holding ? valueOf(holding) : 0);
+    if (Math.abs(change) * 10000 < BACKTEST_CONFIG.MIN_TRADE_BPS * valueUSD) return;
+
+    const token = opportunity.tokenAddress.toLowerCase();
+    tokenChange.set(token, (tokenChange.get(token) ?? 0) + change);
+    const { entrySteps, exitSteps, viaSubnet } = CostModelService.stepsFor(opportunity);
+    const steps = change > 0 ? entrySteps : exitSteps;
+    gasUSD += steps.reduce((sum, step) => sum + stepCosts.gasUSD[step], 0);
+    if (change > 0 && viaSubnet) gasUSD += stepCosts.messageFeeUSD;
+    if (change > 0) boughtUSD += change; else soldUSD -= change;
+  });
+
+  // Value moving between tokens is swapped, and so is cash deployed into anything but the funding token
+  const funding = options.fundingToken?.toLowerCase();
+  let bought = 0;
+  let sold = 0;
+  let boughtOutsideFunding = 0;
+  tokenChange.forEach((change, token) => {
+    if (change > 0) bought += change; else sold -= change;
+    if (change > 0 && funding && token !== funding) boughtOutsideFunding += change;
+  });
+  const fromCash = Math.max(0, bought - sold);
+  const swappedUSD = Math.min(bought, sold) + Math.min(fromCash, boughtOutsideFunding);
+  // A token bought from cash in the funding token needs no swap of its own
+  const swaps = [...tokenChange.entries()]
+    .filter(([token, change]) => change > 0 && (sold > 0 || (!!funding && token !== funding)))
+    .length;
+  gasUSD += swaps * (stepCosts.gasUSD.approve + stepCosts.gasUSD.swap);
+  const swapBps = COST_CONFIG.SWAP_FEE_BPS + COST_CONFIG.SWAP_SLIPPAGE_BPS;
+
+  return { costUSD: gasUSD + (swappedUSD * swapBps) / 10000, boughtUSD, soldUSD };
+}
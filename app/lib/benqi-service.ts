@@ -0,0 +1,207 @@
+import { Contract, Interface, ZeroAddress } from 'ethers';
+import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider } from './providers';
+import { multicall, MulticallRequest } from './multicall';
+import { loadTokenRegistry, getTokenInfo } from './token-registry';
+import { perSecondRateToAprBps, perSecondRateToApyBps } from './yield-math';
+import { MAX_REASONABLE_APY_BPS, wadMulDown } from './units';
+
+// Benqi lending markets
+// Markets are listed by CONTRACT_CONFIG.BENQI_COMPTROLLER_ADDRESS unless another Comptroller is passed in
+export const BENQI_CONFIG = {
+  // Market rates and totals are reread at most this often
+  CACHE_TTL: 60 * 1000,
+};
+
+const COMPTROLLER_ABI = [
+  {
+    "inputs": [],
+    "name": "getAllMarkets",
+    "outputs": [{"internalType": "address[]", "name": "", "type": "address[]"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// qiToken reads shared by qiAVAX and the ERC20 markets; underlying() only exists on the latter
+const QI_TOKEN_ABI = [
+  {"inputs": [], "name": "underlying", "outputs": [{"internalType": "address", "name": "", "type": "address"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "symbol", "outputs": [{"internalType": "string", "name": "", "type": "string"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "supplyRatePerTimestamp", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "exchangeRateStored", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "totalSupply", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "getCash", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "totalBorrows", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {"inputs": [], "name": "totalReserves", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "view", "type": "function"},
+  {
+    "inputs": [{"internalType": "address", "name": "account", "type": "address"}],
+    "name": "getAccountSnapshot",
+    "outputs": [
+      {"internalType": "uint256", "name": "error", "type": "uint256"},
+      {"internalType": "uint256", "name": "qiTokenBalance", "type": "uint256"},
+      {"internalType": "uint256", "name": "borrowBalance", "type": "uint256"},
+      {"internalType": "uint256", "name": "exchangeRateMantissa", "type": "uint256"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+const qiTokenInterface = new Interface(QI_TOKEN_ABI);
+
+const MARKET_READS = [
+  'underlying',
+  'symbol',
+  'supplyRatePerTimestamp',
+  'exchangeRateStored',
+  'totalSupply',
+  'getCash',
+  'totalBorrows',
+  'totalReserves',
+] as const;
+
+// One qiToken market, amounts in underlying units unless noted
+export interface BenqiMarket {
+  qiToken: string;
+  qiSymbol: string;
+  underlying: string; // WAVAX for qiAVAX
+  symbol: string; // Of the underlying
+  native: boolean; // qiAVAX takes and returns native AVAX
+  decimals: number; // Of the underlying
+  supplyRatePerTimestamp: bigint; // 1e18-scaled, per second
+  supplyAPRBps: bigint;
+  supplyAPYBps: bigint; // Supply rate compounded every second
+  exchangeRate: bigint; // Underlying per qiToken, 1e18-scaled (includes the decimals difference)
+  totalSupply: bigint; // qiTokens
+  totalSupplyUnderlying: bigint; // What all qiTokens redeem for (cash + borrows - reserves)
+  totalCash: bigint;
+  totalBorrows: bigint;
+  totalReserves: bigint;
+  utilizationBps: bigint;
+}
+
+export interface BenqiUserBalance {
+  market: BenqiMarket;
+  qiBalance: bigint;
+  underlyingBalance: bigint;
+}
+
+export class BenqiService {
+  private provider: ReadProvider | null = null;
+  private comptrollerAddress: string;
+  private markets: { value: Promise<BenqiMarket[]>; loadedAt: number } | null = null;
+
+  constructor(provider?: ReadProvider, comptrollerAddress: string = CONTRACT_CONFIG.BENQI_COMPTROLLER_ADDRESS) {
+    this.comptrollerAddress = comptrollerAddress;
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.provider = provider;
+    this.markets = null;
+  }
+
+  // Listed markets whose underlying is a registered token, reused for CACHE_TTL
+  getMarkets(): Promise<BenqiMarket[]> {
+    if (this.markets && Date.now() - this.markets.loadedAt < BENQI_CONFIG.CACHE_TTL) {
+      return this.markets.value;
+    }
+
+    const value = this.loadMarkets();
+    this.markets = { value, loadedAt: Date.now() };
+    // Allow a retry if the read failed
+    value.catch(() => {
+      this.markets = null;
+    });
+    return value;
+  }
+
+  // qiToken balances and their underlying value, for markets the user holds
+  async getUserBalances(userAddress: string): Promise<BenqiUserBalance[]> {
+    if (!this.provider || !userAddress) return [];
+
+    const markets = await this.getMarkets();
+    const results = await multicall(this.provider, markets.map(market => ({
+      target: market.qiToken,
+      iface: qiTokenInterface,
+      method: 'getAccountSnapshot',
+      args: [userAddress],
+    })));
+
+    return markets.flatMap((market, i) => {
+      if (!results[i].success) return [];
+      const [error, qiBalance, , exchangeRate]: bigint[] = results[i].result;
+      // A non-zero error code means the snapshot is not usable
+      if (error !== BigInt(0) || qiBalance === BigInt(0)) return [];
+      return [{
+        market,
+        qiBalance,
+        underlyingBalance: BenqiService.toUnderlying(qiBalance, exchangeRate),
+      }];
+    });
+  }
+
+  // Underlying amount a qiToken amount redeems for at an exchange rate
+  static toUnderlying(qiAmount: bigint, exchangeRate: bigint): bigint {
+    return wadMulDown(qiAmount, exchangeRate);
+  }
+
+  private async loadMarkets(): Promise<BenqiMarket[]> {
+    if (!this.provider || this.comptrollerAddress === ZeroAddress) return [];
+
+    const comptroller = new Contract(this.comptrollerAddress, COMPTROLLER_ABI, this.provider);
+    const [qiTokens] = await Promise.all([
+      comptroller.getAllMarkets() as Promise<string[]>,
+      loadTokenRegistry(this.provider),
+    ]);
+
+    const requests: MulticallRequest[] = qiTokens.flatMap(qiToken =>
+      MARKET_READS.map(method => ({ target: qiToken, iface: qiTokenInterface, method, args: [] }))
+    );
+    const results = await multicall(this.provider, requests);
+
+    return qiTokens.flatMap((qiToken, i) => {
+      const reads = results.slice(i * MARKET_READS.length, (i + 1) * MARKET_READS.length);
+      const [underlying, symbol, supplyRate, exchangeRate, totalSupply, cash, borrows, reserves] = reads;
+      if ([supplyRate, exchangeRate, totalSupply, cash, borrows, reserves].some(read => !read.success)) {
+        console.warn(`Could not read Benqi market ${qiToken}`);
+        return [];
+      }
+
+      // qiAVAX has no underlying(); it is listed against WAVAX
+      const native = !underlying.success;
+      const underlyingAddress: string = native ? CONTRACT_CONFIG.TOKENS.WAVAX : underlying.result;
+      const tokenInfo = getTokenInfo(underlyingAddress);
+      if (!tokenInfo) return [];
+
+      const supplyAPRBps = perSecondRateToAprBps(supplyRate.result);
+      const supplyAPYBps = perSecondRateToApyBps(supplyRate.result);
+      const totalBorrows: bigint = borrows.result;
+      const totalCash: bigint = cash.result;
+      const liquidity = totalCash + totalBorrows;
+
+      return [{
+        qiToken,
+        qiSymbol: symbol.success ? symbol.result : `qi${tokenInfo.symbol}`,
+        underlying: tokenInfo.address,
+        symbol: tokenInfo.symbol,
+        native,
+        decimals: tokenInfo.decimals,
+        supplyRatePerTimestamp: supplyRate.result,
+        supplyAPRBps: supplyAPRBps < MAX_REASONABLE_APY_BPS ? supplyAPRBps : MAX_REASONABLE_APY_BPS,
+        supplyAPYBps: supplyAPYBps < MAX_REASONABLE_APY_BPS ? supplyAPYBps : MAX_REASONABLE_APY_BPS,
+        exchangeRate: exchangeRate.result,
+        totalSupply: totalSupply.result,
+        totalSupplyUnderlying: BenqiService.toUnderlying(totalSupply.result, exchangeRate.result),
+        totalCash,
+        totalBorrows,
+        totalReserves: reserves.result,
+        utilizationBps: liquidity > BigInt(0) ? (totalBorrows * BigInt(10000)) / liquidity : BigInt(0),
+      }];
+    });
+  }
+}
+
+export default BenqiService;
@@ -0,0 +1,169 @@
+import { Interface } from 'ethers';
+import { NETWORK_NAME } from './web3-config';
+import { ReadProvider } from './providers';
+import BenqiService, { BenqiMarket } from './benqi-service';
+import { MarketQuote, SourcePosition, SourceTransaction, YieldMarket, YieldSource } from './yield-source';
+
+// qiToken, qiAVAX, WAVAX and ERC20 ABIs (transaction encoding only)
+const QI_TOKEN_ABI = [
+  {"inputs": [{"internalType": "uint256", "name": "mintAmount", "type": "uint256"}], "name": "mint", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "nonpayable", "type": "function"},
+  {"inputs": [{"internalType": "uint256", "name": "redeemTokens", "type": "uint256"}], "name": "redeem", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "nonpayable", "type": "function"},
+  {"inputs": [{"internalType": "uint256", "name": "redeemAmount", "type": "uint256"}], "name": "redeemUnderlying", "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}], "stateMutability": "nonpayable", "type": "function"}
+] as const;
+
+const QI_AVAX_ABI = [
+  {"inputs": [], "name": "mint", "outputs": [], "stateMutability": "payable", "type": "function"}
+] as const;
+
+const WAVAX_ABI = [
+  {"inputs": [], "name": "deposit", "outputs": [], "stateMutability": "payable", "type": "function"},
+  {"inputs": [{"internalType": "uint256", "name": "wad", "type": "uint256"}], "name": "withdraw", "outputs": [], "stateMutability": "nonpayable", "type": "function"}
+] as const;
+
+const ERC20_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "spender", "type": "address"}, {"internalType": "uint256", "name": "amount", "type": "uint256"}],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const qiTokenInterface = new Interface(QI_TOKEN_ABI);
+const qiAvaxInterface = new Interface(QI_AVAX_ABI);
+const wavaxInterface = new Interface(WAVAX_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Benqi qiToken supply; qiAVAX is offered as a WAVAX market and unwraps/wraps around the native mint and redeem
+export class BenqiYieldSource implements YieldSource {
+  static readonly ID = 'benqi';
+  static readonly PROTOCOL = 'Benqi';
+
+  readonly id = BenqiYieldSource.ID;
+  private benqiService: BenqiService;
+
+  constructor(provider: ReadProvider, comptrollerAddress?: string) {
+    this.benqiService = new BenqiService(provider, comptrollerAddress);
+  }
+
+  async listMarkets(): Promise<YieldMarket[]> {
+    return (await this.benqiService.getMarkets()).map(BenqiYieldSource.market);
+  }
+
+  // Supply rates are live reads, so quotes are as of now
+  async getQuotes(): Promise<MarketQuote[]> {
+    const markets = await this.benqiService.getMarkets();
+    const now = Math.floor(Date.now() / 1000);
+    return markets.map(market => ({
+      market: BenqiYieldSource.market(market),
+      aprBps: market.supplyAPRBps,
+      tvl: market.totalSupplyUnderlying,
+      lastUpdate: now,
+      risk: { protocolAdjustment: -5, crossChain: false, impermanentLoss: false },
+    }));
+  }
+
+  async buildDeposit(market: YieldMarket, amount: bigint, userAddress: string): Promise<SourceTransaction[]> {
+    const benqiMarket = await this.findMarket(market);
+    if (benqiMarket.native) {
+      return [
+        {
+          description: 'Unwrap WAVAX to AVAX',
+          to: benqiMarket.underlying,
+          data: wavaxInterface.encodeFunctionData('withdraw', [amount]),
+        },
+        {
+          description: 'Supply AVAX to Benqi',
+          to: benqiMarket.qiToken,
+          data: qiAvaxInterface.encodeFunctionData('mint', []),
+          value: amount,
+        },
+      ];
+    }
+
+    return [
+      {
+        description: `Approve ${market.tokenSymbol} for ${benqiMarket.qiSymbol}`,
+        to: benqiMarket.underlying,
+        data: erc20Interface.encodeFunctionData('approve', [benqiMarket.qiToken, amount]),
+      },
+      {
+        description: `Supply ${market.tokenSymbol} to Benqi`,
+        to: benqiMarket.qiToken,
+        data: qiTokenInterface.encodeFunctionData('mint', [amount]),
+      },
+    ];
+  }
+
+  // 'max' redeems every qiToken, so no dust is left behind by exchange rate rounding
+  async buildWithdraw(market: YieldMarket, amount: bigint | 'max', userAddress: string): Promise<SourceTransaction[]> {
+    const benqiMarket = await this.findMarket(market);
+    let redeem: SourceTransaction;
+    let received: bigint;
+
+    if (amount === 'max') {
+      const balance = (await this.benqiService.getUserBalances(userAddress))
+        .find(entry => entry.market.qiToken === benqiMarket.qiToken);
+      if (!balance) {
+        throw new Error(`No ${benqiMarket.qiSymbol} balance to withdraw`);
+      }
+      received = balance.underlyingBalance;
+      redeem = {
+        description: `Withdraw ${market.tokenSymbol} from Benqi`,
+        to: benqiMarket.qiToken,
+        data: qiTokenInterface.encodeFunctionData('redeem', [balance.qiBalance]),
+      };
+    } else {
+      received = amount;
+      redeem = {
+        description: `Withdraw ${market.tokenSymbol} from Benqi`,
+        to: benqiMarket.qiToken,
+        data: qiTokenInterface.encodeFunctionData('redeemUnderlying', [amount]),
+      };
+    }
+
+    if (!benqiMarket.native) return [redeem];
+    return [
+      redeem,
+      {
+        description: 'Wrap AVAX to WAVAX',
+        to: benqiMarket.underlying,
+        data: wavaxInterface.encodeFunctionData('deposit', []),
+        value: received,
+      },
+    ];
+  }
+
+  async getPositions(userAddress: string): Promise<SourcePosition[]> {
+    const balances = await this.benqiService.getUserBalances(userAddress);
+    return balances.map(({ market, underlyingBalance }) => ({
+      market: BenqiYieldSource.market(market),
+      amount: underlyingBalance,
+      aprBps: market.supplyAPRBps,
+    }));
+  }
+
+  private async findMarket(market: YieldMarket): Promise<BenqiMarket> {
+    const benqiMarket = (await this.benqiService.getMarkets())
+      .find(candidate => BenqiYieldSource.market(candidate).id === market.id);
+    if (!benqiMarket) {
+      throw new Error(`Unknown Benqi market ${market.id}`);
+    }
+    return benqiMarket;
+  }
+
+  private static market(market: BenqiMarket): YieldMarket {
+    return {
+      id: `benqi-${market.qiToken}`,
+      sourceId: BenqiYieldSource.ID,
+      protocol: BenqiYieldSource.PROTOCOL,
+      network: NETWORK_NAME,
+      tokenAddress: market.underlying,
+      tokenSymbol: market.symbol,
+      decimals: market.decimals,
+    };
+  }
+}
+
+export default BenqiYieldSource;
@@ -0,0 +1,357 @@
+import { ethers, Contract } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider } from './providers';
+import { getTokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import { AaveService } from './aave-service';
+import { SUBNET_CONFIG } from './subnet-service';
+import { UNISWAP_V2_CONFIG } from './uniswap-service';
+import { findYieldSourceDefinition } from './yield-source';
+import { AaveYieldSource } from './aave-yield-source';
+import { AnnualRate, Compounding, PER_SECOND, annualizeReturn, daysToTarget, growthFactor, toAprDecimal } from './yield-math';
+
+// Entry/exit cost assumptions for the optimizer
+export const COST_CONFIG = {
+  // Gas used for a step when estimateGas can't simulate it (no wallet, missing allowance or balance)
+  FALLBACK_GAS: {
+    approve: 46000,
+    supply: 220000,
+    withdraw: 180000,
+    swap: 130000,
+    subnetRequest: 300000,
+    removeLiquidity: 190000,
+    addLiquidity: 210000,
+  } as Record<CostStep, number>,
+  // Trader Joe pool fee per swap
+  SWAP_FEE_BPS: 30,
+  // Price movement assumed per swap on top of the pool fee
+  SWAP_SLIPPAGE_BPS: 10,
+  // How long gas estimates and fee data are reused
+  CACHE_TTL: 60 * 1000,
+};
+
+const ERC20_APPROVE_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "spender", "type": "address"}, {"internalType": "uint256", "name": "amount", "type": "uint256"}],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+// Aave V3 Pool supply/withdraw, for gas estimates
+const AAVE_POOL_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "supply",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "asset", "type": "address"},
+      {"internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "withdraw",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export type CostStep = 'approve' | 'supply' | 'withdraw' | 'swap' | 'subnetRequest' | 'removeLiquidity' | 'addLiquidity';
+
+// The opportunity fields costs depend on (YieldOpportunity satisfies this)
+export interface CostedOpportunity {
+  id: string;
+  protocol: string;
+  tokenAddress: string;
+}
+
+export interface CostOptions {
+  userAddress?: string; // Gas is simulated from this account when given
+  fundingToken?: string; // Token the user enters from and exits to; a different opportunity token costs a swap each way
+}
+
+// Costs of entering and leaving one opportunity, in USD
+export interface OpportunityCosts {
+  entryGasUSD: number;
+  exitGasUSD: number;
+  messageFeeUSD: number; // Teleporter fee for the subnet yield request
+  fixedUSD: number; // Gas and message fees, independent of the amount
+  swapCostBps: number; // Pool fees and slippage of the entry and exit swaps, proportional to the amount
+  entrySteps: CostStep[];
+  exitSteps: CostStep[];
+  simulated: boolean; // False when any step fell back to COST_CONFIG.FALLBACK_GAS
+}
+
+export interface NetReturnEstimate {
+  grossReturn: number;
+  costUSD: number;
+  netReturn: number;
+  netAPY: number; // Percent, compounded annualization of the return over the horizon
+  breakEvenDays: number | null; // Null when the position never earns back its costs
+}
+
+// USD cost of each step at the configured gas limits, for planning transactions that can't be simulated yet
+export interface StepCosts {
+  gasUSD: Record<CostStep, number>;
+  messageFeeUSD: number; // Teleporter fee per subnet yield request
+}
+
+interface GasContext {
+  gasPriceWei: bigint;
+  avaxPriceUSD: number;
+}
+
+export class CostModelService {
+  private provider: ReadProvider | null = null;
+  private priceOracle: PriceOracleService;
+  private ownsPriceOracle: boolean;
+  private aaveService: AaveService | null = null;
+  private gasContext: { value: Promise<GasContext>; loadedAt: number } | null = null;
+  private costCache: Map<string, { value: Promise<OpportunityCosts>; loadedAt: number }> = new Map();
+
+  // A shared price oracle stays under its owner's control
+  constructor(provider?: ReadProvider, priceOracle?: PriceOracleService) {
+    this.priceOracle = priceOracle ?? new PriceOracleService();
+    this.ownsPriceOracle = !priceOracle;
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.provider = provider;
+    if (this.ownsPriceOracle) {
+      this.priceOracle.setProvider(provider);
+    }
+    this.aaveService = new AaveService(provider);
+    this.gasContext = null;
+    this.costCache.clear();
+  }
+
+  // Entry and exit costs for each opportunity, keyed by opportunity id
+  async estimateCosts(
+    opportunities: CostedOpportunity[],
+    options: CostOptions = {}
+  ): Promise<Record<string, OpportunityCosts>> {
+    const costs = await Promise.all(opportunities.map(opportunity => this.estimateOpportunityCosts(opportunity, options)));
+    return Object.fromEntries(opportunities.map((opportunity, i) => [opportunity.id, costs[i]]));
+  }
+
+  // Entry and exit costs for one opportunity, reused for CACHE_TTL
+  estimateOpportunityCosts(opportunity: CostedOpportunity, options: CostOptions = {}): Promise<OpportunityCosts> {
+    const key = [opportunity.id, options.userAddress ?? '', options.fundingToken ?? ''].join(':').toLowerCase();
+    const cached = this.costCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < COST_CONFIG.CACHE_TTL) {
+      return cached.value;
+    }
+
+    const value = this.computeCosts(opportunity, options);
+    this.costCache.set(key, { value, loadedAt: Date.now() });
+    // Allow a retry if the estimate failed
+    value.catch(() => {
+      this.costCache.delete(key);
+    });
+    return value;
+  }
+
+  private async computeCosts(opportunity: CostedOpportunity, options: CostOptions): Promise<OpportunityCosts> {
+    const { entrySteps, exitSteps, viaSubnet } = CostModelService.stepsFor(opportunity, options.fundingToken);
+
+    const [context, entryGas, exitGas] = await Promise.all([
+      this.getGasContext(),
+      Promise.all(entrySteps.map(step => this.estimateStepGas(step, opportunity.tokenAddress, options.userAddress))),
+      Promise.all(exitSteps.map(step => this.estimateStepGas(step, opportunity.tokenAddress, options.userAddress))),
+    ]);
+
+    const toUSD = (wei: bigint) => Number(ethers.formatEther(wei)) * context.avaxPriceUSD;
+    const gasUSD = (estimates: Array<{ gas: bigint }>) =>
+      toUSD(estimates.reduce((sum, estimate) => sum + estimate.gas, BigInt(0)) * context.gasPriceWei);
+
+    const entryGasUSD = gasUSD(entryGas);
+    const exitGasUSD = gasUSD(exitGas);
+    const messageFeeUSD = viaSubnet ? toUSD(ethers.parseEther(SUBNET_CONFIG.TELEPORTER_FEE)) : 0;
+
+    return {
+      entryGasUSD,
+      exitGasUSD,
+      messageFeeUSD,
+      fixedUSD: entryGasUSD + exitGasUSD + messageFeeUSD,
+      swapCostBps: CostModelService.swapCostBps(entrySteps, exitSteps),
+      entrySteps,
+      exitSteps,
+      simulated: entryGas.concat(exitGas).every(estimate => estimate.simulated),
+    };
+  }
+
+  // Transactions to enter and leave an opportunity from the funding token; the opportunity's yield
+  // source says what entering and leaving its own token takes, and Aave's supply/withdraw is the default
+  static stepsFor(
+    opportunity: CostedOpportunity,
+    fundingToken?: string
+  ): { entrySteps: CostStep[]; exitSteps: CostStep[]; viaSubnet: boolean } {
+    const needsSwap = !!fundingToken && fundingToken.toLowerCase() !== opportunity.tokenAddress.toLowerCase();
+    const viaSubnet = opportunity.protocol === AaveYieldSource.OPTIMIZED_PROTOCOL;
+    const source = findYieldSourceDefinition(opportunity.protocol);
+
+    return {
+      entrySteps: [
+        ...(needsSwap ? ['approve', 'swap'] as CostStep[] : []),
+        ...(source?.entrySteps ?? ['approve', 'supply'] as CostStep[]),
+        ...(viaSubnet ? ['subnetRequest'] as CostStep[] : []),
+      ],
+      exitSteps: [
+        ...(source?.exitSteps ?? ['withdraw'] as CostStep[]),
+        ...(needsSwap ? ['approve', 'swap'] as CostStep[] : []),
+      ],
+      viaSubnet,
+    };
+  }
+
+  // Costs at fixed per-step prices, for replays where nothing can be simulated
+  static costsFromSteps(opportunity: CostedOpportunity, stepCosts: StepCosts, fundingToken?: string): OpportunityCosts {
+    const { entrySteps, exitSteps, viaSubnet } = CostModelService.stepsFor(opportunity, fundingToken);
+    const gasUSD = (steps: CostStep[]) => steps.reduce((sum, step) => sum + stepCosts.gasUSD[step], 0);
+    const entryGasUSD = gasUSD(entrySteps);
+    const exitGasUSD = gasUSD(exitSteps);
+    const messageFeeUSD = viaSubnet ? stepCosts.messageFeeUSD : 0;
+
+    return {
+      entryGasUSD,
+      exitGasUSD,
+      messageFeeUSD,
+      fixedUSD: entryGasUSD + exitGasUSD + messageFeeUSD,
+      swapCostBps: CostModelService.swapCostBps(entrySteps, exitSteps),
+      entrySteps,
+      exitSteps,
+      simulated: false,
+    };
+  }
+
+  // Pool fees and slippage of every swap in the steps
+  private static swapCostBps(entrySteps: CostStep[], exitSteps: CostStep[]): number {
+    const swapCount = entrySteps.concat(exitSteps).filter(step => step === 'swap').length;
+    return swapCount * (COST_CONFIG.SWAP_FEE_BPS + COST_CONFIG.SWAP_SLIPPAGE_BPS);
+  }
+
+  // Cost of one of each step at current gas and AVAX prices
+  async getStepCosts(): Promise<StepCosts> {
+    const context = await this.getGasContext();
+    const toUSD = (wei: bigint) => Number(ethers.formatEther(wei)) * context.avaxPriceUSD;
+    const steps = Object.keys(COST_CONFIG.FALLBACK_GAS) as CostStep[];
+
+    return {
+      gasUSD: Object.fromEntries(
+        steps.map(step => [step, toUSD(BigInt(COST_CONFIG.FALLBACK_GAS[step]) * context.gasPriceWei)])
+      ) as Record<CostStep, number>,
+      messageFeeUSD: toUSD(ethers.parseEther(SUBNET_CONFIG.TELEPORTER_FEE)),
+    };
+  }
+
+  // Current gas price and AVAX price, reused for CACHE_TTL
+  private getGasContext(): Promise<GasContext> {
+    if (!this.provider) {
+      return Promise.reject(new Error('Service not initialized'));
+    }
+    if (this.gasContext && Date.now() - this.gasContext.loadedAt < COST_CONFIG.CACHE_TTL) {
+      return this.gasContext.value;
+    }
+
+    const provider = this.provider;
+    const value = Promise.all([
+      provider.getFeeData(),
+      this.priceOracle.getPrice(UNISWAP_V2_CONFIG.WAVAX_ADDRESS),
+    ]).then(([feeData, avaxPriceUSD]) => ({
+      // gasPrice tracks what a transaction pays; maxFeePerGas is only the ceiling
+      gasPriceWei: feeData.gasPrice ?? feeData.maxFeePerGas ?? BigInt(0),
+      avaxPriceUSD,
+    }));
+    this.gasContext = { value, loadedAt: Date.now() };
+    value.catch(() => {
+      this.gasContext = null;
+    });
+    return value;
+  }
+
+  // Gas for one step, simulated from the user's account when possible
+  private async estimateStepGas(
+    step: CostStep,
+    tokenAddress: string,
+    userAddress?: string
+  ): Promise<{ gas: bigint; simulated: boolean }> {
+    const fallback = { gas: BigInt(COST_CONFIG.FALLBACK_GAS[step]), simulated: false };
+    if (!userAddress || !this.provider || !this.aaveService) return fallback;
+
+    try {
+      const oneToken = BigInt(10) ** BigInt(getTokenInfo(tokenAddress)?.decimals ?? 18);
+      const overrides = { from: userAddress };
+      let gas: bigint;
+
+      switch (step) {
+        case 'approve': {
+          const token = new Contract(tokenAddress, ERC20_APPROVE_ABI, this.provider);
+          gas = await token.approve.estimateGas(await this.aaveService.getPoolAddress(), oneToken, overrides);
+          break;
+        }
+        case 'supply': {
+          const pool = new Contract(await this.aaveService.getPoolAddress(), AAVE_POOL_ABI, this.provider);
+          gas = await pool.supply.estimateGas(tokenAddress, oneToken, userAddress, 0, overrides);
+          break;
+        }
+        case 'withdraw': {
+          const pool = new Contract(await this.aaveService.getPoolAddress(), AAVE_POOL_ABI, this.provider);
+          gas = await pool.withdraw.estimateGas(tokenAddress, ethers.MaxUint256, userAddress, overrides);
+          break;
+        }
+        case 'subnetRequest': {
+          const yieldHub = new Contract(CONTRACT_CONFIG.YIELD_HUB_ADDRESS, YIELDHUB_ABI, this.provider);
+          gas = await yieldHub.requestSubnetYield.estimateGas(tokenAddress, {
+            ...overrides,
+            value: ethers.parseEther(SUBNET_CONFIG.TELEPORTER_FEE),
+          });
+          break;
+        }
+        default:
+          // Swaps and liquidity changes need an allowance and a route to simulate; the configured limit is close enough
+          return fallback;
+      }
+      return { gas, simulated: true };
+    } catch {
+      // Reverts without an allowance, balance or position; use the configured limit
+      return fallback;
+    }
+  }
+
+  // Gross and net return of holding `amountUSD` for `days`, net APY and days until costs are earned back
+  static netReturn(
+    amountUSD: number,
+    rate: AnnualRate,
+    days: number,
+    costs: OpportunityCosts,
+    compounding: Compounding = PER_SECOND
+  ): NetReturnEstimate {
+    const grossReturn = amountUSD * (growthFactor(toAprDecimal(rate, compounding), days, compounding) - 1);
+    const costUSD = costs.fixedUSD + (amountUSD * costs.swapCostBps) / 10000;
+    const netReturn = grossReturn - costUSD;
+
+    return {
+      grossReturn,
+      costUSD,
+      netReturn,
+      netAPY: amountUSD > 0 ? annualizeReturn(netReturn / amountUSD, days) : 0,
+      breakEvenDays: daysToTarget(amountUSD, amountUSD + costUSD, rate, compounding),
+    };
+  }
+}
+
+export default CostModelService;
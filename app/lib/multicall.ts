@@ -0,0 +1,191 @@
+import { Contract, Interface } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider } from './providers';
+
+// Multicall3 ABI (aggregate3 only, every call may fail on its own)
+const MULTICALL3_ABI = [
+  {
+    "inputs": [
+      {
+        "components": [
+          {"internalType": "address", "name": "target", "type": "address"},
+          {"internalType": "bool", "name": "allowFailure", "type": "bool"},
+          {"internalType": "bytes", "name": "callData", "type": "bytes"}
+        ],
+        "internalType": "struct Multicall3.Call3[]",
+        "name": "calls",
+        "type": "tuple[]"
+      }
+    ],
+    "name": "aggregate3",
+    "outputs": [
+      {
+        "components": [
+          {"internalType": "bool", "name": "success", "type": "bool"},
+          {"internalType": "bytes", "name": "returnData", "type": "bytes"}
+        ],
+        "internalType": "struct Multicall3.Result[]",
+        "name": "returnData",
+        "type": "tuple[]"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  }
+] as const;
+
+const yieldHubInterface = new Interface(YIELDHUB_ABI);
+
+export interface MulticallRequest {
+  target: string;
+  iface: Interface;
+  method: string;
+  args: unknown[];
+}
+
+export interface MulticallResult {
+  success: boolean;
+  result?: any;
+  error?: string;
+}
+
+// YieldHub data for one token, assembled from a batched read
+export interface YieldHubTokenSnapshot {
+  token: string;
+  apyBps: bigint;
+  tvl: bigint;
+  liquidityIndex: bigint;
+  lastUpdate: bigint;
+  optimizedAPY: bigint;
+  isDataFresh: boolean;
+  usedFallback: boolean;
+}
+
+export type YieldHubBatchResult = Record<string, YieldHubTokenSnapshot | { error: string }>;
+
+// Run view calls through Multicall3 in a single eth_call; failures are isolated per call
+export const multicall = async (
+  provider: ReadProvider,
+  requests: MulticallRequest[]
+): Promise<MulticallResult[]> => {
+  if (requests.length === 0) return [];
+
+  const multicallContract = new Contract(CONTRACT_CONFIG.MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const calls = requests.map(request => ({
+    target: request.target,
+    allowFailure: true,
+    callData: request.iface.encodeFunctionData(request.method, request.args),
+  }));
+
+  const responses: Array<{ success: boolean; returnData: string }> =
+    await multicallContract.aggregate3.staticCall(calls);
+
+  return responses.map((response, i) => {
+    const request = requests[i];
+    if (!response.success) {
+      return { success: false, error: `${request.method} reverted` };
+    }
+    try {
+      const decoded = request.iface.decodeFunctionResult(request.method, response.returnData);
+      return { success: true, result: decoded.length === 1 ? decoded[0] : decoded };
+    } catch (error: any) {
+      return { success: false, error: `Failed to decode ${request.method}: ${error.message}` };
+    }
+  });
+};
+
+const yieldHubCall = (method: string, args: unknown[]): MulticallRequest => ({
+  target: CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
+  iface: yieldHubInterface,
+  method,
+  args,
+});
+
+// Read Aave details, optimized APY and freshness for every token in at most two round trips.
+// The second batch checks freshness and covers tokens whose getAaveDetails call reverted.
+export const fetchYieldHubData = async (
+  provider: ReadProvider,
+  tokens: string[]
+): Promise<YieldHubBatchResult> => {
+  const results: YieldHubBatchResult = {};
+  if (tokens.length === 0) return results;
+
+  // First batch: details and optimized APY for each token
+  const firstBatch = await multicall(
+    provider,
+    tokens.flatMap(token => [
+      yieldHubCall('getAaveDetails', [token]),
+      yieldHubCall('calculateOptimizedAPY', [token]),
+    ])
+  );
+
+  const detailed: YieldHubTokenSnapshot[] = [];
+  const failed: string[] = [];
+
+  tokens.forEach((token, i) => {
+    const details = firstBatch[i * 2];
+    const optimized = firstBatch[i * 2 + 1];
+
+    if (!details.success) {
+      failed.push(token);
+      return;
+    }
+
+    const [apyBps, tvl, liquidityIndex, lastUpdate] = details.result;
+    detailed.push({
+      token,
+      apyBps,
+      tvl,
+      liquidityIndex,
+      lastUpdate,
+      optimizedAPY: optimized.success ? optimized.result : apyBps,
+      isDataFresh: false,
+      usedFallback: false,
+    });
+  });
+
+  // Second batch: freshness for detailed tokens, APY and TVL for the rest
+  const secondBatch = await multicall(provider, [
+    ...detailed.map(snapshot => yieldHubCall('isDataFresh', [snapshot.lastUpdate])),
+    ...failed.flatMap(token => [
+      yieldHubCall('getAaveAPY', [token]),
+      yieldHubCall('getAaveTVL', [token]),
+    ]),
+  ]);
+
+  detailed.forEach((snapshot, i) => {
+    const fresh = secondBatch[i];
+    results[snapshot.token] = { ...snapshot, isDataFresh: fresh.success ? fresh.result : false };
+  });
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  failed.forEach((token, i) => {
+    const apy = secondBatch[detailed.length + i * 2];
+    const tvl = secondBatch[detailed.length + i * 2 + 1];
+
+    if (!apy.success || !tvl.success) {
+      results[token] = { error: apy.error || tvl.error || 'Failed to fetch data' };
+      return;
+    }
+
+    results[token] = {
+      token,
+      apyBps: apy.result,
+      tvl: tvl.result,
+      liquidityIndex: BigInt(0),
+      lastUpdate: now,
+      optimizedAPY: apy.result, // Use APY as optimized fallback
+      isDataFresh: true, // Assume fresh for individual methods
+      usedFallback: true,
+    };
+  });
+
+  return results;
+};
+
+// Narrow a batch entry to a usable snapshot
+export const isYieldHubSnapshot = (
+  entry: YieldHubTokenSnapshot | { error: string } | undefined
+): entry is YieldHubTokenSnapshot => {
+  return !!entry && !('error' in entry);
+};
@@ -1,5 +1,16 @@
-import { ethers, Contract, BrowserProvider } from 'ethers';
-import { CONTRACT_CONFIG, TOKEN_INFO } from './web3-config';
+import { ethers, Contract } from 'ethers';
+import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider } from './providers';
+import { loadTokenRegistry, getTokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import AaveService, { AaveAccountSummary, UserReservePosition } from './aave-service';
+import { getYieldHistory } from './yield-history';
+import { getYieldAccounting, PortfolioYieldAccount, TokenYieldAccount } from './yield-accounting';
+import UniswapDepositService, { LiquidityPosition } from './uniswap-service';
+import { getYieldSources } from './yield-source';
+import { AaveYieldSource } from './aave-yield-source';
+import { TraderJoeYieldSource } from './trader-joe-yield-source';
+import { bpsToPercent, fixedToNumber, formatFixed, formatPercent, formatUSD, numberToFixed, toUSD } from './units';
 
 // Portfolio data types
 export interface PortfolioPosition {
@@ -8,23 +19,52 @@ export interface PortfolioPosition {
   name: string;
   balance: bigint;
   balanceUSD: number;
+  priceUSD: number;
+  priceSource?: string;
   aaveSupplied: bigint;
   aaveSuppliedUSD: number;
-  aaveBorrowed: bigint;
+  aaveBorrowed: bigint; // Stable plus variable debt
   aaveBorrowedUSD: number;
+  aaveStableDebt: bigint;
+  aaveVariableDebt: bigint;
+  usageAsCollateralEnabled: boolean;
   currentAPY: number;
-  earnedYield: number;
+  earnedYield: number; // Lifetime supply interest in USD
+  yieldAccount: TokenYieldAccount | null; // Earned and paid interest by period
   lastUpdate: number;
 }
 
+// Trader Joe LP position valued at current prices
+export interface PortfolioLiquidityPosition extends LiquidityPosition {
+  valueUSD: number;
+  feesUSD: number | null; // Null when the deposit could not be found
+}
+
+// Holding in a registered yield source, valued at current prices
+export interface PortfolioSourcePosition {
+  sourceId: string;
+  protocol: string;
+  marketId: string;
+  tokenAddress: string;
+  symbol: string;
+  amount: bigint;
+  valueUSD: number;
+  aprPercent: number;
+  itemized: boolean; // Already shown in positions or liquidityPositions
+}
+
 export interface PortfolioSummary {
   totalValueUSD: number;
   totalSuppliedUSD: number;
   totalBorrowedUSD: number;
   totalEarnedYield: number;
   netWorth: number;
-  healthFactor: number;
+  healthFactor: number; // Infinity when there is no debt
+  account: AaveAccountSummary | null; // Aave account totals, null when they could not be read
+  yieldAccount: PortfolioYieldAccount | null; // Interest earned and paid, including closed positions
   positions: PortfolioPosition[];
+  liquidityPositions: PortfolioLiquidityPosition[];
+  sourcePositions: PortfolioSourcePosition[]; // Every registered source, one entry per market held
   performanceHistory: PortfolioHistoryPoint[];
   lastUpdate: number;
 }
@@ -75,40 +115,32 @@ const ATOKEN_ABI = [
   }
 ] as const;
 
-// Simple price oracle interface (you can replace with real price feeds)
-interface PriceOracle {
-  getPrice(tokenAddress: string): Promise<number>;
-}
-
-class MockPriceOracle implements PriceOracle {
-  private prices: Record<string, number> = {
-    [CONTRACT_CONFIG.TOKENS.WETH]: 2000, // Mock ETH price
-    [CONTRACT_CONFIG.TOKENS.WAVAX]: 25,  // Mock AVAX price
-    [CONTRACT_CONFIG.TOKENS.USDC]: 1,    // Mock USDC price
-  };
-
-  async getPrice(tokenAddress: string): Promise<number> {
-    // Add some realistic price variation
-    const basePrice = this.prices[tokenAddress] || 1;
-    const variation = (Math.random() - 0.5) * 0.02; // ±1% variation
-    return basePrice * (1 + variation);
-  }
-}
+const HISTORY_DAYS = 90;
+// Sources already itemized in positions and liquidityPositions, so not added to the totals again
+const ITEMIZED_SOURCES = [AaveYieldSource.ID, TraderJoeYieldSource.ID];
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class PortfolioService {
-  private provider: BrowserProvider | null = null;
-  private priceOracle: PriceOracle;
+  private provider: ReadProvider | null = null;
+  private priceOracle: PriceOracleService;
+  private aaveService: AaveService;
+  private liquidityService: UniswapDepositService;
   private yieldHubContract: Contract | null = null;
 
-  constructor(provider?: BrowserProvider) {
-    this.priceOracle = new MockPriceOracle();
+  constructor(provider?: ReadProvider) {
+    this.priceOracle = new PriceOracleService();
+    this.aaveService = new AaveService();
+    this.liquidityService = new UniswapDepositService();
     if (provider) {
       this.setProvider(provider);
     }
   }
 
-  setProvider(provider: BrowserProvider) {
+  setProvider(provider: ReadProvider) {
     this.provider = provider;
+    this.priceOracle.setProvider(provider);
+    this.aaveService.setProvider(provider);
+    this.liquidityService.setProvider(provider);
     if (CONTRACT_CONFIG.YIELD_HUB_ADDRESS) {
       // Import the YieldHub ABI from web3-config
       const { YIELDHUB_ABI } = require('./web3-config');
@@ -125,16 +157,35 @@ export class PortfolioService {
     if (!this.provider || !userAddress) return null;
 
     try {
-      const supportedTokens = Object.values(CONTRACT_CONFIG.TOKENS);
+      const supportedTokens = (await loadTokenRegistry(this.provider)).map(token => token.address);
       const positions: PortfolioPosition[] = [];
       let totalValueUSD = 0;
       let totalSuppliedUSD = 0;
       let totalBorrowedUSD = 0;
       let totalEarnedYield = 0;
 
+      // Aave supply and debt for every token, plus the account totals behind the health factor
+      const [reserves, accountData] = await Promise.all([
+        this.aaveService.getUserReserves(userAddress, supportedTokens),
+        this.aaveService.getUserAccountData(userAddress),
+      ]);
+
+      // Interest earned and paid from the Aave index at each balance change
+      const yieldAccount = await getYieldAccounting(this.provider)
+        .getAccount(userAddress, reserves)
+        .catch(error => {
+          console.warn('Could not compute earned yield:', error);
+          return null;
+        });
+
       // Get positions for each supported token
       for (const tokenAddress of supportedTokens) {
-        const position = await this.getTokenPosition(userAddress, tokenAddress);
+        const position = await this.getTokenPosition(
+          userAddress,
+          tokenAddress,
+          reserves[tokenAddress],
+          yieldAccount?.tokens[tokenAddress]
+        );
         if (position) {
           positions.push(position);
           totalValueUSD += position.balanceUSD + position.aaveSuppliedUSD;
@@ -144,20 +195,29 @@ export class PortfolioService {
         }
       }
 
-      // Get user account data from Aave for health factor
-      let healthFactor = 0;
-      if (this.yieldHubContract) {
-        try {
-          // This would call your YieldHub contract to get user account data
-          // For now, we'll use a mock value
-          healthFactor = 2.5; // Mock healthy position
-        } catch (error) {
-          console.warn('Could not fetch health factor:', error);
+      // LP tokens are not in the token registry, so they are valued separately through their reserves
+      const liquidityPositions = await this.getLiquidityPositions(userAddress);
+      liquidityPositions.forEach(position => {
+        totalValueUSD += position.valueUSD;
+      });
+
+      const sourcePositions = await this.getSourcePositions(userAddress);
+      sourcePositions.forEach(position => {
+        if (!position.itemized) {
+          totalValueUSD += position.valueUSD;
+          totalSuppliedUSD += position.valueUSD;
         }
+      });
+
+      const account = accountData ? AaveService.toAccountSummary(accountData) : null;
+
+      // Closed positions still count towards the totals, so prefer the ledger's figure
+      if (yieldAccount) {
+        totalEarnedYield = yieldAccount.earnedUSD.lifetime;
       }
 
-      // Generate performance history (mock data for now)
-      const performanceHistory = this.generatePerformanceHistory(totalValueUSD);
+      // Performance history from the recorded APY series
+      const performanceHistory = await this.buildPerformanceHistory(positions);
 
       return {
         totalValueUSD,
@@ -165,8 +225,12 @@ export class PortfolioService {
         totalBorrowedUSD,
         totalEarnedYield,
         netWorth: totalValueUSD - totalBorrowedUSD,
-        healthFactor,
+        healthFactor: account ? account.healthFactor : Infinity,
+        account,
+        yieldAccount,
         positions,
+        liquidityPositions,
+        sourcePositions,
         performanceHistory,
         lastUpdate: Date.now(),
       };
@@ -176,15 +240,71 @@ export class PortfolioService {
     }
   }
 
+  // Tracked LP positions with their underlying amounts and fees valued in USD
+  private async getLiquidityPositions(userAddress: string): Promise<PortfolioLiquidityPosition[]> {
+    try {
+      const positions = await this.liquidityService.getLiquidityPositions(userAddress);
+      return await Promise.all(positions.map(async position => {
+        const [quote0, quote1] = await Promise.all([
+          this.priceOracle.getQuote(position.token0),
+          this.priceOracle.getQuote(position.token1),
+        ]);
+        const price0 = quote0?.priceUSD ?? 0;
+        const price1 = quote1?.priceUSD ?? 0;
+        const value = (amount0: bigint, amount1: bigint) => fixedToNumber(
+          toUSD(amount0, position.decimals0, price0) + toUSD(amount1, position.decimals1, price1)
+        );
+
+        return {
+          ...position,
+          valueUSD: value(position.amount0, position.amount1),
+          feesUSD: position.fees0 === null || position.fees1 === null ? null : value(position.fees0, position.fees1),
+        };
+      }));
+    } catch (error) {
+      console.warn('Could not load liquidity positions:', error);
+      return [];
+    }
+  }
+
+  // Positions in every registered yield source; a source that fails to load is left out
+  private async getSourcePositions(userAddress: string): Promise<PortfolioSourcePosition[]> {
+    if (!this.provider) return [];
+
+    const positions = await Promise.all(getYieldSources(this.provider).map(source =>
+      source.getPositions(userAddress).catch(error => {
+        console.warn(`Could not load ${source.id} positions:`, error);
+        return [];
+      })
+    ));
+
+    return await Promise.all(positions.flat().map(async ({ market, amount, aprBps }) => {
+      const quote = await this.priceOracle.getQuote(market.tokenAddress);
+      return {
+        sourceId: market.sourceId,
+        protocol: market.protocol,
+        marketId: market.id,
+        tokenAddress: market.tokenAddress,
+        symbol: market.tokenSymbol,
+        amount,
+        valueUSD: fixedToNumber(toUSD(amount, market.decimals, quote?.priceUSD ?? 0)),
+        aprPercent: bpsToPercent(aprBps),
+        itemized: ITEMIZED_SOURCES.includes(market.sourceId),
+      };
+    }));
+  }
+
   // Get position data for a specific token
   private async getTokenPosition(
     userAddress: string, 
-    tokenAddress: string
+    tokenAddress: string,
+    reserve?: UserReservePosition,
+    yieldAccount?: TokenYieldAccount
   ): Promise<PortfolioPosition | null> {
     if (!this.provider) return null;
 
     try {
-      const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
+      const tokenInfo = getTokenInfo(tokenAddress);
       if (!tokenInfo) return null;
 
       // Get token contract
@@ -193,18 +313,18 @@ export class PortfolioService {
       // Get wallet balance
       const balance = await tokenContract.balanceOf(userAddress);
       
-      // Get current price
-      const price = await this.priceOracle.getPrice(tokenAddress);
+      // Get current price and the source that produced it
+      const quote = await this.priceOracle.getQuote(tokenAddress);
+      const price = quote?.priceUSD ?? 0;
       
       // Calculate USD values
-      const balanceFormatted = Number(balance) / Math.pow(10, tokenInfo.decimals);
-      const balanceUSD = balanceFormatted * price;
+      const balanceUSD = fixedToNumber(toUSD(balance, tokenInfo.decimals, price));
 
-      // Get Aave position data (mock for now - you can integrate with your Aave adapter)
-      const aaveSupplied = BigInt(0); // Would get from Aave
-      const aaveBorrowed = BigInt(0); // Would get from Aave
-      const aaveSuppliedUSD = 0; // Would calculate from Aave data
-      const aaveBorrowedUSD = 0; // Would calculate from Aave data
+      // Aave position; tokens that are not Aave reserves have none
+      const aaveSupplied = reserve?.aTokenBalance ?? BigInt(0);
+      const aaveBorrowed = reserve?.totalDebt ?? BigInt(0);
+      const aaveSuppliedUSD = fixedToNumber(toUSD(aaveSupplied, tokenInfo.decimals, price));
+      const aaveBorrowedUSD = fixedToNumber(toUSD(aaveBorrowed, tokenInfo.decimals, price));
 
       // Get current APY from your YieldHub contract
       let currentAPY = 0;
@@ -217,8 +337,8 @@ export class PortfolioService {
         }
       }
 
-      // Calculate earned yield (mock calculation)
-      const earnedYield = aaveSuppliedUSD * (currentAPY / 100) * (30 / 365); // 30-day yield
+      // Lifetime supply interest from the yield ledger
+      const earnedYield = yieldAccount?.earnedUSD.lifetime ?? 0;
 
       // Only return position if user has balance or Aave position
       if (balance > 0 || aaveSupplied > 0 || aaveBorrowed > 0) {
@@ -228,12 +348,18 @@ export class PortfolioService {
           name: tokenInfo.name,
           balance,
           balanceUSD,
+          priceUSD: price,
+          priceSource: quote?.source,
           aaveSupplied,
           aaveSuppliedUSD,
           aaveBorrowed,
           aaveBorrowedUSD,
+          aaveStableDebt: reserve?.stableDebt ?? BigInt(0),
+          aaveVariableDebt: reserve?.variableDebt ?? BigInt(0),
+          usageAsCollateralEnabled: reserve?.usageAsCollateralEnabled ?? false,
           currentAPY,
           earnedYield,
+          yieldAccount: yieldAccount ?? null,
           lastUpdate: Date.now(),
         };
       }
@@ -245,33 +371,46 @@ export class PortfolioService {
     }
   }
 
-  // Generate mock performance history (replace with real historical data)
-  private generatePerformanceHistory(currentValue: number): PortfolioHistoryPoint[] {
-    const history: PortfolioHistoryPoint[] = [];
-    const days = 90; // 90 days of history
+  // Value history from the locally recorded Aave APYs, assuming today's holdings:
+  // supplied balances are discounted back one day at a time, wallet balances stay flat
+  private async buildPerformanceHistory(positions: PortfolioPosition[]): Promise<PortfolioHistoryPoint[]> {
+    if (!this.provider) return [];
+
+    const history = getYieldHistory(this.provider);
+    const dailyAPYs = await Promise.all(
+      positions.map(async position => {
+        if (position.aaveSuppliedUSD === 0) return new Map<string, number>();
+        const series = await history.getDailySeries(position.tokenAddress, HISTORY_DAYS + 1);
+        return new Map(series.map(point => [point.date, bpsToPercent(point.aaveAPY)]));
+      })
+    );
+
+    const walletUSD = positions.reduce((sum, position) => sum + position.balanceUSD, 0);
+    const supplied = positions.map(position => position.aaveSuppliedUSD);
     const now = Date.now();
+    const points: PortfolioHistoryPoint[] = [];
 
-    for (let i = days; i >= 0; i--) {
-      const timestamp = now - (i * 24 * 60 * 60 * 1000);
-      const date = new Date(timestamp);
-      
-      // Generate realistic portfolio growth
-      const daysFactor = (days - i) / days;
-      const baseGrowth = 1 + (daysFactor * 0.085); // 8.5% growth over period
-      const randomVariation = 1 + (Math.random() - 0.5) * 0.1; // ±5% daily variation
-      
-      const totalValueUSD = currentValue * baseGrowth * randomVariation;
-      const totalEarnedYield = totalValueUSD * 0.05 * daysFactor; // 5% yield over period
+    for (let i = 0; i <= HISTORY_DAYS; i++) {
+      const timestamp = now - i * DAY_MS;
+      const date = new Date(timestamp).toISOString().split('T')[0]; // YYYY-MM-DD format
+      const suppliedUSD = supplied.reduce((sum, value) => sum + value, 0);
 
-      history.push({
-        timestamp,
-        totalValueUSD,
-        totalEarnedYield,
-        date: date.toISOString().split('T')[0], // YYYY-MM-DD format
+      points.unshift({ timestamp, totalValueUSD: walletUSD + suppliedUSD, totalEarnedYield: 0, date });
+
+      // Undo the interest accrued during this day
+      supplied.forEach((value, p) => {
+        const apy = dailyAPYs[p].get(date) ?? 0;
+        supplied[p] = value / (1 + apy / 100 / 365);
       });
     }
 
-    return history;
+    // Earned yield is the growth in supplied value since the start of the window
+    const startSupplied = points[0].totalValueUSD - walletUSD;
+    points.forEach(point => {
+      point.totalEarnedYield = point.totalValueUSD - walletUSD - startSupplied;
+    });
+
+    return points;
   }
 
   // Calculate portfolio metrics
@@ -321,7 +460,7 @@ export class PortfolioService {
     // Simple risk calculation based on health factor and diversification
     let riskScore = 50; // Base risk score
 
-    // Health factor impact
+    // Health factor impact (no debt means no liquidation risk)
     if (summary.healthFactor > 2) {
       riskScore -= 20; // Lower risk for healthy positions
     } else if (summary.healthFactor < 1.5) {
@@ -336,8 +475,11 @@ export class PortfolioService {
       riskScore += 15; // Higher risk for concentrated portfolio
     }
 
-    // Leverage impact
-    const leverageRatio = summary.totalBorrowedUSD / summary.totalSuppliedUSD;
+    // Leverage impact, from Aave's own collateral and debt totals
+    const account = summary.account;
+    const leverageRatio = account && account.totalCollateralUSD > 0
+      ? account.totalDebtUSD / account.totalCollateralUSD
+      : 0;
     if (leverageRatio > 0.5) {
       riskScore += 20; // Higher risk for high leverage
     }
@@ -393,24 +535,19 @@ export class PortfolioService {
 
   // Utility functions
   static formatCurrency(amount: number): string {
-    if (amount >= 1e9) {
-      return `$${(amount / 1e9).toFixed(2)}B`;
-    } else if (amount >= 1e6) {
-      return `$${(amount / 1e6).toFixed(2)}M`;
-    } else if (amount >= 1e3) {
-      return `$${(amount / 1e3).toFixed(2)}K`;
-    } else {
-      return `$${amount.toFixed(2)}`;
-    }
+    return formatUSD(numberToFixed(amount));
+  }
+
+  static formatHealthFactor(healthFactor: number): string {
+    return Number.isFinite(healthFactor) ? formatFixed(numberToFixed(healthFactor), 18, 2) : '∞';
   }
 
   static formatPercentage(percentage: number): string {
-    const sign = percentage >= 0 ? '+' : '';
-    return `${sign}${percentage.toFixed(2)}%`;
+    return formatPercent(percentage, 2, true);
   }
 
   static formatAPY(apy: number): string {
-    return `${apy.toFixed(2)}%`;
+    return formatPercent(apy);
   }
 }
 
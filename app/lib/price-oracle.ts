@@ -0,0 +1,547 @@
+import { Contract, ZeroAddress } from 'ethers';
+import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider } from './providers';
+import { getTokenInfo } from './token-registry';
+import { UNISWAP_V2_CONFIG } from './uniswap-service';
+
+// Price oracle configuration for Avalanche Fuji
+export const PRICE_ORACLE_CONFIG = {
+  // Chainlink USD aggregators on Fuji, keyed by token
+  CHAINLINK_FEEDS: {
+    [CONTRACT_CONFIG.TOKENS.WAVAX]: '0x5498BB86BC934c8D34FDA08E81D444153d0D06aD', // AVAX / USD
+    [CONTRACT_CONFIG.TOKENS.WETH]: '0x86d67c3D38D2bCeE722E601025C25a575021c6EA', // ETH / USD
+    [CONTRACT_CONFIG.TOKENS.USDT]: '0x7898AcCC83587C3C55116c5230C17a6Cd9C71bad', // USDT / USD
+    [CONTRACT_CONFIG.TOKENS.LINK]: '0x34C4c526902d88a3Aa98DB8a9b802603EB1E3470', // LINK / USD
+  } as Record<string, string>,
+  // Quotes older than this are ignored
+  MAX_PRICE_AGE_SECONDS: 60 * 60,
+  // Prices are cached briefly so a page render does not refetch them per component
+  CACHE_TTL: 30 * 1000,
+  // Historical prices are cached per token and hour
+  HISTORY_BUCKET_SECONDS: 60 * 60,
+};
+
+// Aave addresses provider ABI (price oracle lookup only)
+const ADDRESSES_PROVIDER_ABI = [
+  {
+    "inputs": [],
+    "name": "getPriceOracle",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Aave V3 oracle ABI
+const AAVE_ORACLE_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getAssetPrice",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "asset", "type": "address"}],
+    "name": "getSourceOfAsset",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "BASE_CURRENCY_UNIT",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Chainlink aggregator ABI
+const AGGREGATOR_V3_ABI = [
+  {
+    "inputs": [],
+    "name": "latestRoundData",
+    "outputs": [
+      {"internalType": "uint80", "name": "roundId", "type": "uint80"},
+      {"internalType": "int256", "name": "answer", "type": "int256"},
+      {"internalType": "uint256", "name": "startedAt", "type": "uint256"},
+      {"internalType": "uint256", "name": "updatedAt", "type": "uint256"},
+      {"internalType": "uint80", "name": "answeredInRound", "type": "uint80"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "uint80", "name": "_roundId", "type": "uint80"}],
+    "name": "getRoundData",
+    "outputs": [
+      {"internalType": "uint80", "name": "roundId", "type": "uint80"},
+      {"internalType": "int256", "name": "answer", "type": "int256"},
+      {"internalType": "uint256", "name": "startedAt", "type": "uint256"},
+      {"internalType": "uint256", "name": "updatedAt", "type": "uint256"},
+      {"internalType": "uint80", "name": "answeredInRound", "type": "uint80"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [{"internalType": "uint8", "name": "", "type": "uint8"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+// Trader Joe (Uniswap V2) factory and pair ABIs
+const FACTORY_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"}
+    ],
+    "name": "getPair",
+    "outputs": [{"internalType": "address", "name": "pair", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+const PAIR_ABI = [
+  {
+    "inputs": [],
+    "name": "getReserves",
+    "outputs": [
+      {"internalType": "uint112", "name": "reserve0", "type": "uint112"},
+      {"internalType": "uint112", "name": "reserve1", "type": "uint112"},
+      {"internalType": "uint32", "name": "blockTimestampLast", "type": "uint32"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token0",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export interface PriceQuote {
+  tokenAddress: string;
+  priceUSD: number;
+  source: string;
+  updatedAt: number; // unix seconds
+}
+
+// A single place prices can come from
+export interface PriceSource {
+  readonly name: string;
+  getQuote(tokenAddress: string): Promise<PriceQuote | null>;
+}
+
+// What consumers depend on: a USD price per token
+export interface PriceOracle {
+  getPrice(tokenAddress: string): Promise<number>;
+}
+
+export type PriceStrategy = 'priority' | 'median';
+
+export interface PriceOracleOptions {
+  strategy?: PriceStrategy;
+  maxPriceAgeSeconds?: number;
+  sources?: PriceSource[];
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// Scale an integer answer with the given decimals to a float
+const toFloat = (value: bigint, decimals: number | bigint): number => {
+  return Number(value) / Math.pow(10, Number(decimals));
+};
+
+// Read updatedAt from a Chainlink aggregator, or null if it is not one
+const readAggregator = async (
+  aggregatorAddress: string,
+  provider: ReadProvider
+): Promise<{ answer: bigint; decimals: bigint; updatedAt: number } | null> => {
+  try {
+    const aggregator = new Contract(aggregatorAddress, AGGREGATOR_V3_ABI, provider);
+    const [[, answer, , updatedAt], decimals] = await Promise.all([
+      aggregator.latestRoundData(),
+      aggregator.decimals(),
+    ]);
+    return { answer, decimals, updatedAt: Number(updatedAt) };
+  } catch {
+    return null;
+  }
+};
+
+// Latest Chainlink round at or before `timestamp`, found by binary search within the current phase.
+// Proxy round ids are (phaseId << 64) | aggregatorRoundId, and aggregator rounds count up from 1.
+const findRoundAt = async (
+  aggregatorAddress: string,
+  timestamp: number,
+  provider: ReadProvider
+): Promise<{ answer: bigint; decimals: bigint; updatedAt: number } | null> => {
+  try {
+    const aggregator = new Contract(aggregatorAddress, AGGREGATOR_V3_ABI, provider);
+    const [[latestRoundId, latestAnswer, , latestUpdatedAt], decimals] = await Promise.all([
+      aggregator.latestRoundData(),
+      aggregator.decimals(),
+    ]);
+    if (Number(latestUpdatedAt) <= timestamp) {
+      return { answer: latestAnswer, decimals, updatedAt: Number(latestUpdatedAt) };
+    }
+
+    const phaseBase = (latestRoundId >> BigInt(64)) << BigInt(64);
+    let low = BigInt(1);
+    let high = latestRoundId - phaseBase;
+    let found: { answer: bigint; updatedAt: number } | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) / BigInt(2);
+      let round: { answer: bigint; updatedAt: number } | null = null;
+      try {
+        const [, answer, , updatedAt] = await aggregator.getRoundData(phaseBase + mid);
+        round = { answer, updatedAt: Number(updatedAt) };
+      } catch {
+        // Missing rounds revert; treat them as too early
+      }
+
+      if (round && round.updatedAt > 0 && round.updatedAt <= timestamp) {
+        found = round;
+        low = mid + BigInt(1);
+      } else if (round && round.updatedAt > timestamp) {
+        high = mid - BigInt(1);
+      } else {
+        low = mid + BigInt(1);
+      }
+    }
+
+    return found && found.answer > BigInt(0) ? { ...found, decimals } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Aave V3 oracle reached through the pool addresses provider
+export class AaveOraclePriceSource implements PriceSource {
+  readonly name = 'Aave Oracle';
+  private provider: ReadProvider;
+  private oracleContract: Contract | null = null;
+  private baseUnit: bigint | null = null;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+  }
+
+  private async getOracle(): Promise<Contract> {
+    if (!this.oracleContract) {
+      const addressesProvider = new Contract(
+        CONTRACT_CONFIG.AAVE_ADDRESSES_PROVIDER,
+        ADDRESSES_PROVIDER_ABI,
+        this.provider
+      );
+      const oracleAddress = await addressesProvider.getPriceOracle();
+      this.oracleContract = new Contract(oracleAddress, AAVE_ORACLE_ABI, this.provider);
+      this.baseUnit = await this.oracleContract.BASE_CURRENCY_UNIT();
+    }
+    return this.oracleContract;
+  }
+
+  // Chainlink aggregator Aave prices this asset from, if any
+  async getFeedAddress(tokenAddress: string): Promise<string | null> {
+    try {
+      const oracle = await this.getOracle();
+      const sourceAddress: string = await oracle.getSourceOfAsset(tokenAddress);
+      return sourceAddress !== ZeroAddress ? sourceAddress : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    try {
+      const oracle = await this.getOracle();
+      const [price, sourceAddress] = await Promise.all([
+        oracle.getAssetPrice(tokenAddress),
+        oracle.getSourceOfAsset(tokenAddress),
+      ]);
+      if (price <= BigInt(0)) return null;
+
+      // The Aave oracle has no timestamp of its own; use the underlying feed's when there is one
+      const feed = sourceAddress !== ZeroAddress ? await readAggregator(sourceAddress, this.provider) : null;
+
+      return {
+        tokenAddress,
+        priceUSD: Number(price) / Number(this.baseUnit || BigInt(1e8)),
+        source: this.name,
+        updatedAt: feed?.updatedAt || nowSeconds(),
+      };
+    } catch (error) {
+      console.warn(`Aave oracle price unavailable for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+}
+
+// Chainlink USD aggregators configured per token
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'Chainlink';
+  private provider: ReadProvider;
+  private feeds: Record<string, string>;
+
+  constructor(provider: ReadProvider, feeds: Record<string, string> = PRICE_ORACLE_CONFIG.CHAINLINK_FEEDS) {
+    this.provider = provider;
+    this.feeds = Object.fromEntries(
+      Object.entries(feeds).map(([token, feed]) => [token.toLowerCase(), feed])
+    );
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const feedAddress = this.feeds[tokenAddress.toLowerCase()];
+    if (!feedAddress) return null;
+
+    const feed = await readAggregator(feedAddress, this.provider);
+    if (!feed || feed.answer <= BigInt(0)) return null;
+
+    return {
+      tokenAddress,
+      priceUSD: toFloat(feed.answer, feed.decimals),
+      source: this.name,
+      updatedAt: feed.updatedAt,
+    };
+  }
+}
+
+// Spot price from Trader Joe pair reserves, against USDC directly or routed through WAVAX
+export class TraderJoePriceSource implements PriceSource {
+  readonly name = 'Trader Joe';
+  private provider: ReadProvider;
+  private factoryContract: Contract;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+    this.factoryContract = new Contract(UNISWAP_V2_CONFIG.FACTORY_ADDRESS, FACTORY_ABI, provider);
+  }
+
+  // Price of `base` in units of `quote`, with the pair's last update time
+  private async getPairPrice(
+    base: string,
+    quote: string,
+    baseDecimals: number,
+    quoteDecimals: number
+  ): Promise<{ price: number; updatedAt: number } | null> {
+    const pairAddress = await this.factoryContract.getPair(base, quote);
+    if (pairAddress === ZeroAddress) return null;
+
+    const pair = new Contract(pairAddress, PAIR_ABI, this.provider);
+    const [[reserve0, reserve1, blockTimestampLast], token0] = await Promise.all([
+      pair.getReserves(),
+      pair.token0(),
+    ]);
+    const [baseReserve, quoteReserve] = token0.toLowerCase() === base.toLowerCase()
+      ? [reserve0, reserve1]
+      : [reserve1, reserve0];
+    if (baseReserve === BigInt(0) || quoteReserve === BigInt(0)) return null;
+
+    return {
+      price: toFloat(quoteReserve, quoteDecimals) / toFloat(baseReserve, baseDecimals),
+      updatedAt: Number(blockTimestampLast),
+    };
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const usdc = UNISWAP_V2_CONFIG.USDC_ADDRESS;
+    const wavax = UNISWAP_V2_CONFIG.WAVAX_ADDRESS;
+    const decimals = getTokenInfo(tokenAddress)?.decimals ?? 18;
+
+    try {
+      if (tokenAddress.toLowerCase() === usdc.toLowerCase()) {
+        return { tokenAddress, priceUSD: 1, source: this.name, updatedAt: nowSeconds() };
+      }
+
+      const direct = await this.getPairPrice(tokenAddress, usdc, decimals, 6);
+      if (direct) {
+        return { tokenAddress, priceUSD: direct.price, source: this.name, updatedAt: direct.updatedAt };
+      }
+
+      // No USDC pair: price against WAVAX, then WAVAX against USDC
+      const avaxUSD = await this.getPairPrice(wavax, usdc, 18, 6);
+      if (!avaxUSD) return null;
+      if (tokenAddress.toLowerCase() === wavax.toLowerCase()) {
+        return { tokenAddress, priceUSD: avaxUSD.price, source: this.name, updatedAt: avaxUSD.updatedAt };
+      }
+
+      const inAVAX = await this.getPairPrice(tokenAddress, wavax, decimals, 18);
+      if (!inAVAX) return null;
+
+      return {
+        tokenAddress,
+        priceUSD: inAVAX.price * avaxUSD.price,
+        source: this.name,
+        updatedAt: Math.min(inAVAX.updatedAt, avaxUSD.updatedAt),
+      };
+    } catch (error) {
+      console.warn(`Trader Joe price unavailable for ${tokenAddress}:`, error);
+      return null;
+    }
+  }
+}
+
+// Combines several price sources by priority or median, skipping stale quotes
+export class PriceOracleService implements PriceOracle {
+  private sources: PriceSource[] = [];
+  private strategy: PriceStrategy;
+  private maxPriceAgeSeconds: number;
+  private customSources: boolean;
+  private cache: Map<string, { quote: PriceQuote | null; fetchedAt: number }> = new Map();
+  private historyCache: Map<string, Promise<PriceQuote | null>> = new Map();
+  private provider: ReadProvider | null = null;
+  private aaveOracle: AaveOraclePriceSource | null = null;
+
+  constructor(provider?: ReadProvider, options: PriceOracleOptions = {}) {
+    this.strategy = options.strategy || 'priority';
+    this.maxPriceAgeSeconds = options.maxPriceAgeSeconds ?? PRICE_ORACLE_CONFIG.MAX_PRICE_AGE_SECONDS;
+    this.customSources = !!options.sources;
+    if (options.sources) {
+      this.sources = options.sources;
+    }
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.cache.clear();
+    this.historyCache.clear();
+    this.provider = provider;
+    this.aaveOracle = new AaveOraclePriceSource(provider);
+    if (!this.customSources) {
+      // Default priority: Aave's own oracle, then Chainlink, then DEX spot
+      this.sources = [
+        new AaveOraclePriceSource(provider),
+        new ChainlinkPriceSource(provider),
+        new TraderJoePriceSource(provider),
+      ];
+    }
+  }
+
+  setStrategy(strategy: PriceStrategy) {
+    this.strategy = strategy;
+    this.cache.clear();
+  }
+
+  private isStale(quote: PriceQuote): boolean {
+    return nowSeconds() - quote.updatedAt > this.maxPriceAgeSeconds;
+  }
+
+  // Get the combined quote for a token, with the source that produced it
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const cacheKey = tokenAddress.toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < PRICE_ORACLE_CONFIG.CACHE_TTL) {
+      return cached.quote;
+    }
+
+    const quote = this.strategy === 'median'
+      ? await this.getMedianQuote(tokenAddress)
+      : await this.getPriorityQuote(tokenAddress);
+
+    this.cache.set(cacheKey, { quote, fetchedAt: Date.now() });
+    return quote;
+  }
+
+  // First fresh quote in source order
+  private async getPriorityQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    for (const source of this.sources) {
+      const quote = await source.getQuote(tokenAddress);
+      if (!quote) continue;
+      if (this.isStale(quote)) {
+        console.warn(`Stale ${source.name} price for ${tokenAddress}, trying next source`);
+        continue;
+      }
+      return quote;
+    }
+    return null;
+  }
+
+  // Median of all fresh quotes
+  private async getMedianQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const quotes = (await Promise.all(this.sources.map(source => source.getQuote(tokenAddress))))
+      .filter((quote): quote is PriceQuote => !!quote && !this.isStale(quote))
+      .sort((a, b) => a.priceUSD - b.priceUSD);
+    if (quotes.length === 0) return null;
+
+    const middle = Math.floor(quotes.length / 2);
+    const priceUSD = quotes.length % 2 === 1
+      ? quotes[middle].priceUSD
+      : (quotes[middle - 1].priceUSD + quotes[middle].priceUSD) / 2;
+
+    return {
+      tokenAddress,
+      priceUSD,
+      source: `Median (${quotes.map(quote => quote.source).join(', ')})`,
+      updatedAt: Math.min(...quotes.map(quote => quote.updatedAt)),
+    };
+  }
+
+  // USD price, or 0 when no source has a fresh price
+  async getPrice(tokenAddress: string): Promise<number> {
+    const quote = await this.getQuote(tokenAddress);
+    return quote?.priceUSD ?? 0;
+  }
+
+  // Price at a past time from the token's Chainlink rounds (configured feed, or the one
+  // Aave uses); falls back to the current price, labelled as such. Only historical prices
+  // are cached, so a failed or fallback lookup is retried on the next call
+  async getHistoricalQuote(tokenAddress: string, timestamp: number): Promise<PriceQuote | null> {
+    const bucket = Math.floor(timestamp / PRICE_ORACLE_CONFIG.HISTORY_BUCKET_SECONDS);
+    const cacheKey = `${tokenAddress.toLowerCase()}:${bucket}`;
+    const cached = this.historyCache.get(cacheKey);
+    if (cached) return cached;
+
+    let historical = false;
+    const lookup = (async (): Promise<PriceQuote | null> => {
+      if (this.provider) {
+        const configuredFeed = Object.entries(PRICE_ORACLE_CONFIG.CHAINLINK_FEEDS)
+          .find(([token]) => token.toLowerCase() === tokenAddress.toLowerCase())?.[1];
+        const feedAddress = configuredFeed || (await this.aaveOracle?.getFeedAddress(tokenAddress)) || null;
+        const round = feedAddress ? await findRoundAt(feedAddress, timestamp, this.provider) : null;
+
+        if (round) {
+          historical = true;
+          return {
+            tokenAddress,
+            priceUSD: toFloat(round.answer, round.decimals),
+            source: 'Chainlink (historical)',
+            updatedAt: round.updatedAt,
+          };
+        }
+      }
+
+      const current = await this.getQuote(tokenAddress);
+      return current ? { ...current, source: `${current.source} (current)` } : null;
+    })();
+
+    this.historyCache.set(cacheKey, lookup);
+    const evict = () => {
+      if (this.historyCache.get(cacheKey) === lookup) this.historyCache.delete(cacheKey);
+    };
+    lookup.then(() => {
+      if (!historical) evict();
+    }, evict);
+    return lookup;
+  }
+
+  // Quotes for several tokens at once
+  async getQuotes(tokenAddresses: string[]): Promise<Record<string, PriceQuote | null>> {
+    const quotes = await Promise.all(tokenAddresses.map(token => this.getQuote(token)));
+    return Object.fromEntries(tokenAddresses.map((token, i) => [token, quotes[i]]));
+  }
+}
+
+export default PriceOracleService;
@@ -0,0 +1,34 @@
+import { BrowserProvider, JsonRpcProvider, Network, Signer } from 'ethers';
+import { FUJI_TESTNET_CONFIG } from './web3-config';
+
+// Any provider the services can read through: the connected wallet or the public Fuji RPC
+export type ReadProvider = BrowserProvider | JsonRpcProvider;
+
+const FUJI_NETWORK = Network.from(parseInt(FUJI_TESTNET_CONFIG.chainId, 16));
+
+let readOnlyProvider: JsonRpcProvider | null = null;
+
+// Shared JSON-RPC provider for visitors without a wallet (view calls only)
+export const getReadOnlyProvider = (): JsonRpcProvider => {
+  if (!readOnlyProvider) {
+    readOnlyProvider = new JsonRpcProvider(
+      FUJI_TESTNET_CONFIG.rpcUrls[0],
+      FUJI_NETWORK,
+      { staticNetwork: FUJI_NETWORK }
+    );
+  }
+  return readOnlyProvider;
+};
+
+// True when the provider cannot sign, i.e. no wallet is behind it
+export const isReadOnlyProvider = (provider: ReadProvider | null): boolean => {
+  return !(provider instanceof BrowserProvider);
+};
+
+// Resolve a signer for write calls such as approvals, deposits and data updates
+export const getSigner = async (provider: ReadProvider | null): Promise<Signer> => {
+  if (!provider || !(provider instanceof BrowserProvider)) {
+    throw new Error('Connect a wallet to sign transactions');
+  }
+  return provider.getSigner();
+};
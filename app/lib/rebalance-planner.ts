@@ -0,0 +1,480 @@
+import { ReadProvider } from './providers';
+import { getTokenInfo } from './token-registry';
+import { COST_CONFIG, CostModelService, CostStep, StepCosts } from './cost-model';
+import PortfolioService, { PortfolioSummary } from './portfolio-service';
+import UniswapDepositService, { DepositPair } from './uniswap-service';
+import { findYieldSourceDefinition } from './yield-source';
+import { AaveYieldSource } from './aave-yield-source';
+import { TraderJoeYieldSource } from './trader-joe-yield-source';
+import { YieldOpportunity } from './yield-optimizer-service';
+import { Allocation } from './allocation-engine';
+import { growthFactor } from './yield-math';
+import { formatTokenAmount, formatUSD, numberToFixed } from './units';
+
+// Rebalancing thresholds
+export const REBALANCE_CONFIG = {
+  // Differences smaller than this between holding and target are left alone
+  MIN_MOVE_USD: 1,
+};
+
+// 'source' is any other registered yield source, entered and left with the steps it registers
+export type RebalanceVenue = 'aave' | 'lp' | 'source' | 'wallet';
+
+// A holding or a target, valued in USD
+export interface RebalancePosition {
+  key: string; // Venue plus token, pair or market; a holding and its target share a key
+  venue: RebalanceVenue;
+  protocol: string | null; // Null for wallet balances
+  address: string; // Token, or the pair for LP positions
+  symbol: string;
+  valueUSD: number;
+  aprPercent: number; // Compounds every second; 0 for wallet balances
+  priceUSD: number | null; // Per token, to show amounts in token units
+  decimals: number;
+  viaSubnet: boolean; // Entered through a SubnetYield Core request
+  keepReason: string | null; // Set on holdings the planner won't move and targets it can't fill
+}
+
+export interface RebalanceMove {
+  from: RebalancePosition;
+  to: RebalancePosition;
+  amountUSD: number;
+  gainUSD: number; // Extra yield over the horizon
+  costUSD: number; // Steps no earlier move already pays for, plus swap fees and slippage
+}
+
+export type RebalanceActionKind = 'withdraw' | 'remove-liquidity' | 'swap' | 'supply' | 'add-liquidity' | 'subnet-request';
+
+// One checklist item, in execution order
+export interface RebalanceAction {
+  id: string;
+  kind: RebalanceActionKind;
+  description: string;
+  amountUSD: number;
+  costUSD: number;
+}
+
+export interface RebalancePlan {
+  actions: RebalanceAction[];
+  moves: RebalanceMove[];
+  skipped: RebalanceMove[]; // Best rejected move per unfilled target
+  kept: RebalancePosition[]; // Holdings left in place and why
+  unplanned: RebalancePosition[]; // Allocation targets no move can fill and why
+  totalGainUSD: number;
+  totalCostUSD: number;
+  netGainUSD: number;
+  portfolioValueUSD: number; // Value the target shares were applied to
+  horizonDays: number;
+}
+
+// Steps (and who they belong to) a move needs; a step already paid by an accepted move is free
+interface MoveStep {
+  id: string;
+  steps: CostStep[];
+}
+
+const sourceDefinition = (position: RebalancePosition) => findYieldSourceDefinition(position.protocol ?? '');
+
+const exitSteps = (from: RebalancePosition): MoveStep[] => {
+  switch (from.venue) {
+    case 'aave':
+      return [{ id: `withdraw:${from.key}`, steps: ['withdraw'] }];
+    case 'lp':
+      return [{ id: `remove:${from.key}`, steps: ['removeLiquidity'] }];
+    case 'source':
+      return [{ id: `withdraw:${from.key}`, steps: sourceDefinition(from)?.exitSteps ?? ['withdraw'] }];
+    case 'wallet':
+      return [];
+  }
+};
+
+const entrySteps = (to: RebalancePosition): MoveStep[] => {
+  switch (to.venue) {
+    case 'aave':
+      return [
+        { id: `supply:${to.key}`, steps: ['approve', 'supply'] },
+        ...(to.viaSubnet ? [{ id: `subnet:${to.key}`, steps: ['subnetRequest'] as CostStep[] }] : []),
+      ];
+    case 'lp':
+      return [{ id: `add:${to.key}`, steps: ['approve', 'approve', 'addLiquidity'] }];
+    case 'source':
+      return [{ id: `supply:${to.key}`, steps: sourceDefinition(to)?.entrySteps ?? ['approve', 'supply'] }];
+    case 'wallet':
+      return [];
+  }
+};
+
+// LP legs are costed as a single swap
+const needsSwap = (move: { from: RebalancePosition; to: RebalancePosition }) =>
+  move.from.address.toLowerCase() !== move.to.address.toLowerCase();
+
+const swapStep = (from: RebalancePosition, to: RebalancePosition): MoveStep => ({
+  id: `swap:${from.address.toLowerCase()}:${to.address.toLowerCase()}`,
+  steps: ['approve', 'swap'],
+});
+
+const swapCostBps = COST_CONFIG.SWAP_FEE_BPS + COST_CONFIG.SWAP_SLIPPAGE_BPS;
+
+const stepsCost = (moveSteps: MoveStep[], costs: StepCosts): number =>
+  moveSteps.reduce((sum, moveStep) => sum + moveStep.steps.reduce((stepSum, step) =>
+    stepSum + costs.gasUSD[step] + (step === 'subnetRequest' ? costs.messageFeeUSD : 0), 0), 0);
+
+const venueName = (position: RebalancePosition): string =>
+  position.venue === 'aave' ? 'Aave' : position.protocol ?? 'wallet';
+
+const describeAmount = (position: RebalancePosition, amountUSD: number): string => {
+  const usd = formatUSD(numberToFixed(amountUSD));
+  if (position.venue === 'lp' || !position.priceUSD) return `${usd} of ${position.symbol}`;
+  const amount = numberToFixed(amountUSD / position.priceUSD, position.decimals);
+  return `${formatTokenAmount(amount, position.decimals)} ${position.symbol} (${usd})`;
+};
+
+// Moves from holdings toward targets that earn back their costs within `horizonDays`, as an ordered checklist
+export function buildRebalancePlan(
+  holdings: RebalancePosition[],
+  allTargets: RebalancePosition[],
+  costs: StepCosts,
+  horizonDays: number
+): RebalancePlan {
+  const minMove = REBALANCE_CONFIG.MIN_MOVE_USD;
+  const movable = holdings.filter(holding => holding.keepReason === null);
+  const targets = allTargets.filter(target => target.keepReason === null);
+  const currentValue = (key: string) => holdings
+    .filter(holding => holding.key === key)
+    .reduce((sum, holding) => sum + holding.valueUSD, 0);
+  const targetValue = (key: string) => targets
+    .filter(target => target.key === key)
+    .reduce((sum, target) => sum + target.valueUSD, 0);
+
+  const sources = movable
+    .map(position => ({ position, remaining: position.valueUSD - targetValue(position.key) }))
+    .filter(source => source.remaining > minMove);
+  const sinks = targets
+    .map(position => ({ position, remaining: position.valueUSD - currentValue(position.key) }))
+    .filter(sink => sink.remaining > minMove);
+
+  // Same-token moves first since they need no swap, then the best target from the worst holding
+  const pairs = sinks
+    .flatMap(sink => sources.map(source => ({ sink, source })))
+    .sort((a, b) =>
+      Number(needsSwap({ from: a.source.position, to: a.sink.position })) -
+        Number(needsSwap({ from: b.source.position, to: b.sink.position })) ||
+      b.sink.position.aprPercent - a.sink.position.aprPercent ||
+      a.source.position.aprPercent - b.source.position.aprPercent
+    );
+
+  const paid = new Set<string>();
+  const moves: RebalanceMove[] = [];
+  const rejected = new Map<string, RebalanceMove>();
+
+  for (const { sink, source } of pairs) {
+    const amountUSD = Math.min(sink.remaining, source.remaining);
+    if (amountUSD <= minMove) continue;
+
+    const from = source.position;
+    const to = sink.position;
+    const swap = needsSwap({ from, to });
+    const moveSteps = [...exitSteps(from), ...(swap ? [swapStep(from, to)] : []), ...entrySteps(to)]
+      .filter(moveStep => !paid.has(moveStep.id));
+    const move: RebalanceMove = {
+      from,
+      to,
+      amountUSD,
+      gainUSD: amountUSD * (
+        growthFactor(to.aprPercent / 100, horizonDays) - growthFactor(from.aprPercent / 100, horizonDays)
+      ),
+      costUSD: stepsCost(moveSteps, costs) + (swap ? (amountUSD * swapCostBps) / 10000 : 0),
+    };
+
+    if (move.gainUSD > move.costUSD) {
+      moves.push(move);
+      moveSteps.forEach(moveStep => paid.add(moveStep.id));
+      source.remaining -= amountUSD;
+      sink.remaining -= amountUSD;
+    } else {
+      const best = rejected.get(to.key);
+      if (!best || move.gainUSD - move.costUSD > best.gainUSD - best.costUSD) {
+        rejected.set(to.key, move);
+      }
+    }
+  }
+
+  const skipped = sinks
+    .filter(sink => sink.remaining > minMove && rejected.has(sink.position.key))
+    .map(sink => rejected.get(sink.position.key)!);
+  const actions = planActions(moves, costs, currentValue);
+  const totalGainUSD = moves.reduce((sum, move) => sum + move.gainUSD, 0);
+  const totalCostUSD = moves.reduce((sum, move) => sum + move.costUSD, 0);
+
+  return {
+    actions,
+    moves,
+    skipped,
+    kept: holdings.filter(holding => holding.keepReason !== null),
+    unplanned: allTargets.filter(target => target.keepReason !== null),
+    totalGainUSD,
+    totalCostUSD,
+    netGainUSD: totalGainUSD - totalCostUSD,
+    portfolioValueUSD: movable.reduce((sum, holding) => sum + holding.valueUSD, 0),
+    horizonDays,
+  };
+}
+
+// Accepted moves grouped into withdrawals, then swaps, then deposits
+function planActions(
+  moves: RebalanceMove[],
+  costs: StepCosts,
+  currentValue: (key: string) => number
+): RebalanceAction[] {
+  const exits = new Map<string, RebalanceAction>();
+  const swaps = new Map<string, RebalanceAction>();
+  const entries = new Map<string, RebalanceAction>();
+  const subnetRequests = new Map<string, RebalanceAction>();
+
+  const add = (
+    group: Map<string, RebalanceAction>,
+    id: string,
+    kind: RebalanceActionKind,
+    amountUSD: number,
+    costUSD: number
+  ) => {
+    const action = group.get(id) ?? { id, kind, description: '', amountUSD: 0, costUSD: 0 };
+    action.amountUSD += amountUSD;
+    action.costUSD += costUSD;
+    group.set(id, action);
+    return action;
+  };
+
+  for (const move of moves) {
+    const { from, to, amountUSD } = move;
+
+    if (from.venue !== 'wallet') {
+      const [exit] = exitSteps(from);
+      const action = add(exits, exit.id, from.venue === 'lp' ? 'remove-liquidity' : 'withdraw', amountUSD,
+        exits.has(exit.id) ? 0 : stepsCost([exit], costs));
+      const all = action.amountUSD >= currentValue(from.key) - REBALANCE_CONFIG.MIN_MOVE_USD;
+      action.description = from.venue === 'lp'
+        ? `Remove ${all ? 'all' : formatUSD(numberToFixed(action.amountUSD))} of ${from.symbol} liquidity`
+        : `Withdraw ${all ? `all ${from.symbol}` : describeAmount(from, action.amountUSD)} from ${venueName(from)}`;
+    }
+
+    if (needsSwap(move)) {
+      const step = swapStep(from, to);
+      const action = add(swaps, step.id, 'swap', amountUSD,
+        (swaps.has(step.id) ? 0 : stepsCost([step], costs)) + (amountUSD * swapCostBps) / 10000);
+      action.description = `Swap ${describeAmount(from, action.amountUSD)} for ${to.symbol}`;
+    }
+
+    const [entry, subnet] = entrySteps(to);
+    const action = add(entries, entry.id, to.venue === 'lp' ? 'add-liquidity' : 'supply', amountUSD,
+      entries.has(entry.id) ? 0 : stepsCost([entry], costs));
+    action.description = to.venue === 'lp'
+      ? `Add ${formatUSD(numberToFixed(action.amountUSD))} of liquidity to ${to.symbol}`
+      : `Supply ${describeAmount(to, action.amountUSD)} to ${venueName(to)}`;
+    if (subnet && !subnetRequests.has(subnet.id)) {
+      add(subnetRequests, subnet.id, 'subnet-request', 0, stepsCost([subnet], costs)).description =
+        `Request subnet yield for ${to.symbol}`;
+    }
+  }
+
+  return [...exits.values(), ...swaps.values(), ...entries.values(), ...subnetRequests.values()];
+}
+
+export class RebalancePlannerService {
+  private portfolioService: PortfolioService;
+  private costModel: CostModelService;
+  private depositService: UniswapDepositService;
+
+  constructor(provider?: ReadProvider) {
+    this.portfolioService = new PortfolioService();
+    this.costModel = new CostModelService();
+    this.depositService = new UniswapDepositService();
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.portfolioService.setProvider(provider);
+    this.costModel.setProvider(provider);
+    this.depositService.setProvider(provider);
+  }
+
+  // Plan the moves from the user's current positions to the optimizer's allocation shares
+  async planRebalance(
+    userAddress: string,
+    allocations: Allocation<YieldOpportunity>[],
+    horizonDays: number
+  ): Promise<RebalancePlan | null> {
+    const [summary, costs, depositPair] = await Promise.all([
+      this.portfolioService.getPortfolioSummary(userAddress),
+      this.costModel.getStepCosts(),
+      // Without the pair, Trader Joe targets are reported as unplanned
+      this.depositService.getDepositPair().catch(() => null),
+    ]);
+    if (!summary) return null;
+
+    const holdings = RebalancePlannerService.holdingsFromPortfolio(summary, depositPair);
+    const portfolioValueUSD = holdings
+      .filter(holding => holding.keepReason === null)
+      .reduce((sum, holding) => sum + holding.valueUSD, 0);
+    const targets = RebalancePlannerService.targetsFromAllocations(allocations, portfolioValueUSD, summary, depositPair);
+
+    return buildRebalancePlan(holdings, targets, costs, horizonDays);
+  }
+
+  // Aave supply, LP, other yield source and idle wallet balances as holdings
+  static holdingsFromPortfolio(summary: PortfolioSummary, depositPair: DepositPair | null = null): RebalancePosition[] {
+    const hasDebt = summary.totalBorrowedUSD > 0;
+    const holdings: RebalancePosition[] = [];
+
+    for (const position of summary.positions) {
+      const decimals = getTokenInfo(position.tokenAddress)?.decimals ?? 18;
+      const base = {
+        address: position.tokenAddress,
+        symbol: position.symbol,
+        priceUSD: position.priceUSD || null,
+        decimals,
+        viaSubnet: false,
+      };
+      if (position.aaveSupplied > BigInt(0)) {
+        holdings.push({
+          ...base,
+          key: `aave:${position.tokenAddress.toLowerCase()}`,
+          venue: 'aave',
+          protocol: AaveYieldSource.PROTOCOL,
+          valueUSD: position.aaveSuppliedUSD,
+          aprPercent: position.currentAPY,
+          // Withdrawing collateral lowers the health factor; that trade-off is left to the user
+          keepReason: hasDebt && position.usageAsCollateralEnabled ? 'Collateral for open debt' : null,
+        });
+      }
+      if (position.balance > BigInt(0)) {
+        holdings.push({
+          ...base,
+          key: `wallet:${position.tokenAddress.toLowerCase()}`,
+          venue: 'wallet',
+          protocol: null,
+          valueUSD: position.balanceUSD,
+          aprPercent: 0,
+          keepReason: position.priceUSD > 0 ? null : 'No price',
+        });
+      }
+    }
+
+    // Only the Trader Joe source's pair has a quoted fee rate to weigh a move against
+    const joePosition = summary.sourcePositions.find(position => position.sourceId === TraderJoeYieldSource.ID);
+    for (const position of summary.liquidityPositions) {
+      const tracked = !!joePosition && !!depositPair &&
+        position.pairAddress.toLowerCase() === depositPair.pairAddress.toLowerCase();
+      holdings.push({
+        key: `lp:${position.pairAddress.toLowerCase()}`,
+        venue: 'lp',
+        protocol: TraderJoeYieldSource.PROTOCOL,
+        address: position.pairAddress,
+        symbol: `${position.symbol0}/${position.symbol1}`,
+        valueUSD: position.valueUSD,
+        aprPercent: tracked ? joePosition!.aprPercent : 0,
+        priceUSD: null,
+        decimals: 18,
+        viaSubnet: false,
+        keepReason: tracked ? null : 'LP fee yield is not tracked',
+      });
+    }
+
+    // Sources not already itemized above, keyed by market like their allocation targets
+    for (const position of summary.sourcePositions.filter(entry => !entry.itemized)) {
+      const priceUSD = summary.positions.find(entry =>
+        entry.tokenAddress.toLowerCase() === position.tokenAddress.toLowerCase()
+      )?.priceUSD;
+      holdings.push({
+        key: `source:${position.marketId}`,
+        venue: 'source',
+        protocol: position.protocol,
+        address: position.tokenAddress,
+        symbol: position.symbol,
+        valueUSD: position.valueUSD,
+        aprPercent: position.aprPercent,
+        priceUSD: priceUSD || null,
+        decimals: getTokenInfo(position.tokenAddress)?.decimals ?? 18,
+        viaSubnet: false,
+        keepReason: position.valueUSD > 0 ? null : 'No price',
+      });
+    }
+
+    return holdings;
+  }
+
+  // Allocation shares applied to the movable portfolio value, one target per venue the registered source
+  // deposits into; Aave and SubnetYield Core both hold funds in Aave
+  static targetsFromAllocations(
+    allocations: Allocation<YieldOpportunity>[],
+    portfolioValueUSD: number,
+    summary: PortfolioSummary,
+    depositPair: DepositPair | null = null
+  ): RebalancePosition[] {
+    const targets = new Map<string, RebalancePosition>();
+
+    for (const allocation of allocations) {
+      const { opportunity } = allocation;
+      const valueUSD = (allocation.sharePercent / 100) * portfolioValueUSD;
+      const priceUSD = summary.positions.find(position =>
+        position.tokenAddress.toLowerCase() === opportunity.tokenAddress.toLowerCase()
+      )?.priceUSD;
+      const definition = findYieldSourceDefinition(opportunity.protocol);
+
+      const target: RebalancePosition = {
+        key: `source:${opportunity.id}`,
+        venue: 'source',
+        protocol: opportunity.protocol,
+        address: opportunity.tokenAddress,
+        symbol: opportunity.tokenSymbol,
+        valueUSD,
+        aprPercent: allocation.apyPercent,
+        priceUSD: priceUSD || null,
+        decimals: getTokenInfo(opportunity.tokenAddress)?.decimals ?? 18,
+        viaSubnet: false,
+        keepReason: definition ? null : `No ${opportunity.protocol} yield source is registered`,
+      };
+
+      if (definition?.id === AaveYieldSource.ID) {
+        Object.assign(target, {
+          key: `aave:${opportunity.tokenAddress.toLowerCase()}`,
+          venue: 'aave',
+          protocol: AaveYieldSource.PROTOCOL,
+          viaSubnet: opportunity.protocol === AaveYieldSource.OPTIMIZED_PROTOCOL,
+        });
+      } else if (definition?.id === TraderJoeYieldSource.ID) {
+        if (depositPair) {
+          Object.assign(target, {
+            key: `lp:${depositPair.pairAddress.toLowerCase()}`,
+            venue: 'lp',
+            address: depositPair.pairAddress,
+            symbol: depositPair.wavaxIsToken0
+              ? `${opportunity.tokenSymbol}/${depositPair.pairedSymbol}`
+              : `${depositPair.pairedSymbol}/${opportunity.tokenSymbol}`,
+            priceUSD: null,
+            decimals: 18,
+          });
+        } else {
+          target.keepReason = 'Trader Joe pair could not be read';
+        }
+      }
+
+      const existing = targets.get(target.key);
+      targets.set(target.key, existing
+        ? {
+          ...existing,
+          valueUSD: existing.valueUSD + valueUSD,
+          // Value-weighted when several allocations target the same position
+          aprPercent: (existing.aprPercent * existing.valueUSD + target.aprPercent * valueUSD) / (existing.valueUSD + valueUSD),
+          viaSubnet: existing.viaSubnet || target.viaSubnet,
+        }
+        : target);
+    }
+
+    return [...targets.values()];
+  }
+}
+
+export default RebalancePlannerService;
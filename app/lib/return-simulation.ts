@@ -0,0 +1,238 @@
+import { ReadProvider } from './providers';
+import { getYieldHistory } from './yield-history';
+import { OptimizationResult, YieldOpportunity } from './yield-optimizer-service';
+import { isStablecoin } from './allocation-engine';
+import { growthFactor } from './yield-math';
+import { bpsToPercent } from './units';
+import { AaveYieldSource } from './aave-yield-source';
+
+// Monte Carlo settings
+export const SIMULATION_CONFIG = {
+  PATHS: 2000,
+  // Long horizons are simulated in coarser steps
+  MAX_STEPS: 120,
+  // Daily history used to estimate how rates move
+  HISTORY_DAYS: 90,
+  MIN_HISTORY_CHANGES: 14,
+  // Rate model when history is too short: no trend, log APR moves ~50% a year
+  DEFAULT_RATE_MODEL: { drift: 0, volatility: 0.5 },
+  // A few weeks of history can show any trend; keep it from dominating a year-long projection
+  MAX_DRIFT: 0.5,
+  // Annualized price volatility of non-stable tokens, by symbol
+  PRICE_VOLATILITY: {
+    WAVAX: 0.75,
+    AVAX: 0.75,
+    WETH: 0.6,
+    'WETH.E': 0.6,
+    LINK: 0.85,
+  } as Record<string, number>,
+  DEFAULT_PRICE_VOLATILITY: 0.9,
+  SEED: 0x5eed,
+};
+
+const DAYS_PER_YEAR = 365;
+
+// How an opportunity's APR moves: geometric drift and volatility of the APR itself, annualized
+export interface RateModel {
+  drift: number;
+  volatility: number;
+  source: 'history' | 'default';
+}
+
+export interface SimulatedPosition {
+  id: string;
+  token: string; // Positions in the same token share price moves
+  amountUSD: number;
+  aprPercent: number;
+  rate: RateModel;
+  priceVolatility: number; // Annualized, zero for stablecoins
+  costUSD: number; // Gas, message fees and swap costs over the horizon
+}
+
+export interface Percentiles {
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface ReturnDistribution {
+  paths: number;
+  horizonDays: number;
+  investmentUSD: number;
+  returnUSD: Percentiles;
+  returnPercent: Percentiles;
+  endingValueUSD: Percentiles;
+  probabilityOfLoss: number; // 0-1
+}
+
+export interface SimulationOptions {
+  paths?: number;
+  seed?: number;
+}
+
+// Deterministic uniform generator (mulberry32), so a recommendation always shows the same bands
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draws from Box-Muller
+const createNormal = (random: () => number): (() => number) => () => {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+const percentiles = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p5: percentile(sorted, 0.05), p50: percentile(sorted, 0.5), p95: percentile(sorted, 0.95) };
+};
+
+// Drift and volatility of daily log changes of an APR series (percent), annualized
+export const estimateRateModel = (dailyAPR: number[]): RateModel => {
+  const changes: number[] = [];
+  for (let i = 1; i < dailyAPR.length; i++) {
+    if (dailyAPR[i - 1] > 0 && dailyAPR[i] > 0) {
+      changes.push(Math.log(dailyAPR[i] / dailyAPR[i - 1]));
+    }
+  }
+  if (changes.length < SIMULATION_CONFIG.MIN_HISTORY_CHANGES) {
+    return { ...SIMULATION_CONFIG.DEFAULT_RATE_MODEL, source: 'default' };
+  }
+
+  const mean = changes.reduce((sum, change) => sum + change, 0) / changes.length;
+  const variance = changes.reduce((sum, change) => sum + (change - mean) ** 2, 0) / (changes.length - 1);
+  const volatility = Math.sqrt(variance * DAYS_PER_YEAR);
+  // Log drift back to the drift of the APR itself
+  const drift = mean * DAYS_PER_YEAR + (volatility * volatility) / 2;
+
+  return {
+    drift: Math.max(-SIMULATION_CONFIG.MAX_DRIFT, Math.min(SIMULATION_CONFIG.MAX_DRIFT, drift)),
+    volatility,
+    source: 'history',
+  };
+};
+
+// Annualized price volatility for a token symbol; stablecoins are treated as fixed at $1
+export const priceVolatilityOf = (symbol: string): number => {
+  if (isStablecoin(symbol)) return 0;
+  return SIMULATION_CONFIG.PRICE_VOLATILITY[symbol.toUpperCase()] ?? SIMULATION_CONFIG.DEFAULT_PRICE_VOLATILITY;
+};
+
+// Simulate ending values of the positions; money not in a position stays as cash
+export function simulateReturns(
+  positions: SimulatedPosition[],
+  investmentUSD: number,
+  horizonDays: number,
+  options: SimulationOptions = {}
+): ReturnDistribution {
+  const paths = options.paths ?? SIMULATION_CONFIG.PATHS;
+  const normal = createNormal(createRandom(options.seed ?? SIMULATION_CONFIG.SEED));
+  const steps = Math.max(1, Math.min(Math.ceil(horizonDays), SIMULATION_CONFIG.MAX_STEPS));
+  const stepDays = horizonDays / steps;
+  const stepYears = stepDays / DAYS_PER_YEAR;
+  const priceVolatility = new Map(positions.map(position => [position.token.toLowerCase(), position.priceVolatility]));
+  const cashUSD = investmentUSD - positions.reduce((sum, position) => sum + position.amountUSD, 0);
+  const costUSD = positions.reduce((sum, position) => sum + position.costUSD, 0);
+
+  const endingValues: number[] = [];
+  for (let path = 0; path < paths; path++) {
+    const growth = positions.map(() => 1);
+    const aprs = positions.map(position => position.aprPercent);
+    const logPrices = new Map([...priceVolatility.keys()].map(token => [token, 0]));
+
+    for (let step = 0; step < steps; step++) {
+      positions.forEach((position, i) => {
+        growth[i] *= growthFactor(aprs[i] / 100, stepDays);
+        const { drift, volatility } = position.rate;
+        aprs[i] *= Math.exp((drift - (volatility * volatility) / 2) * stepYears + volatility * Math.sqrt(stepYears) * normal());
+      });
+      // One shock per token, so positions in the same token move together; no price drift
+      priceVolatility.forEach((sigma, token) => {
+        const shock = -(sigma * sigma / 2) * stepYears + sigma * Math.sqrt(stepYears) * normal();
+        logPrices.set(token, logPrices.get(token)! + shock);
+      });
+    }
+
+    const invested = positions.reduce((sum, position, i) =>
+      sum + position.amountUSD * growth[i] * Math.exp(logPrices.get(position.token.toLowerCase())!), 0);
+    endingValues.push(cashUSD + invested - costUSD);
+  }
+
+  const returns = endingValues.map(value => value - investmentUSD);
+  return {
+    paths,
+    horizonDays,
+    investmentUSD,
+    returnUSD: percentiles(returns),
+    returnPercent: percentiles(returns.map(value => (investmentUSD > 0 ? (value / investmentUSD) * 100 : 0))),
+    endingValueUSD: percentiles(endingValues),
+    probabilityOfLoss: paths > 0 ? returns.filter(value => value < 0).length / paths : 0,
+  };
+}
+
+export class ReturnSimulationService {
+  private provider: ReadProvider | null = null;
+
+  constructor(provider?: ReadProvider) {
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.provider = provider;
+  }
+
+  // Outcome bands for an optimizer recommendation over its time horizon
+  async simulateResult(
+    result: OptimizationResult,
+    horizonDays: number,
+    options: SimulationOptions = {}
+  ): Promise<ReturnDistribution> {
+    const positions = await Promise.all(result.allocations.map(async allocation => ({
+      id: allocation.opportunity.id,
+      token: allocation.opportunity.tokenAddress,
+      amountUSD: allocation.amount,
+      aprPercent: bpsToPercent(allocation.opportunity.rawAPY),
+      rate: await this.getRateModel(allocation.opportunity),
+      priceVolatility: priceVolatilityOf(allocation.opportunity.tokenSymbol),
+      costUSD: allocation.estimate.costUSD,
+    })));
+
+    return simulateReturns(positions, result.allocatedAmount + result.unallocatedAmount, horizonDays, options);
+  }
+
+  // Rate model from the recorded YieldHub history; SubnetYield Core follows the optimized rate.
+  // Other sources have no recorded history and get the default model
+  async getRateModel(opportunity: YieldOpportunity): Promise<RateModel> {
+    const optimized = opportunity.protocol === AaveYieldSource.OPTIMIZED_PROTOCOL;
+    if (!this.provider || (!optimized && opportunity.protocol !== AaveYieldSource.PROTOCOL)) {
+      return { ...SIMULATION_CONFIG.DEFAULT_RATE_MODEL, source: 'default' };
+    }
+
+    try {
+      const series = await getYieldHistory(this.provider)
+        .getDailySeries(opportunity.tokenAddress, SIMULATION_CONFIG.HISTORY_DAYS);
+      return estimateRateModel(series.map(point => bpsToPercent(optimized ? point.optimizedAPY : point.aaveAPY)));
+    } catch (error) {
+      console.warn('Could not read yield history for simulation:', error);
+      return { ...SIMULATION_CONFIG.DEFAULT_RATE_MODEL, source: 'default' };
+    }
+  }
+}
+
+export default ReturnSimulationService;
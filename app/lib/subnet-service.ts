@@ -1,5 +1,10 @@
-import { ethers, Contract, BrowserProvider } from 'ethers';
+import { ethers, Contract } from 'ethers';
 import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider, getSigner } from './providers';
+import { loadTokenRegistry, getTokenInfo } from './token-registry';
+import { formatBps, formatTokenValue } from './units';
+import { getYieldHubEvents, isRefreshBlock } from './yieldhub-events';
+import { getAllQuotes } from './yield-source';
 
 // Subnet data types
 export interface SubnetYieldData {
@@ -24,7 +29,7 @@ export interface SubnetRequestStatus {
   requestId: string;
   tokenAddress: string;
   timestamp: number;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'timeout'; // Timeout: no answer before tracking stopped
   response?: {
     apyBps: bigint;
     tvl: bigint;
@@ -37,6 +42,7 @@ export interface CrossChainYieldComparison {
   tokenAddress: string;
   tokenSymbol: string;
   cChainAPY: number;
+  cChainProtocol: string; // Registered source offering cChainAPY
   subnetAPY: number;
   optimizedAPY: number;
   yieldDifference: number;
@@ -45,7 +51,7 @@ export interface CrossChainYieldComparison {
 }
 
 // Subnet configuration
-const SUBNET_CONFIG = {
+export const SUBNET_CONFIG = {
   // YieldScout contract address from deployment
   YIELD_SCOUT_ADDRESS: '0x19899f97bE6d982C14089e7608AC8e8208FbA0d5',
   // Mock protocol address
@@ -54,29 +60,34 @@ const SUBNET_CONFIG = {
   TELEPORTER_MESSENGER: '0x253b2784c75e510dD0fF1da844684a1aC0aa5fcf',
   // Destination chain ID for AWM (this would be the subnet chain ID)
   DEST_CHAIN_ID: '0x9f3be606497285d0ffbb5ac9ba24aa60346a9b1812479ed66cb329f394a4b1c7', // Example subnet chain ID
-  // Supported tokens (from YieldHub contract)
-  SUPPORTED_TOKENS: [
-    '0xd00ae08403B9bbb9124bB305C09058E32C39A48c', // WAVAX
-    '0x28A8E6e41F84e62284970E4bc0867cEe2AAd0DA4', // WETH
-    '0x407287b03D1167593AF113d32093942be13A535f', // USDT
-    '0xD90db1ca5A6e9873BCD9B0279AE038272b656728', // USDC.e
-    '0x3E937B4881CBd500d05EeDAB7BA203f2b7B3f74f', // DAI
-    '0xFc7215C9498Fc12b22Bc0ed335871Db4315f03d3'  // LINK
-  ]
+  // AVAX sent with each request to pay the Teleporter relayer (YieldHub rejects zero)
+  TELEPORTER_FEE: '0.01',
+  // Blocks between getRequestStatus checks while waiting for a SubnetResponse
+  REQUEST_POLL_BLOCKS: 8,
+  // Stop tracking a request that has not completed after this long
+  REQUEST_TIMEOUT: 10 * 60 * 1000,
 };
 
+// DataTypes.RequestStatus enum order in YieldHub
+const REQUEST_STATUS: Array<SubnetRequestStatus['status']> = ['pending', 'completed', 'failed', 'failed'];
+
+export type RequestUpdateCallback = (request: SubnetRequestStatus) => void;
+
 export class SubnetService {
-  private provider: BrowserProvider | null = null;
+  private provider: ReadProvider | null = null;
   private yieldHubContract: Contract | null = null;
   private pendingRequests: Map<string, SubnetRequestStatus> = new Map();
+  private requestTrackers: Map<string, () => void> = new Map();
+  private teleporterFee: bigint = ethers.parseEther(SUBNET_CONFIG.TELEPORTER_FEE);
 
-  constructor(provider?: BrowserProvider) {
+  constructor(provider?: ReadProvider) {
     if (provider) {
       this.setProvider(provider);
     }
   }
 
-  setProvider(provider: BrowserProvider) {
+  setProvider(provider: ReadProvider) {
+    this.stopTracking();
     this.provider = provider;
     if (CONTRACT_CONFIG.YIELD_HUB_ADDRESS) {
       this.yieldHubContract = new Contract(
@@ -87,34 +98,49 @@ export class SubnetService {
     }
   }
 
+  // Teleporter fee sent with each request, in wei
+  getTeleporterFee(): bigint {
+    return this.teleporterFee;
+  }
+
+  setTeleporterFee(feeWei: bigint) {
+    if (feeWei <= BigInt(0)) {
+      throw new Error('Teleporter fee must be greater than zero');
+    }
+    this.teleporterFee = feeWei;
+  }
+
   // Request subnet yield data via AWM
-  async requestSubnetYield(tokenAddress: string): Promise<string | null> {
+  async requestSubnetYield(
+    tokenAddress: string,
+    onUpdate?: RequestUpdateCallback
+  ): Promise<string | null> {
     if (!this.yieldHubContract || !this.provider) {
       throw new Error('Contract not initialized');
     }
 
     try {
-      // For now, simulate the AWM request since the contract method isn't deployed yet
-      console.log('Simulating AWM request for token:', tokenAddress);
-      
-      const requestId = ethers.keccak256(ethers.toUtf8Bytes(tokenAddress + Date.now()));
-      
-      // Track the simulated request
+      const signer = await getSigner(this.provider);
+      const contractWithSigner = this.yieldHubContract.connect(signer) as Contract;
+
+      const tx = await contractWithSigner.requestSubnetYield(tokenAddress, {
+        value: this.teleporterFee,
+      });
+      console.log('AWM request transaction sent:', tx.hash);
+      const receipt = await tx.wait();
+
+      const requestId = this.extractRequestIdFromReceipt(receipt);
+      if (!requestId) {
+        throw new Error('SubnetRequest event not found in transaction receipt');
+      }
+
       this.pendingRequests.set(requestId, {
         requestId,
         tokenAddress,
         timestamp: Date.now(),
         status: 'pending'
       });
-
-      // Simulate processing delay
-      setTimeout(() => {
-        const request = this.pendingRequests.get(requestId);
-        if (request) {
-          request.status = 'completed';
-          this.pendingRequests.set(requestId, request);
-        }
-      }, 5000);
+      this.trackRequest(requestId, onUpdate);
 
       return requestId;
     } catch (error: any) {
@@ -123,6 +149,92 @@ export class SubnetService {
     }
   }
 
+  // Read a request's status from YieldHub and update the local copy
+  async refreshRequestStatus(requestId: string): Promise<SubnetRequestStatus | null> {
+    if (!this.yieldHubContract) return null;
+
+    try {
+      const info = await this.yieldHubContract.getRequestStatus(requestId);
+      if (info.timestamp === BigInt(0)) return null;
+
+      const existing = this.pendingRequests.get(requestId);
+      const request: SubnetRequestStatus = {
+        ...existing,
+        requestId,
+        tokenAddress: info.token,
+        timestamp: existing?.timestamp ?? Number(info.timestamp) * 1000,
+        status: REQUEST_STATUS[Number(info.status)] ?? 'failed',
+      };
+      this.pendingRequests.set(requestId, request);
+      return request;
+    } catch (error) {
+      console.warn(`Could not read status for request ${requestId}:`, error);
+      return this.pendingRequests.get(requestId) || null;
+    }
+  }
+
+  // Wait for the SubnetResponse event, checking getRequestStatus in case the event is missed
+  private trackRequest(requestId: string, onUpdate?: RequestUpdateCallback) {
+    if (!this.provider) return;
+
+    const finish = (request: SubnetRequestStatus) => {
+      this.stopTracking(requestId);
+      onUpdate?.(request);
+    };
+
+    const unsubscribe = getYieldHubEvents(this.provider).subscribe(async event => {
+      if (event.type === 'SubnetResponse' && event.requestId === requestId) {
+        const request: SubnetRequestStatus = {
+          requestId,
+          tokenAddress: event.token,
+          timestamp: this.pendingRequests.get(requestId)?.timestamp ?? Date.now(),
+          status: 'completed',
+          response: {
+            apyBps: event.apyBps,
+            tvl: event.tvl,
+            protocol: this.decodeProtocolName(event.protocol),
+            timestamp: event.timestamp,
+          },
+        };
+        this.pendingRequests.set(requestId, request);
+        finish(request);
+      } else if (isRefreshBlock(event, SUBNET_CONFIG.REQUEST_POLL_BLOCKS)) {
+        const request = await this.refreshRequestStatus(requestId);
+        if (request && request.status !== 'pending' && this.requestTrackers.has(requestId)) {
+          finish(request);
+        }
+      }
+    });
+
+    // Report the timeout so callers waiting on the request can stop
+    const timeoutTimer = setTimeout(() => {
+      console.warn(`Stopped tracking request ${requestId}: no response after timeout`);
+      const pending = this.pendingRequests.get(requestId);
+      const request: SubnetRequestStatus = {
+        requestId,
+        tokenAddress: pending?.tokenAddress ?? '',
+        timestamp: pending?.timestamp ?? Date.now(),
+        status: 'timeout',
+      };
+      this.pendingRequests.set(requestId, request);
+      finish(request);
+    }, SUBNET_CONFIG.REQUEST_TIMEOUT);
+
+    this.requestTrackers.set(requestId, () => {
+      unsubscribe();
+      clearTimeout(timeoutTimer);
+    });
+  }
+
+  // Stop tracking one request, or all of them
+  stopTracking(requestId?: string) {
+    const ids = requestId ? [requestId] : Array.from(this.requestTrackers.keys());
+    ids.forEach(id => {
+      this.requestTrackers.get(id)?.();
+      this.requestTrackers.delete(id);
+    });
+  }
+
   // Get comprehensive yield data including subnet data
   async getComprehensiveYieldData(tokenAddress: string): Promise<SubnetYieldData | null> {
     if (!this.yieldHubContract) return null;
@@ -146,14 +258,14 @@ export class SubnetService {
       }
       
       // Get token info
-      const tokenInfo = this.getTokenInfo(tokenAddress);
+      const tokenInfo = getTokenInfo(tokenAddress);
       
       // For now, simulate subnet data since AWM integration is not fully deployed
       const simulatedSubnetData = await this.getSimulatedSubnetData(tokenAddress);
       
       return {
         tokenAddress,
-        tokenSymbol: tokenInfo.symbol,
+        tokenSymbol: tokenInfo?.symbol || 'UNKNOWN',
         subnetAPY: simulatedSubnetData.subnetAPY,
         subnetAPYFormatted: simulatedSubnetData.subnetAPYFormatted,
         aaveAPY: apyBps,
@@ -179,7 +291,8 @@ export class SubnetService {
     const yieldData = await this.getComprehensiveYieldData(tokenAddress);
     if (!yieldData) return null;
 
-    const cChainAPY = Number(yieldData.aaveAPY) / 100;
+    const cChain = await this.getBestCChainQuote(tokenAddress);
+    const cChainAPY = cChain ? Number(cChain.aprBps) / 100 : Number(yieldData.aaveAPY) / 100;
     const subnetAPY = Number(yieldData.subnetAPY) / 100;
     const optimizedAPY = Number(yieldData.optimizedAPY) / 100;
 
@@ -198,6 +311,7 @@ export class SubnetService {
       tokenAddress,
       tokenSymbol: yieldData.tokenSymbol,
       cChainAPY,
+      cChainProtocol: cChain?.market.protocol ?? 'Aave V3',
       subnetAPY,
       optimizedAPY,
       yieldDifference,
@@ -206,11 +320,24 @@ export class SubnetService {
     };
   }
 
+  // Highest-rate single-chain market for the token across the registered yield sources
+  private async getBestCChainQuote(tokenAddress: string) {
+    if (!this.provider) return null;
+    const quotes = (await getAllQuotes(this.provider)).filter(quote =>
+      !quote.risk.crossChain && quote.market.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+    );
+    return quotes.reduce<typeof quotes[number] | null>((best, quote) =>
+      !best || quote.aprBps > best.aprBps ? quote : best, null);
+  }
+
   // Get all supported tokens yield data
   async getAllYieldData(): Promise<SubnetYieldData[]> {
     const results: SubnetYieldData[] = [];
+    const supportedTokens = this.provider
+      ? (await loadTokenRegistry(this.provider)).map(token => token.address)
+      : [];
     
-    for (const tokenAddress of SUBNET_CONFIG.SUPPORTED_TOKENS) {
+    for (const tokenAddress of supportedTokens) {
       try {
         const yieldData = await this.getComprehensiveYieldData(tokenAddress);
         if (yieldData) {
@@ -236,7 +363,7 @@ export class SubnetService {
 
   // Simulate subnet data for demo purposes (fallback when AWM is not working)
   async getSimulatedSubnetData(tokenAddress: string): Promise<SubnetYieldData> {
-    const tokenInfo = this.getTokenInfo(tokenAddress);
+    const tokenInfo = getTokenInfo(tokenAddress);
     
     // Simulate higher APY on subnet
     const baseAPY = 500 + Math.floor(Math.random() * 800); // 5-13% APY
@@ -252,7 +379,7 @@ export class SubnetService {
 
     return {
       tokenAddress,
-      tokenSymbol: tokenInfo.symbol,
+      tokenSymbol: tokenInfo?.symbol || 'UNKNOWN',
       subnetAPY,
       subnetAPYFormatted: this.formatAPY(subnetAPY),
       aaveAPY,
@@ -302,23 +429,21 @@ export class SubnetService {
   }
 
   // Utility functions
-  private extractRequestIdFromReceipt(receipt: any): string | null {
-    try {
-      // Look for SubnetRequest event
-      const event = receipt.logs.find((log: any) => 
-        log.topics && log.topics[0] && log.topics[0].includes('SubnetRequest')
-      );
-      
-      if (event && event.topics[1]) {
-        return event.topics[1]; // Request ID is typically the first indexed parameter
+  private extractRequestIdFromReceipt(receipt: ethers.TransactionReceipt | null): string | null {
+    if (!receipt || !this.yieldHubContract) return null;
+
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== CONTRACT_CONFIG.YIELD_HUB_ADDRESS.toLowerCase()) continue;
+      try {
+        const parsed = this.yieldHubContract.interface.parseLog(log);
+        if (parsed?.name === 'SubnetRequest') {
+          return parsed.args.requestId;
+        }
+      } catch {
+        // Not a YieldHub event we know about
       }
-      
-      // Fallback: generate request ID from transaction hash
-      return ethers.keccak256(ethers.toUtf8Bytes(receipt.hash + Date.now()));
-    } catch (error) {
-      console.warn('Could not extract request ID:', error);
-      return null;
     }
+    return null;
   }
 
   private isDataFresh(timestamp: number): boolean {
@@ -326,19 +451,6 @@ export class SubnetService {
     return Date.now() - timestamp < FRESHNESS_THRESHOLD;
   }
 
-  private getTokenInfo(tokenAddress: string): { symbol: string; name: string } {
-    const tokenMap: Record<string, { symbol: string; name: string }> = {
-      '0xd00ae08403B9bbb9124bB305C09058E32C39A48c': { symbol: 'WAVAX', name: 'Wrapped AVAX' },
-      '0x28A8E6e41F84e62284970E4bc0867cEe2AAd0DA4': { symbol: 'WETH', name: 'Wrapped Ether' },
-      '0x407287b03D1167593AF113d32093942be13A535f': { symbol: 'USDT', name: 'Tether USD' },
-      '0xD90db1ca5A6e9873BCD9B0279AE038272b656728': { symbol: 'USDC.e', name: 'Bridged USDC' },
-      '0x3E937B4881CBd500d05EeDAB7BA203f2b7B3f74f': { symbol: 'DAI', name: 'Dai Stablecoin' },
-      '0xFc7215C9498Fc12b22Bc0ed335871Db4315f03d3': { symbol: 'LINK', name: 'Chainlink Token' },
-    };
-    
-    return tokenMap[tokenAddress] || { symbol: 'UNKNOWN', name: 'Unknown Token' };
-  }
-
   private decodeProtocolName(protocolBytes: string): string {
     try {
       return ethers.decodeBytes32String(protocolBytes);
@@ -357,28 +469,21 @@ export class SubnetService {
   }
 
   private formatAPY(apyBps: bigint): string {
-    return `${(Number(apyBps) / 100).toFixed(2)}%`;
+    return SubnetService.formatAPY(apyBps);
   }
 
-  private formatTVL(tvl: bigint): string {
-    const tvlNum = Number(tvl) / 1e18;
-    if (tvlNum >= 1e9) return `$${(tvlNum / 1e9).toFixed(2)}B`;
-    if (tvlNum >= 1e6) return `$${(tvlNum / 1e6).toFixed(2)}M`;
-    if (tvlNum >= 1e3) return `$${(tvlNum / 1e3).toFixed(2)}K`;
-    return `$${tvlNum.toFixed(2)}`;
+  private formatTVL(tvl: bigint, decimals: number = 18): string {
+    return SubnetService.formatTVL(tvl, decimals);
   }
 
   // Static utility functions
   static formatAPY(apyBps: bigint): string {
-    return `${(Number(apyBps) / 100).toFixed(2)}%`;
+    return formatBps(apyBps);
   }
 
-  static formatTVL(tvl: bigint): string {
-    const tvlNum = Number(tvl) / 1e18;
-    if (tvlNum >= 1e9) return `$${(tvlNum / 1e9).toFixed(2)}B`;
-    if (tvlNum >= 1e6) return `$${(tvlNum / 1e6).toFixed(2)}M`;
-    if (tvlNum >= 1e3) return `$${(tvlNum / 1e3).toFixed(2)}K`;
-    return `$${tvlNum.toFixed(2)}`;
+  // TVL in token units; pass a price to show it in USD
+  static formatTVL(tvl: bigint, decimals: number = 18, priceUSD?: number): string {
+    return formatTokenValue(tvl, decimals, priceUSD);
   }
 
   static getRecommendationColor(recommendation: string): string {
@@ -0,0 +1,545 @@
+import { ethers, Contract, Interface } from 'ethers';
+import { ReadProvider, getSigner } from './providers';
+import { multicall, MulticallRequest } from './multicall';
+import { loadTokenRegistry } from './token-registry';
+import UniswapDepositService, { UNISWAP_V2_CONFIG, DepositResult, PoolState } from './uniswap-service';
+
+// Swap routing on the Trader Joe router
+export const SWAP_CONFIG = {
+  // Most pools a route may cross
+  MAX_HOPS: 3,
+  // Swap deadline, in seconds from submission
+  DEADLINE_SECONDS: 1200,
+};
+
+// Trader Joe router ABI (quotes and exact-input swaps)
+const JOE_ROUTER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"}
+    ],
+    "name": "getAmountsOut",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "swapExactTokensForTokens",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "swapExactAVAXForTokens",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "payable",
+    "type": "function"
+  }
+];
+
+// ERC20 ABI for allowances, balances and metadata
+const ERC20_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "spender", "type": "address"}, {"internalType": "uint256", "name": "amount", "type": "uint256"}],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "owner", "type": "address"}, {"internalType": "address", "name": "spender", "type": "address"}],
+    "name": "allowance",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "account", "type": "address"}],
+    "name": "balanceOf",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [{"internalType": "uint8", "name": "", "type": "uint8"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [{"internalType": "string", "name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "from", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"}
+    ],
+    "name": "Transfer",
+    "type": "event"
+  }
+];
+
+const routerInterface = new Interface(JOE_ROUTER_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+const ZERO = BigInt(0);
+
+// A token that can be swapped; native AVAX is listed under the WAVAX address
+export interface SwapToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  native: boolean;
+}
+
+// Best route found for an exact-input swap
+export interface SwapQuote {
+  tokenIn: string;
+  tokenOut: string;
+  nativeIn: boolean; // Pay with AVAX, wrapped by the router
+  path: string[];
+  amounts: bigint[]; // Amount at every step of the path, from getAmountsOut
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface SwapResult {
+  success: boolean;
+  transactionHash?: string;
+  amountOut?: bigint; // Amount received, from the output token's Transfer events
+  error?: string;
+}
+
+// Swaps and deposit for turning one token into WAVAX/USDC liquidity
+export interface ZapQuote {
+  tokenIn: string;
+  amountIn: bigint;
+  pairAddress: string;
+  pairedToken: string;
+  swaps: SwapQuote[]; // Half into the other pair token, or half into each when tokenIn is outside the pair
+  amountWAVAX: bigint; // Amounts offered to the pool after the swaps
+  amountPaired: bigint;
+  depositWAVAX: bigint; // Amounts the pool takes at its post-swap ratio
+  depositPaired: bigint;
+  expectedLPTokens: bigint;
+}
+
+export type ZapStep = 'approve-swap' | 'swap' | 'approve-deposit' | 'deposit';
+export type ZapStepCallback = (step: ZapStep) => void;
+
+export interface ZapResult extends DepositResult {
+  swapTransactions: string[];
+  failedStep?: ZapStep;
+}
+
+export class SwapService {
+  private provider: ReadProvider | null = null;
+  private routerContract: Contract | null = null;
+  private depositService: UniswapDepositService | null = null;
+  private swapTokens: Promise<SwapToken[]> | null = null;
+
+  constructor(provider?: ReadProvider) {
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.provider = provider;
+    this.routerContract = new Contract(UNISWAP_V2_CONFIG.ROUTER_ADDRESS, JOE_ROUTER_ABI, provider);
+    this.depositService = new UniswapDepositService(provider);
+    this.swapTokens = null;
+  }
+
+  // AVAX, WAVAX, USDC and the YieldHub tokens, loaded once per provider
+  getSwapTokens(): Promise<SwapToken[]> {
+    if (!this.provider) {
+      return Promise.reject(new Error('Service not initialized'));
+    }
+    if (!this.swapTokens) {
+      const provider = this.provider;
+      const configured = [UNISWAP_V2_CONFIG.WAVAX_ADDRESS, UNISWAP_V2_CONFIG.USDC_ADDRESS];
+
+      this.swapTokens = loadTokenRegistry(provider).then(async registered => {
+        const known = new Set(registered.map(token => token.address.toLowerCase()));
+        const missing = configured.filter(address => !known.has(address.toLowerCase()));
+        const results = await multicall(provider, missing.flatMap(address => [
+          { target: address, iface: erc20Interface, method: 'symbol', args: [] },
+          { target: address, iface: erc20Interface, method: 'decimals', args: [] },
+        ]));
+
+        const tokens: SwapToken[] = [
+          ...missing.map((address, i) => {
+            const [symbol, decimals] = results.slice(i * 2, i * 2 + 2);
+            return {
+              address,
+              symbol: symbol.success ? symbol.result : 'UNKNOWN',
+              decimals: decimals.success ? Number(decimals.result) : 18,
+              native: false,
+            };
+          }),
+          ...registered.map(token => ({
+            address: token.address,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            native: false,
+          })),
+        ];
+        return [
+          { address: UNISWAP_V2_CONFIG.WAVAX_ADDRESS, symbol: 'AVAX', decimals: 18, native: true },
+          ...tokens,
+        ];
+      });
+      // Allow a retry if the lookup failed
+      this.swapTokens.catch(() => {
+        this.swapTokens = null;
+      });
+    }
+    return this.swapTokens;
+  }
+
+  // User's balance of a swap token (AVAX from the account itself)
+  async getBalance(userAddress: string, token: SwapToken): Promise<bigint> {
+    if (!this.provider) {
+      throw new Error('Service not initialized');
+    }
+    if (token.native) {
+      return this.provider.getBalance(userAddress);
+    }
+    return new Contract(token.address, ERC20_ABI, this.provider).balanceOf(userAddress);
+  }
+
+  // Quote every route of up to MAX_HOPS pools through the swap tokens in one multicall and keep the best
+  async getSwapQuote(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    nativeIn: boolean = false
+  ): Promise<SwapQuote> {
+    if (!this.provider) {
+      throw new Error('Service not initialized');
+    }
+    if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+      throw new Error('Choose two different tokens');
+    }
+
+    const tokens = await this.getSwapTokens();
+    const paths = SwapService.candidatePaths(
+      tokenIn,
+      tokenOut,
+      tokens.filter(token => !token.native).map(token => token.address),
+      SWAP_CONFIG.MAX_HOPS
+    );
+    const requests: MulticallRequest[] = paths.map(path => ({
+      target: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+      iface: routerInterface,
+      method: 'getAmountsOut',
+      args: [amountIn, path],
+    }));
+    const results = await multicall(this.provider, requests);
+
+    const best = SwapService.bestRoute(paths, results.map(result =>
+      // Routes through a missing or empty pair revert
+      result.success ? Array.from(result.result as bigint[]) : null
+    ));
+    if (!best) {
+      throw new Error('No route with liquidity between these tokens');
+    }
+
+    return {
+      tokenIn,
+      tokenOut,
+      nativeIn,
+      path: best.path,
+      amounts: best.amounts,
+      amountIn,
+      amountOut: best.amounts[best.amounts.length - 1],
+    };
+  }
+
+  // Execute a quoted swap, accepting no less than the quote minus `slippageTolerance` percent
+  async swap(
+    quote: SwapQuote,
+    slippageTolerance: number = 1,
+    onApproving?: () => void
+  ): Promise<SwapResult> {
+    if (!this.routerContract || !this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    try {
+      const signer = await getSigner(this.provider);
+      const user = await signer.getAddress();
+      const router = this.routerContract.connect(signer) as Contract;
+      const minOut = UniswapDepositService.applySlippage(quote.amountOut, BigInt(Math.round(slippageTolerance * 100)));
+      const deadline = Math.floor(Date.now() / 1000) + SWAP_CONFIG.DEADLINE_SECONDS;
+
+      let tx: ethers.ContractTransactionResponse;
+      if (quote.nativeIn) {
+        tx = await router.swapExactAVAXForTokens(minOut, quote.path, user, deadline, { value: quote.amountIn });
+      } else {
+        await this.ensureAllowance(signer, quote.tokenIn, quote.amountIn, onApproving);
+        tx = await router.swapExactTokensForTokens(quote.amountIn, minOut, quote.path, user, deadline);
+      }
+
+      console.log('Swap transaction sent:', tx.hash);
+      const receipt = await tx.wait();
+      const amountOut = receipt ? SwapService.parseAmountReceived(receipt.logs, quote.tokenOut, user) : ZERO;
+
+      return {
+        success: true,
+        transactionHash: tx.hash,
+        amountOut: amountOut > ZERO ? amountOut : undefined,
+      };
+    } catch (error: any) {
+      console.error('Error swapping tokens:', error);
+      return {
+        success: false,
+        error: error.shortMessage || error.message || 'Failed to swap tokens'
+      };
+    }
+  }
+
+  // Split `amountIn` of one token into the WAVAX/USDC pair: swap half into the other pair token
+  // (or half into each when the token is outside the pair) and deposit what comes out
+  async getZapQuote(tokenIn: string, amountIn: bigint): Promise<ZapQuote> {
+    if (!this.depositService) {
+      throw new Error('Service not initialized');
+    }
+
+    const [pair, pool] = await Promise.all([this.depositService.getDepositPair(), this.depositService.getPoolState()]);
+    if (pool.reserveWAVAX === ZERO || pool.reservePaired === ZERO) {
+      throw new Error('Pool has no liquidity to zap into');
+    }
+
+    const wavax = UNISWAP_V2_CONFIG.WAVAX_ADDRESS;
+    const half = amountIn / BigInt(2);
+    const rest = amountIn - half;
+    let swaps: SwapQuote[];
+    let amountWAVAX: bigint;
+    let amountPaired: bigint;
+
+    if (tokenIn.toLowerCase() === wavax.toLowerCase()) {
+      swaps = [await this.getSwapQuote(wavax, pair.pairedToken, half)];
+      amountWAVAX = rest;
+      amountPaired = swaps[0].amountOut;
+    } else if (tokenIn.toLowerCase() === pair.pairedToken.toLowerCase()) {
+      swaps = [await this.getSwapQuote(pair.pairedToken, wavax, half)];
+      amountWAVAX = swaps[0].amountOut;
+      amountPaired = rest;
+    } else {
+      swaps = await Promise.all([
+        this.getSwapQuote(tokenIn, wavax, half),
+        this.getSwapQuote(tokenIn, pair.pairedToken, rest),
+      ]);
+      amountWAVAX = swaps[0].amountOut;
+      amountPaired = swaps[1].amountOut;
+    }
+
+    // Swaps through the pair itself move its price before the deposit lands
+    const poolAfter = swaps.reduce((state, swap) => SwapService.poolAfterSwap(state, swap, pair.pairedToken), pool);
+    const [depositWAVAX, depositPaired] = UniswapDepositService.optimalDeposit(
+      amountWAVAX,
+      amountPaired,
+      poolAfter.reserveWAVAX,
+      poolAfter.reservePaired
+    );
+
+    return {
+      tokenIn,
+      amountIn,
+      pairAddress: pair.pairAddress,
+      pairedToken: pair.pairedToken,
+      swaps,
+      amountWAVAX,
+      amountPaired,
+      depositWAVAX,
+      depositPaired,
+      expectedLPTokens: UniswapDepositService.liquidityMinted(depositWAVAX, depositPaired, poolAfter),
+    };
+  }
+
+  // Run a zap step by step: approve and swap, then approve both pair tokens and add liquidity
+  // with what the swaps actually returned
+  async zap(quote: ZapQuote, slippageTolerance: number = 1, onStep?: ZapStepCallback): Promise<ZapResult> {
+    if (!this.depositService || !this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    const swapTransactions: string[] = [];
+    let step: ZapStep = 'approve-swap';
+    const enter = (next: ZapStep) => {
+      step = next;
+      onStep?.(next);
+    };
+
+    try {
+      const signer = await getSigner(this.provider);
+      let amountWAVAX = quote.amountWAVAX;
+      let amountPaired = quote.amountPaired;
+
+      for (const swapQuote of quote.swaps) {
+        enter('swap');
+        const result = await this.swap(swapQuote, slippageTolerance, () => enter('approve-swap'));
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        swapTransactions.push(result.transactionHash!);
+
+        // Deposit what arrived rather than what was quoted
+        const received = result.amountOut ?? swapQuote.amountOut;
+        if (swapQuote.tokenOut.toLowerCase() === UNISWAP_V2_CONFIG.WAVAX_ADDRESS.toLowerCase()) {
+          amountWAVAX = received;
+        } else {
+          amountPaired = received;
+        }
+      }
+
+      step = 'approve-deposit';
+      await this.ensureAllowance(signer, UNISWAP_V2_CONFIG.WAVAX_ADDRESS, amountWAVAX, () => enter('approve-deposit'));
+      await this.ensureAllowance(signer, quote.pairedToken, amountPaired, () => enter('approve-deposit'));
+
+      enter('deposit');
+      const deposit = await this.depositService.addLiquidity(amountWAVAX, amountPaired, slippageTolerance);
+      if (!deposit.success) {
+        throw new Error(deposit.error);
+      }
+      return { ...deposit, swapTransactions };
+    } catch (error: any) {
+      console.error(`Error during zap (${step}):`, error);
+      const message = error.shortMessage || error.message || 'Zap failed';
+      return {
+        success: false,
+        swapTransactions,
+        failedStep: step,
+        // Tokens from completed swaps stay in the wallet
+        error: swapTransactions.length > 0 ? `${message} (swapped tokens remain in your wallet)` : message,
+      };
+    }
+  }
+
+  // Approve the router for `amount` unless the current allowance already covers it
+  private async ensureAllowance(
+    signer: ethers.Signer,
+    tokenAddress: string,
+    amount: bigint,
+    onApproving?: () => void
+  ) {
+    const token = new Contract(tokenAddress, ERC20_ABI, signer);
+    const allowance: bigint = await token.allowance(await signer.getAddress(), UNISWAP_V2_CONFIG.ROUTER_ADDRESS);
+    if (allowance >= amount) return;
+
+    onApproving?.();
+    const tx = await token.approve(UNISWAP_V2_CONFIG.ROUTER_ADDRESS, amount);
+    console.log('Swap approval transaction sent:', tx.hash);
+    await tx.wait();
+  }
+
+  // Every path from tokenIn to tokenOut crossing at most `maxHops` pools, each intermediate a
+  // connector visited once; the direct path comes first
+  static candidatePaths(tokenIn: string, tokenOut: string, connectors: string[], maxHops: number): string[][] {
+    const seen = new Set([tokenIn.toLowerCase(), tokenOut.toLowerCase()]);
+    const hops = connectors.filter(token => {
+      const key = token.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const paths: string[][] = [];
+    let frontier: string[][] = [[tokenIn]];
+    for (let depth = 1; depth <= maxHops && frontier.length > 0; depth++) {
+      const next: string[][] = [];
+      for (const prefix of frontier) {
+        paths.push([...prefix, tokenOut]);
+        if (depth === maxHops) continue;
+        for (const hop of hops) {
+          if (!prefix.includes(hop)) next.push([...prefix, hop]);
+        }
+      }
+      frontier = next;
+    }
+    return paths;
+  }
+
+  // Path with the largest output; ties go to the earlier (shorter) path. Unquotable paths are null.
+  static bestRoute(
+    paths: string[][],
+    quotes: Array<bigint[] | null>
+  ): { path: string[]; amounts: bigint[] } | null {
+    let best: { path: string[]; amounts: bigint[] } | null = null;
+    for (let i = 0; i < paths.length; i++) {
+      const amounts = quotes[i];
+      if (!amounts || amounts.length !== paths[i].length) continue;
+      const amountOut = amounts[amounts.length - 1];
+      if (amountOut === ZERO) continue;
+      if (!best || amountOut > best.amounts[best.amounts.length - 1]) {
+        best = { path: paths[i], amounts };
+      }
+    }
+    return best;
+  }
+
+  // Deposit pair reserves after a swap, for every hop of its path that trades through the pair
+  static poolAfterSwap(pool: PoolState, quote: SwapQuote, pairedToken: string): PoolState {
+    const wavax = UNISWAP_V2_CONFIG.WAVAX_ADDRESS.toLowerCase();
+    const paired = pairedToken.toLowerCase();
+    let { reserveWAVAX, reservePaired } = pool;
+
+    for (let i = 0; i < quote.path.length - 1; i++) {
+      const from = quote.path[i].toLowerCase();
+      const to = quote.path[i + 1].toLowerCase();
+      if (from === wavax && to === paired) {
+        reserveWAVAX += quote.amounts[i];
+        reservePaired -= quote.amounts[i + 1];
+      } else if (from === paired && to === wavax) {
+        reservePaired += quote.amounts[i];
+        reserveWAVAX -= quote.amounts[i + 1];
+      }
+    }
+    return { reserveWAVAX, reservePaired, totalSupply: pool.totalSupply };
+  }
+
+  // Total of `token` transferred to `recipient` in a receipt
+  static parseAmountReceived(
+    logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>,
+    token: string,
+    recipient: string
+  ): bigint {
+    let received = ZERO;
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== token.toLowerCase()) continue;
+      const parsed = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name !== 'Transfer') continue;
+      const to: string = parsed.args.to;
+      if (to.toLowerCase() === recipient.toLowerCase()) {
+        const value: bigint = parsed.args.value;
+        received += value;
+      }
+    }
+    return received;
+  }
+}
+
+export default SwapService;
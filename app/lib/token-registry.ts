@@ -0,0 +1,138 @@
+import { Contract, Interface } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider } from './providers';
+import { multicall, MulticallRequest } from './multicall';
+
+// ERC20 metadata ABI
+const ERC20_METADATA_ABI = [
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [{"internalType": "string", "name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [{"internalType": "string", "name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [{"internalType": "uint8", "name": "", "type": "uint8"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  icon: string;
+}
+
+export interface TokenOverride {
+  icon?: string;
+  symbol?: string;
+  label?: string; // Replaces the on-chain name in the UI
+}
+
+// Display overrides keyed by lowercase address; everything else comes from the chain
+export const TOKEN_OVERRIDES: Record<string, TokenOverride> = {
+  [CONTRACT_CONFIG.TOKENS.WAVAX.toLowerCase()]: { icon: '🏔️' },
+  [CONTRACT_CONFIG.TOKENS.WETH.toLowerCase()]: { icon: '🔗' },
+  [CONTRACT_CONFIG.TOKENS.USDT.toLowerCase()]: { icon: '💵' },
+  [CONTRACT_CONFIG.TOKENS.USDC_E.toLowerCase()]: { icon: '🔵', label: 'Bridged USDC' },
+  [CONTRACT_CONFIG.TOKENS.DAI.toLowerCase()]: { icon: '🟡' },
+  [CONTRACT_CONFIG.TOKENS.LINK.toLowerCase()]: { icon: '🔗' },
+};
+
+const DEFAULT_ICON = '🪙';
+const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+const erc20Interface = new Interface(ERC20_METADATA_ABI);
+const yieldHubInterface = new Interface(YIELDHUB_ABI);
+
+let registeredTokens: TokenInfo[] = [];
+let tokenIndex = new Map<string, TokenInfo>();
+let lastLoaded = 0;
+let pendingLoad: Promise<TokenInfo[]> | null = null;
+
+// Load supported tokens from YieldHub and fill in their ERC20 metadata
+const fetchTokens = async (provider: ReadProvider): Promise<TokenInfo[]> => {
+  const yieldHub = new Contract(CONTRACT_CONFIG.YIELD_HUB_ADDRESS, YIELDHUB_ABI, provider);
+  const addresses: string[] = Array.from(await yieldHub.getSupportedTokens());
+  if (addresses.length === 0) return [];
+
+  const requests: MulticallRequest[] = addresses.flatMap(address => [
+    { target: CONTRACT_CONFIG.YIELD_HUB_ADDRESS, iface: yieldHubInterface, method: 'getTokenDecimals', args: [address] },
+    { target: address, iface: erc20Interface, method: 'decimals', args: [] },
+    { target: address, iface: erc20Interface, method: 'symbol', args: [] },
+    { target: address, iface: erc20Interface, method: 'name', args: [] },
+  ]);
+  const results = await multicall(provider, requests);
+
+  return addresses.map((address, i) => {
+    const [hubDecimals, erc20Decimals, symbol, name] = results.slice(i * 4, i * 4 + 4);
+    const override = TOKEN_OVERRIDES[address.toLowerCase()] || {};
+
+    // YieldHub decimals are what the hub uses for TVL math, so they win over the token's own
+    const decimals = hubDecimals.success && hubDecimals.result > BigInt(0)
+      ? Number(hubDecimals.result)
+      : erc20Decimals.success ? Number(erc20Decimals.result) : 18;
+    const tokenSymbol = override.symbol || (symbol.success ? symbol.result : 'UNKNOWN');
+
+    return {
+      address,
+      symbol: tokenSymbol,
+      name: override.label || (name.success ? name.result : tokenSymbol),
+      decimals,
+      icon: override.icon || DEFAULT_ICON,
+    };
+  });
+};
+
+// Get the registered tokens, loading them on first use and after the cache expires
+export const loadTokenRegistry = async (
+  provider: ReadProvider,
+  forceRefresh: boolean = false
+): Promise<TokenInfo[]> => {
+  const isFresh = lastLoaded > 0 && Date.now() - lastLoaded < CACHE_TTL;
+  if (isFresh && !forceRefresh) return registeredTokens;
+  if (pendingLoad) return pendingLoad;
+
+  pendingLoad = fetchTokens(provider)
+    .then(tokens => {
+      registeredTokens = tokens;
+      tokenIndex = new Map(tokens.map(token => [token.address.toLowerCase(), token]));
+      lastLoaded = Date.now();
+      return tokens;
+    })
+    .catch(error => {
+      console.error('Error loading token registry:', error);
+      return registeredTokens; // Keep serving the last good list
+    })
+    .finally(() => {
+      pendingLoad = null;
+    });
+
+  return pendingLoad;
+};
+
+// Look up a loaded token by address
+export const getTokenInfo = (address: string): TokenInfo | undefined => {
+  return tokenIndex.get(address.toLowerCase());
+};
+
+// Tokens from the last successful load
+export const getRegisteredTokens = (): TokenInfo[] => registeredTokens;
+
+// Drop the cache so the next load re-reads the chain (e.g. after TokenAdded/TokenRemoved)
+export const invalidateTokenRegistry = () => {
+  lastLoaded = 0;
+};
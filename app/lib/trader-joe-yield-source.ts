@@ -0,0 +1,367 @@
+import { Contract, Interface } from 'ethers';
+import { NETWORK_NAME } from './web3-config';
+import { ReadProvider } from './providers';
+import UniswapDepositService, { DepositPair, PoolState, UNISWAP_V2_CONFIG } from './uniswap-service';
+import { BPS, MAX_REASONABLE_APY_BPS, sqrt } from './units';
+import { MarketQuote, SourcePosition, SourceTransaction, YieldMarket, YieldSource } from './yield-source';
+
+// LP fee yield settings
+export const TRADER_JOE_SOURCE_CONFIG = {
+  // Trading fee kept by the pool
+  FEE_BPS: BigInt(30),
+  // Swaps counted toward the fee rate (~1 day of Fuji blocks)
+  FEE_WINDOW_BLOCKS: 43200,
+  // The fee rate is rescanned at most this often
+  CACHE_TTL: 5 * 60 * 1000,
+  // Minimums on deposits and withdrawals built for the user
+  SLIPPAGE_BPS: BigInt(200),
+  DEADLINE_SECONDS: 1200,
+};
+
+const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60);
+const ZERO = BigInt(0);
+
+// Router, pair and ERC20 ABIs (liquidity transactions and swap volume)
+const ROUTER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"},
+      {"internalType": "uint256", "name": "amountADesired", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBDesired", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "addLiquidity",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountA", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountB", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "removeLiquidity",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountA", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountB", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountOutMin", "type": "uint256"},
+      {"internalType": "address[]", "name": "path", "type": "address[]"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "swapExactTokensForTokens",
+    "outputs": [{"internalType": "uint256[]", "name": "amounts", "type": "uint256[]"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const PAIR_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "owner", "type": "address"}],
+    "name": "balanceOf",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "sender", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount0In", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount1In", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount0Out", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount1Out", "type": "uint256"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "Swap",
+    "type": "event"
+  }
+] as const;
+
+const ERC20_ABI = [
+  {
+    "inputs": [{"internalType": "address", "name": "spender", "type": "address"}, {"internalType": "uint256", "name": "amount", "type": "uint256"}],
+    "name": "approve",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+const routerInterface = new Interface(ROUTER_ABI);
+const pairInterface = new Interface(PAIR_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Liquidity in the WAVAX pair UniswapDepositService deposits into; the market is priced in WAVAX,
+// and a position is worth twice its WAVAX side
+export class TraderJoeYieldSource implements YieldSource {
+  static readonly ID = 'trader-joe-lp';
+  static readonly PROTOCOL = 'Trader Joe LP';
+
+  readonly id = TraderJoeYieldSource.ID;
+  private provider: ReadProvider;
+  private depositService: UniswapDepositService;
+  private feeRate: { aprBps: bigint; loadedAt: number } | null = null;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+    this.depositService = new UniswapDepositService(provider);
+  }
+
+  async listMarkets(): Promise<YieldMarket[]> {
+    return [TraderJoeYieldSource.market(await this.depositService.getDepositPair())];
+  }
+
+  async getQuotes(): Promise<MarketQuote[]> {
+    const [pair, pool] = await Promise.all([this.depositService.getDepositPair(), this.depositService.getPoolState()]);
+    if (pool.reserveWAVAX === ZERO) return [];
+
+    return [{
+      market: TraderJoeYieldSource.market(pair),
+      aprBps: await this.getFeeAPR(pair, pool),
+      tvl: pool.reserveWAVAX * BigInt(2),
+      lastUpdate: Math.floor(Date.now() / 1000),
+      risk: { protocolAdjustment: -5, crossChain: false, impermanentLoss: true },
+    }];
+  }
+
+  // Deposit `amount` of WAVAX: half of its value is swapped into the paired token and both sides are added
+  async buildDeposit(market: YieldMarket, amount: bigint, userAddress: string): Promise<SourceTransaction[]> {
+    const [pair, pool] = await Promise.all([this.depositService.getDepositPair(), this.depositService.getPoolState()]);
+    return TraderJoeYieldSource.depositTransactions(market, pair, pool, amount, userAddress, TraderJoeYieldSource.deadline());
+  }
+
+  // Burn the LP tokens worth `amount` of WAVAX (twice the WAVAX side they redeem for) and swap the paired side back
+  async buildWithdraw(market: YieldMarket, amount: bigint | 'max', userAddress: string): Promise<SourceTransaction[]> {
+    const [pair, pool] = await Promise.all([this.depositService.getDepositPair(), this.depositService.getPoolState()]);
+    const balance: bigint = await new Contract(pair.pairAddress, PAIR_ABI, this.provider).balanceOf(userAddress);
+    const requested = amount === 'max' ? balance : TraderJoeYieldSource.liquidityWorth(amount, pool);
+    const liquidity = requested < balance ? requested : balance;
+    if (liquidity === ZERO) {
+      throw new Error('No LP tokens to withdraw');
+    }
+    return TraderJoeYieldSource.withdrawTransactions(market, pair, pool, liquidity, userAddress, TraderJoeYieldSource.deadline());
+  }
+
+  // Approve, swap, approve and add liquidity for a deposit of `amount` WAVAX at the given pool state
+  static depositTransactions(
+    market: YieldMarket,
+    pair: DepositPair,
+    pool: PoolState,
+    amount: bigint,
+    userAddress: string,
+    deadline: number
+  ): SourceTransaction[] {
+    if (pool.reserveWAVAX === ZERO || pool.reservePaired === ZERO) {
+      throw new Error('The Trader Joe pool has no liquidity to swap against');
+    }
+    const swapIn = TraderJoeYieldSource.swapInForDeposit(amount, pool.reserveWAVAX);
+    const swapOut = TraderJoeYieldSource.amountOut(swapIn, pool.reserveWAVAX, pool.reservePaired);
+    // The swap moves the reserves the router prices the deposit at
+    const [amountWAVAX, amountPaired] = UniswapDepositService.optimalDeposit(
+      amount - swapIn, swapOut, pool.reserveWAVAX + swapIn, pool.reservePaired - swapOut
+    );
+    const { SLIPPAGE_BPS } = TRADER_JOE_SOURCE_CONFIG;
+
+    return [
+      {
+        description: `Approve ${market.tokenSymbol} for the Trader Joe router`,
+        to: UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+        data: erc20Interface.encodeFunctionData('approve', [UNISWAP_V2_CONFIG.ROUTER_ADDRESS, amount]),
+      },
+      {
+        description: `Swap half of the ${market.tokenSymbol} for ${pair.pairedSymbol}`,
+        to: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+        data: routerInterface.encodeFunctionData('swapExactTokensForTokens', [
+          swapIn,
+          UniswapDepositService.applySlippage(swapOut, SLIPPAGE_BPS),
+          [UNISWAP_V2_CONFIG.WAVAX_ADDRESS, pair.pairedToken],
+          userAddress,
+          deadline,
+        ]),
+      },
+      {
+        description: `Approve ${pair.pairedSymbol} for the Trader Joe router`,
+        to: pair.pairedToken,
+        data: erc20Interface.encodeFunctionData('approve', [UNISWAP_V2_CONFIG.ROUTER_ADDRESS, amountPaired]),
+      },
+      {
+        description: `Add ${market.tokenSymbol}/${pair.pairedSymbol} liquidity`,
+        to: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+        data: routerInterface.encodeFunctionData('addLiquidity', [
+          UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+          pair.pairedToken,
+          amountWAVAX,
+          amountPaired,
+          UniswapDepositService.applySlippage(amountWAVAX, SLIPPAGE_BPS),
+          UniswapDepositService.applySlippage(amountPaired, SLIPPAGE_BPS),
+          userAddress,
+          deadline,
+        ]),
+      },
+    ];
+  }
+
+  // Approve, remove `liquidity` and swap the paired side back to WAVAX at the given pool state
+  static withdrawTransactions(
+    market: YieldMarket,
+    pair: DepositPair,
+    pool: PoolState,
+    liquidity: bigint,
+    userAddress: string,
+    deadline: number
+  ): SourceTransaction[] {
+    const amountWAVAX = (liquidity * pool.reserveWAVAX) / pool.totalSupply;
+    const amountPaired = (liquidity * pool.reservePaired) / pool.totalSupply;
+    const { SLIPPAGE_BPS } = TRADER_JOE_SOURCE_CONFIG;
+    // The burn leaves the remaining reserves to swap against
+    const swapOut = TraderJoeYieldSource.amountOut(
+      amountPaired, pool.reservePaired - amountPaired, pool.reserveWAVAX - amountWAVAX
+    );
+
+    return [
+      {
+        description: `Approve ${market.tokenSymbol}/${pair.pairedSymbol} LP tokens for the Trader Joe router`,
+        to: pair.pairAddress,
+        data: erc20Interface.encodeFunctionData('approve', [UNISWAP_V2_CONFIG.ROUTER_ADDRESS, liquidity]),
+      },
+      {
+        description: `Remove ${market.tokenSymbol}/${pair.pairedSymbol} liquidity`,
+        to: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+        data: routerInterface.encodeFunctionData('removeLiquidity', [
+          UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+          pair.pairedToken,
+          liquidity,
+          UniswapDepositService.applySlippage(amountWAVAX, SLIPPAGE_BPS),
+          UniswapDepositService.applySlippage(amountPaired, SLIPPAGE_BPS),
+          userAddress,
+          deadline,
+        ]),
+      },
+      {
+        description: `Approve ${pair.pairedSymbol} for the Trader Joe router`,
+        to: pair.pairedToken,
+        data: erc20Interface.encodeFunctionData('approve', [UNISWAP_V2_CONFIG.ROUTER_ADDRESS, amountPaired]),
+      },
+      {
+        description: `Swap the ${pair.pairedSymbol} back to ${market.tokenSymbol}`,
+        to: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+        data: routerInterface.encodeFunctionData('swapExactTokensForTokens', [
+          amountPaired,
+          UniswapDepositService.applySlippage(swapOut, SLIPPAGE_BPS),
+          [pair.pairedToken, UNISWAP_V2_CONFIG.WAVAX_ADDRESS],
+          userAddress,
+          deadline,
+        ]),
+      },
+    ];
+  }
+
+  // LP tokens worth `amount` of WAVAX, valuing a position at twice its WAVAX side
+  static liquidityWorth(amount: bigint, pool: PoolState): bigint {
+    if (pool.reserveWAVAX === ZERO) return ZERO;
+    return (amount * pool.totalSupply) / (pool.reserveWAVAX * BigInt(2));
+  }
+
+  // Output of an exact-input swap after the pool fee, as in UniswapV2Library.getAmountOut
+  static amountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+    const amountInWithFee = amountIn * (BPS - TRADER_JOE_SOURCE_CONFIG.FEE_BPS);
+    const denominator = reserveIn * BPS + amountInWithFee;
+    return denominator > ZERO ? (amountInWithFee * reserveOut) / denominator : ZERO;
+  }
+
+  // Part of `amount` to swap so the remainder and the swap output match the post-swap reserve ratio:
+  // the root of g*s^2 + r*(B+g)*s - B*r*amount = 0, with g = B - fee
+  static swapInForDeposit(amount: bigint, reserveWAVAX: bigint): bigint {
+    const g = BPS - TRADER_JOE_SOURCE_CONFIG.FEE_BPS;
+    const b = reserveWAVAX * (BPS + g);
+    return (sqrt(b * b + BigInt(4) * g * BPS * reserveWAVAX * amount) - b) / (BigInt(2) * g);
+  }
+
+  async getPositions(userAddress: string): Promise<SourcePosition[]> {
+    const pair = await this.depositService.getDepositPair();
+    const position = await this.depositService.getLiquidityPosition(userAddress, pair.pairAddress);
+    if (!position) return [];
+
+    const [quote] = await this.getQuotes();
+    return [{
+      market: TraderJoeYieldSource.market(pair),
+      amount: (pair.wavaxIsToken0 ? position.amount0 : position.amount1) * BigInt(2),
+      aprBps: quote?.aprBps ?? ZERO,
+    }];
+  }
+
+  // Fees from the last window's swaps over the pool's value, annualized; both in WAVAX
+  private async getFeeAPR(pair: DepositPair, pool: PoolState): Promise<bigint> {
+    if (this.feeRate && Date.now() - this.feeRate.loadedAt < TRADER_JOE_SOURCE_CONFIG.CACHE_TTL) {
+      return this.feeRate.aprBps;
+    }
+
+    const latest = await this.provider.getBlockNumber();
+    const fromBlock = Math.max(0, latest - TRADER_JOE_SOURCE_CONFIG.FEE_WINDOW_BLOCKS + 1);
+    const topics = [pairInterface.getEvent('Swap')!.topicHash];
+    let inWAVAX = ZERO;
+    let inPaired = ZERO;
+
+    for (let from = fromBlock; from <= latest; from += UNISWAP_V2_CONFIG.LOG_CHUNK_SIZE) {
+      const to = Math.min(latest, from + UNISWAP_V2_CONFIG.LOG_CHUNK_SIZE - 1);
+      const logs = await this.provider.getLogs({ address: pair.pairAddress, topics, fromBlock: from, toBlock: to });
+      for (const log of logs) {
+        const swap = pairInterface.parseLog(log);
+        if (!swap) continue;
+        inWAVAX += pair.wavaxIsToken0 ? swap.args.amount0In : swap.args.amount1In;
+        inPaired += pair.wavaxIsToken0 ? swap.args.amount1In : swap.args.amount0In;
+      }
+    }
+
+    const [first, last] = await Promise.all([this.provider.getBlock(fromBlock), this.provider.getBlock(latest)]);
+    const elapsed = first && last ? BigInt(last.timestamp - first.timestamp) : ZERO;
+    const volumeWAVAX = inWAVAX + UniswapDepositService.quote(inPaired, pool.reservePaired, pool.reserveWAVAX);
+    const poolWAVAX = pool.reserveWAVAX * BigInt(2);
+    const aprBps = elapsed > ZERO && poolWAVAX > ZERO
+      ? (volumeWAVAX * TRADER_JOE_SOURCE_CONFIG.FEE_BPS * SECONDS_PER_YEAR) / (poolWAVAX * elapsed)
+      : ZERO;
+
+    this.feeRate = { aprBps: aprBps < MAX_REASONABLE_APY_BPS ? aprBps : MAX_REASONABLE_APY_BPS, loadedAt: Date.now() };
+    return this.feeRate.aprBps;
+  }
+
+  private static market(pair: DepositPair): YieldMarket {
+    return {
+      id: `joe-lp-${pair.pairAddress}`,
+      sourceId: TraderJoeYieldSource.ID,
+      protocol: TraderJoeYieldSource.PROTOCOL,
+      network: NETWORK_NAME,
+      tokenAddress: UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+      tokenSymbol: 'WAVAX',
+      decimals: 18,
+    };
+  }
+
+  private static deadline(): number {
+    return Math.floor(Date.now() / 1000) + TRADER_JOE_SOURCE_CONFIG.DEADLINE_SECONDS;
+  }
+}
+
+export default TraderJoeYieldSource;
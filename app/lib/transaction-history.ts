@@ -0,0 +1,459 @@
+import { Contract, Interface, Log, ZeroAddress, zeroPadValue } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI, getExplorerTxUrl } from './web3-config';
+import { ReadProvider } from './providers';
+import { loadTokenRegistry, getTokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import AaveService from './aave-service';
+import { UNISWAP_V2_CONFIG } from './uniswap-service';
+import { fixedToNumber, toUSD } from './units';
+
+// Transaction history configuration
+export const TRANSACTION_HISTORY_CONFIG = {
+  // Blocks per getLogs call
+  LOG_CHUNK_SIZE: 2048,
+  // Furthest one page scans back looking for transactions (~7 days of Fuji blocks)
+  MAX_SCAN_BLOCKS: 300000,
+  // Transactions per page (a page may run over to finish its last block range)
+  PAGE_SIZE: 20,
+};
+
+// Aave V3 Pool events
+const AAVE_POOL_EVENTS_ABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "reserve", "type": "address"},
+      {"indexed": false, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": true, "internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "Supply",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "reserve", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"}
+    ],
+    "name": "Withdraw",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "reserve", "type": "address"},
+      {"indexed": false, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": false, "internalType": "uint8", "name": "interestRateMode", "type": "uint8"},
+      {"indexed": false, "internalType": "uint256", "name": "borrowRate", "type": "uint256"},
+      {"indexed": true, "internalType": "uint16", "name": "referralCode", "type": "uint16"}
+    ],
+    "name": "Borrow",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "reserve", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "user", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "repayer", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
+      {"indexed": false, "internalType": "bool", "name": "useATokens", "type": "bool"}
+    ],
+    "name": "Repay",
+    "type": "event"
+  }
+] as const;
+
+// ERC20 Transfer plus the Trader Joe pair pieces needed to read liquidity mints
+const PAIR_EVENTS_ABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "from", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"}
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "sender", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount0", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount1", "type": "uint256"}
+    ],
+    "name": "Mint",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "token0",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token1",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+const FACTORY_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"}
+    ],
+    "name": "getPair",
+    "outputs": [{"internalType": "address", "name": "pair", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export type TransactionType =
+  | 'supply'
+  | 'withdraw'
+  | 'borrow'
+  | 'repay'
+  | 'transfer-in'
+  | 'transfer-out'
+  | 'add-liquidity'
+  | 'subnet-request';
+
+export interface TransactionAmount {
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  valueUSD: number | null; // At the time of the transaction
+  priceSource?: string;
+}
+
+export interface Transaction {
+  id: string; // `${hash}:${logIndex}`
+  hash: string;
+  type: TransactionType;
+  label: string;
+  protocol: string;
+  blockNumber: number;
+  timestamp: number; // Seconds
+  direction: 'in' | 'out'; // From the wallet's point of view
+  amounts: TransactionAmount[];
+  valueUSD: number | null; // Null when any amount could not be priced
+  explorerUrl: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  // Block below this page's scan; pass as `fromBlock` to load older transactions. Each page scans at most
+  // MAX_SCAN_BLOCKS, so this is only null once the scan has reached block 0
+  nextBlock: number | null;
+}
+
+export interface TransactionQuery {
+  fromBlock?: number; // Scan downwards from here (default: latest block)
+  limit?: number;
+}
+
+// A matched log before timestamps, receipts and prices are filled in
+interface RawEntry {
+  log: Log;
+  type: TransactionType;
+  token?: string;
+  amount?: bigint;
+  label: string;
+  protocol: string;
+  timestamp?: number;
+}
+
+interface ScanContext {
+  poolAddress: string | null;
+  tokens: string[];
+  pairs: string[];
+}
+
+const AAVE_LABELS: Record<string, { type: TransactionType; label: string }> = {
+  Supply: { type: 'supply', label: 'Aave Supply' },
+  Withdraw: { type: 'withdraw', label: 'Aave Withdraw' },
+  Borrow: { type: 'borrow', label: 'Aave Borrow' },
+  Repay: { type: 'repay', label: 'Aave Repay' },
+};
+
+const OUTGOING: TransactionType[] = ['supply', 'repay', 'transfer-out', 'add-liquidity', 'subnet-request'];
+
+const poolInterface = new Interface(AAVE_POOL_EVENTS_ABI);
+const pairInterface = new Interface(PAIR_EVENTS_ABI);
+const yieldHubInterface = new Interface(YIELDHUB_ABI);
+
+export class TransactionHistoryService {
+  private provider: ReadProvider | null = null;
+  private aaveService: AaveService;
+  private priceOracle: PriceOracleService;
+  private context: Promise<ScanContext> | null = null;
+  private pairTokens: Map<string, Promise<[string, string]>> = new Map();
+  private blockTimes: Map<number, Promise<number>> = new Map();
+
+  constructor(provider?: ReadProvider) {
+    this.aaveService = new AaveService();
+    this.priceOracle = new PriceOracleService();
+    if (provider) {
+      this.setProvider(provider);
+    }
+  }
+
+  setProvider(provider: ReadProvider) {
+    this.provider = provider;
+    this.aaveService.setProvider(provider);
+    this.priceOracle.setProvider(provider);
+    this.context = null;
+    this.pairTokens.clear();
+    this.blockTimes.clear();
+  }
+
+  // Newest-first page of a user's transactions, scanning block ranges backwards
+  async getTransactions(userAddress: string, query: TransactionQuery = {}): Promise<TransactionPage> {
+    if (!this.provider) {
+      throw new Error('Provider not initialized');
+    }
+
+    const limit = query.limit ?? TRANSACTION_HISTORY_CONFIG.PAGE_SIZE;
+    const startBlock = query.fromBlock ?? await this.provider.getBlockNumber();
+    const lowestBlock = Math.max(0, startBlock - TRANSACTION_HISTORY_CONFIG.MAX_SCAN_BLOCKS + 1);
+    const context = await this.getContext();
+
+    const entries: RawEntry[] = [];
+    let toBlock = startBlock;
+
+    while (toBlock >= lowestBlock && entries.length < limit) {
+      const fromBlock = Math.max(lowestBlock, toBlock - TRANSACTION_HISTORY_CONFIG.LOG_CHUNK_SIZE + 1);
+      entries.push(...await this.scanRange(userAddress, fromBlock, toBlock, context));
+      toBlock = fromBlock - 1;
+    }
+
+    const transactions = await Promise.all(entries.map(entry => this.toTransaction(entry)));
+
+    return {
+      transactions: transactions.sort((a, b) => b.blockNumber - a.blockNumber || b.id.localeCompare(a.id)),
+      nextBlock: toBlock >= 0 ? toBlock : null,
+    };
+  }
+
+  // Pool address, supported tokens and their WAVAX pairs, resolved once per provider
+  private getContext(): Promise<ScanContext> {
+    if (!this.context) {
+      this.context = (async () => {
+        const provider = this.provider!;
+        const tokens = (await loadTokenRegistry(provider)).map(token => token.address);
+        const poolAddress = await this.aaveService.getPoolAddress().catch(error => {
+          console.warn('Aave Pool unavailable, skipping Aave history:', error);
+          return null;
+        });
+
+        const factory = new Contract(UNISWAP_V2_CONFIG.FACTORY_ADDRESS, FACTORY_ABI, provider);
+        const pairs = await Promise.all(
+          tokens
+            .filter(token => token.toLowerCase() !== UNISWAP_V2_CONFIG.WAVAX_ADDRESS.toLowerCase())
+            .map(token => factory.getPair(token, UNISWAP_V2_CONFIG.WAVAX_ADDRESS).catch(() => ZeroAddress))
+        );
+
+        return { poolAddress, tokens, pairs: pairs.filter((pair: string) => pair !== ZeroAddress) };
+      })();
+      // Allow a retry if resolving failed
+      this.context.catch(() => {
+        this.context = null;
+      });
+    }
+    return this.context;
+  }
+
+  // Every matching log in one block range
+  private async scanRange(
+    userAddress: string,
+    fromBlock: number,
+    toBlock: number,
+    context: ScanContext
+  ): Promise<RawEntry[]> {
+    const provider = this.provider!;
+    const userTopic = zeroPadValue(userAddress, 32);
+    const transferTopic = pairInterface.getEvent('Transfer')!.topicHash;
+    const range = { fromBlock, toBlock };
+    const noLogs = Promise.resolve([] as Log[]);
+
+    const [aaveLogs, sentLogs, receivedLogs, mintLogs, subnetLogs] = await Promise.all([
+      // The user sits in topic 2 for all four Pool events (onBehalfOf or user)
+      context.poolAddress
+        ? provider.getLogs({
+            ...range,
+            address: context.poolAddress,
+            topics: [Object.keys(AAVE_LABELS).map(name => poolInterface.getEvent(name)!.topicHash), null, userTopic],
+          })
+        : noLogs,
+      context.tokens.length > 0
+        ? provider.getLogs({ ...range, address: context.tokens, topics: [transferTopic, userTopic] })
+        : noLogs,
+      context.tokens.length > 0
+        ? provider.getLogs({ ...range, address: context.tokens, topics: [transferTopic, null, userTopic] })
+        : noLogs,
+      // LP tokens minted to the user mark an addLiquidity / addLiquidityETH
+      context.pairs.length > 0
+        ? provider.getLogs({ ...range, address: context.pairs, topics: [transferTopic, zeroPadValue(ZeroAddress, 32), userTopic] })
+        : noLogs,
+      provider.getLogs({
+        ...range,
+        address: CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
+        topics: [yieldHubInterface.getEvent('SubnetRequest')!.topicHash, null, null, userTopic],
+      }),
+    ]);
+
+    const entries: RawEntry[] = [];
+
+    aaveLogs.forEach(log => {
+      const parsed = poolInterface.parseLog(log);
+      if (!parsed) return;
+      const { type, label } = AAVE_LABELS[parsed.name];
+      const suffix = parsed.name === 'Borrow'
+        ? (Number(parsed.args.interestRateMode) === 1 ? ' (Stable)' : ' (Variable)')
+        : parsed.name === 'Repay' && parsed.args.useATokens ? ' (aTokens)' : '';
+      entries.push({ log, type, token: parsed.args.reserve, amount: parsed.args.amount, label: label + suffix, protocol: 'Aave V3' });
+    });
+
+    mintLogs.forEach(log => {
+      entries.push({ log, type: 'add-liquidity', label: 'Add Liquidity', protocol: 'Trader Joe' });
+    });
+
+    subnetLogs.forEach(log => {
+      const parsed = yieldHubInterface.parseLog(log);
+      if (!parsed) return;
+      entries.push({
+        log,
+        type: 'subnet-request',
+        token: parsed.args.token,
+        label: `Subnet Yield Request (${getTokenInfo(parsed.args.token)?.symbol || 'token'})`,
+        protocol: 'YieldHub',
+        timestamp: Number(parsed.args.timestamp),
+      });
+    });
+
+    // Plain transfers only for transactions not already explained by a protocol event
+    const explained = new Set(entries.map(entry => entry.log.transactionHash));
+    const addTransfer = (log: Log, type: TransactionType) => {
+      if (explained.has(log.transactionHash)) return;
+      const parsed = pairInterface.parseLog(log);
+      if (!parsed) return;
+      entries.push({
+        log,
+        type,
+        token: log.address,
+        amount: parsed.args.value,
+        label: type === 'transfer-in' ? 'Token Received' : 'Token Sent',
+        protocol: 'Fuji Testnet',
+      });
+    };
+    sentLogs.forEach(log => addTransfer(log, 'transfer-out'));
+    receivedLogs.forEach(log => addTransfer(log, 'transfer-in'));
+
+    return entries;
+  }
+
+  private async toTransaction(entry: RawEntry): Promise<Transaction> {
+    const { log } = entry;
+    const timestamp = entry.timestamp ?? await this.getBlockTime(log.blockNumber);
+
+    let amounts: TransactionAmount[];
+    let label = entry.label;
+
+    if (entry.type === 'add-liquidity') {
+      const deposited = await this.getMintedAmounts(log);
+      amounts = await Promise.all(deposited.map(([token, amount]) => this.priceAmount(token, amount, timestamp)));
+      label = `Add Liquidity (${amounts.map(amount => amount.symbol).join('/')})`;
+    } else if (entry.type === 'subnet-request') {
+      // The request itself moves no tokens; what the user paid is the Teleporter fee in AVAX
+      const tx = await this.provider!.getTransaction(log.transactionHash);
+      const fee = await this.priceAmount(UNISWAP_V2_CONFIG.WAVAX_ADDRESS, tx?.value ?? BigInt(0), timestamp);
+      amounts = [{ ...fee, symbol: 'AVAX' }];
+    } else {
+      amounts = [await this.priceAmount(entry.token!, entry.amount ?? BigInt(0), timestamp)];
+    }
+
+    const priced = amounts.every(amount => amount.valueUSD !== null);
+
+    return {
+      id: `${log.transactionHash}:${log.index}`,
+      hash: log.transactionHash,
+      type: entry.type,
+      label,
+      protocol: entry.protocol,
+      blockNumber: log.blockNumber,
+      timestamp,
+      direction: OUTGOING.includes(entry.type) ? 'out' : 'in',
+      amounts,
+      valueUSD: priced ? amounts.reduce((sum, amount) => sum + (amount.valueUSD ?? 0), 0) : null,
+      explorerUrl: getExplorerTxUrl(log.transactionHash),
+    };
+  }
+
+  // Token amounts deposited into the pair, from the Mint event in the same transaction
+  private async getMintedAmounts(lpTransfer: Log): Promise<Array<[string, bigint]>> {
+    const receipt = await this.provider!.getTransactionReceipt(lpTransfer.transactionHash);
+    const mintTopic = pairInterface.getEvent('Mint')!.topicHash;
+    const mintLog = receipt?.logs.find(
+      log => log.address.toLowerCase() === lpTransfer.address.toLowerCase() && log.topics[0] === mintTopic
+    );
+    if (!mintLog) return [];
+
+    const parsed = pairInterface.parseLog(mintLog);
+    if (!parsed) return [];
+
+    const [token0, token1] = await this.getPairTokens(lpTransfer.address);
+    return [[token0, parsed.args.amount0], [token1, parsed.args.amount1]];
+  }
+
+  private getPairTokens(pairAddress: string): Promise<[string, string]> {
+    const key = pairAddress.toLowerCase();
+    let tokens = this.pairTokens.get(key);
+    if (!tokens) {
+      const pair = new Contract(pairAddress, PAIR_EVENTS_ABI, this.provider);
+      tokens = Promise.all([pair.token0(), pair.token1()]) as Promise<[string, string]>;
+      this.pairTokens.set(key, tokens);
+    }
+    return tokens;
+  }
+
+  private getBlockTime(blockNumber: number): Promise<number> {
+    let time = this.blockTimes.get(blockNumber);
+    if (!time) {
+      time = this.provider!.getBlock(blockNumber).then(block => block?.timestamp ?? 0);
+      this.blockTimes.set(blockNumber, time);
+    }
+    return time;
+  }
+
+  // Amount with its USD value at the given time
+  private async priceAmount(token: string, amount: bigint, timestamp: number): Promise<TransactionAmount> {
+    const info = getTokenInfo(token);
+    const decimals = info?.decimals ?? 18;
+    const quote = await this.priceOracle.getHistoricalQuote(token, timestamp);
+
+    return {
+      token,
+      symbol: info?.symbol || 'UNKNOWN',
+      decimals,
+      amount,
+      valueUSD: quote ? fixedToNumber(toUSD(amount, decimals, quote.priceUSD)) : null,
+      priceSource: quote?.source,
+    };
+  }
+}
+
+export default TransactionHistoryService;
@@ -1,16 +1,48 @@
-import { ethers, Contract, BrowserProvider } from 'ethers';
+import { ethers, Contract, Interface, Log, zeroPadValue } from 'ethers';
 import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider, getSigner } from './providers';
+import { BPS, WAD, formatFixed, formatTokenAmount, parseAmount, sqrt } from './units';
 
 // Uniswap V2 configuration for Avalanche Fuji
-const UNISWAP_V2_CONFIG = {
+export const UNISWAP_V2_CONFIG = {
   ROUTER_ADDRESS: '0x2D99ABD9008Dc933ff5c0CD271B88309593aB921', // Trader Joe Router on Fuji
   FACTORY_ADDRESS: '0x9Ad6C38BE94206cA50bb0d90783181662f0Cfa10', // Trader Joe Factory on Fuji
   WAVAX_ADDRESS: '0xd00ae08403B9bbb9124bB305C09058E32C39A48c', // WAVAX on Fuji
   USDC_ADDRESS: '0x5425890298aed601595a70AB815c96711a31Bc65', // USDC on Fuji for pairing
+  // Token pairs whose LP positions are tracked (WAVAX/USDC)
+  TRACKED_PAIRS: [
+    ['0xd00ae08403B9bbb9124bB305C09058E32C39A48c', '0x5425890298aed601595a70AB815c96711a31Bc65'],
+  ] as Array<[string, string]>,
+  // Blocks per getLogs call when looking for the user's LP mints
+  LOG_CHUNK_SIZE: 2048,
+  // Furthest back LP mints are searched for fee tracking (~7 days of Fuji blocks)
+  MINT_SCAN_BLOCKS: 300000,
+  // Chunks whose getLogs calls are in flight at once
+  PARALLEL_CHUNKS: 8,
 };
 
 // Uniswap V2 Router ABI (minimal for our needs)
 const UNISWAP_V2_ROUTER_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"},
+      {"internalType": "uint256", "name": "amountADesired", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBDesired", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "addLiquidity",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountA", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountB", "type": "uint256"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {"internalType": "uint256", "name": "amountTokenDesired", "type": "uint256"},
@@ -28,6 +60,84 @@ const UNISWAP_V2_ROUTER_ABI = [
     "stateMutability": "payable",
     "type": "function"
   },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "removeLiquidity",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountA", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountB", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "token", "type": "address"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountTokenMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAVAXMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"}
+    ],
+    "name": "removeLiquidityAVAX",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountToken", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAVAX", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountBMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"},
+      {"internalType": "bool", "name": "approveMax", "type": "bool"},
+      {"internalType": "uint8", "name": "v", "type": "uint8"},
+      {"internalType": "bytes32", "name": "r", "type": "bytes32"},
+      {"internalType": "bytes32", "name": "s", "type": "bytes32"}
+    ],
+    "name": "removeLiquidityWithPermit",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountA", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountB", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {"internalType": "address", "name": "token", "type": "address"},
+      {"internalType": "uint256", "name": "liquidity", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountTokenMin", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAVAXMin", "type": "uint256"},
+      {"internalType": "address", "name": "to", "type": "address"},
+      {"internalType": "uint256", "name": "deadline", "type": "uint256"},
+      {"internalType": "bool", "name": "approveMax", "type": "bool"},
+      {"internalType": "uint8", "name": "v", "type": "uint8"},
+      {"internalType": "bytes32", "name": "r", "type": "bytes32"},
+      {"internalType": "bytes32", "name": "s", "type": "bytes32"}
+    ],
+    "name": "removeLiquidityAVAXWithPermit",
+    "outputs": [
+      {"internalType": "uint256", "name": "amountToken", "type": "uint256"},
+      {"internalType": "uint256", "name": "amountAVAX", "type": "uint256"}
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {"internalType": "uint256", "name": "amountIn", "type": "uint256"},
@@ -40,6 +150,107 @@ const UNISWAP_V2_ROUTER_ABI = [
   }
 ];
 
+// Uniswap V2 factory and pair ABIs (pair lookup, reserves, LP permits and mint/burn events)
+const UNISWAP_V2_FACTORY_ABI = [
+  {
+    "inputs": [
+      {"internalType": "address", "name": "tokenA", "type": "address"},
+      {"internalType": "address", "name": "tokenB", "type": "address"}
+    ],
+    "name": "getPair",
+    "outputs": [{"internalType": "address", "name": "pair", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+const UNISWAP_V2_PAIR_ABI = [
+  {
+    "inputs": [],
+    "name": "getReserves",
+    "outputs": [
+      {"internalType": "uint112", "name": "reserve0", "type": "uint112"},
+      {"internalType": "uint112", "name": "reserve1", "type": "uint112"},
+      {"internalType": "uint32", "name": "blockTimestampLast", "type": "uint32"}
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalSupply",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token0",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "token1",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [{"internalType": "string", "name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "DOMAIN_SEPARATOR",
+    "outputs": [{"internalType": "bytes32", "name": "", "type": "bytes32"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "address", "name": "owner", "type": "address"}],
+    "name": "nonces",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "sender", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount0", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount1", "type": "uint256"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"}
+    ],
+    "name": "Burn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "sender", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "amount0", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "amount1", "type": "uint256"}
+    ],
+    "name": "Mint",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "from", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"}
+    ],
+    "name": "Transfer",
+    "type": "event"
+  }
+];
+
 // ERC20 ABI for token operations
 const ERC20_ABI = [
   {
@@ -62,33 +273,154 @@ const ERC20_ABI = [
     "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
     "stateMutability": "view",
     "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [{"internalType": "uint8", "name": "", "type": "uint8"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [{"internalType": "string", "name": "", "type": "string"}],
+    "stateMutability": "view",
+    "type": "function"
   }
 ];
 
+const pairInterface = new Interface(UNISWAP_V2_PAIR_ABI);
+
+// EIP-2612 permit as implemented by Uniswap V2 pairs
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// LP tokens Uniswap V2 locks forever on the first mint
+const MINIMUM_LIQUIDITY = BigInt(1000);
+// Deposit and withdrawal deadline, in seconds from submission
+const DEPOSIT_DEADLINE_SECONDS = 1200;
+const ZERO = BigInt(0);
+
 export interface DepositResult {
   success: boolean;
   transactionHash?: string;
-  liquidityTokens?: string;
+  liquidityTokens?: bigint; // LP tokens minted to the user, read from the receipt
+  amountWAVAX?: bigint; // Amounts the pair actually took, from its Mint event
+  amountPaired?: bigint;
+  error?: string;
+}
+
+// The WAVAX pair deposits go into, with token order and the paired token's metadata
+export interface DepositPair {
+  pairAddress: string;
+  pairedToken: string;
+  pairedSymbol: string;
+  pairedDecimals: number;
+  wavaxIsToken0: boolean;
+}
+
+// Pair reserves and LP supply, WAVAX side first
+export interface PoolState {
+  reserveWAVAX: bigint;
+  reservePaired: bigint;
+  totalSupply: bigint;
+}
+
+// Tokens of a pair with their symbols and decimals
+export interface PairTokens {
+  token0: string;
+  token1: string;
+  symbol0: string;
+  symbol1: string;
+  decimals0: number;
+  decimals1: number;
+}
+
+// An LP mint to the user and the amounts the pair took for it
+interface LpDeposit {
+  blockNumber: number;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+// Deposits found so far for one user and pair, and the last block scanned for them
+interface DepositScan {
+  deposits: LpDeposit[];
+  lastBlock: number;
+}
+
+// A user's LP tokens in one pair and the underlying amounts they redeem for
+export interface LiquidityPosition extends PairTokens {
+  pairAddress: string;
+  lpBalance: bigint;
+  totalSupply: bigint;
+  reserve0: bigint;
+  reserve1: bigint;
+  poolShareBps: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  fees0: bigint | null; // Trading fees earned since deposit; null when no deposit was found
+  fees1: bigint | null;
+  firstDepositBlock: number | null; // Earliest deposit found in the scan window
+}
+
+// Amounts returned for burning `liquidity` LP tokens, with slippage minimums
+export interface RemoveLiquidityPreview {
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  amount0Min: bigint;
+  amount1Min: bigint;
+}
+
+export interface RemoveLiquidityResult {
+  success: boolean;
+  transactionHash?: string;
+  amount0?: bigint; // Amounts the pair paid out, from its Burn event
+  amount1?: bigint;
+  usedPermit?: boolean; // False when the LP tokens had to be approved in a separate transaction
   error?: string;
 }
 
+export interface DepositEstimate extends DepositPair {
+  amountWAVAX: bigint;
+  amountPaired: bigint; // Paired token needed at the current reserve ratio
+  expectedLPTokens: bigint;
+  poolShareBps: bigint; // Share of the pool after the deposit
+  priceImpactBps: bigint; // Move in the pair's mid price caused by the deposit
+  estimatedLPTokens: string; // Formatted for display
+  priceImpact: string; // Percent, formatted for display
+}
+
 export interface TokenBalance {
   balance: string;
   formattedBalance: string;
 }
 
 export class UniswapDepositService {
-  private provider: BrowserProvider | null = null;
+  private provider: ReadProvider | null = null;
   private routerContract: Contract | null = null;
   private wavaxContract: Contract | null = null;
+  private depositPair: Promise<DepositPair> | null = null;
+  private pairTokens: Map<string, Promise<PairTokens>> = new Map();
+  private depositScans: Map<string, Promise<DepositScan>> = new Map();
 
-  constructor(provider?: BrowserProvider) {
+  constructor(provider?: ReadProvider) {
     if (provider) {
       this.setProvider(provider);
     }
   }
 
-  setProvider(provider: BrowserProvider) {
+  setProvider(provider: ReadProvider) {
     this.provider = provider;
     this.routerContract = new Contract(
       UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
@@ -100,6 +432,70 @@ export class UniswapDepositService {
       ERC20_ABI,
       provider
     );
+    this.depositPair = null;
+    this.pairTokens.clear();
+    this.depositScans.clear();
+  }
+
+  // WAVAX/USDC pair resolved through the factory, looked up once per provider
+  getDepositPair(): Promise<DepositPair> {
+    if (!this.provider) {
+      return Promise.reject(new Error('Service not initialized'));
+    }
+    if (!this.depositPair) {
+      const provider = this.provider;
+      const pairedToken = UNISWAP_V2_CONFIG.USDC_ADDRESS;
+      const factory = new Contract(UNISWAP_V2_CONFIG.FACTORY_ADDRESS, UNISWAP_V2_FACTORY_ABI, provider);
+      const paired = new Contract(pairedToken, ERC20_ABI, provider);
+
+      this.depositPair = Promise.all([
+        factory.getPair(UNISWAP_V2_CONFIG.WAVAX_ADDRESS, pairedToken) as Promise<string>,
+        paired.symbol() as Promise<string>,
+        paired.decimals() as Promise<bigint>,
+      ]).then(([pairAddress, pairedSymbol, pairedDecimals]) => {
+        if (pairAddress === ethers.ZeroAddress) {
+          throw new Error(`No WAVAX/${pairedSymbol} pair exists on the factory`);
+        }
+        return {
+          pairAddress,
+          pairedToken,
+          pairedSymbol,
+          pairedDecimals: Number(pairedDecimals),
+          // Pairs order their tokens by address
+          wavaxIsToken0: BigInt(UNISWAP_V2_CONFIG.WAVAX_ADDRESS) < BigInt(pairedToken),
+        };
+      });
+      // Allow a retry if the lookup failed
+      this.depositPair.catch(() => {
+        this.depositPair = null;
+      });
+    }
+    return this.depositPair;
+  }
+
+  // Current reserves and LP supply of the deposit pair
+  async getPoolState(): Promise<PoolState> {
+    const pair = await this.getDepositPair();
+    const pairContract = new Contract(pair.pairAddress, UNISWAP_V2_PAIR_ABI, this.provider);
+    const [[reserve0, reserve1], totalSupply] = await Promise.all([
+      pairContract.getReserves(),
+      pairContract.totalSupply() as Promise<bigint>,
+    ]);
+    return {
+      reserveWAVAX: pair.wavaxIsToken0 ? reserve0 : reserve1,
+      reservePaired: pair.wavaxIsToken0 ? reserve1 : reserve0,
+      totalSupply,
+    };
+  }
+
+  // User's balance of the token WAVAX is paired with
+  async getPairedBalance(userAddress: string): Promise<TokenBalance> {
+    const pair = await this.getDepositPair();
+    const balance: bigint = await new Contract(pair.pairedToken, ERC20_ABI, this.provider).balanceOf(userAddress);
+    return {
+      balance: balance.toString(),
+      formattedBalance: formatTokenAmount(balance, pair.pairedDecimals, 4),
+    };
   }
 
   // Get user's WAVAX balance
@@ -110,11 +506,9 @@ export class UniswapDepositService {
 
     try {
       const balance = await this.wavaxContract.balanceOf(userAddress);
-      const formattedBalance = ethers.formatEther(balance);
-      
       return {
         balance: balance.toString(),
-        formattedBalance: parseFloat(formattedBalance).toFixed(4)
+        formattedBalance: formatTokenAmount(balance, 18, 4)
       };
     } catch (error: any) {
       console.error('Error getting WAVAX balance:', error);
@@ -142,101 +536,153 @@ export class UniswapDepositService {
 
   // Approve WAVAX spending
   async approveWAVAX(amount: string): Promise<string> {
-    if (!this.wavaxContract || !this.provider) {
+    return this.approveToken(UNISWAP_V2_CONFIG.WAVAX_ADDRESS, ethers.parseEther(amount));
+  }
+
+  // Approve the router to spend `amount` of a token
+  async approveToken(tokenAddress: string, amount: bigint): Promise<string> {
+    if (!this.provider) {
       throw new Error('Service not initialized');
     }
 
     try {
-      const signer = await this.provider.getSigner();
-      const contractWithSigner = this.wavaxContract.connect(signer);
-      
-      const amountWei = ethers.parseEther(amount);
-      const tx = await contractWithSigner.approve(
-        UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
-        amountWei
-      );
-      
+      const signer = await getSigner(this.provider);
+      const token = new Contract(tokenAddress, ERC20_ABI, signer);
+      const tx = await token.approve(UNISWAP_V2_CONFIG.ROUTER_ADDRESS, amount);
+
       console.log('Approval transaction sent:', tx.hash);
       await tx.wait();
-      
+
       return tx.hash;
     } catch (error: any) {
-      console.error('Error approving WAVAX:', error);
-      throw new Error(`Failed to approve WAVAX: ${error.message}`);
+      console.error('Error approving token:', error);
+      throw new Error(`Failed to approve token: ${error.message}`);
     }
   }
 
-  // Deposit WAVAX into Uniswap V2 liquidity pool (WAVAX/AVAX pair)
+  // Tokens of a deposit whose router allowance is short
+  async getPendingApprovals(userAddress: string, estimate: DepositEstimate): Promise<string[]> {
+    const required: Array<[string, bigint]> = [
+      [UNISWAP_V2_CONFIG.WAVAX_ADDRESS, estimate.amountWAVAX],
+      [estimate.pairedToken, estimate.amountPaired],
+    ];
+    const allowances = await Promise.all(required.map(([token]) =>
+      new Contract(token, ERC20_ABI, this.provider).allowance(userAddress, UNISWAP_V2_CONFIG.ROUTER_ADDRESS) as Promise<bigint>
+    ));
+    return required
+      .filter(([, amount], i) => allowances[i] < amount)
+      .map(([token]) => token);
+  }
+
+  // Deposit WAVAX with the matching amount of the paired token into the WAVAX/USDC pool
   async depositWAVAX(amount: string, slippageTolerance: number = 2): Promise<DepositResult> {
+    try {
+      // Re-quote against the latest reserves so the minimums track the current price
+      const estimate = await this.getDepositEstimate(amount);
+      return await this.addLiquidity(estimate.amountWAVAX, estimate.amountPaired, slippageTolerance);
+    } catch (error: any) {
+      console.error('Error depositing WAVAX:', error);
+      return {
+        success: false,
+        error: error.shortMessage || error.message || 'Failed to deposit WAVAX'
+      };
+    }
+  }
+
+  // Add up to the given amounts to the WAVAX/USDC pool. The router takes the largest pair of amounts
+  // at the reserve ratio; whatever doesn't fit stays in the wallet.
+  async addLiquidity(
+    amountWAVAXDesired: bigint,
+    amountPairedDesired: bigint,
+    slippageTolerance: number = 2
+  ): Promise<DepositResult> {
     if (!this.routerContract || !this.provider) {
       throw new Error('Service not initialized');
     }
 
     try {
-      const signer = await this.provider.getSigner();
-      const contractWithSigner = this.routerContract.connect(signer);
-      
-      const amountWei = ethers.parseEther(amount);
-      const avaxAmountWei = ethers.parseEther(amount); // 1:1 ratio for simplicity
-      
-      // Calculate minimum amounts with slippage tolerance
-      const slippageMultiplier = (100 - slippageTolerance) / 100;
-      const minTokenAmount = BigInt(Math.floor(Number(amountWei) * slippageMultiplier));
-      const minAVAXAmount = BigInt(Math.floor(Number(avaxAmountWei) * slippageMultiplier));
-      
-      // Set deadline to 20 minutes from now
-      const deadline = Math.floor(Date.now() / 1000) + 1200;
-      
+      const signer = await getSigner(this.provider);
+      const user = await signer.getAddress();
+      const contractWithSigner = this.routerContract.connect(signer) as Contract;
+
+      const [pair, pool] = await Promise.all([this.getDepositPair(), this.getPoolState()]);
+      const [amountWAVAX, amountPaired] = UniswapDepositService.optimalDeposit(
+        amountWAVAXDesired,
+        amountPairedDesired,
+        pool.reserveWAVAX,
+        pool.reservePaired
+      );
+      const slippageBps = BigInt(Math.round(slippageTolerance * 100));
+      const minWAVAX = UniswapDepositService.applySlippage(amountWAVAX, slippageBps);
+      const minPaired = UniswapDepositService.applySlippage(amountPaired, slippageBps);
+      const deadline = Math.floor(Date.now() / 1000) + DEPOSIT_DEADLINE_SECONDS;
+
       console.log('Adding liquidity with params:', {
-        amountTokenDesired: amountWei.toString(),
-        amountTokenMin: minTokenAmount.toString(),
-        amountETHMin: minAVAXAmount.toString(),
+        amountWAVAXDesired: amountWAVAXDesired.toString(),
+        amountPairedDesired: amountPairedDesired.toString(),
+        amountWAVAXMin: minWAVAX.toString(),
+        amountPairedMin: minPaired.toString(),
         deadline
       });
-      
-      const tx = await contractWithSigner.addLiquidityETH(
+
+      const tx = await contractWithSigner.addLiquidity(
         UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
-        amountWei,
-        minTokenAmount,
-        minAVAXAmount,
-        await signer.getAddress(),
-        deadline,
-        { value: avaxAmountWei } // Send AVAX along with the transaction
+        pair.pairedToken,
+        amountWAVAXDesired,
+        amountPairedDesired,
+        minWAVAX,
+        minPaired,
+        user,
+        deadline
       );
-      
+
       console.log('Deposit transaction sent:', tx.hash);
       const receipt = await tx.wait();
-      
-      // Extract liquidity tokens from receipt (simplified)
-      const liquidityTokens = "LP Tokens received"; // In a real implementation, parse from logs
-      
+      const minted = UniswapDepositService.parseMintedLiquidity(receipt.logs, pair, user);
+
       return {
         success: true,
         transactionHash: tx.hash,
-        liquidityTokens,
+        ...minted,
       };
     } catch (error: any) {
-      console.error('Error depositing WAVAX:', error);
+      console.error('Error adding liquidity:', error);
       return {
         success: false,
-        error: error.message || 'Failed to deposit WAVAX'
+        error: error.shortMessage || error.message || 'Failed to add liquidity'
       };
     }
   }
 
-  // Get estimated output for deposit (how much LP tokens user will receive)
-  async getDepositEstimate(wavaxAmount: string): Promise<{
-    estimatedLPTokens: string;
-    priceImpact: string;
-  }> {
+  // Paired amount, LP tokens, pool share and price impact for depositing `wavaxAmount` at current reserves
+  async getDepositEstimate(wavaxAmount: string): Promise<DepositEstimate> {
     try {
-      // Simplified estimation - in a real implementation, you'd query the pool reserves
-      const lpTokensEstimate = (parseFloat(wavaxAmount) * 0.99).toFixed(4); // Rough estimate
-      const priceImpact = "0.1"; // Simplified price impact
-      
+      const amountWAVAX = parseAmount(wavaxAmount, 18);
+      const [pair, pool] = await Promise.all([this.getDepositPair(), this.getPoolState()]);
+      if (pool.reserveWAVAX === ZERO || pool.reservePaired === ZERO) {
+        throw new Error('Pool has no liquidity to price the deposit against');
+      }
+
+      const amountPaired = UniswapDepositService.quote(amountWAVAX, pool.reserveWAVAX, pool.reservePaired);
+      const expectedLPTokens = UniswapDepositService.liquidityMinted(amountWAVAX, amountPaired, pool);
+      const newSupply = pool.totalSupply + expectedLPTokens;
+      const poolShareBps = newSupply > ZERO ? (expectedLPTokens * BPS) / newSupply : ZERO;
+      const priceImpactBps = UniswapDepositService.priceImpactBps(
+        pool.reserveWAVAX,
+        pool.reservePaired,
+        amountWAVAX,
+        amountPaired
+      );
+
       return {
-        estimatedLPTokens: lpTokensEstimate,
-        priceImpact
+        ...pair,
+        amountWAVAX,
+        amountPaired,
+        expectedLPTokens,
+        poolShareBps,
+        priceImpactBps,
+        estimatedLPTokens: formatTokenAmount(expectedLPTokens, 18, 6),
+        priceImpact: formatFixed(priceImpactBps, 2, 2),
       };
     } catch (error: any) {
       console.error('Error getting deposit estimate:', error);
@@ -244,10 +690,432 @@ export class UniswapDepositService {
     }
   }
 
+  // LP tokens minted to `recipient` and the amounts the pair took, from a deposit receipt's logs
+  static parseMintedLiquidity(
+    logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>,
+    pair: DepositPair,
+    recipient: string
+  ): { liquidityTokens?: bigint; amountWAVAX?: bigint; amountPaired?: bigint } {
+    const minted: { liquidityTokens?: bigint; amountWAVAX?: bigint; amountPaired?: bigint } = {};
+
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== pair.pairAddress.toLowerCase()) continue;
+      const parsed = pairInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      if (
+        parsed.name === 'Transfer' &&
+        parsed.args.from === ethers.ZeroAddress &&
+        parsed.args.to.toLowerCase() === recipient.toLowerCase()
+      ) {
+        const value: bigint = parsed.args.value;
+        minted.liquidityTokens = (minted.liquidityTokens ?? ZERO) + value;
+      } else if (parsed.name === 'Mint') {
+        const amount0: bigint = parsed.args.amount0;
+        const amount1: bigint = parsed.args.amount1;
+        minted.amountWAVAX = pair.wavaxIsToken0 ? amount0 : amount1;
+        minted.amountPaired = pair.wavaxIsToken0 ? amount1 : amount0;
+      }
+    }
+
+    return minted;
+  }
+
+  // Amount of B worth `amountA` at the reserve ratio, rounded down like UniswapV2Library.quote
+  static quote(amountA: bigint, reserveA: bigint, reserveB: bigint): bigint {
+    if (reserveA === ZERO) return ZERO;
+    return (amountA * reserveB) / reserveA;
+  }
+
+  // Amounts the router deposits out of the desired ones, as in UniswapV2Router02._addLiquidity:
+  // all of A with its quote in B if that fits, otherwise all of B with its quote in A
+  static optimalDeposit(amountADesired: bigint, amountBDesired: bigint, reserveA: bigint, reserveB: bigint): [bigint, bigint] {
+    if (reserveA === ZERO && reserveB === ZERO) return [amountADesired, amountBDesired];
+    const amountBOptimal = UniswapDepositService.quote(amountADesired, reserveA, reserveB);
+    if (amountBOptimal <= amountBDesired) return [amountADesired, amountBOptimal];
+    return [UniswapDepositService.quote(amountBDesired, reserveB, reserveA), amountBDesired];
+  }
+
+  // LP tokens the pair mints for a deposit, as in UniswapV2Pair.mint
+  static liquidityMinted(amountWAVAX: bigint, amountPaired: bigint, pool: PoolState): bigint {
+    if (pool.totalSupply === ZERO) {
+      const liquidity = sqrt(amountWAVAX * amountPaired) - MINIMUM_LIQUIDITY;
+      return liquidity > ZERO ? liquidity : ZERO;
+    }
+    const fromWAVAX = (amountWAVAX * pool.totalSupply) / pool.reserveWAVAX;
+    const fromPaired = (amountPaired * pool.totalSupply) / pool.reservePaired;
+    return fromWAVAX < fromPaired ? fromWAVAX : fromPaired;
+  }
+
+  // Relative move (bps) in the B-per-A mid price when amountA and amountB are added to the reserves.
+  // A deposit at the reserve ratio only moves it by rounding.
+  static priceImpactBps(reserveA: bigint, reserveB: bigint, amountA: bigint, amountB: bigint): bigint {
+    if (reserveA === ZERO || reserveB === ZERO) return ZERO;
+    const before = reserveB * (reserveA + amountA);
+    const after = (reserveB + amountB) * reserveA;
+    const delta = after > before ? after - before : before - after;
+    return (delta * BPS) / before;
+  }
+
+  // Minimum amount accepted after `slippageBps` of adverse movement
+  static applySlippage(amount: bigint, slippageBps: bigint): bigint {
+    return (amount * (BPS - slippageBps)) / BPS;
+  }
+
+  // LP positions the user holds in the tracked pairs
+  async getLiquidityPositions(userAddress: string): Promise<LiquidityPosition[]> {
+    if (!this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    const factory = new Contract(UNISWAP_V2_CONFIG.FACTORY_ADDRESS, UNISWAP_V2_FACTORY_ABI, this.provider);
+    const pairAddresses: string[] = await Promise.all(
+      UNISWAP_V2_CONFIG.TRACKED_PAIRS.map(([tokenA, tokenB]) => factory.getPair(tokenA, tokenB))
+    );
+
+    const positions = await Promise.all(
+      pairAddresses
+        .filter(pairAddress => pairAddress !== ethers.ZeroAddress)
+        .map(pairAddress => this.getLiquidityPosition(userAddress, pairAddress))
+    );
+    return positions.filter((position): position is LiquidityPosition => position !== null);
+  }
+
+  // LP balance in one pair valued through its reserves, or null when the user holds none
+  async getLiquidityPosition(userAddress: string, pairAddress: string): Promise<LiquidityPosition | null> {
+    return this.readPosition(userAddress, pairAddress, true);
+  }
+
+  // Position from the pair's reserves; the deposit scan behind the fee split only runs when asked for
+  private async readPosition(
+    userAddress: string,
+    pairAddress: string,
+    withFees: boolean
+  ): Promise<LiquidityPosition | null> {
+    const pair = new Contract(pairAddress, UNISWAP_V2_PAIR_ABI, this.provider);
+    const lp = new Contract(pairAddress, ERC20_ABI, this.provider);
+    const [lpBalance, [reserve0, reserve1], totalSupply, tokens] = await Promise.all([
+      lp.balanceOf(userAddress) as Promise<bigint>,
+      pair.getReserves(),
+      pair.totalSupply() as Promise<bigint>,
+      this.getPairTokens(pairAddress),
+    ]);
+    if (lpBalance === ZERO || totalSupply === ZERO) return null;
+
+    const amount0 = (lpBalance * reserve0) / totalSupply;
+    const amount1 = (lpBalance * reserve1) / totalSupply;
+
+    // Fees grow sqrt(k) per LP token; the share of that growth since deposit is the fee part of the position
+    const deposits = !withFees ? [] : await this.findDeposits(userAddress, pairAddress).catch(error => {
+      console.warn('Could not load LP deposits:', error);
+      return [];
+    });
+    const feeShare = !withFees ? null : UniswapDepositService.feeShare(
+      UniswapDepositService.entryGrowth(deposits),
+      UniswapDepositService.liquidityGrowth(reserve0, reserve1, totalSupply)
+    );
+
+    return {
+      ...tokens,
+      pairAddress,
+      lpBalance,
+      totalSupply,
+      reserve0,
+      reserve1,
+      poolShareBps: (lpBalance * BPS) / totalSupply,
+      amount0,
+      amount1,
+      fees0: feeShare === null ? null : (amount0 * feeShare) / WAD,
+      fees1: feeShare === null ? null : (amount1 * feeShare) / WAD,
+      firstDepositBlock: deposits.length > 0 ? deposits[0].blockNumber : null,
+    };
+  }
+
+  // Burn LP tokens for the underlying pair tokens (or AVAX for the WAVAX side), with a permit
+  // signature instead of a separate approval when the pair supports the standard V2 domain
+  async removeLiquidity(
+    pairAddress: string,
+    liquidity: bigint,
+    slippageTolerance: number = 2,
+    receiveNative: boolean = false
+  ): Promise<RemoveLiquidityResult> {
+    if (!this.routerContract || !this.provider) {
+      throw new Error('Service not initialized');
+    }
+
+    try {
+      const signer = await getSigner(this.provider);
+      const user = await signer.getAddress();
+      const router = this.routerContract.connect(signer) as Contract;
+
+      // Re-read the position so the minimums track the current reserves
+      const position = await this.readPosition(user, pairAddress, false);
+      if (!position) {
+        throw new Error('No LP tokens to withdraw');
+      }
+      if (liquidity <= ZERO || liquidity > position.lpBalance) {
+        throw new Error('Amount exceeds LP balance');
+      }
+
+      const slippageBps = BigInt(Math.round(slippageTolerance * 100));
+      const preview = UniswapDepositService.previewRemoveLiquidity(position, liquidity, slippageBps);
+      const deadline = Math.floor(Date.now() / 1000) + DEPOSIT_DEADLINE_SECONDS;
+
+      const permit = await this.signPermit(signer, pairAddress, liquidity, deadline);
+      if (!permit) {
+        await this.approveLiquidity(signer, pairAddress, liquidity);
+      }
+
+      const wavax = UNISWAP_V2_CONFIG.WAVAX_ADDRESS.toLowerCase();
+      let tx;
+      if (receiveNative) {
+        const wavaxIsToken0 = position.token0.toLowerCase() === wavax;
+        if (!wavaxIsToken0 && position.token1.toLowerCase() !== wavax) {
+          throw new Error('AVAX can only be received from WAVAX pairs');
+        }
+        const token = wavaxIsToken0 ? position.token1 : position.token0;
+        const amountTokenMin = wavaxIsToken0 ? preview.amount1Min : preview.amount0Min;
+        const amountAVAXMin = wavaxIsToken0 ? preview.amount0Min : preview.amount1Min;
+        tx = permit
+          ? await router.removeLiquidityAVAXWithPermit(
+              token, liquidity, amountTokenMin, amountAVAXMin, user, deadline, false, permit.v, permit.r, permit.s
+            )
+          : await router.removeLiquidityAVAX(token, liquidity, amountTokenMin, amountAVAXMin, user, deadline);
+      } else {
+        tx = permit
+          ? await router.removeLiquidityWithPermit(
+              position.token0, position.token1, liquidity, preview.amount0Min, preview.amount1Min,
+              user, deadline, false, permit.v, permit.r, permit.s
+            )
+          : await router.removeLiquidity(
+              position.token0, position.token1, liquidity, preview.amount0Min, preview.amount1Min, user, deadline
+            );
+      }
+
+      console.log('Remove liquidity transaction sent:', tx.hash);
+      const receipt = await tx.wait();
+
+      return {
+        success: true,
+        transactionHash: tx.hash,
+        ...UniswapDepositService.parseBurnedAmounts(receipt.logs, pairAddress),
+        usedPermit: !!permit,
+      };
+    } catch (error: any) {
+      console.error('Error removing liquidity:', error);
+      return {
+        success: false,
+        error: error.shortMessage || error.message || 'Failed to remove liquidity'
+      };
+    }
+  }
+
+  private getPairTokens(pairAddress: string): Promise<PairTokens> {
+    const key = pairAddress.toLowerCase();
+    let tokens = this.pairTokens.get(key);
+    if (!tokens) {
+      const provider = this.provider;
+      const pair = new Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+      tokens = Promise.all([pair.token0() as Promise<string>, pair.token1() as Promise<string>])
+        .then(async ([token0, token1]) => {
+          const erc0 = new Contract(token0, ERC20_ABI, provider);
+          const erc1 = new Contract(token1, ERC20_ABI, provider);
+          const [symbol0, symbol1, decimals0, decimals1] = await Promise.all([
+            erc0.symbol() as Promise<string>,
+            erc1.symbol() as Promise<string>,
+            erc0.decimals() as Promise<bigint>,
+            erc1.decimals() as Promise<bigint>,
+          ]);
+          return { token0, token1, symbol0, symbol1, decimals0: Number(decimals0), decimals1: Number(decimals1) };
+        });
+      tokens.catch(() => this.pairTokens.delete(key));
+      this.pairTokens.set(key, tokens);
+    }
+    return tokens;
+  }
+
+  // The user's LP mints in the scan window, oldest first, with the amounts each deposited. Found
+  // deposits are kept per user and pair, so later calls only scan blocks added since
+  private findDeposits(userAddress: string, pairAddress: string): Promise<LpDeposit[]> {
+    const key = `${userAddress.toLowerCase()}:${pairAddress.toLowerCase()}`;
+    const previous = (this.depositScans.get(key) ?? Promise.resolve(null)).catch(() => null);
+    const scan = previous.then(async (cached): Promise<DepositScan> => {
+      const latest = await this.provider!.getBlockNumber();
+      const fromBlock = cached
+        ? cached.lastBlock + 1
+        : Math.max(0, latest - UNISWAP_V2_CONFIG.MINT_SCAN_BLOCKS + 1);
+      const found = await this.scanDeposits(userAddress, pairAddress, fromBlock, latest);
+      return {
+        deposits: cached ? [...cached.deposits, ...found] : found,
+        lastBlock: Math.max(latest, cached?.lastBlock ?? latest),
+      };
+    });
+    // A failed scan is retried from scratch next time
+    scan.catch(() => {
+      if (this.depositScans.get(key) === scan) this.depositScans.delete(key);
+    });
+    this.depositScans.set(key, scan);
+    return scan.then(result => result.deposits);
+  }
+
+  // LP mints to the user between two blocks, read in parallel chunks
+  private async scanDeposits(
+    userAddress: string,
+    pairAddress: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<LpDeposit[]> {
+    if (fromBlock > toBlock) return [];
+
+    const provider = this.provider!;
+    const topics = [
+      pairInterface.getEvent('Transfer')!.topicHash,
+      zeroPadValue(ethers.ZeroAddress, 32),
+      zeroPadValue(userAddress, 32),
+    ];
+
+    const chunks: Array<{ start: number; end: number }> = [];
+    for (let start = fromBlock; start <= toBlock; start += UNISWAP_V2_CONFIG.LOG_CHUNK_SIZE) {
+      chunks.push({ start, end: Math.min(toBlock, start + UNISWAP_V2_CONFIG.LOG_CHUNK_SIZE - 1) });
+    }
+
+    const mints: Log[] = [];
+    for (let i = 0; i < chunks.length; i += UNISWAP_V2_CONFIG.PARALLEL_CHUNKS) {
+      const batch = await Promise.all(chunks.slice(i, i + UNISWAP_V2_CONFIG.PARALLEL_CHUNKS).map(({ start, end }) =>
+        provider.getLogs({ address: pairAddress, topics, fromBlock: start, toBlock: end })
+      ));
+      batch.forEach(chunkLogs => mints.push(...chunkLogs));
+    }
+
+    const deposits = await Promise.all(mints.map(async (log): Promise<LpDeposit | null> => {
+      const receipt = await provider.getTransactionReceipt(log.transactionHash);
+      const mintTopic = pairInterface.getEvent('Mint')!.topicHash;
+      const mintLog = receipt?.logs.find(
+        entry => entry.address.toLowerCase() === pairAddress.toLowerCase() && entry.topics[0] === mintTopic
+      );
+      const transfer = pairInterface.parseLog(log);
+      const mint = mintLog ? pairInterface.parseLog(mintLog) : null;
+      if (!transfer || !mint) return null;
+
+      return {
+        blockNumber: log.blockNumber,
+        liquidity: transfer.args.value as bigint,
+        amount0: mint.args.amount0 as bigint,
+        amount1: mint.args.amount1 as bigint,
+      };
+    }));
+
+    return deposits.filter((deposit): deposit is LpDeposit => deposit !== null);
+  }
+
+  // EIP-2612 permit for the router, or null when the pair's domain separator isn't the standard V2 one
+  private async signPermit(
+    signer: ethers.Signer,
+    pairAddress: string,
+    value: bigint,
+    deadline: number
+  ): Promise<ethers.Signature | null> {
+    const owner = await signer.getAddress();
+    const pair = new Contract(pairAddress, UNISWAP_V2_PAIR_ABI, signer);
+
+    let domain: ethers.TypedDataDomain;
+    let nonce: bigint;
+    try {
+      const [name, pairNonce, domainSeparator, network] = await Promise.all([
+        pair.name() as Promise<string>,
+        pair.nonces(owner) as Promise<bigint>,
+        pair.DOMAIN_SEPARATOR() as Promise<string>,
+        signer.provider!.getNetwork(),
+      ]);
+      domain = { name, version: '1', chainId: network.chainId, verifyingContract: pairAddress };
+      if (ethers.TypedDataEncoder.hashDomain(domain) !== domainSeparator) return null;
+      nonce = pairNonce;
+    } catch (error) {
+      console.warn('LP permit unavailable, falling back to approve:', error);
+      return null;
+    }
+
+    const signature = await signer.signTypedData(domain, PERMIT_TYPES, {
+      owner,
+      spender: UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+      value,
+      nonce,
+      deadline,
+    });
+    return ethers.Signature.from(signature);
+  }
+
+  // Approve the router for LP tokens when the allowance is short
+  private async approveLiquidity(signer: ethers.Signer, pairAddress: string, liquidity: bigint) {
+    const lp = new Contract(pairAddress, ERC20_ABI, signer);
+    const allowance: bigint = await lp.allowance(await signer.getAddress(), UNISWAP_V2_CONFIG.ROUTER_ADDRESS);
+    if (allowance >= liquidity) return;
+
+    const tx = await lp.approve(UNISWAP_V2_CONFIG.ROUTER_ADDRESS, liquidity);
+    console.log('LP approval transaction sent:', tx.hash);
+    await tx.wait();
+  }
+
+  // Underlying amounts for burning `liquidity` at the position's reserves, and their slippage minimums
+  static previewRemoveLiquidity(
+    position: LiquidityPosition,
+    liquidity: bigint,
+    slippageBps: bigint
+  ): RemoveLiquidityPreview {
+    const amount0 = position.totalSupply > ZERO ? (liquidity * position.reserve0) / position.totalSupply : ZERO;
+    const amount1 = position.totalSupply > ZERO ? (liquidity * position.reserve1) / position.totalSupply : ZERO;
+    return {
+      liquidity,
+      amount0,
+      amount1,
+      amount0Min: UniswapDepositService.applySlippage(amount0, slippageBps),
+      amount1Min: UniswapDepositService.applySlippage(amount1, slippageBps),
+    };
+  }
+
+  // Amounts paid out by the pair, from a withdrawal receipt's Burn event
+  static parseBurnedAmounts(
+    logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>,
+    pairAddress: string
+  ): { amount0?: bigint; amount1?: bigint } {
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== pairAddress.toLowerCase()) continue;
+      const parsed = pairInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === 'Burn') {
+        return { amount0: parsed.args.amount0, amount1: parsed.args.amount1 };
+      }
+    }
+    return {};
+  }
+
+  // sqrt(k) per LP token (WAD), which only grows through trading fees
+  static liquidityGrowth(reserve0: bigint, reserve1: bigint, totalSupply: bigint): bigint {
+    if (totalSupply === ZERO) return ZERO;
+    return (sqrt(reserve0 * reserve1) * WAD) / totalSupply;
+  }
+
+  // LP-weighted sqrt(k) per LP token at the user's deposits; each mint's amounts are in the reserve ratio,
+  // so sqrt(amount0 * amount1) / liquidity equals the pool's growth at that block
+  static entryGrowth(deposits: Array<{ liquidity: bigint; amount0: bigint; amount1: bigint }>): bigint | null {
+    let liquidity = ZERO;
+    let rootK = ZERO;
+    for (const deposit of deposits) {
+      liquidity += deposit.liquidity;
+      rootK += sqrt(deposit.amount0 * deposit.amount1);
+    }
+    return liquidity > ZERO ? (rootK * WAD) / liquidity : null;
+  }
+
+  // Fraction (WAD) of a position that is fees earned since entry
+  static feeShare(entryGrowth: bigint | null, currentGrowth: bigint): bigint | null {
+    if (entryGrowth === null || currentGrowth === ZERO) return null;
+    if (currentGrowth <= entryGrowth) return ZERO;
+    return ((currentGrowth - entryGrowth) * WAD) / currentGrowth;
+  }
+
   // Utility function to format token amounts
   static formatTokenAmount(amount: bigint, decimals: number = 18): string {
-    const formatted = ethers.formatUnits(amount, decimals);
-    return parseFloat(formatted).toFixed(4);
+    return formatTokenAmount(amount, decimals, 4);
   }
 }
 
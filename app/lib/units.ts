@@ -0,0 +1,177 @@
+import { formatUnits, parseUnits } from 'ethers';
+
+// Fixed-point constants shared with the contracts (see YieldMath.sol)
+export const WAD = BigInt(10) ** BigInt(18);
+export const RAY = BigInt(10) ** BigInt(27);
+export const BPS = BigInt(10000);
+export const MAX_REASONABLE_APY_BPS = BigInt(50000); // 500%
+
+// USD values are carried as 18-decimal fixed point
+export const USD_DECIMALS = 18;
+
+const ZERO = BigInt(0);
+const pow10 = (exponent: number): bigint => BigInt(10) ** BigInt(exponent);
+
+const COMPACT_UNITS: Array<{ exponent: number; suffix: string }> = [
+  { exponent: 9, suffix: 'B' },
+  { exponent: 6, suffix: 'M' },
+  { exponent: 3, suffix: 'K' },
+];
+
+// ---- Amounts ----
+
+// Parse a human-readable amount ("1.5") into token base units
+export const parseAmount = (value: string, decimals: number = 18): bigint => {
+  return parseUnits(value, decimals);
+};
+
+// Exact decimal string for a token amount
+export const toDecimalString = (amount: bigint, decimals: number = 18): string => {
+  return formatUnits(amount, decimals);
+};
+
+// Move an amount between decimal bases, truncating when scaling down
+export const scaleDecimals = (amount: bigint, fromDecimals: number, toDecimals: number): bigint => {
+  if (fromDecimals === toDecimals) return amount;
+  return fromDecimals < toDecimals
+    ? amount * pow10(toDecimals - fromDecimals)
+    : amount / pow10(fromDecimals - toDecimals);
+};
+
+// Convert a JS number (e.g. a float price or dollar amount) into fixed point
+export const numberToFixed = (value: number, decimals: number = USD_DECIMALS): bigint => {
+  if (!Number.isFinite(value)) return ZERO;
+  // toFixed caps at 100 digits; 12 places is well past float precision
+  const places = Math.min(decimals, 12);
+  return scaleDecimals(parseUnits(value.toFixed(places), places), places, decimals);
+};
+
+// Convert fixed point back to a JS number, only for charts and sorting
+export const fixedToNumber = (value: bigint, decimals: number = USD_DECIMALS): number => {
+  return Number(formatUnits(value, decimals));
+};
+
+// ---- Rates ----
+
+// Aave ray rate to basis points, identical to YieldMath.aaveRayToBps (floor, then clamp)
+export const rayToBps = (rayRate: bigint): bigint => {
+  if (rayRate === ZERO) return ZERO;
+  const apyBps = (rayRate * BPS) / RAY;
+  return apyBps > MAX_REASONABLE_APY_BPS ? MAX_REASONABLE_APY_BPS : apyBps;
+};
+
+// Basis points to ray, the inverse used when feeding rates back into ray math
+export const bpsToRay = (apyBps: bigint): bigint => (apyBps * RAY) / BPS;
+
+// Ray multiplication and division, rounding half up like Aave's WadRayMath
+export const rayMul = (a: bigint, b: bigint): bigint => (a * b + RAY / BigInt(2)) / RAY;
+
+export const rayDiv = (a: bigint, b: bigint): bigint => (a * RAY + b / BigInt(2)) / b;
+
+// Wad multiplication truncating like Compound's mul_ScalarTruncate (qiToken amount times exchange rate)
+export const wadMulDown = (a: bigint, b: bigint): bigint => (a * b) / WAD;
+
+// Integer square root (floor), as used by Uniswap V2 for the first LP mint
+export const sqrt = (value: bigint): bigint => {
+  if (value < BigInt(2)) return value;
+  let x = value;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / BigInt(2);
+  }
+  return x;
+};
+
+// Basis points to a percentage number (750 -> 7.5)
+export const bpsToPercent = (apyBps: bigint | number | string): number => {
+  return fixedToNumber(BigInt(apyBps), 2);
+};
+
+// ---- USD valuation ----
+
+// USD value (18 decimals) of a token amount at the given price
+export const toUSD = (amount: bigint, decimals: number, priceUSD: number | bigint): bigint => {
+  const priceWad = typeof priceUSD === 'bigint' ? priceUSD : numberToFixed(priceUSD, USD_DECIMALS);
+  return (amount * priceWad) / pow10(decimals);
+};
+
+// ---- Formatting ----
+
+// Fixed-point value as a decimal string, rounded half up to `fractionDigits`
+export const formatFixed = (value: bigint, decimals: number, fractionDigits: number = 2): string => {
+  const negative = value < ZERO;
+  const abs = negative ? -value : value;
+
+  let rounded: bigint;
+  if (decimals > fractionDigits) {
+    const step = pow10(decimals - fractionDigits);
+    rounded = (abs + step / BigInt(2)) / step;
+  } else {
+    rounded = abs * pow10(fractionDigits - decimals);
+  }
+
+  const base = pow10(fractionDigits);
+  const whole = (rounded / base).toString();
+  const fraction = fractionDigits > 0
+    ? '.' + (rounded % base).toString().padStart(fractionDigits, '0')
+    : '';
+
+  return `${negative && rounded > ZERO ? '-' : ''}${whole}${fraction}`;
+};
+
+export interface CompactFormatOptions {
+  prefix?: string;
+  fractionDigits?: number;
+}
+
+// Compact K/M/B formatting without going through floating point
+export const formatCompact = (
+  value: bigint,
+  decimals: number = 18,
+  { prefix = '', fractionDigits = 2 }: CompactFormatOptions = {}
+): string => {
+  const abs = value < ZERO ? -value : value;
+  const sign = value < ZERO ? '-' : '';
+
+  for (const { exponent, suffix } of COMPACT_UNITS) {
+    if (abs >= pow10(decimals + exponent)) {
+      return `${sign}${prefix}${formatFixed(abs, decimals + exponent, fractionDigits)}${suffix}`;
+    }
+  }
+  return `${sign}${prefix}${formatFixed(abs, decimals, fractionDigits)}`;
+};
+
+// Compact dollar amount from an 18-decimal USD value
+export const formatUSD = (usdValue: bigint, fractionDigits: number = 2): string => {
+  return formatCompact(usdValue, USD_DECIMALS, { prefix: '$', fractionDigits });
+};
+
+// Token amount with a fixed number of decimals
+export const formatTokenAmount = (amount: bigint, decimals: number = 18, fractionDigits: number = 4): string => {
+  return formatFixed(amount, decimals, fractionDigits);
+};
+
+// Basis points as a percentage string (750 -> "7.50%")
+export const formatBps = (apyBps: bigint | number | string, fractionDigits: number = 2): string => {
+  return `${formatFixed(BigInt(apyBps), 2, fractionDigits)}%`;
+};
+
+// Percentage number as a string, optionally signed ("+1.25%")
+export const formatPercent = (percent: number, fractionDigits: number = 2, signed: boolean = false): string => {
+  const formatted = formatFixed(numberToFixed(percent), USD_DECIMALS, fractionDigits);
+  return `${signed && percent >= 0 ? '+' : ''}${formatted}%`;
+};
+
+// Token amount valued in USD when a price is known, otherwise shown in token units
+export const formatTokenValue = (
+  amount: bigint,
+  decimals: number = 18,
+  priceUSD?: number,
+  fractionDigits: number = 2
+): string => {
+  if (priceUSD === undefined) {
+    return formatCompact(amount, decimals, { fractionDigits });
+  }
+  return formatUSD(toUSD(amount, decimals, priceUSD), fractionDigits);
+};
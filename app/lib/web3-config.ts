@@ -1,4 +1,6 @@
 // Web3 Configuration for Fuji Testnet Integration
+import { formatBps, formatTokenValue } from './units';
+
 export const FUJI_TESTNET_CONFIG = {
   chainId: '0xA869', // 43113 in hex
   chainName: 'Avalanche Fuji Testnet',
@@ -11,14 +13,27 @@ export const FUJI_TESTNET_CONFIG = {
   blockExplorerUrls: ['https://testnet.snowtrace.io/'],
 };
 
+// How markets and opportunities on the configured chain are labeled
+export const NETWORK_NAME = FUJI_TESTNET_CONFIG.chainName;
+
 // Contract Configuration
 export const CONTRACT_CONFIG = {
   YIELD_HUB_ADDRESS: '0x15855D3E2fbC21694e65469Cc824eC61c2B62b27',
+  // Block YieldHub was deployed in, printed by contracts/scripts/scripts/deploy.ts; event scans never start
+  // earlier. With 0, the first scan starts at the oldest day the charts show.
+  YIELD_HUB_DEPLOY_BLOCK: 0,
   TELEPORTER_MESSENGER: '0x253b2784c75e510dD0fF1da844684a1aC0aa5fcf',
+  MULTICALL3_ADDRESS: '0xcA11bde05977b3631167028862bE2a173976CA11', // Multicall3 (same address on every chain)
   // Aave V3 Integration
   AAVE_ADAPTER_ADDRESS: '0x0000000000000000000000000000000000000000', // TODO: Deploy AaveV3Adapter
   AAVE_ADDRESSES_PROVIDER: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb', // Aave V3 on Fuji
   AAVE_DATA_PROVIDER: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654', // Aave V3 Data Provider on Fuji
+  // Block the Aave V3 Fuji market was deployed in; balance scans never start earlier
+  AAVE_DEPLOY_BLOCK: 0,
+  // Benqi has no Fuji deployment; contracts/scripts/deploy-benqi-mocks.ts deploys mock markets and prints
+  // the Comptroller to set here. The zero address leaves Benqi out of the optimizer and yield tables.
+  BENQI_COMPTROLLER_ADDRESS: '0x0000000000000000000000000000000000000000',
+  AAVE_WETH_GATEWAY: '0x8A007E495449ffeda4C2d65f14eE31f8Bcb022CF', // Aave V3 WrappedTokenGatewayV3 on Fuji
   // Supported tokens on Fuji testnet (from contract)
   TOKENS: {
     WAVAX: '0xd00ae08403B9bbb9124bB305C09058E32C39A48c', // WAVAX - supported
@@ -84,6 +99,13 @@ export const YIELDHUB_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [{"internalType": "address", "name": "_token", "type": "address"}],
+    "name": "getTokenDecimals",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
   {
     "inputs": [{"internalType": "uint256", "name": "timestamp", "type": "uint256"}],
     "name": "isDataFresh",
@@ -91,7 +113,59 @@ export const YIELDHUB_ABI = [
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [],
+    "name": "dataFreshness",
+    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [{"internalType": "bytes32", "name": "_requestId", "type": "bytes32"}],
+    "name": "getRequestStatus",
+    "outputs": [{
+      "components": [
+        {"internalType": "address", "name": "token", "type": "address"},
+        {"internalType": "address", "name": "requester", "type": "address"},
+        {"internalType": "uint256", "name": "timestamp", "type": "uint256"},
+        {"internalType": "enum DataTypes.RequestStatus", "name": "status", "type": "uint8"}
+      ],
+      "internalType": "struct DataTypes.RequestInfo",
+      "name": "",
+      "type": "tuple"
+    }],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "emergencyMode",
+    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "destChainId",
+    "outputs": [{"internalType": "bytes32", "name": "", "type": "bytes32"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "destReceiver",
+    "outputs": [{"internalType": "address", "name": "", "type": "address"}],
+    "stateMutability": "view",
+    "type": "function"
+  },
   // State-changing functions for data updates
+  {
+    "inputs": [{"internalType": "address", "name": "_token", "type": "address"}],
+    "name": "requestSubnetYield",
+    "outputs": [{"internalType": "bytes32", "name": "requestId", "type": "bytes32"}],
+    "stateMutability": "payable",
+    "type": "function"
+  },
   {
     "inputs": [{"internalType": "address", "name": "_token", "type": "address"}],
     "name": "updateAaveData",
@@ -105,70 +179,96 @@ export const YIELDHUB_ABI = [
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
-  }
-] as const;
-
-// Token metadata for display
-export const TOKEN_INFO = {
-  [CONTRACT_CONFIG.TOKENS.WAVAX]: {
-    symbol: 'WAVAX',
-    name: 'Wrapped AVAX',
-    decimals: 18,
-    icon: '🏔️',
   },
-  [CONTRACT_CONFIG.TOKENS.WETH]: {
-    symbol: 'WETH',
-    name: 'Wrapped Ether',
-    decimals: 18,
-    icon: '🔗',
-  },
-  [CONTRACT_CONFIG.TOKENS.USDT]: {
-    symbol: 'USDT',
-    name: 'Tether USD',
-    decimals: 6,
-    icon: '💵',
-  },
-  [CONTRACT_CONFIG.TOKENS.USDC_E]: {
-    symbol: 'USDC.e',
-    name: 'Bridged USDC',
-    decimals: 6,
-    icon: '🔵',
-  },
-  [CONTRACT_CONFIG.TOKENS.DAI]: {
-    symbol: 'DAI',
-    name: 'Dai Stablecoin',
-    decimals: 18,
-    icon: '🟡',
+  // Events
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "token", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "apyBps", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "tvl", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "liquidityIndex", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "timestamp", "type": "uint256"}
+    ],
+    "name": "AaveUpdated",
+    "type": "event"
   },
-  [CONTRACT_CONFIG.TOKENS.LINK]: {
-    symbol: 'LINK',
-    name: 'Chainlink Token',
-    decimals: 18,
-    icon: '🔗',
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "bytes32", "name": "requestId", "type": "bytes32"},
+      {"indexed": true, "internalType": "address", "name": "token", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "requester", "type": "address"},
+      {"indexed": false, "internalType": "bytes32", "name": "destChainId", "type": "bytes32"},
+      {"indexed": false, "internalType": "address", "name": "destReceiver", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "timestamp", "type": "uint256"}
+    ],
+    "name": "SubnetRequest",
+    "type": "event"
   },
-} as const;
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "bytes32", "name": "requestId", "type": "bytes32"},
+      {"indexed": true, "internalType": "address", "name": "token", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "apyBps", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "tvl", "type": "uint256"},
+      {"indexed": false, "internalType": "bytes32", "name": "protocol", "type": "bytes32"},
+      {"indexed": false, "internalType": "uint256", "name": "timestamp", "type": "uint256"}
+    ],
+    "name": "SubnetResponse",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "token", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "decimals", "type": "uint256"}
+    ],
+    "name": "TokenAdded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "token", "type": "address"}
+    ],
+    "name": "TokenRemoved",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": false, "internalType": "bool", "name": "enabled", "type": "bool"}
+    ],
+    "name": "EmergencyModeToggled",
+    "type": "event"
+  }
+] as const;
 
 // Utility functions
 export const formatAPY = (apyBps: bigint | string | number): string => {
-  const bps = typeof apyBps === 'bigint' ? apyBps : BigInt(apyBps);
-  return (Number(bps) / 100).toFixed(2) + '%';
+  return formatBps(apyBps);
 };
 
-export const formatTVL = (tvl: bigint | string | number): string => {
-  const tvlNum = typeof tvl === 'bigint' ? Number(tvl) : Number(tvl);
-  const formatted = tvlNum / 1e18; // Assuming 18 decimals
-  
-  if (formatted >= 1e9) {
-    return `$${(formatted / 1e9).toFixed(2)}B`;
-  } else if (formatted >= 1e6) {
-    return `$${(formatted / 1e6).toFixed(2)}M`;
-  } else if (formatted >= 1e3) {
-    return `$${(formatted / 1e3).toFixed(2)}K`;
-  } else {
-    return `$${formatted.toFixed(2)}`;
-  }
+// TVL arrives as an integer amount of the token's base units (a bigint or its decimal string);
+// with an oracle price it is shown in USD, otherwise in token units
+export const formatTVL = (
+  tvl: bigint | string,
+  priceUSD?: number,
+  decimals: number = 18
+): string => {
+  return formatTokenValue(BigInt(tvl), decimals, priceUSD);
 };
 
 export const isAddressEqual = (addr1: string, addr2: string): boolean => {
   return addr1.toLowerCase() === addr2.toLowerCase();
-};
\ No newline at end of file
+};
+// Snowtrace links for transactions and addresses
+export const getExplorerTxUrl = (txHash: string): string => {
+  return `${FUJI_TESTNET_CONFIG.blockExplorerUrls[0]}tx/${txHash}`;
+};
+
+export const getExplorerAddressUrl = (address: string): string => {
+  return `${FUJI_TESTNET_CONFIG.blockExplorerUrls[0]}address/${address}`;
+};
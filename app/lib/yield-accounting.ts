@@ -0,0 +1,561 @@
+import { Interface, Log, zeroPadValue } from 'ethers';
+import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider } from './providers';
+import AaveService, { ReserveIndexes, UserReservePosition } from './aave-service';
+import { getYieldHistory } from './yield-history';
+import { getTokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import { fixedToNumber, rayDiv, rayMul, toUSD } from './units';
+
+// Earned-yield accounting configuration
+export const ACCOUNTING_CONFIG = {
+  STORAGE_PREFIX: 'yieldscout-ledger',
+  // Nothing before the Aave V3 deployment is scanned
+  SCAN_FROM_BLOCK: CONTRACT_CONFIG.AAVE_DEPLOY_BLOCK,
+  // Never scan further than this behind head (~30 days of Fuji blocks); older
+  // balances are carried in as an opening position
+  MAX_SCAN_BLOCKS: 1300000,
+  LOG_CHUNK_SIZE: 2048,
+  // Chunks whose getLogs calls are in flight at once
+  PARALLEL_CHUNKS: 8,
+  // Entries newer than this many blocks are re-read on every sync instead of stored
+  CONFIRMATIONS: 12,
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const ZERO = BigInt(0);
+
+// Aave V3 scaled balance token events (aTokens and variable debt tokens)
+const SCALED_TOKEN_EVENTS_ABI = [
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "caller", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "onBehalfOf", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "balanceIncrease", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "index", "type": "uint256"}
+    ],
+    "name": "Mint",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "from", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "target", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "balanceIncrease", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "index", "type": "uint256"}
+    ],
+    "name": "Burn",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {"indexed": true, "internalType": "address", "name": "from", "type": "address"},
+      {"indexed": true, "internalType": "address", "name": "to", "type": "address"},
+      {"indexed": false, "internalType": "uint256", "name": "value", "type": "uint256"},
+      {"indexed": false, "internalType": "uint256", "name": "index", "type": "uint256"}
+    ],
+    "name": "BalanceTransfer",
+    "type": "event"
+  }
+] as const;
+
+const scaledTokenInterface = new Interface(SCALED_TOKEN_EVENTS_ABI);
+
+export type LedgerSide = 'supply' | 'debt';
+
+// One change to a user's aToken or variable debt balance, with the reserve index it happened at
+export interface LedgerEntry {
+  token: string; // Underlying reserve, lowercase
+  side: LedgerSide;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  amount: bigint; // Principal moved in token units, negative when leaving the position
+  scaledAmount: bigint; // Change in scaled balance (amount / index)
+  index: bigint; // Ray
+}
+
+export interface YieldPeriods<T> {
+  lifetime: T; // Since the first recorded balance change (or the start of the scan window)
+  last7d: T;
+  last30d: T;
+}
+
+export interface TokenYieldAccount {
+  token: string;
+  symbol: string;
+  decimals: number;
+  earned: YieldPeriods<bigint>; // Supply interest in token units
+  paid: YieldPeriods<bigint>; // Variable debt interest in token units
+  earnedUSD: YieldPeriods<number>;
+  paidUSD: YieldPeriods<number>;
+  entries: number;
+}
+
+export interface PortfolioYieldAccount {
+  tokens: Record<string, TokenYieldAccount>; // Keyed by reserve address as passed in
+  earnedUSD: YieldPeriods<number>;
+  paidUSD: YieldPeriods<number>;
+  netUSD: YieldPeriods<number>;
+  trackedSince: number; // Seconds; start of the scanned window
+}
+
+interface Ledger {
+  trackedTokens: string[]; // Lowercase aToken / debt token addresses scanned from fromBlock to lastBlock
+  fromBlock: number;
+  fromTimestamp: number;
+  lastBlock: number; // Last confirmed block scanned
+  entries: LedgerEntry[];
+}
+
+interface LedgerStore {
+  load(user: string): Ledger | null;
+  save(user: string, ledger: Ledger): void;
+}
+
+interface ScaledTokenRef {
+  token: string; // Underlying reserve, lowercase
+  side: LedgerSide;
+}
+
+interface IndexSample {
+  timestamp: number;
+  index: bigint;
+}
+
+// Ledgers persisted in localStorage, bigints as decimal strings
+class LocalLedgerStore implements LedgerStore {
+  load(user: string): Ledger | null {
+    try {
+      const raw = localStorage.getItem(this.key(user));
+      if (!raw) return null;
+      const ledger = JSON.parse(raw);
+      return {
+        ...ledger,
+        entries: ledger.entries.map((entry: any) => ({
+          ...entry,
+          amount: BigInt(entry.amount),
+          scaledAmount: BigInt(entry.scaledAmount),
+          index: BigInt(entry.index),
+        })),
+      };
+    } catch (error) {
+      console.warn('Discarding unreadable yield ledger:', error);
+      return null;
+    }
+  }
+
+  save(user: string, ledger: Ledger) {
+    try {
+      localStorage.setItem(
+        this.key(user),
+        JSON.stringify(ledger, (_, value) => typeof value === 'bigint' ? value.toString() : value)
+      );
+    } catch (error) {
+      console.warn('Could not persist yield ledger:', error);
+    }
+  }
+
+  private key(user: string): string {
+    return `${ACCOUNTING_CONFIG.STORAGE_PREFIX}-${user.toLowerCase()}`;
+  }
+}
+
+// Non-browser fallback (SSR, scripts, tests)
+class MemoryLedgerStore implements LedgerStore {
+  private ledgers: Map<string, Ledger> = new Map();
+
+  load(user: string): Ledger | null {
+    return this.ledgers.get(user.toLowerCase()) ?? null;
+  }
+
+  save(user: string, ledger: Ledger) {
+    this.ledgers.set(user.toLowerCase(), ledger);
+  }
+}
+
+const emptyPeriods = <T>(value: T): YieldPeriods<T> => ({ lifetime: value, last7d: value, last30d: value });
+
+const sortEntries = (entries: LedgerEntry[]): LedgerEntry[] => {
+  return [...entries].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+// Index at a point in time, interpolating linearly between samples (Aave accrues linearly between updates)
+const indexAt = (samples: IndexSample[], timestamp: number): bigint => {
+  if (timestamp <= samples[0].timestamp) return samples[0].index;
+
+  for (let i = 1; i < samples.length; i++) {
+    const next = samples[i];
+    if (timestamp > next.timestamp) continue;
+    const previous = samples[i - 1];
+    if (next.timestamp === previous.timestamp) return next.index;
+    const elapsed = BigInt(timestamp - previous.timestamp);
+    const span = BigInt(next.timestamp - previous.timestamp);
+    return previous.index + ((next.index - previous.index) * elapsed) / span;
+  }
+
+  return samples[samples.length - 1].index;
+};
+
+// Interest accrued on one side of a position since `from`: scaled balance times index growth,
+// summed over the intervals between balance changes
+const accruedSince = (
+  openingScaled: bigint,
+  openingTimestamp: number,
+  entries: LedgerEntry[],
+  samples: IndexSample[],
+  from: number,
+  now: number
+): bigint => {
+  let interest = ZERO;
+  let scaled = openingScaled;
+  let start = openingTimestamp;
+
+  const accrue = (end: number) => {
+    const clippedStart = Math.max(start, from);
+    if (scaled > ZERO && end > clippedStart) {
+      interest += rayMul(scaled, indexAt(samples, end) - indexAt(samples, clippedStart));
+    }
+  };
+
+  entries.forEach(entry => {
+    accrue(entry.timestamp);
+    scaled += entry.scaledAmount;
+    if (scaled < ZERO) scaled = ZERO; // Rounding dust on full withdrawals
+    start = entry.timestamp;
+  });
+  accrue(now);
+
+  return interest;
+};
+
+// Per-token earned and paid interest from the Aave index at every balance change
+export class YieldAccountingService {
+  private provider: ReadProvider;
+  private aaveService: AaveService;
+  private priceOracle: PriceOracleService;
+  private store: LedgerStore;
+  private pendingSyncs: Map<string, Promise<{ ledger: Ledger; entries: LedgerEntry[] }>> = new Map();
+  private blockTimes: Map<number, Promise<number>> = new Map();
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+    this.aaveService = new AaveService(provider);
+    this.priceOracle = new PriceOracleService(provider);
+    this.store = typeof localStorage !== 'undefined' ? new LocalLedgerStore() : new MemoryLedgerStore();
+  }
+
+  // Lifetime, 7-day and 30-day interest for every reserve the user has touched, plus portfolio totals
+  async getAccount(
+    userAddress: string,
+    reserves: Record<string, UserReservePosition>
+  ): Promise<PortfolioYieldAccount> {
+    const reserveList = Object.values(reserves);
+    const [{ ledger, entries }, indexes] = await Promise.all([
+      this.syncLedger(userAddress, reserveList),
+      this.aaveService.getReserveIndexes(reserveList.map(reserve => reserve.token)),
+    ]);
+
+    const now = Math.floor(Date.now() / 1000);
+    const tokens: Record<string, TokenYieldAccount> = {};
+    const earnedUSD = emptyPeriods(0);
+    const paidUSD = emptyPeriods(0);
+
+    for (const reserve of reserveList) {
+      const key = reserve.token.toLowerCase();
+      const tokenEntries = entries.filter(entry => entry.token === key);
+      const hasBalance = reserve.aTokenBalance > ZERO || reserve.variableDebt > ZERO;
+      if (!indexes[reserve.token] || (tokenEntries.length === 0 && !hasBalance)) continue;
+
+      const account = await this.buildTokenAccount(reserve, indexes[reserve.token], tokenEntries, ledger.fromTimestamp, now);
+      tokens[reserve.token] = account;
+      (Object.keys(earnedUSD) as Array<keyof YieldPeriods<number>>).forEach(period => {
+        earnedUSD[period] += account.earnedUSD[period];
+        paidUSD[period] += account.paidUSD[period];
+      });
+    }
+
+    return {
+      tokens,
+      earnedUSD,
+      paidUSD,
+      netUSD: {
+        lifetime: earnedUSD.lifetime - paidUSD.lifetime,
+        last7d: earnedUSD.last7d - paidUSD.last7d,
+        last30d: earnedUSD.last30d - paidUSD.last30d,
+      },
+      trackedSince: ledger.fromTimestamp,
+    };
+  }
+
+  private async buildTokenAccount(
+    reserve: UserReservePosition,
+    indexes: ReserveIndexes,
+    entries: LedgerEntry[],
+    openingTimestamp: number,
+    now: number
+  ): Promise<TokenYieldAccount> {
+    const info = getTokenInfo(reserve.token);
+    const decimals = info?.decimals ?? 18;
+
+    // YieldHub's recorded liquidity index fills the gaps between the user's own supply entries
+    const history = await getYieldHistory(this.provider)
+      .getSeries(reserve.token, { from: now - 31 * SECONDS_PER_DAY, to: now })
+      .catch(() => []);
+    const historySamples = history
+      .filter(point => point.source === 'aave' && point.liquidityIndex > ZERO)
+      .map(point => ({ timestamp: point.timestamp, index: point.liquidityIndex }));
+
+    const side = (
+      name: LedgerSide,
+      currentBalance: bigint,
+      currentIndex: bigint,
+      extraSamples: IndexSample[]
+    ): YieldPeriods<bigint> => {
+      const sideEntries = entries.filter(entry => entry.side === name);
+      const samples = this.buildSamples(sideEntries, extraSamples, { timestamp: now, index: currentIndex });
+
+      // Whatever the entries do not explain was already there when the scan window opened
+      const recordedScaled = sideEntries.reduce((sum, entry) => sum + entry.scaledAmount, ZERO);
+      const openingScaled = rayDiv(currentBalance, currentIndex) - recordedScaled;
+      const opening = openingScaled > ZERO ? openingScaled : ZERO;
+
+      return {
+        lifetime: accruedSince(opening, openingTimestamp, sideEntries, samples, openingTimestamp, now),
+        last7d: accruedSince(opening, openingTimestamp, sideEntries, samples, now - 7 * SECONDS_PER_DAY, now),
+        last30d: accruedSince(opening, openingTimestamp, sideEntries, samples, now - 30 * SECONDS_PER_DAY, now),
+      };
+    };
+
+    const earned = side('supply', reserve.aTokenBalance, indexes.liquidityIndex, historySamples);
+    const paid = side('debt', reserve.variableDebt, indexes.variableBorrowIndex, []);
+
+    const quote = await this.priceOracle.getQuote(reserve.token);
+    const price = quote?.priceUSD ?? 0;
+    const toPeriodsUSD = (periods: YieldPeriods<bigint>): YieldPeriods<number> => ({
+      lifetime: fixedToNumber(toUSD(periods.lifetime, decimals, price)),
+      last7d: fixedToNumber(toUSD(periods.last7d, decimals, price)),
+      last30d: fixedToNumber(toUSD(periods.last30d, decimals, price)),
+    });
+
+    return {
+      token: reserve.token,
+      symbol: info?.symbol || 'UNKNOWN',
+      decimals,
+      earned,
+      paid,
+      earnedUSD: toPeriodsUSD(earned),
+      paidUSD: toPeriodsUSD(paid),
+      entries: entries.length,
+    };
+  }
+
+  // Time-ordered index samples; out-of-order readings are dropped so the index never runs backwards
+  private buildSamples(entries: LedgerEntry[], extra: IndexSample[], current: IndexSample): IndexSample[] {
+    const all = [
+      ...entries.map(entry => ({ timestamp: entry.timestamp, index: entry.index })),
+      ...extra,
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    const samples: IndexSample[] = [];
+    all.forEach(sample => {
+      const last = samples[samples.length - 1];
+      if (!last || sample.index >= last.index) samples.push(sample);
+    });
+    if (samples.length === 0 || current.index >= samples[samples.length - 1].index) {
+      samples.push(current);
+    }
+    return samples;
+  }
+
+  // Stored confirmed entries plus a fresh read of the unconfirmed tail; one sync per user at a time
+  private syncLedger(
+    userAddress: string,
+    reserves: UserReservePosition[]
+  ): Promise<{ ledger: Ledger; entries: LedgerEntry[] }> {
+    const key = userAddress.toLowerCase();
+    let pending = this.pendingSyncs.get(key);
+    if (!pending) {
+      pending = this.runSync(userAddress, reserves).finally(() => {
+        this.pendingSyncs.delete(key);
+      });
+      this.pendingSyncs.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async runSync(
+    userAddress: string,
+    reserves: UserReservePosition[]
+  ): Promise<{ ledger: Ledger; entries: LedgerEntry[] }> {
+    const scaledTokens = new Map<string, ScaledTokenRef>();
+    reserves.forEach(reserve => {
+      const token = reserve.token.toLowerCase();
+      scaledTokens.set(reserve.aTokenAddress.toLowerCase(), { token, side: 'supply' });
+      scaledTokens.set(reserve.variableDebtTokenAddress.toLowerCase(), { token, side: 'debt' });
+    });
+    const tracked = Array.from(scaledTokens.keys()).sort();
+
+    const head = await this.provider.getBlockNumber();
+    const safeBlock = head - ACCOUNTING_CONFIG.CONFIRMATIONS;
+    let ledger = this.store.load(userAddress);
+
+    if (!ledger) {
+      const fromBlock = Math.max(ACCOUNTING_CONFIG.SCAN_FROM_BLOCK, head - ACCOUNTING_CONFIG.MAX_SCAN_BLOCKS);
+      ledger = {
+        trackedTokens: tracked,
+        fromBlock,
+        fromTimestamp: await this.getBlockTime(fromBlock),
+        lastBlock: fromBlock - 1,
+        entries: [],
+      };
+    }
+
+    // A new reserve was never scanned; read its tokens over the range the ledger already covers
+    const added = tracked.filter(address => !ledger!.trackedTokens.includes(address));
+    if (added.length > 0) {
+      const addedTokens = new Map(added.map(address => [address, scaledTokens.get(address)!]));
+      const backfill = await this.scan(userAddress, addedTokens, ledger.fromBlock, ledger.lastBlock);
+      // Entries left from an earlier stretch of tracking are replaced, not doubled
+      const kept = ledger.entries.filter(entry =>
+        !Array.from(addedTokens.values()).some(ref => ref.token === entry.token && ref.side === entry.side)
+      );
+      ledger = { ...ledger, trackedTokens: tracked, entries: sortEntries([...kept, ...backfill]) };
+      this.store.save(userAddress, ledger);
+    }
+
+    if (safeBlock > ledger.lastBlock) {
+      const confirmed = await this.scan(userAddress, scaledTokens, ledger.lastBlock + 1, safeBlock);
+      // Tokens no longer passed in fall behind, so they are backfilled if they come back
+      ledger = {
+        ...ledger,
+        trackedTokens: tracked,
+        lastBlock: safeBlock,
+        entries: sortEntries([...ledger.entries, ...confirmed]),
+      };
+      this.store.save(userAddress, ledger);
+    }
+
+    const unconfirmed = head > ledger.lastBlock
+      ? await this.scan(userAddress, scaledTokens, ledger.lastBlock + 1, head)
+      : [];
+
+    return { ledger, entries: sortEntries([...ledger.entries, ...unconfirmed]) };
+  }
+
+  // Balance changes for the user across all tracked scaled tokens within a block range
+  private async scan(
+    userAddress: string,
+    scaledTokens: Map<string, ScaledTokenRef>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<LedgerEntry[]> {
+    if (scaledTokens.size === 0 || fromBlock > toBlock) return [];
+
+    const address = Array.from(scaledTokens.keys());
+    const userTopic = zeroPadValue(userAddress, 32);
+    const topic = (name: string) => scaledTokenInterface.getEvent(name)!.topicHash;
+
+    const chunks: Array<{ start: number; end: number }> = [];
+    for (let start = fromBlock; start <= toBlock; start += ACCOUNTING_CONFIG.LOG_CHUNK_SIZE) {
+      chunks.push({ start, end: Math.min(toBlock, start + ACCOUNTING_CONFIG.LOG_CHUNK_SIZE - 1) });
+    }
+
+    const logs: Log[] = [];
+    for (let i = 0; i < chunks.length; i += ACCOUNTING_CONFIG.PARALLEL_CHUNKS) {
+      const batch = await Promise.all(chunks.slice(i, i + ACCOUNTING_CONFIG.PARALLEL_CHUNKS).flatMap(({ start, end }) => [
+        // Mints to the user and transfers in carry the user in topic 2
+        this.provider.getLogs({ address, fromBlock: start, toBlock: end, topics: [[topic('Mint'), topic('BalanceTransfer')], null, userTopic] }),
+        // Burns and transfers out carry the user in topic 1
+        this.provider.getLogs({ address, fromBlock: start, toBlock: end, topics: [[topic('Burn'), topic('BalanceTransfer')], userTopic] }),
+      ]));
+      batch.forEach(chunkLogs => logs.push(...chunkLogs));
+    }
+
+    // A transfer to oneself matches both queries and changes nothing
+    const seen = new Set<string>();
+    const unique = logs.filter(log => {
+      const id = `${log.transactionHash}:${log.index}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+
+    const entries = await Promise.all(unique.map(log => this.toEntry(log, userAddress, scaledTokens)));
+    return entries.filter((entry): entry is LedgerEntry => !!entry);
+  }
+
+  private async toEntry(
+    log: Log,
+    userAddress: string,
+    scaledTokens: Map<string, ScaledTokenRef>
+  ): Promise<LedgerEntry | null> {
+    const ref = scaledTokens.get(log.address.toLowerCase());
+    const parsed = scaledTokenInterface.parseLog(log);
+    if (!ref || !parsed) return null;
+
+    const index: bigint = parsed.args.index;
+    const value: bigint = parsed.args.value;
+    let amount: bigint;
+    let scaledAmount: bigint;
+
+    switch (parsed.name) {
+      case 'Mint':
+        // A withdrawal smaller than the accrued interest is emitted as a Mint, hence the signed result
+        amount = value - parsed.args.balanceIncrease;
+        scaledAmount = amount >= ZERO ? rayDiv(amount, index) : ZERO - rayDiv(ZERO - amount, index);
+        break;
+      case 'Burn':
+        amount = ZERO - value - parsed.args.balanceIncrease;
+        scaledAmount = ZERO - rayDiv(ZERO - amount, index);
+        break;
+      case 'BalanceTransfer': {
+        if (parsed.args.from.toLowerCase() === parsed.args.to.toLowerCase()) return null;
+        // The transferred value is already scaled
+        const incoming = parsed.args.to.toLowerCase() === userAddress.toLowerCase();
+        scaledAmount = incoming ? value : ZERO - value;
+        amount = incoming ? rayMul(value, index) : ZERO - rayMul(value, index);
+        break;
+      }
+      default:
+        return null;
+    }
+
+    return {
+      token: ref.token,
+      side: ref.side,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      timestamp: await this.getBlockTime(log.blockNumber),
+      amount,
+      scaledAmount,
+      index,
+    };
+  }
+
+  private getBlockTime(blockNumber: number): Promise<number> {
+    let time = this.blockTimes.get(blockNumber);
+    if (!time) {
+      time = this.provider.getBlock(blockNumber).then(block => block?.timestamp ?? 0);
+      this.blockTimes.set(blockNumber, time);
+    }
+    return time;
+  }
+}
+
+const accountingServices = new WeakMap<ReadProvider, YieldAccountingService>();
+
+// Shared accounting service per provider so ledger syncs are not duplicated
+export const getYieldAccounting = (provider: ReadProvider): YieldAccountingService => {
+  let service = accountingServices.get(provider);
+  if (!service) {
+    service = new YieldAccountingService(provider);
+    accountingServices.set(provider, service);
+  }
+  return service;
+};
@@ -0,0 +1,567 @@
+import { Contract, Interface, Log } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider } from './providers';
+import { YieldHubEventService } from './yieldhub-events';
+import { optimizedAPYBps, riskAdjustedYieldBps } from './yield-math';
+
+// History sync configuration
+export const HISTORY_CONFIG = {
+  DB_NAME: `yieldscout-history-${CONTRACT_CONFIG.YIELD_HUB_ADDRESS.toLowerCase()}`,
+  DB_VERSION: 1,
+  // Nothing before the YieldHub deployment is scanned
+  BACKFILL_FROM_BLOCK: CONTRACT_CONFIG.YIELD_HUB_DEPLOY_BLOCK,
+  // The first backfill covers the longest chart window: 90 days of portfolio and simulation history, plus today
+  BACKFILL_DAYS: 91,
+  // Blocks per getLogs call, halved down to the minimum when the RPC rejects a range
+  LOG_CHUNK_SIZE: 2048,
+  MIN_LOG_CHUNK_SIZE: 128,
+  // Block hashes kept for reorg detection
+  MAX_CHECKPOINTS: 32,
+  // Used when YieldHub.dataFreshness cannot be read
+  DEFAULT_DATA_FRESHNESS: 120,
+};
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const EVENTS_STORE = 'events';
+const META_STORE = 'meta';
+const SYNC_KEY = 'sync';
+
+// YieldHub risk scores used by calculateOptimizedAPY
+const AAVE_RISK_SCORE = BigInt(10);
+const SUBNET_RISK_SCORE = BigInt(30);
+
+export type YieldEventKind = 'aave' | 'subnet';
+
+// Raw AaveUpdated / SubnetResponse log as persisted
+export interface StoredYieldEvent {
+  id: string; // `${blockNumber}:${logIndex}`
+  token: string; // Lowercase address
+  kind: YieldEventKind;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  timestamp: number; // Seconds, as emitted by YieldHub
+  apyBps: bigint;
+  tvl: bigint;
+  liquidityIndex: bigint; // Zero for subnet responses
+}
+
+// Per-token state after an event, mirroring DataTypes.YieldSnapshot
+export interface YieldHistoryPoint {
+  timestamp: number;
+  blockNumber: number;
+  source: YieldEventKind;
+  aaveAPY: bigint;
+  subnetAPY: bigint | null; // Null when no fresh subnet data was available
+  optimizedAPY: bigint;
+  aaveTVL: bigint;
+  subnetTVL: bigint;
+  totalTVL: bigint;
+  liquidityIndex: bigint;
+}
+
+export interface DailyYieldPoint extends YieldHistoryPoint {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface YieldHistoryQuery {
+  from?: number; // Seconds, inclusive
+  to?: number; // Seconds, inclusive
+}
+
+export interface APYStats {
+  samples: number;
+  minAPY: bigint;
+  maxAPY: bigint;
+  averageAPY: bigint; // Time-weighted over the queried window
+}
+
+interface Checkpoint {
+  blockNumber: number;
+  hash: string;
+}
+
+interface SyncState {
+  fromBlock: number;
+  lastBlock: number;
+  checkpoints: Checkpoint[];
+}
+
+interface HistoryStore {
+  getSyncState(): Promise<SyncState | null>;
+  // Write events together with the sync state that covers them
+  commit(events: StoredYieldEvent[], state: SyncState): Promise<void>;
+  // Drop events above a block; a null state clears the sync progress
+  rollback(afterBlock: number, state: SyncState | null): Promise<void>;
+  getEvents(token: string, from: number, to: number): Promise<StoredYieldEvent[]>;
+  getLastEventBefore(token: string, kind: YieldEventKind, before: number): Promise<StoredYieldEvent | null>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+class IndexedDBHistoryStore implements HistoryStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor(name: string) {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, HISTORY_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+        events.createIndex('byToken', ['token', 'timestamp']);
+        events.createIndex('byTokenKind', ['token', 'kind', 'timestamp']);
+        events.createIndex('byBlock', 'blockNumber');
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getSyncState(): Promise<SyncState | null> {
+    const db = await this.db;
+    const record = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(SYNC_KEY));
+    return record ? record.state : null;
+  }
+
+  async commit(events: StoredYieldEvent[], state: SyncState): Promise<void> {
+    const db = await this.db;
+    const transaction = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    const eventStore = transaction.objectStore(EVENTS_STORE);
+    events.forEach(event => eventStore.put(event));
+    transaction.objectStore(META_STORE).put({ key: SYNC_KEY, state });
+    await transactionDone(transaction);
+  }
+
+  async rollback(afterBlock: number, state: SyncState | null): Promise<void> {
+    const db = await this.db;
+    const transaction = db.transaction([EVENTS_STORE, META_STORE], 'readwrite');
+    const cursorRequest = transaction
+      .objectStore(EVENTS_STORE)
+      .index('byBlock')
+      .openCursor(IDBKeyRange.lowerBound(afterBlock, true));
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+
+    const meta = transaction.objectStore(META_STORE);
+    if (state) {
+      meta.put({ key: SYNC_KEY, state });
+    } else {
+      meta.delete(SYNC_KEY);
+    }
+    await transactionDone(transaction);
+  }
+
+  async getEvents(token: string, from: number, to: number): Promise<StoredYieldEvent[]> {
+    const db = await this.db;
+    const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('byToken');
+    return requestToPromise(index.getAll(IDBKeyRange.bound([token, from], [token, to])));
+  }
+
+  async getLastEventBefore(token: string, kind: YieldEventKind, before: number): Promise<StoredYieldEvent | null> {
+    const db = await this.db;
+    const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('byTokenKind');
+    const range = IDBKeyRange.bound([token, kind, 0], [token, kind, before], false, true);
+    const cursor = await requestToPromise(index.openCursor(range, 'prev'));
+    return cursor ? cursor.value : null;
+  }
+}
+
+// Used where IndexedDB does not exist (server rendering, Node scripts)
+class MemoryHistoryStore implements HistoryStore {
+  private events: Map<string, StoredYieldEvent> = new Map();
+  private state: SyncState | null = null;
+
+  async getSyncState(): Promise<SyncState | null> {
+    return this.state;
+  }
+
+  async commit(events: StoredYieldEvent[], state: SyncState): Promise<void> {
+    events.forEach(event => this.events.set(event.id, event));
+    this.state = state;
+  }
+
+  async rollback(afterBlock: number, state: SyncState | null): Promise<void> {
+    this.events.forEach((event, id) => {
+      if (event.blockNumber > afterBlock) this.events.delete(id);
+    });
+    this.state = state;
+  }
+
+  async getEvents(token: string, from: number, to: number): Promise<StoredYieldEvent[]> {
+    return Array.from(this.events.values()).filter(
+      event => event.token === token && event.timestamp >= from && event.timestamp <= to
+    );
+  }
+
+  async getLastEventBefore(token: string, kind: YieldEventKind, before: number): Promise<StoredYieldEvent | null> {
+    const earlier = sortEvents(
+      Array.from(this.events.values()).filter(
+        event => event.token === token && event.kind === kind && event.timestamp < before
+      )
+    );
+    return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+  }
+}
+
+// Chain order: timestamp, then block, then position in the block
+const sortEvents = (events: StoredYieldEvent[]): StoredYieldEvent[] => {
+  return [...events].sort((a, b) =>
+    a.timestamp - b.timestamp || a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+};
+
+// Mirrors YieldHub.calculateOptimizedAPY: risk-adjust both sources, then weight them
+const optimizedAPYForSources = (aaveAPY: bigint, subnetAPY: bigint | null): bigint => {
+  if (subnetAPY === null) return aaveAPY;
+  return optimizedAPYBps(
+    riskAdjustedYieldBps(aaveAPY, AAVE_RISK_SCORE),
+    riskAdjustedYieldBps(subnetAPY, SUBNET_RISK_SCORE)
+  );
+};
+
+const toDateString = (timestamp: number): string => new Date(timestamp * 1000).toISOString().split('T')[0];
+
+export class YieldHistoryService {
+  private provider: ReadProvider;
+  private store: HistoryStore;
+  private iface: Interface = new Interface(YIELDHUB_ABI);
+  private dataFreshness: Promise<number> | null = null;
+  private pendingSync: Promise<number> | null = null;
+  private syncAgain = false;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+    this.store = typeof indexedDB !== 'undefined'
+      ? new IndexedDBHistoryStore(HISTORY_CONFIG.DB_NAME)
+      : new MemoryHistoryStore();
+  }
+
+  // Backfill or catch up to the current block; resolves with the number of new events
+  sync(): Promise<number> {
+    if (this.pendingSync) {
+      // A sync is running; make it go round once more so it reaches the newest block
+      this.syncAgain = true;
+      return this.pendingSync;
+    }
+
+    this.pendingSync = (async () => {
+      let added = 0;
+      do {
+        this.syncAgain = false;
+        added += await this.runSync();
+      } while (this.syncAgain);
+      return added;
+    })().finally(() => {
+      this.pendingSync = null;
+    });
+
+    return this.pendingSync;
+  }
+
+  // Keep the store current as new YieldHub events arrive
+  startLiveSync(events: YieldHubEventService): () => void {
+    return events.subscribe(event => {
+      if (event.type === 'AaveUpdated' || event.type === 'SubnetResponse') {
+        this.sync().catch(error => console.warn('Yield history sync failed:', error));
+      }
+    });
+  }
+
+  // Every recorded state change for a token within the window
+  async getSeries(token: string, query: YieldHistoryQuery = {}): Promise<YieldHistoryPoint[]> {
+    const { points } = await this.deriveSeries(token, query);
+    return points;
+  }
+
+  // Most recent recorded state for a token
+  async getLatest(token: string): Promise<YieldHistoryPoint | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const { initial } = await this.deriveSeries(token, { from: now + 1, to: now });
+    return initial;
+  }
+
+  // One point per UTC day (state at the end of the day), carrying the last value forward
+  async getDailySeries(token: string, days: number): Promise<DailyYieldPoint[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const firstDayStart = (Math.floor(now / SECONDS_PER_DAY) - (days - 1)) * SECONDS_PER_DAY;
+    const { initial, points } = await this.deriveSeries(token, { from: firstDayStart, to: now });
+
+    const daily: DailyYieldPoint[] = [];
+    let current = initial;
+    let next = 0;
+
+    for (let day = 0; day < days; day++) {
+      const dayEnd = Math.min(firstDayStart + (day + 1) * SECONDS_PER_DAY - 1, now);
+      while (next < points.length && points[next].timestamp <= dayEnd) {
+        current = points[next++];
+      }
+      if (current) {
+        daily.push({ ...current, timestamp: dayEnd, date: toDateString(dayEnd) });
+      }
+    }
+    return daily;
+  }
+
+  // Min, max and time-weighted average Aave APY over a window
+  async getAPYStats(token: string, query: YieldHistoryQuery = {}): Promise<APYStats | null> {
+    const to = query.to ?? Math.floor(Date.now() / 1000);
+    const from = query.from ?? 0;
+    const { initial, points } = await this.deriveSeries(token, { from, to });
+
+    const timeline = initial ? [{ ...initial, timestamp: from }, ...points] : points;
+    if (timeline.length === 0) return null;
+
+    let minAPY = timeline[0].aaveAPY;
+    let maxAPY = timeline[0].aaveAPY;
+    let weighted = BigInt(0);
+    let duration = 0;
+
+    timeline.forEach((point, i) => {
+      if (point.aaveAPY < minAPY) minAPY = point.aaveAPY;
+      if (point.aaveAPY > maxAPY) maxAPY = point.aaveAPY;
+      const end = i + 1 < timeline.length ? timeline[i + 1].timestamp : to;
+      const span = Math.max(0, end - point.timestamp);
+      weighted += point.aaveAPY * BigInt(span);
+      duration += span;
+    });
+
+    return {
+      samples: points.length,
+      minAPY,
+      maxAPY,
+      averageAPY: duration > 0 ? weighted / BigInt(duration) : timeline[timeline.length - 1].aaveAPY,
+    };
+  }
+
+  // Replay stored events into points; `initial` is the state just before the window
+  private async deriveSeries(
+    token: string,
+    { from = 0, to = Math.floor(Date.now() / 1000) }: YieldHistoryQuery
+  ): Promise<{ initial: YieldHistoryPoint | null; points: YieldHistoryPoint[] }> {
+    const key = token.toLowerCase();
+    const [lastAave, lastSubnet, events, freshness] = await Promise.all([
+      this.store.getLastEventBefore(key, 'aave', from),
+      this.store.getLastEventBefore(key, 'subnet', from),
+      from <= to ? this.store.getEvents(key, from, to) : Promise.resolve([]),
+      this.getDataFreshness(),
+    ]);
+
+    let aave = lastAave;
+    let subnet = lastSubnet;
+    const latestBefore = sortEvents([lastAave, lastSubnet].filter((event): event is StoredYieldEvent => !!event));
+    const initial = latestBefore.length > 0
+      ? this.toPoint(latestBefore[latestBefore.length - 1], aave, subnet, freshness)
+      : null;
+
+    const points: YieldHistoryPoint[] = [];
+    sortEvents(events).forEach(event => {
+      if (event.kind === 'aave') aave = event;
+      else subnet = event;
+
+      const point = this.toPoint(event, aave, subnet, freshness);
+      if (point) points.push(point);
+    });
+
+    return { initial, points };
+  }
+
+  // State after `event`; YieldHub cannot optimize without Aave data, so neither do we
+  private toPoint(
+    event: StoredYieldEvent,
+    aave: StoredYieldEvent | null,
+    subnet: StoredYieldEvent | null,
+    freshness: number
+  ): YieldHistoryPoint | null {
+    if (!aave) return null;
+
+    const subnetFresh = !!subnet && event.timestamp - subnet.timestamp <= freshness;
+    const subnetAPY = subnetFresh ? subnet!.apyBps : null;
+    const subnetTVL = subnetFresh ? subnet!.tvl : BigInt(0);
+
+    return {
+      timestamp: event.timestamp,
+      blockNumber: event.blockNumber,
+      source: event.kind,
+      aaveAPY: aave.apyBps,
+      subnetAPY,
+      optimizedAPY: optimizedAPYForSources(aave.apyBps, subnetAPY),
+      aaveTVL: aave.tvl,
+      subnetTVL,
+      totalTVL: aave.tvl + subnetTVL,
+      liquidityIndex: aave.liquidityIndex,
+    };
+  }
+
+  private getDataFreshness(): Promise<number> {
+    if (!this.dataFreshness) {
+      const yieldHub = new Contract(CONTRACT_CONFIG.YIELD_HUB_ADDRESS, YIELDHUB_ABI, this.provider);
+      this.dataFreshness = yieldHub.dataFreshness()
+        .then((seconds: bigint) => Number(seconds))
+        .catch((error: unknown) => {
+          console.warn('Could not read YieldHub data freshness, using default:', error);
+          return HISTORY_CONFIG.DEFAULT_DATA_FRESHNESS;
+        });
+    }
+    return this.dataFreshness!;
+  }
+
+  private async runSync(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    let state = await this.verifyState(await this.store.getSyncState());
+
+    if (!state) {
+      const windowStart = Math.floor(Date.now() / 1000) - HISTORY_CONFIG.BACKFILL_DAYS * SECONDS_PER_DAY;
+      const fromBlock = await this.firstBlockAfter(windowStart, head);
+      state = { fromBlock, lastBlock: fromBlock - 1, checkpoints: [] };
+    }
+
+    const topics = [[
+      this.iface.getEvent('AaveUpdated')!.topicHash,
+      this.iface.getEvent('SubnetResponse')!.topicHash,
+    ]];
+    let chunkSize = HISTORY_CONFIG.LOG_CHUNK_SIZE;
+    let added = 0;
+
+    while (state.lastBlock < head) {
+      const fromBlock = state.lastBlock + 1;
+      const toBlock = Math.min(head, fromBlock + chunkSize - 1);
+
+      let logs: Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
+          fromBlock,
+          toBlock,
+          topics,
+        });
+      } catch (error) {
+        // Most RPCs cap the range or result size; retry with a smaller window
+        if (chunkSize > HISTORY_CONFIG.MIN_LOG_CHUNK_SIZE) {
+          chunkSize = Math.max(HISTORY_CONFIG.MIN_LOG_CHUNK_SIZE, Math.floor(chunkSize / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      const block = await this.provider.getBlock(toBlock);
+      if (!block?.hash) {
+        throw new Error(`Block ${toBlock} not available`);
+      }
+
+      const events = logs
+        .map(log => this.parseLog(log))
+        .filter((event): event is StoredYieldEvent => !!event);
+
+      state = {
+        ...state,
+        lastBlock: toBlock,
+        checkpoints: [...state.checkpoints, { blockNumber: toBlock, hash: block.hash }]
+          .slice(-HISTORY_CONFIG.MAX_CHECKPOINTS),
+      };
+      await this.store.commit(events, state);
+      added += events.length;
+    }
+
+    return added;
+  }
+
+  // Earliest block at or after `timestamp`, by binary search over block timestamps
+  private async firstBlockAfter(timestamp: number, head: number): Promise<number> {
+    let low = HISTORY_CONFIG.BACKFILL_FROM_BLOCK;
+    let high = head;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const block = await this.provider.getBlock(middle);
+      if (!block) {
+        throw new Error(`Block ${middle} not available`);
+      }
+      if (block.timestamp < timestamp) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  // Compare stored block hashes with the chain and roll back anything that was reorged out
+  private async verifyState(state: SyncState | null): Promise<SyncState | null> {
+    if (!state || state.checkpoints.length === 0) return state;
+
+    for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = state.checkpoints[i];
+      const block = await this.provider.getBlock(checkpoint.blockNumber);
+      if (block?.hash !== checkpoint.hash) continue;
+
+      if (i === state.checkpoints.length - 1) return state;
+
+      console.warn(`Chain reorganized after block ${checkpoint.blockNumber}, rolling back yield history`);
+      const rolledBack: SyncState = {
+        ...state,
+        lastBlock: checkpoint.blockNumber,
+        checkpoints: state.checkpoints.slice(0, i + 1),
+      };
+      await this.store.rollback(checkpoint.blockNumber, rolledBack);
+      return rolledBack;
+    }
+
+    // The reorg is deeper than every checkpoint; start again from scratch
+    console.warn('Yield history no longer matches the chain, rebuilding');
+    await this.store.rollback(state.fromBlock - 1, null);
+    return null;
+  }
+
+  private parseLog(log: Log): StoredYieldEvent | null {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed) return null;
+
+    const { args } = parsed;
+    const base = {
+      id: `${log.blockNumber}:${log.index}`,
+      token: String(args.token).toLowerCase(),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      timestamp: Number(args.timestamp),
+      apyBps: args.apyBps as bigint,
+      tvl: args.tvl as bigint,
+    };
+
+    if (parsed.name === 'AaveUpdated') {
+      return { ...base, kind: 'aave', liquidityIndex: args.liquidityIndex };
+    }
+    if (parsed.name === 'SubnetResponse') {
+      return { ...base, kind: 'subnet', liquidityIndex: BigInt(0) };
+    }
+    return null;
+  }
+}
+
+const historyServices = new WeakMap<ReadProvider, YieldHistoryService>();
+
+// Shared history service per provider so syncs are not duplicated
+export const getYieldHistory = (provider: ReadProvider): YieldHistoryService => {
+  let service = historyServices.get(provider);
+  if (!service) {
+    service = new YieldHistoryService(provider);
+    historyServices.set(provider, service);
+  }
+  return service;
+};
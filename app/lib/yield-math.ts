@@ -0,0 +1,284 @@
+import { MaxUint256 } from 'ethers';
+import { BPS, RAY, WAD, bpsToRay, rayMul } from './units';
+
+// Yield projections, plus exact mirrors of the YieldMath.sol functions they are checked against
+export const YIELD_MATH_CONFIG = {
+  SECONDS_PER_DAY: 24 * 60 * 60,
+  DAYS_PER_YEAR: 365,
+  SECONDS_PER_YEAR: BigInt(365 * 24 * 60 * 60),
+  // Longest horizon calculateTimeToTarget searches (YieldMath.MAX_PROJECTION_SECONDS)
+  MAX_PROJECTION_SECONDS: BigInt(100 * 365 * 24 * 60 * 60),
+  // Bisection steps when converting an APY back to an APR
+  APR_SEARCH_ITERATIONS: 100,
+};
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const HUNDRED = BigInt(100);
+
+// An APR is the simple annual rate; an APY already includes a year of compounding
+export type RateKind = 'APR' | 'APY';
+
+export interface AnnualRate {
+  percent: number;
+  kind: RateKind;
+}
+
+// How often earnings are added to the principal. Manual means the user claims and re-deposits
+// every `intervalDays`; interest in between is simple.
+export type Compounding =
+  | { mode: 'per-second' }
+  | { mode: 'daily' }
+  | { mode: 'manual'; intervalDays: number };
+
+// Aave aTokens and most lending markets accrue every second
+export const PER_SECOND: Compounding = { mode: 'per-second' };
+
+export interface ProjectionPoint {
+  day: number;
+  value: number;
+  earnings: number;
+}
+
+export interface YieldProjection {
+  principal: number;
+  days: number;
+  aprPercent: number;
+  apyPercent: number; // Effective over a year under the chosen compounding
+  finalValue: number;
+  earnings: number;
+  points: ProjectionPoint[]; // One per day from 0, ending exactly at `days`
+}
+
+// ---- Projections ----
+
+// Length of one compounding period in days
+const periodDays = (compounding: Compounding): number => {
+  switch (compounding.mode) {
+    case 'per-second':
+      return 1 / YIELD_MATH_CONFIG.SECONDS_PER_DAY;
+    case 'daily':
+      return 1;
+    case 'manual':
+      return Math.max(compounding.intervalDays, 1 / YIELD_MATH_CONFIG.SECONDS_PER_DAY);
+  }
+};
+
+// Value of 1 after `days` at an APR (decimal): whole periods compound, the partial period is simple
+export const growthFactor = (aprDecimal: number, days: number, compounding: Compounding = PER_SECOND): number => {
+  if (days <= 0) return 1;
+  const period = periodDays(compounding);
+  const periodRate = (aprDecimal * period) / YIELD_MATH_CONFIG.DAYS_PER_YEAR;
+  const periods = Math.floor(days / period);
+  const remainder = days - periods * period;
+  return Math.exp(periods * Math.log1p(periodRate)) * (1 + (aprDecimal * remainder) / YIELD_MATH_CONFIG.DAYS_PER_YEAR);
+};
+
+// APR (percent) to the APY it compounds to
+export const aprToApy = (aprPercent: number, compounding: Compounding = PER_SECOND): number => {
+  return (growthFactor(aprPercent / 100, YIELD_MATH_CONFIG.DAYS_PER_YEAR, compounding) - 1) * 100;
+};
+
+// APY (percent) to the APR that compounds to it; found by bisection since growth is monotonic in the rate
+export const apyToApr = (apyPercent: number, compounding: Compounding = PER_SECOND): number => {
+  if (apyPercent <= 0) return apyPercent;
+  // Compounding only adds to the rate, so the APR lies in [0, APY]
+  let low = 0;
+  let high = apyPercent;
+  for (let i = 0; i < YIELD_MATH_CONFIG.APR_SEARCH_ITERATIONS && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (aprToApy(mid, compounding) < apyPercent) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// The APR (decimal) a quoted rate earns under the chosen compounding
+export const toAprDecimal = (rate: AnnualRate, compounding: Compounding = PER_SECOND): number => {
+  return (rate.kind === 'APR' ? rate.percent : apyToApr(rate.percent, compounding)) / 100;
+};
+
+// Value of `principal` after `days`, with a point for every day along the way
+export const projectYield = (
+  principal: number,
+  rate: AnnualRate,
+  days: number,
+  compounding: Compounding = PER_SECOND
+): YieldProjection => {
+  const apr = toAprDecimal(rate, compounding);
+  const horizon = Math.max(0, days);
+  const pointAt = (day: number): ProjectionPoint => {
+    const value = principal * growthFactor(apr, day, compounding);
+    return { day, value, earnings: value - principal };
+  };
+
+  const points: ProjectionPoint[] = [];
+  for (let day = 0; day < horizon; day++) {
+    points.push(pointAt(day));
+  }
+  points.push(pointAt(horizon));
+  const last = points[points.length - 1];
+
+  return {
+    principal,
+    days: horizon,
+    aprPercent: apr * 100,
+    apyPercent: aprToApy(apr * 100, compounding),
+    finalValue: last.value,
+    earnings: last.earnings,
+    points,
+  };
+};
+
+// Projections over the same horizon added up day by day, as one portfolio; rates are weighted by principal
+export const sumProjections = (projections: YieldProjection[], days: number): YieldProjection => {
+  const horizon = Math.max(0, days);
+  const principal = projections.reduce((sum, projection) => sum + projection.principal, 0);
+  const weighted = (rate: (projection: YieldProjection) => number) => principal > 0
+    ? projections.reduce((sum, projection) => sum + rate(projection) * projection.principal, 0) / principal
+    : 0;
+
+  const points: ProjectionPoint[] = [];
+  for (let i = 0; i <= Math.ceil(horizon); i++) {
+    const day = Math.min(i, horizon);
+    const value = projections.reduce((sum, projection) => sum + (projection.points[i]?.value ?? projection.finalValue), 0);
+    points.push({ day, value, earnings: value - principal });
+  }
+  const last = points[points.length - 1];
+
+  return {
+    principal,
+    days: horizon,
+    aprPercent: weighted(projection => projection.aprPercent),
+    apyPercent: weighted(projection => projection.apyPercent),
+    finalValue: last.value,
+    earnings: last.earnings,
+    points,
+  };
+};
+
+// Days until `principal` grows to `target`, or null if it never does
+export const daysToTarget = (
+  principal: number,
+  target: number,
+  rate: AnnualRate,
+  compounding: Compounding = PER_SECOND
+): number | null => {
+  if (target <= principal) return 0;
+  const apr = toAprDecimal(rate, compounding);
+  if (principal <= 0 || apr <= 0) return null;
+
+  // Whole periods first, then the simple-interest part of the last one
+  const period = periodDays(compounding);
+  const periodGrowth = Math.log1p((apr * period) / YIELD_MATH_CONFIG.DAYS_PER_YEAR);
+  const periods = Math.floor(Math.log(target / principal) / periodGrowth);
+  const reached = principal * Math.exp(periods * periodGrowth);
+  return periods * period + ((target / reached - 1) * YIELD_MATH_CONFIG.DAYS_PER_YEAR) / apr;
+};
+
+// Compound annualized rate (percent) of a return earned over `days`
+export const annualizeReturn = (returnFraction: number, days: number): number => {
+  if (returnFraction <= -1) return -100;
+  if (days <= 0) return 0;
+  return (Math.pow(1 + returnFraction, YIELD_MATH_CONFIG.DAYS_PER_YEAR / days) - 1) * 100;
+};
+
+// ---- YieldMath.sol mirrors (exact integer results) ----
+
+// YieldMath.rayPow: x^n in ray by repeated squaring
+export const rayPow = (x: bigint, n: bigint): bigint => {
+  let result = n % TWO !== ZERO ? x : RAY;
+  for (n /= TWO; n !== ZERO; n /= TWO) {
+    x = rayMul(x, x);
+    if (n % TWO !== ZERO) {
+      result = rayMul(result, x);
+    }
+  }
+  return result;
+};
+
+// YieldMath.calculateCompoundInterestRay: an APR in ray compounded every second
+export const compoundInterestRay = (principal: bigint, rateRay: bigint, timeSeconds: bigint): bigint => {
+  if (principal === ZERO || rateRay === ZERO || timeSeconds === ZERO) return principal;
+  const growth = rayPow(RAY + rateRay / YIELD_MATH_CONFIG.SECONDS_PER_YEAR, timeSeconds);
+  return rayMul(principal, growth);
+};
+
+// YieldMath.calculateCompoundInterest: an APR in bps compounded every second
+export const compoundInterest = (principal: bigint, aprBps: bigint, timeSeconds: bigint): bigint => {
+  return compoundInterestRay(principal, bpsToRay(aprBps), timeSeconds);
+};
+
+// APY in bps that an APR in ray compounds to over a year of per-second accrual
+export const rayRateToApyBps = (rateRay: bigint): bigint => {
+  return ((compoundInterestRay(RAY, rateRay, YIELD_MATH_CONFIG.SECONDS_PER_YEAR) - RAY) * BPS) / RAY;
+};
+
+// Compound-style per-second rate (Benqi supplyRatePerTimestamp, 1e18-scaled) as an APR in bps, floored
+export const perSecondRateToAprBps = (ratePerSecond: bigint): bigint => {
+  return (ratePerSecond * YIELD_MATH_CONFIG.SECONDS_PER_YEAR * BPS) / WAD;
+};
+
+// APY in bps of a per-second rate accrued every second for a year
+export const perSecondRateToApyBps = (ratePerSecond: bigint): bigint => {
+  return rayRateToApyBps(ratePerSecond * (RAY / WAD) * YIELD_MATH_CONFIG.SECONDS_PER_YEAR);
+};
+
+// YieldMath.calculateTimeToTarget: shortest time in seconds, MaxUint256 if not within MAX_PROJECTION_SECONDS
+export const timeToTarget = (principal: bigint, targetAmount: bigint, aprBps: bigint): bigint => {
+  if (principal >= targetAmount) return ZERO;
+  if (principal === ZERO || aprBps === ZERO) return MaxUint256;
+
+  const max = YIELD_MATH_CONFIG.MAX_PROJECTION_SECONDS;
+  let low = ZERO;
+  let high = BigInt(YIELD_MATH_CONFIG.SECONDS_PER_DAY);
+  while (compoundInterest(principal, aprBps, high) < targetAmount) {
+    if (high >= max) return MaxUint256;
+    low = high;
+    high = high * TWO > max ? max : high * TWO;
+  }
+  while (low < high) {
+    const mid = (low + high) / TWO;
+    if (compoundInterest(principal, aprBps, mid) < targetAmount) {
+      low = mid + ONE;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+};
+
+// YieldMath.calculateRiskAdjustedYield
+export const riskAdjustedYieldBps = (apyBps: bigint, riskScore: bigint): bigint => {
+  if (riskScore > HUNDRED) {
+    throw new Error('YieldMath: risk score must be <= 100');
+  }
+  return (apyBps * (HUNDRED - riskScore)) / HUNDRED;
+};
+
+// YieldMath.weightedAPYBps
+export const weightedAPYBps = (apy1Bps: bigint, apy2Bps: bigint, weight1: bigint, weight2: bigint): bigint => {
+  if (weight1 + weight2 > BPS) {
+    throw new Error('YieldMath: weights exceed 100%');
+  }
+  if (weight1 + weight2 === ZERO) return ZERO;
+  return (apy1Bps * weight1 + apy2Bps * weight2) / (weight1 + weight2);
+};
+
+// YieldMath.calculateOptimizedAPY: weight toward Aave unless the subnet is far ahead
+export const optimizedAPYBps = (aaveAPYBps: bigint, subnetAPYBps: bigint): bigint => {
+  let aaveWeight = BigInt(6000);
+  let subnetWeight = BigInt(4000);
+  if (subnetAPYBps > (aaveAPYBps * BigInt(15)) / BigInt(10)) {
+    aaveWeight = BigInt(7000);
+    subnetWeight = BigInt(3000);
+  } else if (aaveAPYBps > (subnetAPYBps * BigInt(12)) / BigInt(10)) {
+    aaveWeight = BigInt(8000);
+    subnetWeight = BigInt(2000);
+  }
+  return weightedAPYBps(aaveAPYBps, subnetAPYBps, aaveWeight, subnetWeight);
+};
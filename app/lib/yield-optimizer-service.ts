@@ -1,5 +1,14 @@
-import { ethers, Contract, BrowserProvider } from 'ethers';
-import { CONTRACT_CONFIG, TOKEN_INFO, YIELDHUB_ABI } from './web3-config';
+import { CONTRACT_CONFIG } from './web3-config';
+import { ReadProvider } from './providers';
+import { YieldHubTokenSnapshot } from './multicall';
+import { getTokenInfo, TokenInfo } from './token-registry';
+import { PriceOracleService } from './price-oracle';
+import { allocate, Allocation, AllocationConstraints, BindingConstraint } from './allocation-engine';
+import { CostModelService, NetReturnEstimate, OpportunityCosts } from './cost-model';
+import { AnnualRate, YieldProjection, annualizeReturn, daysToTarget, projectYield, sumProjections } from './yield-math';
+import { getAllQuotes, MarketQuote, RiskInputs } from './yield-source';
+import { AaveYieldSource } from './aave-yield-source';
+import { bpsToPercent, fixedToNumber, formatBps, formatTokenValue, formatUSD, numberToFixed, toUSD } from './units';
 
 // Yield optimizer data types
 export interface YieldOpportunity {
@@ -19,12 +28,27 @@ export interface YieldOpportunity {
   lastUpdate: number;
 }
 
+// An allocation with what it costs to enter and leave, and its return after those costs
+export interface CostedAllocation extends Allocation<YieldOpportunity> {
+  costs: OpportunityCosts;
+  estimate: NetReturnEstimate;
+}
+
 export interface OptimizationResult {
-  recommendedOpportunities: YieldOpportunity[];
-  totalEstimatedReturn: number;
-  averageAPY: number;
-  riskScore: number;
+  recommendedOpportunities: YieldOpportunity[]; // Funded opportunities, best net APY first
+  allocations: CostedAllocation[];
+  allocatedAmount: number;
+  unallocatedAmount: number;
+  totalEstimatedReturn: number; // Before costs
+  totalCostUSD: number;
+  netReturn: number;
+  netAPY: number; // Percent, compounded annualization over the time horizon
+  breakEvenDays: number | null;
+  weightedAPY: number; // Percent, weighted by allocated amount
+  projection: YieldProjection; // Allocated amount day by day at current rates, before costs
+  riskScore: number; // Weighted by allocated amount
   diversificationScore: number;
+  bindingConstraints: BindingConstraint[];
 }
 
 export interface OptimizationParams {
@@ -32,110 +56,40 @@ export interface OptimizationParams {
   riskTolerance: number; // 0-100
   timeHorizon: number; // days
   diversificationPreference: number; // 0-100
+  constraints?: AllocationConstraints; // Override the limits derived from risk tolerance and diversification
+  userAddress?: string; // Simulate gas from this account
+  fundingToken?: string; // Token the investment starts in; other tokens cost a swap in and out
 }
 
 export class YieldOptimizerService {
-  private provider: BrowserProvider | null = null;
-  private yieldHubContract: Contract | null = null;
+  private provider: ReadProvider | null = null;
+  private priceOracle: PriceOracleService;
+  private costModel: CostModelService;
 
-  constructor(provider?: BrowserProvider) {
+  constructor(provider?: ReadProvider) {
+    this.priceOracle = new PriceOracleService();
+    this.costModel = new CostModelService(undefined, this.priceOracle);
     if (provider) {
       this.setProvider(provider);
     }
   }
 
-  setProvider(provider: BrowserProvider) {
+  setProvider(provider: ReadProvider) {
     this.provider = provider;
-    if (CONTRACT_CONFIG.YIELD_HUB_ADDRESS) {
-      this.yieldHubContract = new Contract(
-        CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
-        YIELDHUB_ABI,
-        provider
-      );
-    }
+    this.priceOracle.setProvider(provider);
+    this.costModel.setProvider(provider);
   }
 
-  // Get all available yield opportunities from contracts
+  // Get all available yield opportunities from the registered yield sources
   async getYieldOpportunities(): Promise<YieldOpportunity[]> {
-    if (!this.yieldHubContract) return this.getMockOpportunities();
+    if (!this.provider) return this.getMockOpportunities();
 
     try {
-      const supportedTokens = Object.values(CONTRACT_CONFIG.TOKENS);
-      const opportunities: YieldOpportunity[] = [];
-
-      for (const tokenAddress of supportedTokens) {
-        const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
-        if (!tokenInfo) continue;
-
-        try {
-          let apyBps, tvl, liquidityIndex, lastUpdate, optimizedAPY;
-          
-          try {
-            // Get Aave data from YieldHub contract
-            [apyBps, tvl, liquidityIndex, lastUpdate] = await this.yieldHubContract.getAaveDetails(tokenAddress);
-            optimizedAPY = await this.yieldHubContract.calculateOptimizedAPY(tokenAddress);
-          } catch (detailsError: any) {
-            console.log(`getAaveDetails failed in YieldOptimizer for ${tokenAddress}, using individual methods:`, detailsError.message);
-            
-            // Fallback to individual methods (these work!)
-            apyBps = await this.yieldHubContract.getAaveAPY(tokenAddress);
-            tvl = await this.yieldHubContract.getAaveTVL(tokenAddress);
-            liquidityIndex = BigInt(0);
-            lastUpdate = BigInt(Math.floor(Date.now() / 1000));
-            optimizedAPY = apyBps; // Use APY as optimized fallback
-          }
-          
-          // Calculate risk score based on various factors
-          const riskScore = this.calculateRiskScore(apyBps, tvl, tokenAddress);
-          const riskLevel = this.getRiskLevel(riskScore);
-
-          // Create Aave opportunity
-          const aaveOpportunity: YieldOpportunity = {
-            id: `aave-${tokenAddress}`,
-            subnet: 'Avalanche Fuji',
-            protocol: 'Aave V3',
-            tokenAddress,
-            tokenSymbol: tokenInfo.symbol,
-            apy: this.formatAPY(apyBps),
-            rawAPY: apyBps,
-            riskLevel,
-            riskScore,
-            estimatedReturn: '$0', // Will be calculated based on investment amount
-            tvl: this.formatTVL(tvl),
-            rawTVL: tvl,
-            isActive: true,
-            lastUpdate: Number(lastUpdate),
-          };
-
-          opportunities.push(aaveOpportunity);
-
-          // If we have optimized APY different from Aave APY, create optimized opportunity
-          if (optimizedAPY > apyBps) {
-            const optimizedRiskScore = this.calculateRiskScore(optimizedAPY, tvl, tokenAddress, true);
-            const optimizedOpportunity: YieldOpportunity = {
-              id: `optimized-${tokenAddress}`,
-              subnet: 'Cross-Chain',
-              protocol: 'SubnetYield Core',
-              tokenAddress,
-              tokenSymbol: tokenInfo.symbol,
-              apy: this.formatAPY(optimizedAPY),
-              rawAPY: optimizedAPY,
-              riskLevel: this.getRiskLevel(optimizedRiskScore),
-              riskScore: optimizedRiskScore,
-              estimatedReturn: '$0',
-              tvl: this.formatTVL(tvl),
-              rawTVL: tvl,
-              isActive: true,
-              lastUpdate: Date.now(),
-            };
-
-            opportunities.push(optimizedOpportunity);
-          }
-
-        } catch (error) {
-          console.warn(`Failed to fetch data for ${tokenInfo.symbol}:`, error);
-        }
-      }
+      const quotes = await getAllQuotes(this.provider);
+      const tokens = [...new Set(quotes.map(quote => quote.market.tokenAddress))];
+      const prices = await this.priceOracle.getQuotes(tokens);
+
+      const opportunities = quotes.map(quote => this.toOpportunity(quote, prices[quote.market.tokenAddress]?.priceUSD));
 
       // Sort by APY descending
       opportunities.sort((a, b) => Number(b.rawAPY) - Number(a.rawAPY));
@@ -147,17 +101,54 @@ export class YieldOptimizerService {
     }
   }
 
+  // The Aave opportunity for a token, plus the SubnetYield Core one when its optimized rate is higher
+  opportunitiesForToken(
+    tokenAddress: string,
+    snapshot: Pick<YieldHubTokenSnapshot, 'apyBps' | 'tvl' | 'lastUpdate' | 'optimizedAPY'>,
+    priceUSD?: number,
+    tokenInfo: Pick<TokenInfo, 'symbol' | 'decimals'> | undefined = getTokenInfo(tokenAddress)
+  ): YieldOpportunity[] {
+    if (!tokenInfo) return [];
+    return AaveYieldSource.quotesFromSnapshot(tokenAddress, snapshot, tokenInfo)
+      .map(quote => this.toOpportunity(quote, priceUSD));
+  }
+
+  // A source's market quote as an opportunity, scored for risk
+  toOpportunity(quote: MarketQuote, priceUSD?: number): YieldOpportunity {
+    const { market, aprBps, tvl } = quote;
+    // Unpriced tokens are scored on their token-unit TVL
+    const tvlUSD = toUSD(tvl, market.decimals, priceUSD ?? 1);
+    const riskScore = this.calculateRiskScore(aprBps, tvlUSD, market.tokenAddress, quote.risk);
+
+    return {
+      id: market.id,
+      subnet: market.network,
+      protocol: market.protocol,
+      tokenAddress: market.tokenAddress,
+      tokenSymbol: market.tokenSymbol,
+      apy: this.formatAPY(aprBps),
+      rawAPY: aprBps,
+      riskLevel: this.getRiskLevel(riskScore),
+      riskScore,
+      estimatedReturn: '$0', // Will be calculated based on investment amount
+      tvl: this.formatTVL(tvl, priceUSD, market.decimals),
+      rawTVL: tvl,
+      isActive: true,
+      lastUpdate: quote.lastUpdate,
+    };
+  }
+
   // Calculate risk score based on various factors
   private calculateRiskScore(
     apy: bigint, 
-    tvl: bigint, 
+    tvlUSD: bigint, // 18-decimal USD
     tokenAddress: string, 
-    isOptimized: boolean = false
+    risk: RiskInputs
   ): number {
     let riskScore = 30; // Base risk score
 
     // APY risk factor
-    const apyPercent = Number(apy) / 100;
+    const apyPercent = bpsToPercent(apy);
     if (apyPercent > 20) {
       riskScore += 30; // Very high APY = higher risk
     } else if (apyPercent > 10) {
@@ -167,17 +158,17 @@ export class YieldOptimizerService {
     }
 
     // TVL risk factor (higher TVL = lower risk)
-    const tvlUSD = Number(tvl) / 1e18;
-    if (tvlUSD > 10000000) { // > $10M
+    const tvlDollars = fixedToNumber(tvlUSD);
+    if (tvlDollars > 10000000) { // > $10M
       riskScore -= 15; // Large TVL = lower risk
-    } else if (tvlUSD > 1000000) { // > $1M
+    } else if (tvlDollars > 1000000) { // > $1M
       riskScore -= 10; // Medium TVL = slightly lower risk
-    } else if (tvlUSD < 100000) { // < $100K
+    } else if (tvlDollars < 100000) { // < $100K
       riskScore += 15; // Low TVL = higher risk
     }
 
     // Token-specific risk factors
-    const tokenInfo = TOKEN_INFO[tokenAddress as keyof typeof TOKEN_INFO];
+    const tokenInfo = getTokenInfo(tokenAddress);
     if (tokenInfo) {
       if (tokenInfo.symbol === 'WETH') {
         riskScore -= 5; // ETH is generally considered lower risk
@@ -186,13 +177,18 @@ export class YieldOptimizerService {
       }
     }
 
-    // Optimized strategy risk adjustment
-    if (isOptimized) {
-      riskScore += 10; // Cross-chain optimization adds some risk
+    // Cross-chain optimization adds some risk
+    if (risk.crossChain) {
+      riskScore += 10;
+    }
+
+    // LP positions can lose value to price divergence between the pair's tokens
+    if (risk.impermanentLoss) {
+      riskScore += 10;
     }
 
-    // Aave protocol risk adjustment
-    riskScore -= 10; // Aave is a well-established protocol
+    // Protocol risk adjustment (well-established protocols lower the score)
+    riskScore += risk.protocolAdjustment;
 
     return Math.max(0, Math.min(100, riskScore));
   }
@@ -204,60 +200,97 @@ export class YieldOptimizerService {
     return 'High';
   }
 
-  // Optimize yield opportunities based on user parameters
+  // Split the investment across opportunities to maximize risk-adjusted return after entry and exit
+  // costs, within the user's limits
   async optimizeYield(params: OptimizationParams): Promise<OptimizationResult> {
     const allOpportunities = await this.getYieldOpportunities();
-    
-    // Filter opportunities based on risk tolerance
-    const filteredOpportunities = allOpportunities.filter(opp => {
-      const riskThreshold = this.getRiskThreshold(params.riskTolerance);
-      return opp.riskScore <= riskThreshold && opp.isActive;
-    });
-
-    // Calculate estimated returns for each opportunity
-    const opportunitiesWithReturns = filteredOpportunities.map(opp => ({
-      ...opp,
-      estimatedReturn: this.calculateEstimatedReturn(
-        params.investmentAmount,
-        Number(opp.rawAPY) / 100,
-        params.timeHorizon
-      ),
-    }));
-
-    // Sort by risk-adjusted return
-    const sortedOpportunities = opportunitiesWithReturns.sort((a, b) => {
-      const aScore = this.calculateRiskAdjustedScore(a, params.riskTolerance);
-      const bScore = this.calculateRiskAdjustedScore(b, params.riskTolerance);
-      return bScore - aScore;
+    const candidates = allOpportunities.filter(opp => opp.isActive);
+    const costs = await this.costModel.estimateCosts(candidates, {
+      userAddress: params.userAddress,
+      fundingToken: params.fundingToken,
     });
+    return this.allocateOpportunities(candidates, params, costs);
+  }
 
-    // Select top opportunities based on diversification preference
-    const recommendedOpportunities = this.selectDiversifiedOpportunities(
-      sortedOpportunities,
-      params.diversificationPreference
+  // The allocation step of optimizeYield for given opportunities and costs; needs no provider, so
+  // backtests can replay it over historical data
+  allocateOpportunities(
+    candidates: YieldOpportunity[],
+    params: OptimizationParams,
+    costs: Record<string, OpportunityCosts>
+  ): OptimizationResult {
+    const constraints: AllocationConstraints = {
+      maxRiskScore: this.getRiskThreshold(params.riskTolerance),
+      maxOpportunityPercent: this.getOpportunityCap(params.diversificationPreference),
+      ...params.constraints,
+    };
+    const netFor = (opp: YieldOpportunity, amount: number) =>
+      CostModelService.netReturn(amount, this.rateOf(opp), params.timeHorizon, costs[opp.id]);
+
+    // Score on the net APY at the most one opportunity can receive; fixed costs weigh more on smaller shares
+    const largestShare = Math.min(
+      100,
+      constraints.maxOpportunityPercent ?? 100,
+      constraints.maxProtocolPercent ?? 100,
+      constraints.maxTokenPercent ?? 100
+    ) / 100;
+    const score = (opp: YieldOpportunity) => this.calculateRiskAdjustedScore(
+      opp,
+      params.riskTolerance,
+      netFor(opp, params.investmentAmount * largestShare).netAPY
     );
 
-    // Calculate aggregate metrics
-    const totalEstimatedReturn = recommendedOpportunities.reduce((sum, opp) => {
-      return sum + parseFloat(opp.estimatedReturn.replace('$', '').replace(',', ''));
-    }, 0);
-
-    const averageAPY = recommendedOpportunities.reduce((sum, opp) => {
-      return sum + (Number(opp.rawAPY) / 100);
-    }, 0) / Math.max(recommendedOpportunities.length, 1);
-
-    const averageRiskScore = recommendedOpportunities.reduce((sum, opp) => {
-      return sum + opp.riskScore;
-    }, 0) / Math.max(recommendedOpportunities.length, 1);
+    // Drop positions that don't earn back their costs at the amount they get, and re-allocate
+    const excluded = new Set<string>();
+    let result = allocate(candidates, params.investmentAmount, constraints, score);
+    for (;;) {
+      const losing = result.allocations.filter(allocation =>
+        netFor(allocation.opportunity, allocation.amount).netReturn <= 0
+      );
+      if (losing.length === 0) break;
+      losing.forEach(allocation => excluded.add(allocation.opportunity.id));
+      result = allocate(candidates.filter(opp => !excluded.has(opp.id)), params.investmentAmount, constraints, score);
+    }
 
-    const diversificationScore = this.calculateDiversificationScore(recommendedOpportunities);
+    const allocations: CostedAllocation[] = result.allocations
+      .map(allocation => {
+        const estimate = netFor(allocation.opportunity, allocation.amount);
+        return {
+          ...allocation,
+          opportunity: { ...allocation.opportunity, estimatedReturn: this.formatCurrency(estimate.netReturn) },
+          costs: costs[allocation.opportunity.id],
+          estimate,
+        };
+      })
+      .sort((a, b) => b.estimate.netAPY - a.estimate.netAPY);
+    const recommendedOpportunities = allocations.map(allocation => allocation.opportunity);
+
+    const totalEstimatedReturn = allocations.reduce((sum, allocation) => sum + allocation.estimate.grossReturn, 0);
+    const totalCostUSD = allocations.reduce((sum, allocation) => sum + allocation.estimate.costUSD, 0);
+    const netReturn = totalEstimatedReturn - totalCostUSD;
 
     return {
       recommendedOpportunities,
+      allocations,
+      allocatedAmount: result.allocatedAmount,
+      unallocatedAmount: result.unallocatedAmount,
       totalEstimatedReturn,
-      averageAPY,
-      riskScore: averageRiskScore,
-      diversificationScore,
+      totalCostUSD,
+      netReturn,
+      netAPY: result.allocatedAmount > 0 ? annualizeReturn(netReturn / result.allocatedAmount, params.timeHorizon) : 0,
+      breakEvenDays: daysToTarget(
+        result.allocatedAmount,
+        result.allocatedAmount + totalCostUSD,
+        { percent: result.weightedAPY, kind: 'APR' }
+      ),
+      weightedAPY: result.weightedAPY,
+      projection: sumProjections(
+        allocations.map(allocation => projectYield(allocation.amount, this.rateOf(allocation.opportunity), params.timeHorizon)),
+        params.timeHorizon
+      ),
+      riskScore: result.weightedRiskScore,
+      diversificationScore: this.calculateDiversificationScore(recommendedOpportunities),
+      bindingConstraints: result.bindingConstraints,
     };
   }
 
@@ -269,67 +302,27 @@ export class YieldOptimizerService {
     return 100; // High risk tolerance
   }
 
-  // Calculate estimated return for a given investment
-  private calculateEstimatedReturn(
-    investmentAmount: number,
-    apyDecimal: number,
-    timeHorizonDays: number
-  ): string {
-    const annualReturn = investmentAmount * apyDecimal;
-    const dailyReturn = annualReturn / 365;
-    const estimatedReturn = dailyReturn * timeHorizonDays;
-    
-    return this.formatCurrency(estimatedReturn);
+  // Largest share (percent) one opportunity may take: 100% with no diversification preference, 20% at the maximum
+  private getOpportunityCap(diversificationPreference: number): number {
+    return 100 - 0.8 * Math.max(0, Math.min(100, diversificationPreference));
   }
 
-  // Calculate risk-adjusted score for sorting
+  // YieldHub rates are Aave liquidity rates (or blends of them): APRs that compound every second
+  private rateOf(opportunity: YieldOpportunity): AnnualRate {
+    return { percent: bpsToPercent(opportunity.rawAPY), kind: 'APR' };
+  }
+
+  // Risk-adjusted score the allocation maximizes, per unit invested
   private calculateRiskAdjustedScore(
     opportunity: YieldOpportunity,
-    riskTolerance: number
+    riskTolerance: number,
+    apyPercent: number = Number(opportunity.rawAPY) / 100
   ): number {
-    const apyScore = Number(opportunity.rawAPY) / 100;
+    const apyScore = apyPercent;
     const riskPenalty = (opportunity.riskScore / 100) * (1 - riskTolerance / 100);
     return apyScore - riskPenalty;
   }
 
-  // Select diversified opportunities
-  private selectDiversifiedOpportunities(
-    opportunities: YieldOpportunity[],
-    diversificationPreference: number
-  ): YieldOpportunity[] {
-    if (diversificationPreference < 50) {
-      // Low diversification - prefer top opportunities
-      return opportunities.slice(0, 3);
-    } else {
-      // High diversification - select from different protocols/tokens
-      const selected: YieldOpportunity[] = [];
-      const usedProtocols = new Set<string>();
-      const usedTokens = new Set<string>();
-
-      for (const opp of opportunities) {
-        if (selected.length >= 5) break;
-
-        const protocolKey = `${opp.protocol}-${opp.tokenSymbol}`;
-        if (diversificationPreference > 75) {
-          // Very high diversification
-          if (!usedProtocols.has(opp.protocol) && !usedTokens.has(opp.tokenSymbol)) {
-            selected.push(opp);
-            usedProtocols.add(opp.protocol);
-            usedTokens.add(opp.tokenSymbol);
-          }
-        } else {
-          // Medium diversification
-          if (!usedProtocols.has(protocolKey)) {
-            selected.push(opp);
-            usedProtocols.add(protocolKey);
-          }
-        }
-      }
-
-      return selected.length > 0 ? selected : opportunities.slice(0, 3);
-    }
-  }
-
   // Calculate diversification score
   private calculateDiversificationScore(opportunities: YieldOpportunity[]): number {
     const uniqueProtocols = new Set(opportunities.map(opp => opp.protocol)).size;
@@ -400,36 +393,22 @@ export class YieldOptimizerService {
 
   // Utility functions
   private formatAPY(apyBps: bigint): string {
-    return `${(Number(apyBps) / 100).toFixed(1)}%`;
+    return formatBps(apyBps, 1);
   }
 
-  private formatTVL(tvl: bigint): string {
-    const tvlNum = Number(tvl) / 1e18;
-    if (tvlNum >= 1e9) return `$${(tvlNum / 1e9).toFixed(1)}B`;
-    if (tvlNum >= 1e6) return `$${(tvlNum / 1e6).toFixed(1)}M`;
-    if (tvlNum >= 1e3) return `$${(tvlNum / 1e3).toFixed(1)}K`;
-    return `$${tvlNum.toFixed(0)}`;
+  private formatTVL(tvl: bigint, priceUSD?: number, decimals: number = 18): string {
+    return formatTokenValue(tvl, decimals, priceUSD, 1);
   }
 
   private formatCurrency(amount: number): string {
-    if (amount >= 1e6) {
-      return `$${(amount / 1e6).toFixed(2)}M`;
-    } else if (amount >= 1e3) {
-      return `$${(amount / 1e3).toFixed(1)}K`;
-    } else {
-      return `$${amount.toFixed(0)}`;
-    }
+    return YieldOptimizerService.formatCurrency(amount);
   }
 
   // Static utility functions
   static formatCurrency(amount: number): string {
-    if (amount >= 1e6) {
-      return `$${(amount / 1e6).toFixed(2)}M`;
-    } else if (amount >= 1e3) {
-      return `$${(amount / 1e3).toFixed(1)}K`;
-    } else {
-      return `$${amount.toFixed(0)}`;
-    }
+    const magnitude = Math.abs(amount);
+    const fractionDigits = magnitude >= 1e6 ? 2 : magnitude >= 1e3 ? 1 : 0;
+    return formatUSD(numberToFixed(amount), fractionDigits);
   }
 
   static getRiskLevelColor(riskLevel: 'Low' | 'Medium' | 'High'): string {
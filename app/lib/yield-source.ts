@@ -0,0 +1,131 @@
+// A protocol the app can put money into, behind one interface: the optimizer, the cross-chain
+// comparison and the portfolio iterate over the registered sources instead of naming protocols.
+
+import { ReadProvider } from './providers';
+import type { CostStep } from './cost-model';
+import { AaveYieldSource } from './aave-yield-source';
+import { TraderJoeYieldSource } from './trader-joe-yield-source';
+import { BenqiYieldSource } from './benqi-yield-source';
+
+// Something a source accepts deposits into
+export interface YieldMarket {
+  id: string; // Unique across sources; also the YieldOpportunity id
+  sourceId: string;
+  protocol: string;
+  network: string;
+  tokenAddress: string; // Token deposited and withdrawn
+  tokenSymbol: string;
+  decimals: number;
+}
+
+// What the risk score needs to know beyond rate and TVL
+export interface RiskInputs {
+  protocolAdjustment: number; // Added to the score; established protocols are negative
+  crossChain: boolean;
+  impermanentLoss: boolean;
+}
+
+// Current rate and size of a market
+export interface MarketQuote {
+  market: YieldMarket;
+  aprBps: bigint; // Compounds per second, like Aave liquidity rates
+  tvl: bigint; // In units of the market token
+  lastUpdate: number; // Seconds
+  risk: RiskInputs;
+}
+
+// A user's holding in a market
+export interface SourcePosition {
+  market: YieldMarket;
+  amount: bigint; // Market token units the position is worth
+  aprBps: bigint;
+}
+
+// One unsigned transaction of a deposit or withdrawal, in the order to send them
+export interface SourceTransaction {
+  description: string;
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface YieldSource {
+  readonly id: string;
+  listMarkets(): Promise<YieldMarket[]>;
+  // Quotes for active markets; markets without a usable rate are left out
+  getQuotes(): Promise<MarketQuote[]>;
+  buildDeposit(market: YieldMarket, amount: bigint, userAddress: string): Promise<SourceTransaction[]>;
+  buildWithdraw(market: YieldMarket, amount: bigint | 'max', userAddress: string): Promise<SourceTransaction[]>;
+  getPositions(userAddress: string): Promise<SourcePosition[]>;
+}
+
+// How a source is registered: its protocols and transaction steps are known before it is connected
+export interface YieldSourceDefinition {
+  id: string;
+  protocols: string[]; // Protocol names its markets carry
+  entrySteps: CostStep[]; // Transactions to enter from the market token
+  exitSteps: CostStep[]; // Transactions to leave back to the market token
+  create: (provider: ReadProvider) => YieldSource;
+}
+
+const definitions = new Map<string, YieldSourceDefinition>();
+let instances = new WeakMap<ReadProvider, YieldSource[]>();
+
+// Add or replace a source; services pick it up the next time they ask for sources
+export const registerYieldSource = (definition: YieldSourceDefinition) => {
+  definitions.set(definition.id, definition);
+  instances = new WeakMap();
+};
+
+export const getYieldSourceDefinitions = (): YieldSourceDefinition[] => [...definitions.values()];
+
+// Definition of the source whose markets carry `protocol`
+export const findYieldSourceDefinition = (protocol: string): YieldSourceDefinition | undefined =>
+  getYieldSourceDefinitions().find(definition => definition.protocols.includes(protocol));
+
+// Registered sources connected to a provider, shared per provider
+export const getYieldSources = (provider: ReadProvider): YieldSource[] => {
+  let sources = instances.get(provider);
+  if (!sources) {
+    sources = getYieldSourceDefinitions().map(definition => definition.create(provider));
+    instances.set(provider, sources);
+  }
+  return sources;
+};
+
+// Quotes from every source; a failing source is skipped rather than failing the rest
+export const getAllQuotes = async (provider: ReadProvider): Promise<MarketQuote[]> => {
+  const quotes = await Promise.all(getYieldSources(provider).map(source =>
+    source.getQuotes().catch(error => {
+      console.warn(`Could not load ${source.id} markets:`, error);
+      return [] as MarketQuote[];
+    })
+  ));
+  return quotes.flat();
+};
+
+registerYieldSource({
+  id: AaveYieldSource.ID,
+  protocols: [AaveYieldSource.PROTOCOL, AaveYieldSource.OPTIMIZED_PROTOCOL],
+  entrySteps: ['approve', 'supply'],
+  exitSteps: ['withdraw'],
+  create: provider => new AaveYieldSource(provider),
+});
+
+registerYieldSource({
+  id: TraderJoeYieldSource.ID,
+  protocols: [TraderJoeYieldSource.PROTOCOL],
+  // Half the deposit is swapped into the paired token, and back on exit
+  entrySteps: ['approve', 'swap', 'approve', 'addLiquidity'],
+  exitSteps: ['approve', 'removeLiquidity', 'approve', 'swap'],
+  create: provider => new TraderJoeYieldSource(provider),
+});
+
+registerYieldSource({
+  id: BenqiYieldSource.ID,
+  protocols: [BenqiYieldSource.PROTOCOL],
+  // qiAVAX unwraps WAVAX instead of approving, at a similar cost
+  entrySteps: ['approve', 'supply'],
+  exitSteps: ['withdraw'],
+  create: provider => new BenqiYieldSource(provider),
+});
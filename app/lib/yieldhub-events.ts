@@ -0,0 +1,233 @@
+import { Interface, Log } from 'ethers';
+import { CONTRACT_CONFIG, YIELDHUB_ABI } from './web3-config';
+import { ReadProvider } from './providers';
+
+// Event layer configuration
+export const EVENT_CONFIG = {
+  // Block polling interval when the provider cannot push new blocks
+  POLL_INTERVAL: 10000,
+  // Fall back to polling if a subscription delivers no block for this long
+  SUBSCRIPTION_WATCHDOG: 30000,
+  // Most blocks scanned by one getLogs call after a gap
+  MAX_LOG_RANGE: 2000,
+  // Full reload cadence in blocks (Fuji produces a block roughly every 2s)
+  REFRESH_BLOCKS: {
+    MARKET: 15,
+    PORTFOLIO: 30,
+    SUBNET: 60,
+  },
+};
+
+interface ChainEventMeta {
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type YieldHubEvent =
+  | ({ type: 'AaveUpdated'; token: string; apyBps: bigint; tvl: bigint; liquidityIndex: bigint; timestamp: number } & ChainEventMeta)
+  | ({ type: 'SubnetRequest'; requestId: string; token: string; requester: string; timestamp: number } & ChainEventMeta)
+  | ({ type: 'SubnetResponse'; requestId: string; token: string; apyBps: bigint; tvl: bigint; protocol: string; timestamp: number } & ChainEventMeta)
+  | ({ type: 'TokenAdded'; token: string; decimals: number } & ChainEventMeta)
+  | ({ type: 'TokenRemoved'; token: string } & ChainEventMeta)
+  | ({ type: 'EmergencyModeToggled'; enabled: boolean } & ChainEventMeta)
+  | { type: 'block'; blockNumber: number; previousBlock: number | null };
+
+export type YieldHubEventListener = (event: YieldHubEvent) => void;
+
+export type EventDeliveryMode = 'idle' | 'subscription' | 'polling';
+
+const WATCHED_EVENTS = [
+  'AaveUpdated',
+  'SubnetRequest',
+  'SubnetResponse',
+  'TokenAdded',
+  'TokenRemoved',
+  'EmergencyModeToggled',
+] as const;
+
+// One log scan per new block, fanned out to every subscriber
+export class YieldHubEventService {
+  private provider: ReadProvider;
+  private iface: Interface = new Interface(YIELDHUB_ABI);
+  private listeners: Set<YieldHubEventListener> = new Set();
+  private mode: EventDeliveryMode = 'idle';
+  private lastBlock: number | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private watchdogTimer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  // Bumped on every start and stop, so a start that was overtaken gives up
+  private generation = 0;
+
+  constructor(provider: ReadProvider) {
+    this.provider = provider;
+  }
+
+  // Listen to YieldHub events and new blocks; returns the unsubscribe function
+  subscribe(listener: YieldHubEventListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  getMode(): EventDeliveryMode {
+    return this.mode;
+  }
+
+  private async start() {
+    const generation = ++this.generation;
+    let startBlock: number | null = null;
+    try {
+      startBlock = await this.provider.getBlockNumber();
+    } catch (error) {
+      console.warn('Could not read the current block, starting from the next one:', error);
+    }
+    if (generation !== this.generation) return; // Stopped or restarted while starting
+    this.lastBlock = startBlock;
+
+    try {
+      await this.provider.on('block', this.handleBlock);
+      if (generation !== this.generation) {
+        // Drop only this start's registration; a newer start may have added its own
+        this.provider.off('block', this.handleBlock);
+        return;
+      }
+      this.mode = 'subscription';
+      this.armWatchdog();
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.warn('Block subscriptions unavailable, polling instead:', error);
+      this.startPolling();
+    }
+  }
+
+  private stop() {
+    this.generation++;
+    this.provider.off('block', this.handleBlock);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+    this.pollTimer = null;
+    this.watchdogTimer = null;
+    this.lastBlock = null;
+    this.mode = 'idle';
+  }
+
+  private startPolling() {
+    this.provider.off('block', this.handleBlock);
+    if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+    this.watchdogTimer = null;
+    this.mode = 'polling';
+
+    this.pollTimer = setInterval(async () => {
+      try {
+        this.handleBlock(await this.provider.getBlockNumber());
+      } catch (error) {
+        console.warn('Block polling failed:', error);
+      }
+    }, EVENT_CONFIG.POLL_INTERVAL);
+  }
+
+  // A subscription that goes quiet is treated as unsupported
+  private armWatchdog() {
+    if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+    this.watchdogTimer = setTimeout(() => {
+      if (this.mode === 'subscription') {
+        console.warn('No blocks received from subscription, switching to polling');
+        this.startPolling();
+      }
+    }, EVENT_CONFIG.SUBSCRIPTION_WATCHDOG);
+  }
+
+  private handleBlock = (blockNumber: number) => {
+    if (this.mode === 'subscription') this.armWatchdog();
+    // Blocks are processed one at a time so events stay in order
+    this.queue = this.queue.then(() => this.processBlock(blockNumber));
+  };
+
+  private async processBlock(blockNumber: number) {
+    const previousBlock = this.lastBlock;
+    if (previousBlock !== null && blockNumber <= previousBlock) return;
+
+    if (previousBlock !== null) {
+      const fromBlock = Math.max(previousBlock + 1, blockNumber - EVENT_CONFIG.MAX_LOG_RANGE + 1);
+      try {
+        const logs = await this.provider.getLogs({
+          address: CONTRACT_CONFIG.YIELD_HUB_ADDRESS,
+          fromBlock,
+          toBlock: blockNumber,
+          topics: [WATCHED_EVENTS.map(name => this.iface.getEvent(name)!.topicHash)],
+        });
+        logs.forEach(log => {
+          const event = this.parseLog(log);
+          if (event) this.emit(event);
+        });
+      } catch (error) {
+        // Leave lastBlock alone so the range is retried with the next block
+        console.warn(`Could not read YieldHub logs up to block ${blockNumber}:`, error);
+        return;
+      }
+    }
+
+    this.lastBlock = blockNumber;
+    this.emit({ type: 'block', blockNumber, previousBlock });
+  }
+
+  private parseLog(log: Log): YieldHubEvent | null {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed) return null;
+
+    const meta: ChainEventMeta = { blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+    const { args } = parsed;
+
+    switch (parsed.name) {
+      case 'AaveUpdated':
+        return { type: 'AaveUpdated', token: args.token, apyBps: args.apyBps, tvl: args.tvl, liquidityIndex: args.liquidityIndex, timestamp: Number(args.timestamp), ...meta };
+      case 'SubnetRequest':
+        return { type: 'SubnetRequest', requestId: args.requestId, token: args.token, requester: args.requester, timestamp: Number(args.timestamp), ...meta };
+      case 'SubnetResponse':
+        return { type: 'SubnetResponse', requestId: args.requestId, token: args.token, apyBps: args.apyBps, tvl: args.tvl, protocol: args.protocol, timestamp: Number(args.timestamp), ...meta };
+      case 'TokenAdded':
+        return { type: 'TokenAdded', token: args.token, decimals: Number(args.decimals), ...meta };
+      case 'TokenRemoved':
+        return { type: 'TokenRemoved', token: args.token, ...meta };
+      case 'EmergencyModeToggled':
+        return { type: 'EmergencyModeToggled', enabled: args.enabled, ...meta };
+      default:
+        return null;
+    }
+  }
+
+  private emit(event: YieldHubEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`YieldHub ${event.type} listener failed:`, error);
+      }
+    });
+  }
+}
+
+const eventServices = new WeakMap<ReadProvider, YieldHubEventService>();
+
+// Shared event service per provider so every consumer rides on the same log scan
+export const getYieldHubEvents = (provider: ReadProvider): YieldHubEventService => {
+  let service = eventServices.get(provider);
+  if (!service) {
+    service = new YieldHubEventService(provider);
+    eventServices.set(provider, service);
+  }
+  return service;
+};
+
+// True once every `everyBlocks` blocks, however many blocks a single update skipped
+export const isRefreshBlock = (event: YieldHubEvent, everyBlocks: number): boolean => {
+  if (event.type !== 'block' || event.previousBlock === null) return false;
+  return Math.floor(event.blockNumber / everyBlocks) > Math.floor(event.previousBlock / everyBlocks);
+};
@@ -1,96 +1,68 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Bell, X, RefreshCw, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
 import Navbar from '../Navbar';
 import { useWeb3 } from '../lib/Web3Context';
+import { EVENT_CONFIG, isRefreshBlock } from '../lib/yieldhub-events';
 import PortfolioService, { PortfolioSummary, PortfolioMetrics } from '../lib/portfolio-service';
 import CrossChainYieldComparison from '../components/CrossChainYieldComparison';
-
-interface Transaction {
-  type: string;
-  amount: string;
-  subnet: string;
-  timestamp: string;
-}
+import TransactionHistoryService, { Transaction } from '../lib/transaction-history';
+import { formatTokenAmount } from '../lib/units';
 
 interface TransactionModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Signed USD value, or the token amounts when no historical price was available
+const formatTransactionAmount = (transaction: Transaction): string => {
+  const sign = transaction.direction === 'in' ? '+' : '-';
+  if (transaction.valueUSD !== null) {
+    return `${sign}${PortfolioService.formatCurrency(transaction.valueUSD)}`;
+  }
+  return transaction.amounts
+    .map(amount => `${sign}${formatTokenAmount(amount.amount, amount.decimals)} ${amount.symbol}`)
+    .join(' / ');
+};
+
 const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose }) => {
-  if (!isOpen) return null; 
+  const { readProvider, account } = useWeb3();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextBlock, setNextBlock] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const historyService = useMemo(() => new TransactionHistoryService(readProvider), [readProvider]);
 
-  // Generate transactions based on portfolio positions (mock enhanced data)
-  const generateTransactions = (): Transaction[] => {
-    const baseTransactions = [
-      {
-        type: 'Aave Supply',
-        amount: '+$1,000',
-        subnet: 'Fuji Testnet',
-        timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Token Transfer',
-        amount: '-$500',
-        subnet: 'Fuji Testnet',
-        timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Yield Earned',
-        amount: '+$50',
-        subnet: 'Aave V3',
-        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Wallet Deposit',
-        amount: '+$2,000',
-        subnet: 'Fuji Testnet',
-        timestamp: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Aave Withdraw',
-        amount: '-$1,200',
-        subnet: 'Aave V3',
-        timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Yield Earned',
-        amount: '+$75',
-        subnet: 'Aave V3',
-        timestamp: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Token Swap',
-        amount: '+$3,500',
-        subnet: 'Fuji Testnet',
-        timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Aave Borrow',
-        amount: '-$800',
-        subnet: 'Aave V3',
-        timestamp: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Yield Earned',
-        amount: '+$120',
-        subnet: 'Aave V3',
-        timestamp: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toLocaleString()
-      },
-      {
-        type: 'Portfolio Rebalance',
-        amount: '+$1,500',
-        subnet: 'SubnetYield Core',
-        timestamp: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toLocaleString()
-      }
-    ];
-    
-    return baseTransactions;
+  // Load a page of transactions, starting from the latest block when fromBlock is omitted
+  const loadTransactions = async (fromBlock?: number) => {
+    if (!account) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await historyService.getTransactions(account, { fromBlock });
+      setTransactions(previous => fromBlock === undefined ? page.transactions : [...previous, ...page.transactions]);
+      setNextBlock(page.nextBlock);
+    } catch (err: any) {
+      console.error('Error loading transaction history:', err);
+      setError(err.message || 'Failed to load transaction history');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const transactions = generateTransactions();
+  useEffect(() => {
+    if (isOpen && account) {
+      loadTransactions();
+    } else {
+      setTransactions([]);
+      setNextBlock(null);
+    }
+  }, [isOpen, account, historyService]);
+
+  if (!isOpen) return null; 
 
   return (
     <div className="fixed inset-0 backdrop-blur-sm bg-opacity-100 flex items-center justify-center z-50 p-4">
@@ -109,6 +81,12 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose })
         </div>
         
         <div className="p-6 overflow-auto max-h-105">
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
           <div className="overflow-hidden rounded-lg border border-[#2a2a2a] hover:border-[#00ffaa] transition-all duration-300">
             <table className="w-full">
               <thead>
@@ -121,22 +99,49 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose })
                 </tr>
               </thead>
               <tbody>
-                {transactions.map((transaction, index) => (
-                  <tr key={index} className="border-t border-[#2a2a2a] hover:bg-[#1a1a1a] transition-colors duration-200">
-                    <td className="h-[72px] px-4 py-2 text-white text-sm font-normal">{transaction.type}</td>
-                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{transaction.amount}</td>
-                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{transaction.subnet}</td>
-                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{transaction.timestamp}</td>
+                {transactions.map(transaction => (
+                  <tr key={transaction.id} className="border-t border-[#2a2a2a] hover:bg-[#1a1a1a] transition-colors duration-200">
+                    <td className="h-[72px] px-4 py-2 text-white text-sm font-normal">{transaction.label}</td>
+                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{formatTransactionAmount(transaction)}</td>
+                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{transaction.protocol}</td>
+                    <td className="h-[72px] px-4 py-2 text-[#777] text-sm font-normal">{new Date(transaction.timestamp * 1000).toLocaleString()}</td>
                     <td className="h-[72px] px-4 py-2">
-                      <button className="text-[#00ffaa] text-sm font-bold hover:text-white hover:shadow-[0_0_10px_rgba(0,255,170,0.3)] transition-all duration-300">
+                      <a
+                        href={transaction.explorerUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[#00ffaa] text-sm font-bold hover:text-white hover:shadow-[0_0_10px_rgba(0,255,170,0.3)] transition-all duration-300"
+                      >
                         View
-                      </button>
+                      </a>
                     </td>
                   </tr>
                 ))}
+                {transactions.length === 0 && (
+                  <tr className="border-t border-[#2a2a2a]">
+                    <td colSpan={5} className="px-4 py-8 text-center text-[#777] text-sm">
+                      {!account
+                        ? 'Connect your wallet to view transactions.'
+                        : isLoading ? 'Loading transactions...' : 'No transactions found in recent blocks.'}
+                    </td>
+                  </tr>
+                )}
               </tbody>
             </table>
           </div>
+
+          {account && nextBlock !== null && transactions.length > 0 && (
+            <div className="flex justify-center mt-4">
+              <button
+                onClick={() => loadTransactions(nextBlock)}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 bg-[#1a1a1a] border border-[#2a2a2a] text-white text-sm rounded-lg hover:border-[#00ffaa] transition-all duration-300 disabled:opacity-50"
+              >
+                <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+                {isLoading ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -144,7 +149,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ isOpen, onClose })
 };
 
 const SubnetYieldPortfolio: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, yieldHubEvents, account, isConnected, chainId } = useWeb3();
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState<boolean>(false);
   const [isClient, setIsClient] = useState<boolean>(false);
   const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
@@ -159,13 +164,9 @@ const SubnetYieldPortfolio: React.FC = () => {
 
   // Initialize portfolio service
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const service = new PortfolioService(provider);
-      setPortfolioService(service);
-    } else {
-      setPortfolioService(null);
-    }
-  }, [provider, chainId]);
+    const service = new PortfolioService(readProvider);
+    setPortfolioService(service);
+  }, [readProvider]);
 
   // Load portfolio data
   const loadPortfolioData = async () => {
@@ -198,13 +199,16 @@ const SubnetYieldPortfolio: React.FC = () => {
     }
   }, [portfolioService, account]);
 
-  // Auto-refresh every 60 seconds
+  // Block-based refresh
   useEffect(() => {
     if (!portfolioService || !account) return;
 
-    const interval = setInterval(loadPortfolioData, 60000);
-    return () => clearInterval(interval);
-  }, [portfolioService, account]);
+    return yieldHubEvents.subscribe(event => {
+      if (isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.PORTFOLIO)) {
+        loadPortfolioData();
+      }
+    });
+  }, [portfolioService, account, yieldHubEvents]);
 
   // Ensure client-side hydration and animate cards
   useEffect(() => {
@@ -4,19 +4,41 @@ import React, { useState, useEffect, useRef } from 'react';
 import { RefreshCw, AlertTriangle, TrendingUp, Zap, Target } from 'lucide-react';
 import Navbar from '../Navbar';
 import { useWeb3 } from '../lib/Web3Context';
+import { EVENT_CONFIG, isRefreshBlock } from '../lib/yieldhub-events';
 import YieldOptimizerService, {
   YieldOpportunity,
   OptimizationResult,
   OptimizationParams
 } from '../lib/yield-optimizer-service';
+import { AllocationConstraints } from '../lib/allocation-engine';
+import { UNISWAP_V2_CONFIG } from '../lib/uniswap-service';
 import SubnetService, { SubnetYieldData } from '../lib/subnet-service';
+import ReturnSimulationService, { ReturnDistribution } from '../lib/return-simulation';
+import RebalancePlanCard from '../components/RebalancePlanCard';
+import ProjectionChart from '../components/ProjectionChart';
 
 // YieldOpportunity interface is now imported from the service
 
+const PROTOCOL_CAP_OPTIONS = [100, 75, 50, 33];
+const TOKEN_CAP_OPTIONS = [100, 75, 50, 33];
+const STABLECOIN_FLOOR_OPTIONS = [0, 10, 25, 50];
+const TIME_HORIZON_OPTIONS = [30, 90, 180, 365];
+// Token the investment starts in; '' means the user already holds each opportunity's token
+const FUNDING_OPTIONS: Array<[string, string]> = [
+  ['', 'Each token (no swap)'],
+  [UNISWAP_V2_CONFIG.USDC_ADDRESS, 'USDC'],
+  [UNISWAP_V2_CONFIG.WAVAX_ADDRESS, 'WAVAX'],
+];
+
 const SubnetYieldCore: React.FC = () => {
-  const { provider, account, isConnected, chainId } = useWeb3();
+  const { readProvider, yieldHubEvents, isReadOnly, account, isConnected } = useWeb3();
   const [investmentAmount, setInvestmentAmount] = useState<string>('10000');
   const [riskTolerance, setRiskTolerance] = useState<number>(32);
+  const [maxProtocolPercent, setMaxProtocolPercent] = useState<number>(100);
+  const [maxTokenPercent, setMaxTokenPercent] = useState<number>(100);
+  const [minStablecoinPercent, setMinStablecoinPercent] = useState<number>(0);
+  const [timeHorizon, setTimeHorizon] = useState<number>(365);
+  const [fundingToken, setFundingToken] = useState<string>('');
   const [isClient, setIsClient] = useState(false);
   const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
 
@@ -26,22 +48,20 @@ const SubnetYieldCore: React.FC = () => {
   const [yieldOpportunities, setYieldOpportunities] = useState<YieldOpportunity[]>([]);
   const [subnetYieldData, setSubnetYieldData] = useState<SubnetYieldData[]>([]);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
+  const [simulationService, setSimulationService] = useState<ReturnSimulationService | null>(null);
+  const [outcomes, setOutcomes] = useState<ReturnDistribution | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
   // Initialize services
   useEffect(() => {
-    if (provider && chainId === 43113) {
-      const optimizerSvc = new YieldOptimizerService(provider);
-      const subnetSvc = new SubnetService(provider);
-      setOptimizerService(optimizerSvc);
-      setSubnetService(subnetSvc);
-    } else {
-      setOptimizerService(null);
-      setSubnetService(null);
-    }
-  }, [provider, chainId]);
+    const optimizerSvc = new YieldOptimizerService(readProvider);
+    const subnetSvc = new SubnetService(readProvider);
+    setOptimizerService(optimizerSvc);
+    setSubnetService(subnetSvc);
+    setSimulationService(new ReturnSimulationService(readProvider));
+  }, [readProvider]);
 
   // Load yield opportunities
   const loadYieldOpportunities = async () => {
@@ -78,11 +98,19 @@ const SubnetYieldCore: React.FC = () => {
     if (!optimizerService || !investmentAmount || parseFloat(investmentAmount) <= 0) return;
 
     try {
+      const constraints: AllocationConstraints = {
+        maxProtocolPercent,
+        maxTokenPercent,
+        minStablecoinPercent,
+      };
       const params: OptimizationParams = {
         investmentAmount: parseFloat(investmentAmount),
         riskTolerance,
-        timeHorizon: 365, // 1 year default
+        timeHorizon,
         diversificationPreference: 50, // Medium diversification
+        constraints,
+        userAddress: account ?? undefined,
+        fundingToken: fundingToken || undefined,
       };
 
       const result = await optimizerService.optimizeYield(params);
@@ -108,15 +136,36 @@ const SubnetYieldCore: React.FC = () => {
 
       return () => clearTimeout(debounceTimer);
     }
-  }, [investmentAmount, riskTolerance, optimizerService, yieldOpportunities]);
+  }, [investmentAmount, riskTolerance, maxProtocolPercent, maxTokenPercent, minStablecoinPercent, timeHorizon, fundingToken, account, optimizerService, yieldOpportunities]);
+
+  // Simulate the spread of outcomes around the point estimate
+  useEffect(() => {
+    setOutcomes(null);
+    if (!simulationService || !optimizationResult || optimizationResult.allocations.length === 0) return;
+
+    let cancelled = false;
+    simulationService.simulateResult(optimizationResult, timeHorizon)
+      .then(distribution => {
+        if (!cancelled) setOutcomes(distribution);
+      })
+      .catch(err => console.error('Error simulating returns:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [simulationService, optimizationResult, timeHorizon]);
 
-  // Auto-refresh every 2 minutes
+  // Reload when on-chain yields change, plus a slow block-based refresh
   useEffect(() => {
     if (!optimizerService) return;
 
-    const interval = setInterval(loadYieldOpportunities, 120000);
-    return () => clearInterval(interval);
-  }, [optimizerService]);
+    return yieldHubEvents.subscribe(event => {
+      const yieldChanged = event.type === 'AaveUpdated' || event.type === 'SubnetResponse';
+      if (yieldChanged || isRefreshBlock(event, EVENT_CONFIG.REFRESH_BLOCKS.SUBNET)) {
+        loadYieldOpportunities();
+      }
+    });
+  }, [optimizerService, yieldHubEvents]);
 
   // Ensure client-side hydration and animate cards
   useEffect(() => {
@@ -143,6 +192,12 @@ const SubnetYieldCore: React.FC = () => {
   // Get displayed opportunities (optimized if available, otherwise all)
   const displayedOpportunities = optimizationResult?.recommendedOpportunities || yieldOpportunities;
 
+  const allocationFor = (opportunity: YieldOpportunity) =>
+    optimizationResult?.allocations.find(allocation => allocation.opportunity.id === opportunity.id);
+
+  const formatBreakEven = (days: number | null): string =>
+    days === null ? 'never' : days < 1 ? '< 1 day' : `${Math.ceil(days)} days`;
+
   const getRiskLevelText = (value: number): string => {
     if (value <= 33) return 'Low';
     if (value <= 66) return 'Medium';
@@ -179,13 +234,13 @@ const SubnetYieldCore: React.FC = () => {
 
                 <div className="flex items-center gap-3">
                   {/* Connection Status */}
-                  <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${isConnected && chainId === 43113
+                  <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${!isReadOnly
                     ? 'bg-green-900/30 text-green-400'
-                    : 'bg-red-900/30 text-red-400'
+                    : 'bg-blue-900/30 text-blue-400'
                     }`}>
-                    <div className={`w-2 h-2 rounded-full ${isConnected && chainId === 43113 ? 'bg-green-400' : 'bg-red-400'
+                    <div className={`w-2 h-2 rounded-full ${!isReadOnly ? 'bg-green-400' : 'bg-blue-400'
                       }`} />
-                    {isConnected && chainId === 43113 ? 'Live Data' : 'Connect Wallet'}
+                    {!isReadOnly ? 'Live Data' : 'Read-only'}
                   </div>
 
                   {/* Refresh Button */}
@@ -202,13 +257,13 @@ const SubnetYieldCore: React.FC = () => {
             </div>
 
             {/* Connection Warning */}
-            {(!isConnected || chainId !== 43113) && (
-              <div className="flex items-center gap-2 p-4 mx-4 bg-orange-900/20 border border-orange-600 rounded-lg">
-                <AlertTriangle className="w-4 h-4 text-orange-400" />
-                <span className="text-orange-400 text-sm font-medium">
+            {isReadOnly && (
+              <div className="flex items-center gap-2 p-4 mx-4 bg-blue-900/20 border border-blue-600 rounded-lg">
+                <AlertTriangle className="w-4 h-4 text-blue-400" />
+                <span className="text-blue-400 text-sm font-medium">
                   {!isConnected
-                    ? 'Connect your wallet to access real yield optimization data'
-                    : 'Switch to Fuji testnet for live yield opportunities'}
+                    ? 'Read-only mode: showing live data from the public Fuji RPC. Connect your wallet to transact'
+                    : 'Read-only mode: switch to Fuji testnet to transact'}
                 </span>
               </div>
             )}
@@ -284,6 +339,54 @@ const SubnetYieldCore: React.FC = () => {
               </div>
             </div>
 
+            {/* Allocation Constraints */}
+            <div className="group px-4 py-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {([
+                  ['Max per protocol', maxProtocolPercent, setMaxProtocolPercent, PROTOCOL_CAP_OPTIONS],
+                  ['Max per token', maxTokenPercent, setMaxTokenPercent, TOKEN_CAP_OPTIONS],
+                  ['Min in stablecoins', minStablecoinPercent, setMinStablecoinPercent, STABLECOIN_FLOOR_OPTIONS],
+                ] as Array<[string, number, (value: number) => void, number[]]>).map(([label, value, setValue, options]) => (
+                  <label key={label} className="flex flex-col gap-2">
+                    <span className="text-[#aaa] text-sm font-medium">{label}</span>
+                    <select
+                      value={value}
+                      onChange={(e) => setValue(Number(e.target.value))}
+                      className="rounded-lg text-white border border-[#2a2a2a] bg-[#111418] hover:border-[#00ffaa] focus:border-[#00ffaa] focus:outline-0 h-10 px-3 text-sm transition-all duration-300"
+                    >
+                      {options.map(option => (
+                        <option key={option} value={option}>{option === 100 ? 'No limit' : `${option}%`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label className="flex flex-col gap-2">
+                  <span className="text-[#aaa] text-sm font-medium">Time horizon</span>
+                  <select
+                    value={timeHorizon}
+                    onChange={(e) => setTimeHorizon(Number(e.target.value))}
+                    className="rounded-lg text-white border border-[#2a2a2a] bg-[#111418] hover:border-[#00ffaa] focus:border-[#00ffaa] focus:outline-0 h-10 px-3 text-sm transition-all duration-300"
+                  >
+                    {TIME_HORIZON_OPTIONS.map(days => (
+                      <option key={days} value={days}>{days === 365 ? '1 year' : `${days} days`}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-2">
+                  <span className="text-[#aaa] text-sm font-medium">Funding from</span>
+                  <select
+                    value={fundingToken}
+                    onChange={(e) => setFundingToken(e.target.value)}
+                    className="rounded-lg text-white border border-[#2a2a2a] bg-[#111418] hover:border-[#00ffaa] focus:border-[#00ffaa] focus:outline-0 h-10 px-3 text-sm transition-all duration-300"
+                  >
+                    {FUNDING_OPTIONS.map(([address, label]) => (
+                      <option key={label} value={address}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
             {/* Cross-Chain Data Summary */}
             {subnetYieldData.length > 0 && (
               <div className="group px-4 py-3" ref={el => cardRefs.current[2] = el}>
@@ -330,20 +433,26 @@ const SubnetYieldCore: React.FC = () => {
                   <div className="bg-[#111418] border border-[#2a2a2a] rounded-lg p-4 hover:border-[#00ffaa] transition-all duration-300">
                     <div className="flex items-center gap-2 mb-2">
                       <Target className="w-4 h-4 text-[#00ffaa]" />
-                      <span className="text-[#aaa] text-sm">Estimated Return</span>
+                      <span className="text-[#aaa] text-sm">Net Return</span>
                     </div>
                     <p className="text-white text-xl font-bold">
-                      {YieldOptimizerService.formatCurrency(optimizationResult.totalEstimatedReturn)}
+                      {YieldOptimizerService.formatCurrency(optimizationResult.netReturn)}
+                    </p>
+                    <p className="text-[#777] text-xs mt-1">
+                      {YieldOptimizerService.formatCurrency(optimizationResult.totalEstimatedReturn)} gross − {YieldOptimizerService.formatCurrency(optimizationResult.totalCostUSD)} costs
                     </p>
                   </div>
 
                   <div className="bg-[#111418] border border-[#2a2a2a] rounded-lg p-4 hover:border-[#00ffaa] transition-all duration-300">
                     <div className="flex items-center gap-2 mb-2">
                       <TrendingUp className="w-4 h-4 text-green-400" />
-                      <span className="text-[#aaa] text-sm">Average APY</span>
+                      <span className="text-[#aaa] text-sm">Weighted APY</span>
                     </div>
                     <p className="text-white text-xl font-bold">
-                      {optimizationResult.averageAPY.toFixed(1)}%
+                      {optimizationResult.weightedAPY.toFixed(1)}%
+                    </p>
+                    <p className="text-[#777] text-xs mt-1">
+                      {optimizationResult.netAPY.toFixed(1)}% net · break-even {formatBreakEven(optimizationResult.breakEvenDays)}
                     </p>
                   </div>
 
@@ -367,6 +476,68 @@ const SubnetYieldCore: React.FC = () => {
                     </p>
                   </div>
                 </div>
+
+                {optimizationResult.projection.principal > 0 && (
+                  <div className="mt-4 bg-[#111418] border border-[#2a2a2a] rounded-lg p-4">
+                    <ProjectionChart
+                      projection={optimizationResult.projection}
+                      formatValue={value => YieldOptimizerService.formatCurrency(value)}
+                      label={`Allocated amount over ${optimizationResult.projection.days} days at today's rates, before costs`}
+                    />
+                  </div>
+                )}
+
+                {outcomes && (
+                  <div className="mt-4 bg-[#111418] border border-[#2a2a2a] rounded-lg p-4 space-y-3">
+                    <div className="flex justify-between gap-4">
+                      <p className="text-[#aaa] text-sm font-medium">Range of outcomes over {outcomes.horizonDays} days</p>
+                      <p className={`text-sm font-medium ${outcomes.probabilityOfLoss > 0.05 ? 'text-yellow-400' : 'text-[#00ffaa]'}`}>
+                        {(outcomes.probabilityOfLoss * 100).toFixed(1)}% chance of loss
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-4 gap-3 text-sm">
+                      <span className="text-[#777] text-xs"></span>
+                      {(['Bad case (P5)', 'Median (P50)', 'Good case (P95)'] as const).map(label => (
+                        <span key={label} className="text-[#777] text-xs">{label}</span>
+                      ))}
+                      <span className="text-[#aaa]">Return</span>
+                      {(['p5', 'p50', 'p95'] as const).map(band => (
+                        <span key={band} className={outcomes.returnUSD[band] < 0 ? 'text-red-400' : 'text-white'}>
+                          {YieldOptimizerService.formatCurrency(outcomes.returnUSD[band])} ({outcomes.returnPercent[band].toFixed(1)}%)
+                        </span>
+                      ))}
+                      <span className="text-[#aaa]">Ending value</span>
+                      {(['p5', 'p50', 'p95'] as const).map(band => (
+                        <span key={band} className="text-white">{YieldOptimizerService.formatCurrency(outcomes.endingValueUSD[band])}</span>
+                      ))}
+                    </div>
+                    <p className="text-[#777] text-xs">
+                      {outcomes.paths.toLocaleString()} simulated paths with rates drifting as in recent YieldHub history and
+                      non-stablecoin prices moving at typical volatility. The net return above assumes today&apos;s rates and prices hold.
+                    </p>
+                  </div>
+                )}
+
+                {(optimizationResult.bindingConstraints.length > 0 || optimizationResult.unallocatedAmount > 0.005) && (
+                  <div className="mt-4 bg-[#111418] border border-[#2a2a2a] rounded-lg p-4 space-y-2">
+                    <p className="text-[#aaa] text-sm font-medium">What shapes this allocation</p>
+                    {optimizationResult.unallocatedAmount > 0.005 && (
+                      <p className="text-yellow-400 text-sm">
+                        {YieldOptimizerService.formatCurrency(optimizationResult.unallocatedAmount)} stays unallocated under these limits
+                      </p>
+                    )}
+                    {optimizationResult.bindingConstraints.map(constraint => (
+                      <div key={`${constraint.kind}-${constraint.key}`} className="flex justify-between gap-4 text-sm">
+                        <span className="text-white">{constraint.description}</span>
+                        {constraint.marginalScore !== null && (
+                          <span className="text-[#777] text-xs whitespace-nowrap">
+                            +{constraint.marginalScore.toFixed(3)} per 1% relaxed
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
@@ -403,8 +574,13 @@ const SubnetYieldCore: React.FC = () => {
                         <th className="px-4 py-3 text-left text-[#aaa] text-sm font-medium leading-normal">
                           Risk Level
                         </th>
+                        {optimizationResult && (
+                          <th className="px-4 py-3 text-left text-[#aaa] text-sm font-medium leading-normal">
+                            Allocation
+                          </th>
+                        )}
                         <th className="px-4 py-3 text-left text-[#aaa] text-sm font-medium leading-normal">
-                          Estimated Return
+                          {optimizationResult ? 'Net Return' : 'Estimated Return'}
                         </th>
                       </tr>
                     </thead>
@@ -466,10 +642,27 @@ const SubnetYieldCore: React.FC = () => {
                                 <span className="truncate">{opportunity.riskLevel}</span>
                               </button>
                             </td>
+                            {optimizationResult && (
+                              <td className="h-[72px] px-4 py-2 text-white text-sm font-normal leading-normal">
+                                <div className="flex flex-col">
+                                  <span className="font-medium">
+                                    {YieldOptimizerService.formatCurrency(allocationFor(opportunity)?.amount ?? 0)}
+                                  </span>
+                                  <span className="text-[#777] text-xs">{allocationFor(opportunity)?.sharePercent ?? 0}%</span>
+                                </div>
+                              </td>
+                            )}
                             <td className="h-[72px] px-4 py-2 text-white text-sm font-normal leading-normal">
                               <div className="flex flex-col">
                                 <span className="font-medium">{opportunity.estimatedReturn}</span>
-                                {opportunity.lastUpdate && (
+                                {allocationFor(opportunity) ? (
+                                  <span
+                                    className="text-[#777] text-xs"
+                                    title={`${YieldOptimizerService.formatCurrency(allocationFor(opportunity)!.estimate.costUSD)} to enter and exit`}
+                                  >
+                                    {allocationFor(opportunity)!.estimate.netAPY.toFixed(1)}% net · break-even {formatBreakEven(allocationFor(opportunity)!.estimate.breakEvenDays)}
+                                  </span>
+                                ) : opportunity.lastUpdate && (
                                   <span className="text-[#777] text-xs">
                                     {new Date(opportunity.lastUpdate).toLocaleTimeString()}
                                   </span>
@@ -481,13 +674,11 @@ const SubnetYieldCore: React.FC = () => {
                       ) : (
                         // Empty state
                         <tr className="border-t border-t-[#2a2a2a]">
-                          <td colSpan={5} className="h-[120px] px-4 py-2 text-center">
+                          <td colSpan={optimizationResult ? 6 : 5} className="h-[120px] px-4 py-2 text-center">
                             <div className="flex flex-col items-center gap-2">
                               <AlertTriangle className="w-8 h-8 text-[#777]" />
                               <span className="text-[#777] text-sm">
-                                {!isConnected || chainId !== 43113
-                                  ? 'Connect to Fuji testnet to view yield opportunities'
-                                  : 'No yield opportunities available'}
+                                No yield opportunities available
                               </span>
                             </div>
                           </td>
@@ -506,12 +697,18 @@ const SubnetYieldCore: React.FC = () => {
                 Risk levels are calculated based on protocol metrics and should be considered alongside your own research.
                 {optimizationResult && (
                   <span className="block mt-1 text-[#00ffaa]">
-                    Optimization based on ${investmentAmount} investment with {getRiskLevelText(riskTolerance)} risk tolerance.
+                    Optimization based on ${investmentAmount} investment with {getRiskLevelText(riskTolerance)} risk tolerance over {timeHorizon} days.
+                    Net figures subtract estimated gas, Teleporter fees and swap costs to enter and exit.
                   </span>
                 )}
               </p>
             </div>
 
+            {/* Rebalance Plan */}
+            {optimizationResult && (
+              <RebalancePlanCard allocations={optimizationResult.allocations} timeHorizon={timeHorizon} />
+            )}
+
             {/* Action Buttons */}
             <div className="group flex px-4 py-3 justify-between items-center" ref={el => cardRefs.current[5] = el}>
               <div className="flex gap-3">
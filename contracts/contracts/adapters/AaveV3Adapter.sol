@@ -301,13 +301,8 @@ contract AaveV3Adapter {
             return (0, 0);
         }
         
-        // Convert ray rate to per-second rate
-        uint256 ratePerSecond = data.liquidityRate / SECONDS_PER_YEAR;
-        
-        // Calculate compound interest: A = P * (1 + r)^t
-        // Simplified for gas efficiency: A ≈ P * (1 + r*t) for small rates
-        uint256 interestFactor = RAY + (ratePerSecond * timeHorizon);
-        uint256 finalAmount = (amount * interestFactor) / RAY;
+        // aTokens accrue every second: A = P * (1 + r / seconds_per_year)^t
+        uint256 finalAmount = YieldMath.calculateCompoundInterestRay(amount, data.liquidityRate, timeHorizon);
         
         projectedEarnings = finalAmount > amount ? finalAmount - amount : 0;
         effectiveAPY = YieldMath.aaveRayToBps(data.liquidityRate);
@@ -20,6 +20,9 @@ library YieldMath {
     // Maximum reasonable APY in basis points (500% = 50000 bps)
     uint256 private constant MAX_REASONABLE_APY_BPS = 50000;
 
+    // Longest horizon calculateTimeToTarget searches
+    uint256 private constant MAX_PROJECTION_SECONDS = 100 * 365 days;
+
     /**
      * @dev Converts Aave ray rate to basis points APY
      * @param rayRate The rate in ray format (27 decimals)
@@ -119,55 +122,110 @@ library YieldMath {
     }
 
     /**
-     * @dev Calculates compound interest over time
+     * @dev Multiplies two ray values, rounding half up
+     * @param a First value in ray
+     * @param b Second value in ray
+     * @return product The product in ray
+     */
+    function rayMul(uint256 a, uint256 b) internal pure returns (uint256 product) {
+        return (a * b + HALF_RAY) / RAY;
+    }
+
+    /**
+     * @dev Raises a ray value to an integer power by repeated squaring
+     * @param x Base in ray
+     * @param n Exponent
+     * @return result x^n in ray
+     */
+    function rayPow(uint256 x, uint256 n) internal pure returns (uint256 result) {
+        result = n % 2 != 0 ? x : RAY;
+        for (n /= 2; n != 0; n /= 2) {
+            x = rayMul(x, x);
+            if (n % 2 != 0) {
+                result = rayMul(result, x);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * @dev Calculates interest on an annual rate compounded every second
      * @param principal Principal amount
-     * @param apyBps APY in basis points
+     * @param rateRay Annual rate (APR) in ray, as Aave reports liquidityRate
      * @param timeSeconds Time period in seconds
      * @return finalAmount The final amount after compound interest
      */
-    function calculateCompoundInterest(
+    function calculateCompoundInterestRay(
         uint256 principal,
-        uint256 apyBps,
+        uint256 rateRay,
         uint256 timeSeconds
     ) internal pure returns (uint256 finalAmount) {
-        if (principal == 0 || apyBps == 0 || timeSeconds == 0) {
+        if (principal == 0 || rateRay == 0 || timeSeconds == 0) {
             return principal;
         }
-        
-        // Convert APY to rate per second
-        // rate = (1 + APY)^(1/seconds_per_year) - 1
-        // Simplified for small rates: rate ≈ APY / seconds_per_year
-        uint256 ratePerSecond = (apyBps * RAY) / (BPS_PRECISION * SECONDS_PER_YEAR);
-        
-        // Calculate compound interest: principal * (1 + rate)^time
-        // For small rates and reasonable time periods, use approximation
-        uint256 totalRate = (ratePerSecond * timeSeconds) / RAY;
-        finalAmount = principal + (principal * totalRate) / RAY;
-        
+
+        // principal * (1 + rate / seconds_per_year)^time
+        uint256 growth = rayPow(RAY + rateRay / SECONDS_PER_YEAR, timeSeconds);
+        finalAmount = rayMul(principal, growth);
+
         return finalAmount;
     }
 
+    /**
+     * @dev Calculates compound interest over time
+     * @param principal Principal amount
+     * @param aprBps Annual rate (APR) in basis points, compounded every second
+     * @param timeSeconds Time period in seconds
+     * @return finalAmount The final amount after compound interest
+     */
+    function calculateCompoundInterest(
+        uint256 principal,
+        uint256 aprBps,
+        uint256 timeSeconds
+    ) internal pure returns (uint256 finalAmount) {
+        return calculateCompoundInterestRay(principal, bpsToRay(aprBps), timeSeconds);
+    }
+
     /**
      * @dev Calculates the time needed to reach a target amount
      * @param principal Starting principal
      * @param targetAmount Target amount to reach
-     * @param apyBps APY in basis points
-     * @return timeSeconds Time needed in seconds
+     * @param aprBps Annual rate (APR) in basis points, compounded every second
+     * @return timeSeconds Shortest time in seconds, or type(uint256).max if the target
+     *         is not reached within MAX_PROJECTION_SECONDS
      */
     function calculateTimeToTarget(
         uint256 principal,
         uint256 targetAmount,
-        uint256 apyBps
+        uint256 aprBps
     ) internal pure returns (uint256 timeSeconds) {
-        if (principal >= targetAmount || apyBps == 0) {
+        if (principal >= targetAmount) {
             return 0;
         }
-        
-        // Simplified calculation: time = (target/principal - 1) / (APY/year)
-        uint256 growthNeeded = ((targetAmount - principal) * BPS_PRECISION) / principal;
-        timeSeconds = (growthNeeded * SECONDS_PER_YEAR) / apyBps;
-        
-        return timeSeconds;
+        if (principal == 0 || aprBps == 0) {
+            return type(uint256).max;
+        }
+
+        // Double the horizon until the target is passed, then bisect to the first second that reaches it
+        uint256 low = 0;
+        uint256 high = 1 days;
+        while (calculateCompoundInterest(principal, aprBps, high) < targetAmount) {
+            if (high >= MAX_PROJECTION_SECONDS) {
+                return type(uint256).max;
+            }
+            low = high;
+            high = high * 2 > MAX_PROJECTION_SECONDS ? MAX_PROJECTION_SECONDS : high * 2;
+        }
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (calculateCompoundInterest(principal, aprBps, mid) < targetAmount) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        return high;
     }
 
     /**
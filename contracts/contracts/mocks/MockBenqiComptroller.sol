@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockBenqiComptroller
+ * @notice Market listing of the Benqi Comptroller, which the frontend discovers qiTokens from
+ * @dev Test-only
+ */
+contract MockBenqiComptroller is Ownable {
+    address[] private allMarkets;
+    mapping(address => bool) public isListed;
+
+    event MarketListed(address qiToken);
+
+    constructor() Ownable(msg.sender) {}
+
+    function supportMarket(address qiToken) external onlyOwner returns (uint256) {
+        require(!isListed[qiToken], "MockBenqiComptroller: market already listed");
+        isListed[qiToken] = true;
+        allMarkets.push(qiToken);
+        emit MarketListed(qiToken);
+        return 0;
+    }
+
+    function getAllMarkets() external view returns (address[] memory) {
+        return allMarkets;
+    }
+}
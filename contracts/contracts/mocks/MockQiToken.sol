@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title MockQiTokenBase
+ * @notice The Benqi qiToken read surface and mint/redeem at a set exchange rate
+ * @dev Test-only. Rates, borrows and reserves are set by the owner instead of accruing,
+ *      so the frontend's Benqi conversions can be checked against pinned values.
+ *      Return values follow Compound: 0 means success.
+ */
+abstract contract MockQiTokenBase is ERC20, Ownable {
+    uint256 internal constant EXP_SCALE = 1e18;
+
+    uint256 public supplyRatePerTimestamp;
+    uint256 public borrowRatePerTimestamp;
+    uint256 public exchangeRateStored;
+    uint256 public totalBorrows;
+    uint256 public totalReserves;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint256 initialExchangeRateMantissa
+    ) ERC20(name_, symbol_) Ownable(msg.sender) {
+        require(initialExchangeRateMantissa > 0, "MockQiToken: zero exchange rate");
+        exchangeRateStored = initialExchangeRateMantissa;
+    }
+
+    // qiTokens have 8 decimals whatever the underlying has
+    function decimals() public pure override returns (uint8) {
+        return 8;
+    }
+
+    function setSupplyRatePerTimestamp(uint256 rate) external onlyOwner {
+        supplyRatePerTimestamp = rate;
+    }
+
+    function setBorrowRatePerTimestamp(uint256 rate) external onlyOwner {
+        borrowRatePerTimestamp = rate;
+    }
+
+    function setExchangeRate(uint256 exchangeRateMantissa) external onlyOwner {
+        require(exchangeRateMantissa > 0, "MockQiToken: zero exchange rate");
+        exchangeRateStored = exchangeRateMantissa;
+    }
+
+    function setTotalBorrows(uint256 amount) external onlyOwner {
+        totalBorrows = amount;
+    }
+
+    function setTotalReserves(uint256 amount) external onlyOwner {
+        totalReserves = amount;
+    }
+
+    // Nothing accrues, so the current rate is the stored one
+    function exchangeRateCurrent() external view returns (uint256) {
+        return exchangeRateStored;
+    }
+
+    function getCash() public view virtual returns (uint256);
+
+    function balanceOfUnderlying(address owner) external view returns (uint256) {
+        return (balanceOf(owner) * exchangeRateStored) / EXP_SCALE;
+    }
+
+    // (error, qiToken balance, borrow balance, exchange rate), as the Comptroller reads it
+    function getAccountSnapshot(address account) external view returns (uint256, uint256, uint256, uint256) {
+        return (0, balanceOf(account), 0, exchangeRateStored);
+    }
+
+    function redeem(uint256 redeemTokens) external returns (uint256) {
+        uint256 redeemAmount = (redeemTokens * exchangeRateStored) / EXP_SCALE;
+        _burn(msg.sender, redeemTokens);
+        _transferOut(msg.sender, redeemAmount);
+        return 0;
+    }
+
+    function redeemUnderlying(uint256 redeemAmount) external returns (uint256) {
+        uint256 redeemTokens = (redeemAmount * EXP_SCALE) / exchangeRateStored;
+        _burn(msg.sender, redeemTokens);
+        _transferOut(msg.sender, redeemAmount);
+        return 0;
+    }
+
+    function _mintFor(address minter, uint256 mintAmount) internal {
+        _mint(minter, (mintAmount * EXP_SCALE) / exchangeRateStored);
+    }
+
+    function _transferOut(address to, uint256 amount) internal virtual;
+}
+
+/**
+ * @title MockQiToken
+ * @notice qiToken over an ERC20 underlying (qiUSDC, qiWETH.e)
+ */
+contract MockQiToken is MockQiTokenBase {
+    using SafeERC20 for IERC20;
+
+    address public immutable underlying;
+
+    constructor(
+        address underlying_,
+        string memory name_,
+        string memory symbol_,
+        uint256 initialExchangeRateMantissa
+    ) MockQiTokenBase(name_, symbol_, initialExchangeRateMantissa) {
+        underlying = underlying_;
+    }
+
+    function getCash() public view override returns (uint256) {
+        return IERC20(underlying).balanceOf(address(this));
+    }
+
+    function mint(uint256 mintAmount) external returns (uint256) {
+        IERC20(underlying).safeTransferFrom(msg.sender, address(this), mintAmount);
+        _mintFor(msg.sender, mintAmount);
+        return 0;
+    }
+
+    function _transferOut(address to, uint256 amount) internal override {
+        IERC20(underlying).safeTransfer(to, amount);
+    }
+}
+
+/**
+ * @title MockQiAvax
+ * @notice qiAVAX: native AVAX in and out, and no underlying() like Benqi's QiAvax
+ */
+contract MockQiAvax is MockQiTokenBase {
+    constructor(uint256 initialExchangeRateMantissa)
+        MockQiTokenBase("Benqi AVAX", "qiAVAX", initialExchangeRateMantissa) {}
+
+    function getCash() public view override returns (uint256) {
+        return address(this).balance;
+    }
+
+    function mint() external payable {
+        _mintFor(msg.sender, msg.value);
+    }
+
+    function _transferOut(address to, uint256 amount) internal override {
+        (bool success, ) = payable(to).call{value: amount}("");
+        require(success, "MockQiAvax: transfer failed");
+    }
+}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockTokenRegistry
+ * @notice YieldHub's supported token list, which the frontend's token registry loads
+ * @dev Test-only. No owner and no constructor state, so its runtime code can be placed
+ *      at the configured YieldHub address and filled in afterwards.
+ */
+contract MockTokenRegistry {
+    address[] private supportedTokens;
+    mapping(address => uint256) private tokenDecimals;
+
+    function addSupportedToken(address _token, uint256 _decimals) external {
+        require(tokenDecimals[_token] == 0, "MockTokenRegistry: token already supported");
+        supportedTokens.push(_token);
+        tokenDecimals[_token] = _decimals;
+    }
+
+    function getSupportedTokens() external view returns (address[] memory) {
+        return supportedTokens;
+    }
+
+    function getTokenDecimals(address _token) external view returns (uint256) {
+        return tokenDecimals[_token];
+    }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockWAVAX
+ * @notice WAVAX deposit and withdraw, for the qiAVAX wrap and unwrap steps
+ * @dev Test-only. Name and symbol are constants so the runtime code works when placed
+ *      at the configured WAVAX address without running the constructor.
+ */
+contract MockWAVAX is ERC20 {
+    constructor() ERC20("Wrapped AVAX", "WAVAX") {}
+
+    function name() public pure override returns (string memory) {
+        return "Wrapped AVAX";
+    }
+
+    function symbol() public pure override returns (string memory) {
+        return "WAVAX";
+    }
+
+    function deposit() public payable {
+        _mint(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 wad) external {
+        _burn(msg.sender, wad);
+        (bool success, ) = payable(msg.sender).call{value: wad}("");
+        require(success, "MockWAVAX: transfer failed");
+    }
+
+    receive() external payable {
+        deposit();
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../libraries/YieldMath.sol";
+
+/**
+ * @title YieldMathHarness
+ * @notice Exposes YieldMath's internal functions for tests
+ * @dev Test-only; the frontend's yield-math module is checked against these outputs
+ */
+contract YieldMathHarness {
+    function calculateCompoundInterest(
+        uint256 principal,
+        uint256 aprBps,
+        uint256 timeSeconds
+    ) external pure returns (uint256) {
+        return YieldMath.calculateCompoundInterest(principal, aprBps, timeSeconds);
+    }
+
+    function calculateCompoundInterestRay(
+        uint256 principal,
+        uint256 rateRay,
+        uint256 timeSeconds
+    ) external pure returns (uint256) {
+        return YieldMath.calculateCompoundInterestRay(principal, rateRay, timeSeconds);
+    }
+
+    function calculateTimeToTarget(
+        uint256 principal,
+        uint256 targetAmount,
+        uint256 aprBps
+    ) external pure returns (uint256) {
+        return YieldMath.calculateTimeToTarget(principal, targetAmount, aprBps);
+    }
+
+    function calculateRiskAdjustedYield(uint256 apyBps, uint256 riskScore) external pure returns (uint256) {
+        return YieldMath.calculateRiskAdjustedYield(apyBps, riskScore);
+    }
+
+    function calculateOptimizedAPY(uint256 aaveAPYBps, uint256 subnetAPYBps) external pure returns (uint256) {
+        return YieldMath.calculateOptimizedAPY(aaveAPYBps, subnetAPYBps);
+    }
+}
@@ -0,0 +1,93 @@
+import { ethers } from "hardhat";
+import { CONTRACT_CONFIG } from "../../app/lib/web3-config";
+
+// Benqi has no Fuji deployment, so the frontend reads mock qiToken markets over the Fuji test tokens.
+// Supply rates are APRs the owner can change later with setSupplyRatePerTimestamp.
+const MARKETS = [
+  { symbol: "qiUSDC.e", name: "Benqi USDC.e", underlying: CONTRACT_CONFIG.TOKENS.USDC_E, supplyAprPercent: 4.2 },
+  { symbol: "qiWETH.e", name: "Benqi WETH.e", underlying: CONTRACT_CONFIG.TOKENS.WETH, supplyAprPercent: 1.6 },
+  { symbol: "qiDAI.e", name: "Benqi DAI.e", underlying: CONTRACT_CONFIG.TOKENS.DAI, supplyAprPercent: 3.8 },
+];
+const QI_AVAX_SUPPLY_APR_PERCENT = 2.9;
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// Per-second, 1e18-scaled rate for an APR
+const perSecondRate = (aprPercent: number) => ethers.parseEther((aprPercent / 100).toFixed(18)) / SECONDS_PER_YEAR;
+
+// Benqi's starting exchange rate: 0.02 underlying per qiToken, scaled by 1e18 and the decimals difference
+const initialExchangeRate = (underlyingDecimals: number) => 2n * 10n ** BigInt(16 + underlyingDecimals - 8);
+
+async function main() {
+  console.log("🚀 Deploying mock Benqi markets...");
+
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying with account:", deployer.address);
+  console.log("Account balance:", ethers.formatEther(await deployer.provider.getBalance(deployer.address)));
+
+  try {
+    const MockBenqiComptroller = await ethers.getContractFactory("MockBenqiComptroller");
+    const comptroller = await MockBenqiComptroller.deploy();
+    await comptroller.waitForDeployment();
+    const comptrollerAddress = await comptroller.getAddress();
+    console.log("✅ MockBenqiComptroller deployed to:", comptrollerAddress);
+
+    const deployed: Record<string, string> = {};
+
+    // qiAVAX takes native AVAX; the frontend lists it against WAVAX
+    const MockQiAvax = await ethers.getContractFactory("MockQiAvax");
+    const qiAvax = await MockQiAvax.deploy(initialExchangeRate(18));
+    await qiAvax.waitForDeployment();
+    await (await qiAvax.setSupplyRatePerTimestamp(perSecondRate(QI_AVAX_SUPPLY_APR_PERCENT))).wait();
+    await (await comptroller.supportMarket(await qiAvax.getAddress())).wait();
+    deployed.qiAVAX = await qiAvax.getAddress();
+    console.log("✅ qiAVAX deployed to:", deployed.qiAVAX);
+
+    const MockQiToken = await ethers.getContractFactory("MockQiToken");
+    for (const market of MARKETS) {
+      const token = new ethers.Contract(market.underlying, ["function decimals() view returns (uint8)"], deployer);
+      const decimals = Number(await token.decimals());
+
+      const qiToken = await MockQiToken.deploy(market.underlying, market.name, market.symbol, initialExchangeRate(decimals));
+      await qiToken.waitForDeployment();
+      await (await qiToken.setSupplyRatePerTimestamp(perSecondRate(market.supplyAprPercent))).wait();
+      await (await comptroller.supportMarket(await qiToken.getAddress())).wait();
+      deployed[market.symbol] = await qiToken.getAddress();
+      console.log(`✅ ${market.symbol} deployed to:`, deployed[market.symbol]);
+    }
+
+    console.log("\n📄 Deployment Summary:");
+    console.log("=".repeat(50));
+    console.log("Deployer:", deployer.address);
+    console.log("MockBenqiComptroller:", comptrollerAddress);
+    for (const [symbol, address] of Object.entries(deployed)) {
+      console.log(`${symbol}:`, address);
+    }
+    console.log("=".repeat(50));
+
+    // Instructions for frontend integration
+    console.log("\n🔧 Frontend Integration:");
+    console.log("Update app/lib/web3-config.ts:");
+    console.log(`BENQI_COMPTROLLER_ADDRESS: '${comptrollerAddress}',`);
+
+    return {
+      comptroller: comptrollerAddress,
+      ...deployed,
+    };
+  } catch (error) {
+    console.error("❌ Deployment failed:", error);
+    process.exit(1);
+  }
+}
+
+// Execute deployment
+main()
+  .then((addresses) => {
+    console.log("\n🎉 Deployment completed successfully!");
+    console.log("Contract addresses:", addresses);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("💥 Deployment script failed:", error);
+    process.exit(1);
+  });
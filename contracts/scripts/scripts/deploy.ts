@@ -178,9 +178,7 @@ async function main() {
     
     // Wait for additional confirmations
     console.log("⏳ Waiting for additional confirmations...");
-    if (deployTx) {
-      await deployTx.wait(3);
-    }
+    const deployReceipt = deployTx ? await deployTx.wait(3) : null;
     
     // Configure the contract
     console.log("\n⚙️  Configuring YieldHub...");
@@ -279,6 +277,7 @@ async function main() {
     console.log("1. Set destination subnet with setDestSubnet(chainId, receiverAddress)");
     console.log("2. Test cross-chain message sending with requestSubnetYield()");
     console.log("3. Configure frontend with contract address and ABI");
+    console.log(`   YIELD_HUB_ADDRESS: '${contractAddress}', YIELD_HUB_DEPLOY_BLOCK: ${deployReceipt?.blockNumber ?? 0}`);
     console.log("4. Verify contract on explorer if needed");
     
     // Contract interaction examples
@@ -303,6 +302,7 @@ async function main() {
       contractAddress: contractAddress,
       deployer: deployerAddress,
       deploymentHash: deployTx?.hash,
+      deploymentBlock: deployReceipt?.blockNumber,
       timestamp: new Date().toISOString(),
       configuration: config
     };
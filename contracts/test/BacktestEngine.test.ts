@@ -0,0 +1,243 @@
+import { expect } from "chai";
+import {
+    BACKTEST_CONFIG,
+    TargetFunction,
+    fixedWeights,
+    parseBacktestCsv,
+    periodicRebalance,
+    runBacktest,
+    staticAllocation,
+    thresholdRebalance,
+} from "../../app/lib/backtest-engine";
+import { COST_CONFIG, StepCosts } from "../../app/lib/cost-model";
+import { growthFactor } from "../../app/lib/yield-math";
+
+const USDC = "0x00000000000000000000000000000000000000a1";
+const WAVAX = "0x00000000000000000000000000000000000000a2";
+const DAY = BACKTEST_CONFIG.SECONDS_PER_DAY;
+const START = 1_700_006_400; // A midnight, in seconds
+
+const NO_COSTS: StepCosts = {
+    gasUSD: { approve: 0, supply: 0, withdraw: 0, swap: 0, subnetRequest: 0, removeLiquidity: 0, addLiquidity: 0 },
+    messageFeeUSD: 0,
+};
+const GAS_COSTS: StepCosts = {
+    gasUSD: { approve: 0.1, supply: 0.5, withdraw: 0.4, swap: 0.3, subnetRequest: 0.6, removeLiquidity: 0.4, addLiquidity: 0.5 },
+    messageFeeUSD: 0.2,
+};
+
+interface Day {
+    usdcAPY: number; // Bps
+    wavaxAPY: number;
+    wavaxPrice: number;
+}
+
+// Daily CSV rows for USDC at $1 and WAVAX at the given price
+const csvFor = (days: Day[]): string => [
+    "timestamp,token,aaveAPY,priceUSD,symbol,decimals",
+    ...days.flatMap((day, i) => [
+        `${START + i * DAY},${USDC},${day.usdcAPY},1,USDC,6`,
+        `${START + i * DAY},${WAVAX},${day.wavaxAPY},${day.wavaxPrice},WAVAX,18`,
+    ]),
+].join("\n");
+
+// 21 daily steps; USDC pays more for the first ten days, WAVAX for the rest
+const SWITCHING_RATES = Array.from({ length: 21 }, (_, i): Day =>
+    i < 10 ? { usdcAPY: 500, wavaxAPY: 300, wavaxPrice: 20 } : { usdcAPY: 200, wavaxAPY: 600, wavaxPrice: 20 }
+);
+
+// All of the portfolio in the highest-paying opportunity
+const bestRate: TargetFunction = context => {
+    const best = context.opportunities.reduce((a, b) => (b.rawAPY > a.rawAPY ? b : a));
+    return { [best.id]: 1 };
+};
+
+// Pool fee and slippage, charged on every swap whatever the gas costs
+const SWAP_COST = (COST_CONFIG.SWAP_FEE_BPS + COST_CONFIG.SWAP_SLIPPAGE_BPS) / 10000;
+
+const half = fixedWeights({ [`aave-${USDC}`]: 0.5, [`aave-${WAVAX}`]: 0.5 });
+
+// Replays of parsed CSV data through the backtest engine
+describe("Backtest engine", function () {
+    describe("CSV parsing", function () {
+        it("Should group rows into steps in time order", function () {
+            const steps = parseBacktestCsv([
+                "timestamp,token,aaveAPY,optimizedAPY,tvl,priceUSD,symbol,decimals",
+                `${START + DAY},${USDC},450,,1000000,1,USDC,6`,
+                `${START},${USDC},400,520,1000000,1,USDC,6`,
+                `${START},${WAVAX},300,,,21.5,,`,
+            ].join("\n"));
+
+            expect(steps.map(step => step.timestamp)).to.deep.equal([START, START + DAY]);
+            expect(steps[0].tokens).to.deep.equal([
+                { token: USDC, aaveAPY: 400n, optimizedAPY: 520n, tvl: 1000000n, priceUSD: 1, symbol: "USDC", decimals: 6 },
+                // Without an optimized rate or TVL, the Aave rate and zero are used
+                { token: WAVAX, aaveAPY: 300n, optimizedAPY: 300n, tvl: 0n, priceUSD: 21.5, symbol: undefined, decimals: undefined },
+            ]);
+        });
+
+        it("Should read timestamps in seconds, milliseconds or ISO dates", function () {
+            const steps = parseBacktestCsv([
+                "token,timestamp,priceUSD,aaveAPY",
+                `${USDC},${START},1,400`,
+                `${USDC},${(START + DAY) * 1000},1,400`,
+                `${USDC},${new Date((START + 2 * DAY) * 1000).toISOString()},1,400`,
+                "",
+            ].join("\r\n"));
+
+            expect(steps.map(step => step.timestamp)).to.deep.equal([START, START + DAY, START + 2 * DAY]);
+        });
+
+        it("Should reject CSV without the required columns", function () {
+            expect(() => parseBacktestCsv(`timestamp,token,tvl\n${START},${USDC},1`))
+                .to.throw("Backtest CSV is missing columns: aaveAPY, priceUSD");
+        });
+    });
+
+    describe("Static allocation", function () {
+        it("Should accrue each interval at the rate from its start", function () {
+            const steps = parseBacktestCsv(csvFor(SWITCHING_RATES));
+            const result = runBacktest(steps, {
+                initialValueUSD: 10_000,
+                strategy: staticAllocation(fixedWeights({ [`aave-${USDC}`]: 1 })),
+                stepCosts: NO_COSTS,
+            });
+
+            // Ten days at 5%, then ten at 2%
+            const expected = 10_000 * growthFactor(0.05, 10) * growthFactor(0.02, 10);
+            expect(result.days).to.equal(20);
+            expect(result.equity).to.have.length(21);
+            expect(result.finalValueUSD).to.be.closeTo(expected, 1e-6);
+            expect(result.cumulativeReturn).to.be.closeTo((expected / 10_000 - 1) * 100, 1e-9);
+            expect(result.rebalances).to.equal(0);
+            expect(result.tradedUSD).to.equal(0);
+            expect(result.turnover).to.equal(0);
+            expect(result.maxDrawdown).to.equal(0);
+        });
+
+        it("Should charge the first allocation's gas and swaps", function () {
+            const steps = parseBacktestCsv(csvFor(SWITCHING_RATES));
+            const result = runBacktest(steps, {
+                initialValueUSD: 10_000,
+                strategy: staticAllocation(half),
+                stepCosts: GAS_COSTS,
+                fundingToken: USDC,
+            });
+
+            // Approve and supply for each position; the WAVAX half is swapped in first
+            const gasUSD = 2 * (0.1 + 0.5) + 0.1 + 0.3;
+            const swapUSD = 5_000 * SWAP_COST;
+            expect(result.totalCostUSD).to.be.closeTo(gasUSD + swapUSD, 1e-9);
+            expect(result.equity[0].valueUSD).to.be.closeTo(10_000 - gasUSD - swapUSD, 1e-9);
+            expect(result.rebalances).to.equal(0);
+        });
+    });
+
+    describe("Periodic rebalancing", function () {
+        it("Should switch to the better rate when a rebalance is due", function () {
+            const steps = parseBacktestCsv(csvFor(SWITCHING_RATES));
+            const result = runBacktest(steps, {
+                initialValueUSD: 10_000,
+                strategy: periodicRebalance(bestRate, 10),
+                stepCosts: NO_COSTS,
+            });
+
+            // USDC at 5% until day 10, then WAVAX at 6%; the rebalance on day 20 has nothing to move
+            const atSwitch = 10_000 * growthFactor(0.05, 10);
+            expect(result.rebalances).to.equal(1);
+            expect(result.totalCostUSD).to.be.closeTo(atSwitch * SWAP_COST, 1e-6);
+            expect(result.finalValueUSD).to.be.closeTo(atSwitch * (1 - SWAP_COST) * growthFactor(0.06, 10), 1e-6);
+        });
+
+        it("Should count a switch between positions once in turnover", function () {
+            const steps = parseBacktestCsv(csvFor(SWITCHING_RATES));
+            const result = runBacktest(steps, {
+                initialValueUSD: 10_000,
+                strategy: periodicRebalance(bestRate, 10),
+                stepCosts: NO_COSTS,
+            });
+
+            // The whole portfolio was sold and bought back once
+            const atSwitch = 10_000 * growthFactor(0.05, 10);
+            const averageValue = result.equity.reduce((sum, point) => sum + point.valueUSD, 0) / result.equity.length;
+            expect(result.tradedUSD).to.be.closeTo(atSwitch, 1e-6);
+            expect(result.turnover).to.be.closeTo(atSwitch / averageValue, 1e-9);
+        });
+
+        it("Should charge exit, swap and entry costs on a switch", function () {
+            const steps = parseBacktestCsv(csvFor(SWITCHING_RATES));
+            const result = runBacktest(steps, {
+                initialValueUSD: 10_000,
+                strategy: periodicRebalance(bestRate, 10),
+                stepCosts: GAS_COSTS,
+                fundingToken: USDC,
+            });
+
+            const firstAllocationUSD = 0.1 + 0.5;
+            const valueAtSwitch = (10_000 - firstAllocationUSD) * growthFactor(0.05, 10);
+            // Withdraw USDC, swap it to WAVAX, then approve and supply WAVAX
+            const switchGasUSD = 0.4 + (0.1 + 0.3) + (0.1 + 0.5);
+            const switchSwapUSD = valueAtSwitch * SWAP_COST;
+            expect(result.totalCostUSD).to.be.closeTo(firstAllocationUSD + switchGasUSD + switchSwapUSD, 1e-6);
+            expect(result.finalValueUSD).to.be.closeTo(
+                (valueAtSwitch - switchGasUSD - switchSwapUSD) * growthFactor(0.06, 10),
+                1e-6
+            );
+        });
+
+        it("Should not trade drift inside the no-trade band", function () {
+            // 5% against 3% for twenty days moves each half by under 10 bps of the portfolio
+            const days = Array.from({ length: 21 }, (): Day => ({ usdcAPY: 500, wavaxAPY: 300, wavaxPrice: 20 }));
+            const result = runBacktest(parseBacktestCsv(csvFor(days)), {
+                initialValueUSD: 10_000,
+                strategy: periodicRebalance(half, 1),
+                stepCosts: GAS_COSTS,
+            });
+
+            expect(result.rebalances).to.equal(0);
+            expect(result.tradedUSD).to.equal(0);
+        });
+    });
+
+    describe("Threshold rebalancing", function () {
+        // WAVAX rises from $20 to $25 on day 3 and to $30 on day 6
+        const RALLY = Array.from({ length: 11 }, (_, i): Day => ({
+            usdcAPY: 0,
+            wavaxAPY: 0,
+            wavaxPrice: i < 3 ? 20 : i < 6 ? 25 : 30,
+        }));
+
+        it("Should rebalance only once drift passes the threshold", function () {
+            const result = runBacktest(parseBacktestCsv(csvFor(RALLY)), {
+                initialValueUSD: 10_000,
+                strategy: thresholdRebalance(half, 8),
+                stepCosts: NO_COSTS,
+            });
+
+            // Day 3: 5,000 against 6,250 is 5.6% off target and held.
+            // Day 6: 5,000 against 7,500 is 10% off, so 1,250 of WAVAX is swapped into USDC.
+            expect(result.rebalances).to.equal(1);
+            expect(result.tradedUSD).to.be.closeTo(1_250, 1e-6);
+            expect(result.totalCostUSD).to.be.closeTo(1_250 * SWAP_COST, 1e-9);
+            expect(result.finalValueUSD).to.be.closeTo(12_500 - 1_250 * SWAP_COST, 1e-6);
+            expect(result.maxDrawdown).to.equal(0);
+        });
+
+        it("Should rebalance at every crossing of a tighter threshold", function () {
+            const result = runBacktest(parseBacktestCsv(csvFor(RALLY)), {
+                initialValueUSD: 10_000,
+                strategy: thresholdRebalance(half, 4),
+                stepCosts: NO_COSTS,
+            });
+
+            // Day 3 swaps 625 of WAVAX into USDC and splits what is left after the swap cost
+            const afterFirst = 11_250 - 625 * SWAP_COST;
+            // Day 6: the WAVAX half has risen by a fifth, and the excess is swapped again
+            const beforeSecond = afterFirst / 2 + (afterFirst / 2) * 1.2;
+            const secondSwap = (afterFirst / 2) * 0.1;
+            expect(result.rebalances).to.equal(2);
+            expect(result.tradedUSD).to.be.closeTo(625 + secondSwap, 1e-6);
+            expect(result.finalValueUSD).to.be.closeTo(beforeSecond - secondSwap * SWAP_COST, 1e-6);
+        });
+    });
+});
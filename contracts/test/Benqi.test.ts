@@ -0,0 +1,378 @@
+import { expect } from "chai";
+import { artifacts, ethers, network } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { BrowserProvider } from "ethers";
+import { MockBenqiComptroller, MockERC20, MockQiAvax, MockQiToken, MockTokenRegistry, MockWAVAX } from "../typechain-types";
+import { perSecondRateToAprBps, perSecondRateToApyBps } from "../../app/lib/yield-math";
+import { wadMulDown } from "../../app/lib/units";
+import { CONTRACT_CONFIG, NETWORK_NAME } from "../../app/lib/web3-config";
+import { invalidateTokenRegistry } from "../../app/lib/token-registry";
+import { SourceTransaction } from "../../app/lib/yield-source";
+import BenqiService from "../../app/lib/benqi-service";
+import BenqiYieldSource from "../../app/lib/benqi-yield-source";
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// Benqi's starting exchange rate: 0.02 underlying per qiToken, scaled by 1e18 and the decimals difference
+const initialExchangeRate = (underlyingDecimals: number) => 2n * 10n ** BigInt(16 + underlyingDecimals - 8);
+
+// The frontend's Benqi conversions against mock qiToken markets
+describe("Benqi qiToken markets", function () {
+    async function deployBenqiFixture() {
+        const [owner, user] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const usdc = await MockERC20.deploy("USD Coin", "USDC", 6) as MockERC20;
+        const weth = await MockERC20.deploy("Wrapped Ether", "WETH.e", 18) as MockERC20;
+
+        const MockQiToken = await ethers.getContractFactory("MockQiToken");
+        const qiUSDC = await MockQiToken.deploy(await usdc.getAddress(), "Benqi USDC", "qiUSDC", initialExchangeRate(6)) as MockQiToken;
+        const qiWETH = await MockQiToken.deploy(await weth.getAddress(), "Benqi WETH", "qiWETH", initialExchangeRate(18)) as MockQiToken;
+
+        const MockQiAvax = await ethers.getContractFactory("MockQiAvax");
+        const qiAVAX = await MockQiAvax.deploy(initialExchangeRate(18)) as MockQiAvax;
+
+        const MockBenqiComptroller = await ethers.getContractFactory("MockBenqiComptroller");
+        const comptroller = await MockBenqiComptroller.deploy() as MockBenqiComptroller;
+        for (const market of [qiAVAX, qiUSDC, qiWETH]) {
+            await comptroller.supportMarket(await market.getAddress());
+        }
+
+        await usdc.mint(user.address, 10_000n * 10n ** 6n);
+        await weth.mint(user.address, ethers.parseEther("10"));
+
+        return { comptroller, usdc, weth, qiUSDC, qiWETH, qiAVAX, owner, user };
+    }
+
+    describe("Market listing", function () {
+        it("Should list every market", async function () {
+            const { comptroller, qiAVAX, qiUSDC, qiWETH } = await loadFixture(deployBenqiFixture);
+
+            expect([...await comptroller.getAllMarkets()]).to.deep.equal([
+                await qiAVAX.getAddress(),
+                await qiUSDC.getAddress(),
+                await qiWETH.getAddress(),
+            ]);
+        });
+
+        it("Should not list a market twice", async function () {
+            const { comptroller, qiUSDC } = await loadFixture(deployBenqiFixture);
+
+            await expect(comptroller.supportMarket(await qiUSDC.getAddress()))
+                .to.be.revertedWith("MockBenqiComptroller: market already listed");
+        });
+
+        it("Should expose underlying() on ERC20 markets only", async function () {
+            const { qiUSDC, qiAVAX, usdc } = await loadFixture(deployBenqiFixture);
+
+            expect(await qiUSDC.underlying()).to.equal(await usdc.getAddress());
+            // qiAVAX has no underlying(); the frontend treats the revert as native AVAX
+            const probe = new ethers.Contract(await qiAVAX.getAddress(), ["function underlying() view returns (address)"], ethers.provider);
+            await expect(probe.underlying()).to.be.reverted;
+        });
+    });
+
+    describe("Supply rate", function () {
+        it("Should convert supplyRatePerTimestamp to APR", async function () {
+            const { qiUSDC } = await loadFixture(deployBenqiFixture);
+
+            // 5% a year, per second
+            await qiUSDC.setSupplyRatePerTimestamp(ethers.parseEther("0.05") / SECONDS_PER_YEAR);
+            const rate = await qiUSDC.supplyRatePerTimestamp();
+
+            // Flooring the per-second rate loses a fraction of a basis point
+            expect(perSecondRateToAprBps(rate)).to.equal(499n);
+        });
+
+        it("Should compound supplyRatePerTimestamp every second for APY", async function () {
+            const { qiUSDC } = await loadFixture(deployBenqiFixture);
+
+            await qiUSDC.setSupplyRatePerTimestamp(ethers.parseEther("0.05") / SECONDS_PER_YEAR);
+            const rate = await qiUSDC.supplyRatePerTimestamp();
+
+            // e^0.05 - 1 = 5.127%
+            expect(perSecondRateToApyBps(rate)).to.equal(512n);
+            expect(perSecondRateToApyBps(0n)).to.equal(0n);
+        });
+    });
+
+    describe("Exchange rate", function () {
+        it("Should mint qiTokens at the exchange rate", async function () {
+            const { qiUSDC, usdc, user } = await loadFixture(deployBenqiFixture);
+
+            const amount = 1_000n * 10n ** 6n;
+            await usdc.connect(user).approve(await qiUSDC.getAddress(), amount);
+            await qiUSDC.connect(user).mint(amount);
+
+            // 1,000 USDC at 0.02 USDC per qiUSDC
+            expect(await qiUSDC.balanceOf(user.address)).to.equal(50_000n * 10n ** 8n);
+            expect(await qiUSDC.getCash()).to.equal(amount);
+        });
+
+        it("Should value balances like the account snapshot", async function () {
+            const { qiWETH, weth, user } = await loadFixture(deployBenqiFixture);
+
+            const amount = ethers.parseEther("2");
+            await weth.connect(user).approve(await qiWETH.getAddress(), amount);
+            await qiWETH.connect(user).mint(amount);
+            // Interest accrued since the deposit
+            await qiWETH.setExchangeRate((initialExchangeRate(18) * 103n) / 100n);
+
+            const [error, qiBalance, , exchangeRate] = await qiWETH.getAccountSnapshot(user.address);
+            expect(error).to.equal(0n);
+            expect(wadMulDown(qiBalance, exchangeRate)).to.equal(await qiWETH.balanceOfUnderlying(user.address));
+            expect(wadMulDown(qiBalance, exchangeRate)).to.equal(ethers.parseEther("2.06"));
+        });
+
+        it("Should redeem everything for the snapshot value", async function () {
+            const { qiUSDC, usdc, user } = await loadFixture(deployBenqiFixture);
+
+            const amount = 1_000n * 10n ** 6n;
+            await usdc.connect(user).approve(await qiUSDC.getAddress(), amount);
+            await qiUSDC.connect(user).mint(amount);
+
+            const [, qiBalance, , exchangeRate] = await qiUSDC.getAccountSnapshot(user.address);
+            await expect(qiUSDC.connect(user).redeem(qiBalance))
+                .to.changeTokenBalance(usdc, user, wadMulDown(qiBalance, exchangeRate));
+            expect(await qiUSDC.balanceOf(user.address)).to.equal(0n);
+        });
+
+        it("Should mint and redeem qiAVAX with native AVAX", async function () {
+            const { qiAVAX, user } = await loadFixture(deployBenqiFixture);
+
+            const amount = ethers.parseEther("1");
+            await qiAVAX.connect(user).mint({ value: amount });
+            expect(await qiAVAX.getCash()).to.equal(amount);
+
+            await expect(qiAVAX.connect(user).redeemUnderlying(amount))
+                .to.changeEtherBalance(qiAVAX, -amount);
+        });
+    });
+
+    describe("Market totals", function () {
+        it("Should report cash, borrows and reserves", async function () {
+            const { qiUSDC, usdc, user } = await loadFixture(deployBenqiFixture);
+
+            const amount = 1_000n * 10n ** 6n;
+            await usdc.connect(user).approve(await qiUSDC.getAddress(), amount);
+            await qiUSDC.connect(user).mint(amount);
+            await qiUSDC.setTotalBorrows(400n * 10n ** 6n);
+            await qiUSDC.setTotalReserves(10n * 10n ** 6n);
+
+            expect(await qiUSDC.getCash()).to.equal(amount);
+            expect(await qiUSDC.totalBorrows()).to.equal(400n * 10n ** 6n);
+            expect(await qiUSDC.totalReserves()).to.equal(10n * 10n ** 6n);
+            // Total supply in underlying units, as the frontend reports TVL
+            expect(wadMulDown(await qiUSDC.totalSupply(), await qiUSDC.exchangeRateStored())).to.equal(amount);
+        });
+
+        it("Should only let the owner set rates", async function () {
+            const { qiUSDC, user } = await loadFixture(deployBenqiFixture);
+
+            await expect(qiUSDC.connect(user).setSupplyRatePerTimestamp(1n))
+                .to.be.revertedWithCustomError(qiUSDC, "OwnableUnauthorizedAccount");
+        });
+    });
+});
+
+// BenqiService and BenqiYieldSource reading the mock markets through the app's multicall and token registry
+describe("Benqi yield source", function () {
+    const WAVAX = ethers.getAddress(CONTRACT_CONFIG.TOKENS.WAVAX);
+
+    // Put a stateless mock's runtime code at an address the app reads from CONTRACT_CONFIG
+    async function placeAt(contractName: string, address: string) {
+        const { deployedBytecode } = await artifacts.readArtifact(contractName);
+        await network.provider.send("hardhat_setCode", [address, deployedBytecode]);
+    }
+
+    async function deployBenqiSourceFixture() {
+        const [, user] = await ethers.getSigners();
+
+        await placeAt("MockMulticall3", CONTRACT_CONFIG.MULTICALL3_ADDRESS);
+        await placeAt("MockTokenRegistry", CONTRACT_CONFIG.YIELD_HUB_ADDRESS);
+        await placeAt("MockWAVAX", WAVAX);
+        const registry = await ethers.getContractAt("MockTokenRegistry", CONTRACT_CONFIG.YIELD_HUB_ADDRESS) as MockTokenRegistry;
+        const wavax = await ethers.getContractAt("MockWAVAX", WAVAX) as MockWAVAX;
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const usdc = await MockERC20.deploy("USD Coin", "USDC", 6) as MockERC20;
+        // Not registered on YieldHub, so its market is left out
+        const weth = await MockERC20.deploy("Wrapped Ether", "WETH.e", 18) as MockERC20;
+        await registry.addSupportedToken(WAVAX, 18);
+        await registry.addSupportedToken(await usdc.getAddress(), 6);
+
+        const MockQiAvax = await ethers.getContractFactory("MockQiAvax");
+        const qiAVAX = await MockQiAvax.deploy(initialExchangeRate(18)) as MockQiAvax;
+        const MockQiToken = await ethers.getContractFactory("MockQiToken");
+        const qiUSDC = await MockQiToken.deploy(await usdc.getAddress(), "Benqi USDC", "qiUSDC", initialExchangeRate(6)) as MockQiToken;
+        const qiWETH = await MockQiToken.deploy(await weth.getAddress(), "Benqi WETH", "qiWETH", initialExchangeRate(18)) as MockQiToken;
+
+        const MockBenqiComptroller = await ethers.getContractFactory("MockBenqiComptroller");
+        const comptroller = await MockBenqiComptroller.deploy() as MockBenqiComptroller;
+        for (const market of [qiAVAX, qiUSDC, qiWETH]) {
+            await comptroller.supportMarket(await market.getAddress());
+        }
+
+        // 5% and 2% a year, per second
+        await qiUSDC.setSupplyRatePerTimestamp(ethers.parseEther("0.05") / SECONDS_PER_YEAR);
+        await qiAVAX.setSupplyRatePerTimestamp(ethers.parseEther("0.02") / SECONDS_PER_YEAR);
+
+        // 1,000 USDC supplied, 400 borrowed
+        await usdc.mint(user.address, 10_000n * 10n ** 6n);
+        await usdc.connect(user).approve(await qiUSDC.getAddress(), 1_000n * 10n ** 6n);
+        await qiUSDC.connect(user).mint(1_000n * 10n ** 6n);
+        await qiUSDC.setTotalBorrows(400n * 10n ** 6n);
+        await qiUSDC.setTotalReserves(10n * 10n ** 6n);
+
+        await wavax.connect(user).deposit({ value: ethers.parseEther("2") });
+
+        const provider = new BrowserProvider(network.provider);
+        return { provider, comptroller, usdc, wavax, qiAVAX, qiUSDC, user };
+    }
+
+    // Send what a YieldSource built, as the wallet would
+    async function execute(signer: Awaited<ReturnType<typeof ethers.getSigner>>, txs: SourceTransaction[]) {
+        for (const tx of txs) {
+            await (await signer.sendTransaction({ to: tx.to, data: tx.data, value: tx.value })).wait();
+        }
+    }
+
+    // The token registry is module state; the fixture's tokens are only visible after a reload
+    beforeEach(function () {
+        invalidateTokenRegistry();
+    });
+
+    describe("BenqiService", function () {
+        it("Should normalize every market with a registered underlying", async function () {
+            const { provider, comptroller, usdc, qiAVAX, qiUSDC } = await loadFixture(deployBenqiSourceFixture);
+
+            const markets = await new BenqiService(provider, await comptroller.getAddress()).getMarkets();
+            expect(markets.map(market => market.qiToken)).to.deep.equal([
+                await qiAVAX.getAddress(),
+                await qiUSDC.getAddress(),
+            ]);
+
+            expect(markets[1]).to.deep.equal({
+                qiToken: await qiUSDC.getAddress(),
+                qiSymbol: "qiUSDC",
+                underlying: await usdc.getAddress(),
+                symbol: "USDC",
+                native: false,
+                decimals: 6,
+                supplyRatePerTimestamp: ethers.parseEther("0.05") / SECONDS_PER_YEAR,
+                supplyAPRBps: 499n,
+                supplyAPYBps: 512n,
+                exchangeRate: initialExchangeRate(6),
+                totalSupply: 50_000n * 10n ** 8n,
+                totalSupplyUnderlying: 1_000n * 10n ** 6n,
+                totalCash: 1_000n * 10n ** 6n,
+                totalBorrows: 400n * 10n ** 6n,
+                totalReserves: 10n * 10n ** 6n,
+                // 400 borrowed of 1,400 cash and borrows
+                utilizationBps: 2857n,
+            });
+        });
+
+        it("Should list qiAVAX as a native WAVAX market", async function () {
+            const { provider, comptroller } = await loadFixture(deployBenqiSourceFixture);
+
+            const [avaxMarket] = await new BenqiService(provider, await comptroller.getAddress()).getMarkets();
+            expect(avaxMarket).to.include({
+                qiSymbol: "qiAVAX",
+                underlying: WAVAX,
+                symbol: "WAVAX",
+                native: true,
+                decimals: 18,
+                supplyAPRBps: 199n,
+                totalSupply: 0n,
+                utilizationBps: 0n,
+            });
+        });
+
+        it("Should list nothing without a Comptroller", async function () {
+            const { provider } = await loadFixture(deployBenqiSourceFixture);
+
+            // CONTRACT_CONFIG ships with the zero address until the mocks are deployed
+            expect(await new BenqiService(provider).getMarkets()).to.deep.equal([]);
+            expect(await new BenqiService(provider, ethers.ZeroAddress).getMarkets()).to.deep.equal([]);
+        });
+
+        it("Should value user balances at the exchange rate", async function () {
+            const { provider, comptroller, qiUSDC, user } = await loadFixture(deployBenqiSourceFixture);
+
+            // Interest accrued since the deposit
+            await qiUSDC.setExchangeRate((initialExchangeRate(6) * 103n) / 100n);
+
+            const balances = await new BenqiService(provider, await comptroller.getAddress()).getUserBalances(user.address);
+            expect(balances).to.have.length(1);
+            expect(balances[0].market.qiToken).to.equal(await qiUSDC.getAddress());
+            expect(balances[0].qiBalance).to.equal(50_000n * 10n ** 8n);
+            expect(balances[0].underlyingBalance).to.equal(1_030n * 10n ** 6n);
+        });
+    });
+
+    describe("BenqiYieldSource", function () {
+        it("Should quote each market at its supply APR and TVL", async function () {
+            const { provider, comptroller, usdc, qiAVAX, qiUSDC } = await loadFixture(deployBenqiSourceFixture);
+
+            const quotes = await new BenqiYieldSource(provider, await comptroller.getAddress()).getQuotes();
+            expect(quotes.map(quote => quote.market)).to.deep.equal([
+                {
+                    id: `benqi-${await qiAVAX.getAddress()}`,
+                    sourceId: BenqiYieldSource.ID,
+                    protocol: BenqiYieldSource.PROTOCOL,
+                    network: NETWORK_NAME,
+                    tokenAddress: WAVAX,
+                    tokenSymbol: "WAVAX",
+                    decimals: 18,
+                },
+                {
+                    id: `benqi-${await qiUSDC.getAddress()}`,
+                    sourceId: BenqiYieldSource.ID,
+                    protocol: BenqiYieldSource.PROTOCOL,
+                    network: NETWORK_NAME,
+                    tokenAddress: await usdc.getAddress(),
+                    tokenSymbol: "USDC",
+                    decimals: 6,
+                },
+            ]);
+            expect(quotes.map(quote => quote.aprBps)).to.deep.equal([199n, 499n]);
+            expect(quotes.map(quote => quote.tvl)).to.deep.equal([0n, 1_000n * 10n ** 6n]);
+        });
+
+        it("Should supply and withdraw an ERC20 market", async function () {
+            const { provider, comptroller, usdc, qiUSDC, user } = await loadFixture(deployBenqiSourceFixture);
+            const source = new BenqiYieldSource(provider, await comptroller.getAddress());
+            const [, usdcMarket] = await source.listMarkets();
+
+            await execute(user, await source.buildDeposit(usdcMarket, 500n * 10n ** 6n, user.address));
+            expect(await qiUSDC.balanceOf(user.address)).to.equal(75_000n * 10n ** 8n);
+            expect(await usdc.balanceOf(user.address)).to.equal(8_500n * 10n ** 6n);
+
+            await execute(user, await source.buildWithdraw(usdcMarket, 200n * 10n ** 6n, user.address));
+            expect(await usdc.balanceOf(user.address)).to.equal(8_700n * 10n ** 6n);
+
+            const [position] = await source.getPositions(user.address);
+            expect(position.market).to.deep.equal(usdcMarket);
+            expect(position.amount).to.equal(1_300n * 10n ** 6n);
+        });
+
+        it("Should unwrap WAVAX into qiAVAX and wrap it back on a full withdrawal", async function () {
+            const { provider, comptroller, wavax, qiAVAX, user } = await loadFixture(deployBenqiSourceFixture);
+            const source = new BenqiYieldSource(provider, await comptroller.getAddress());
+            const [avaxMarket] = await source.listMarkets();
+
+            const amount = ethers.parseEther("1");
+            await execute(user, await source.buildDeposit(avaxMarket, amount, user.address));
+            expect(await wavax.balanceOf(user.address)).to.equal(ethers.parseEther("1"));
+            expect(await qiAVAX.getCash()).to.equal(amount);
+
+            const positions = await source.getPositions(user.address);
+            expect(positions.map(position => [position.market.id, position.amount])).to.deep.include([avaxMarket.id, amount]);
+
+            await execute(user, await source.buildWithdraw(avaxMarket, "max", user.address));
+            expect(await qiAVAX.balanceOf(user.address)).to.equal(0n);
+            expect(await wavax.balanceOf(user.address)).to.equal(ethers.parseEther("2"));
+        });
+    });
+});
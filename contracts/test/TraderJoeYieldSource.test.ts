@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { TraderJoeYieldSource } from "../../app/lib/trader-joe-yield-source";
+import { UNISWAP_V2_CONFIG } from "../../app/lib/uniswap-service";
+import { sqrt } from "../../app/lib/units";
+
+const router = new ethers.Interface([
+    "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+    "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+    "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+]);
+const erc20 = new ethers.Interface(["function approve(address spender, uint256 amount)"]);
+
+const USER = ethers.getAddress("0x00000000000000000000000000000000000000aa");
+const PAIRED = ethers.getAddress("0x00000000000000000000000000000000000000bb");
+const PAIR = ethers.getAddress("0x00000000000000000000000000000000000000cc");
+const DEADLINE = 2_000_000_000;
+
+const pair = { pairAddress: PAIR, pairedToken: PAIRED, pairedSymbol: "USDC", pairedDecimals: 6, wavaxIsToken0: true };
+const market = {
+    id: `joe-lp-${PAIR}`,
+    sourceId: TraderJoeYieldSource.ID,
+    protocol: TraderJoeYieldSource.PROTOCOL,
+    network: "Avalanche Fuji",
+    tokenAddress: UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+    tokenSymbol: "WAVAX",
+    decimals: 18,
+};
+
+// A constant-product pair with a 0.3% fee, mirroring UniswapV2Pair and the router's _addLiquidity
+class SimulatedPair {
+    constructor(public reserveWAVAX: bigint, public reservePaired: bigint, public totalSupply: bigint) {}
+
+    static seeded(reserveWAVAX: bigint, reservePaired: bigint) {
+        return new SimulatedPair(reserveWAVAX, reservePaired, sqrt(reserveWAVAX * reservePaired));
+    }
+
+    state() {
+        return { reserveWAVAX: this.reserveWAVAX, reservePaired: this.reservePaired, totalSupply: this.totalSupply };
+    }
+
+    swap(amountIn: bigint, wavaxIn: boolean): bigint {
+        const [reserveIn, reserveOut] = wavaxIn ? [this.reserveWAVAX, this.reservePaired] : [this.reservePaired, this.reserveWAVAX];
+        const amountOut = (amountIn * 997n * reserveOut) / (reserveIn * 1000n + amountIn * 997n);
+        if (wavaxIn) {
+            this.reserveWAVAX += amountIn;
+            this.reservePaired -= amountOut;
+        } else {
+            this.reservePaired += amountIn;
+            this.reserveWAVAX -= amountOut;
+        }
+        return amountOut;
+    }
+
+    addLiquidity(wavaxDesired: bigint, pairedDesired: bigint): { wavax: bigint; paired: bigint; liquidity: bigint } {
+        const pairedOptimal = (wavaxDesired * this.reservePaired) / this.reserveWAVAX;
+        const [wavax, paired] = pairedOptimal <= pairedDesired
+            ? [wavaxDesired, pairedOptimal]
+            : [(pairedDesired * this.reserveWAVAX) / this.reservePaired, pairedDesired];
+        const fromWAVAX = (wavax * this.totalSupply) / this.reserveWAVAX;
+        const fromPaired = (paired * this.totalSupply) / this.reservePaired;
+        const liquidity = fromWAVAX < fromPaired ? fromWAVAX : fromPaired;
+        this.reserveWAVAX += wavax;
+        this.reservePaired += paired;
+        this.totalSupply += liquidity;
+        return { wavax, paired, liquidity };
+    }
+
+    removeLiquidity(liquidity: bigint): { wavax: bigint; paired: bigint } {
+        const wavax = (liquidity * this.reserveWAVAX) / this.totalSupply;
+        const paired = (liquidity * this.reservePaired) / this.totalSupply;
+        this.reserveWAVAX -= wavax;
+        this.reservePaired -= paired;
+        this.totalSupply -= liquidity;
+        return { wavax, paired };
+    }
+}
+
+// Deposit and withdrawal transactions the Trader Joe source builds, replayed against a simulated pair
+describe("TraderJoeYieldSource", function () {
+    // 1,000 WAVAX against 20,000 USDC
+    const seededPair = () => SimulatedPair.seeded(ethers.parseEther("1000"), 20_000n * 10n ** 6n);
+
+    describe("Deposit", function () {
+        it("Should swap part of the WAVAX and add both sides", function () {
+            const pool = seededPair();
+            const amount = ethers.parseEther("10");
+
+            const txs = TraderJoeYieldSource.depositTransactions(market, pair, pool.state(), amount, USER, DEADLINE);
+            expect(txs.map(tx => tx.to)).to.deep.equal([
+                UNISWAP_V2_CONFIG.WAVAX_ADDRESS,
+                UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+                PAIRED,
+                UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+            ]);
+
+            const [spender, approved] = erc20.decodeFunctionData("approve", txs[0].data);
+            expect(spender).to.equal(UNISWAP_V2_CONFIG.ROUTER_ADDRESS);
+            expect(approved).to.equal(amount);
+
+            const swap = router.decodeFunctionData("swapExactTokensForTokens", txs[1].data);
+            expect([...swap.path]).to.deep.equal([UNISWAP_V2_CONFIG.WAVAX_ADDRESS, PAIRED]);
+            expect(swap.to).to.equal(USER);
+            const received = pool.swap(swap.amountIn, true);
+            expect(received).to.be.gte(swap.amountOutMin);
+
+            const add = router.decodeFunctionData("addLiquidity", txs[3].data);
+            expect(add.tokenA).to.equal(UNISWAP_V2_CONFIG.WAVAX_ADDRESS);
+            expect(add.tokenB).to.equal(PAIRED);
+            // The deposit spends exactly `amount` of WAVAX, and no more of the paired token than the swap returned
+            expect(swap.amountIn + add.amountADesired).to.equal(amount);
+            expect(add.amountBDesired).to.be.lte(received);
+            expect(erc20.decodeFunctionData("approve", txs[2].data)[1]).to.equal(add.amountBDesired);
+
+            const { wavax, paired } = pool.addLiquidity(add.amountADesired, add.amountBDesired);
+            expect(wavax).to.be.gte(add.amountAMin);
+            expect(paired).to.be.gte(add.amountBMin);
+            // Only rounding is left in the wallet
+            expect(add.amountADesired - wavax).to.be.lte(10n ** 12n);
+            expect(received - paired).to.be.lte(1n);
+        });
+
+        it("Should be worth the deposit", function () {
+            const pool = seededPair();
+            const amount = ethers.parseEther("10");
+
+            const txs = TraderJoeYieldSource.depositTransactions(market, pair, pool.state(), amount, USER, DEADLINE);
+            const swap = router.decodeFunctionData("swapExactTokensForTokens", txs[1].data);
+            pool.swap(swap.amountIn, true);
+            const add = router.decodeFunctionData("addLiquidity", txs[3].data);
+            const { liquidity } = pool.addLiquidity(add.amountADesired, add.amountBDesired);
+
+            // Valued like getPositions, twice the WAVAX side; the swap's fee and price move shift it by a few bps
+            const value = ((liquidity * pool.reserveWAVAX) / pool.totalSupply) * 2n;
+            expect(value).to.be.closeTo(amount, amount / 500n);
+        });
+
+        it("Should not build a deposit into an empty pool", function () {
+            const pool = new SimulatedPair(0n, 0n, 0n);
+
+            expect(() => TraderJoeYieldSource.depositTransactions(market, pair, pool.state(), 1n, USER, DEADLINE))
+                .to.throw("The Trader Joe pool has no liquidity to swap against");
+        });
+    });
+
+    describe("Round trip", function () {
+        it("Should withdraw what a deposit of the same amount minted", function () {
+            const pool = seededPair();
+            const amount = ethers.parseEther("10");
+
+            const deposit = TraderJoeYieldSource.depositTransactions(market, pair, pool.state(), amount, USER, DEADLINE);
+            pool.swap(router.decodeFunctionData("swapExactTokensForTokens", deposit[1].data).amountIn, true);
+            const add = router.decodeFunctionData("addLiquidity", deposit[3].data);
+            const { liquidity: minted } = pool.addLiquidity(add.amountADesired, add.amountBDesired);
+
+            // buildWithdraw(amount) burns the LP tokens worth `amount`, capped at the balance
+            const requested = TraderJoeYieldSource.liquidityWorth(amount, pool.state());
+            expect(requested).to.be.closeTo(minted, minted / 500n);
+            const liquidity = requested < minted ? requested : minted;
+
+            const withdraw = TraderJoeYieldSource.withdrawTransactions(market, pair, pool.state(), liquidity, USER, DEADLINE);
+            expect(withdraw.map(tx => tx.to)).to.deep.equal([
+                PAIR,
+                UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+                PAIRED,
+                UNISWAP_V2_CONFIG.ROUTER_ADDRESS,
+            ]);
+            expect(erc20.decodeFunctionData("approve", withdraw[0].data)[1]).to.equal(liquidity);
+
+            const remove = router.decodeFunctionData("removeLiquidity", withdraw[1].data);
+            expect(remove.liquidity).to.equal(liquidity);
+            const { wavax, paired } = pool.removeLiquidity(remove.liquidity);
+            expect(wavax).to.be.gte(remove.amountAMin);
+            expect(paired).to.be.gte(remove.amountBMin);
+
+            const swapBack = router.decodeFunctionData("swapExactTokensForTokens", withdraw[3].data);
+            expect([...swapBack.path]).to.deep.equal([PAIRED, UNISWAP_V2_CONFIG.WAVAX_ADDRESS]);
+            expect(swapBack.amountIn).to.equal(paired);
+            const swappedBack = pool.swap(swapBack.amountIn, false);
+            expect(swappedBack).to.be.gte(swapBack.amountOutMin);
+
+            // Both swaps pay the 0.3% fee on about half the amount
+            const returned = wavax + swappedBack;
+            expect(returned).to.be.lte(amount);
+            expect(returned).to.be.gte((amount * 9960n) / 10000n);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { YieldMathHarness } from "../typechain-types";
+import * as yieldMath from "../../app/lib/yield-math";
+import vectors from "./vectors/yield-math.json";
+
+// The same vectors run through YieldMath.sol and the frontend's yield-math module
+describe("YieldMath", function () {
+    async function deployYieldMathHarnessFixture() {
+        const YieldMathHarness = await ethers.getContractFactory("YieldMathHarness");
+        const harness = await YieldMathHarness.deploy() as YieldMathHarness;
+        await harness.waitForDeployment();
+
+        return { harness };
+    }
+
+    describe("Shared vectors", function () {
+        it("Should match calculateCompoundInterest", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateCompoundInterest) {
+                const args = [BigInt(v.principal), BigInt(v.aprBps), BigInt(v.timeSeconds)] as const;
+                expect(await harness.calculateCompoundInterest(...args)).to.equal(BigInt(v.expected));
+                expect(yieldMath.compoundInterest(...args)).to.equal(BigInt(v.expected));
+            }
+        });
+
+        it("Should match calculateCompoundInterestRay", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateCompoundInterestRay) {
+                const args = [BigInt(v.principal), BigInt(v.rateRay), BigInt(v.timeSeconds)] as const;
+                expect(await harness.calculateCompoundInterestRay(...args)).to.equal(BigInt(v.expected));
+                expect(yieldMath.compoundInterestRay(...args)).to.equal(BigInt(v.expected));
+            }
+        });
+
+        it("Should match calculateTimeToTarget", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateTimeToTarget) {
+                const args = [BigInt(v.principal), BigInt(v.targetAmount), BigInt(v.aprBps)] as const;
+                expect(await harness.calculateTimeToTarget(...args)).to.equal(BigInt(v.expected));
+                expect(yieldMath.timeToTarget(...args)).to.equal(BigInt(v.expected));
+            }
+        });
+
+        it("Should match calculateRiskAdjustedYield", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateRiskAdjustedYield) {
+                const args = [BigInt(v.apyBps), BigInt(v.riskScore)] as const;
+                expect(await harness.calculateRiskAdjustedYield(...args)).to.equal(BigInt(v.expected));
+                expect(yieldMath.riskAdjustedYieldBps(...args)).to.equal(BigInt(v.expected));
+            }
+        });
+
+        it("Should match calculateOptimizedAPY", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateOptimizedAPY) {
+                const args = [BigInt(v.aaveAPYBps), BigInt(v.subnetAPYBps)] as const;
+                expect(await harness.calculateOptimizedAPY(...args)).to.equal(BigInt(v.expected));
+                expect(yieldMath.optimizedAPYBps(...args)).to.equal(BigInt(v.expected));
+            }
+        });
+    });
+
+    describe("Compound interest", function () {
+        it("Should compound a 5% APR every second over a year", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            const finalAmount = await harness.calculateCompoundInterest(ethers.parseEther("1"), 500, 365 * 24 * 60 * 60);
+            // e^0.05 = 1.051271096...
+            expect(finalAmount).to.be.closeTo(ethers.parseEther("1.051271096"), ethers.parseEther("0.000000001"));
+        });
+
+        it("Should agree with the floating-point projection", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            for (const v of vectors.calculateCompoundInterest) {
+                if (BigInt(v.principal) < ethers.parseEther("1")) continue;
+                const onChain = await harness.calculateCompoundInterest(v.principal, v.aprBps, v.timeSeconds);
+                const days = Number(v.timeSeconds) / (24 * 60 * 60);
+                const projection = yieldMath.projectYield(1, { percent: Number(v.aprBps) / 100, kind: "APR" }, days);
+                const ratio = Number(onChain) / Number(v.principal);
+                expect(projection.finalValue).to.be.closeTo(ratio, ratio * 1e-9);
+            }
+        });
+
+        it("Should return the shortest time that reaches the target", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            const principal = ethers.parseEther("1");
+            const target = ethers.parseEther("2");
+            const time = await harness.calculateTimeToTarget(principal, target, 1000);
+
+            expect(await harness.calculateCompoundInterest(principal, 1000, time)).to.be.gte(target);
+            expect(await harness.calculateCompoundInterest(principal, 1000, time - 1n)).to.be.lt(target);
+        });
+
+        it("Should report an unreachable target as max uint256", async function () {
+            const { harness } = await loadFixture(deployYieldMathHarnessFixture);
+
+            expect(await harness.calculateTimeToTarget(ethers.parseEther("1"), ethers.parseEther("2"), 0))
+                .to.equal(ethers.MaxUint256);
+        });
+    });
+});
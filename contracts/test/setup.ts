@@ -3,13 +3,6 @@ import { ethers } from "hardhat";
 
 // Global test configuration
 export const TEST_CONFIG = {
-  // Test token addresses (mock addresses for testing)
-  TOKENS: {
-    USDC: "0x5425890298aed601595a70AB815c96711a31Bc65",
-    WAVAX: "0xd00ae08403B9bbb9124bB305C09058E32C39A48c",
-    USDT: "0xB6076C93701D6a07266c31066B298AeC6dd65c2d"
-  },
-  
   // Test APY values (in basis points)
   APY: {
     MIN: 100,  // 1%
@@ -61,23 +54,20 @@ export class TestHelpers {
   }
 }
 
-// Mock data for consistent testing
+// Mock yield data by symbol
 export const MOCK_DATA = {
   tokens: [
     {
-      address: TEST_CONFIG.TOKENS.USDC,
       symbol: "USDC",
       apy: 780,
       tvl: TEST_CONFIG.TVL.DEFAULT
     },
     {
-      address: TEST_CONFIG.TOKENS.WAVAX,
       symbol: "WAVAX", 
       apy: 650,
       tvl: ethers.parseEther("500000")
     },
     {
-      address: TEST_CONFIG.TOKENS.USDT,
       symbol: "USDT",
       apy: 920,
       tvl: ethers.parseEther("750000")